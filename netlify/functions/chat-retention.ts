@@ -0,0 +1,25 @@
+/**
+ * Scheduled daily purge of expired Safer-Use chat sessions.
+ * Calls the retention endpoint of the deployed site with CRON_SECRET.
+ */
+
+export const config = { schedule: "@daily" };
+
+export default async function handler() {
+  const siteUrl = process.env.URL;
+  const secret = process.env.CRON_SECRET;
+
+  if (!siteUrl || !secret) {
+    console.error("[chat-retention] URL or CRON_SECRET missing");
+    return new Response("Missing server configuration", { status: 500 });
+  }
+
+  const res = await fetch(`${siteUrl}/api/admin/chat-sessions/retention`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const body = await res.text();
+  if (!res.ok) console.error(`[chat-retention] ${res.status} ${body}`);
+
+  return new Response(body, { status: res.status, headers: { "Content-Type": "application/json" } });
+}
@@ -0,0 +1,25 @@
+/**
+ * Scheduled background job worker (ai_jobs).
+ * Calls the worker endpoint of the deployed site with CRON_SECRET.
+ */
+
+export const config = { schedule: "* * * * *" };
+
+export default async function handler() {
+  const siteUrl = process.env.URL;
+  const secret = process.env.CRON_SECRET;
+
+  if (!siteUrl || !secret) {
+    console.error("[job-worker] URL or CRON_SECRET missing");
+    return new Response("Missing server configuration", { status: 500 });
+  }
+
+  const res = await fetch(`${siteUrl}/api/admin/jobs/worker`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const body = await res.text();
+  if (!res.ok) console.error(`[job-worker] ${res.status} ${body}`);
+
+  return new Response(body, { status: res.status, headers: { "Content-Type": "application/json" } });
+}
@@ -0,0 +1,78 @@
+/**
+ * eval-safer-use.ts
+ *
+ * Runs the Safer-Use scenario suite against the configured AI provider (or
+ * the one given with --provider) and prints a scored report. Use it before
+ * deploying changes to src/lib/ai/safer-use.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/eval-safer-use.ts [--provider openai|anthropic|local|mock] [--only id1,id2]
+ *                                     [--scenarios path.json] [--json report.json]
+ *
+ * Exits with code 1 if any scenario fails.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as url from "node:url";
+
+const SCRIPT_DIR =
+  typeof __dirname !== "undefined"
+    ? __dirname
+    : path.dirname(url.fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(SCRIPT_DIR, "..");
+const DEFAULT_SCENARIOS = path.join(ROOT_DIR, "data", "safer-use-scenarios.json");
+
+function argValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const provider = argValue(args, "--provider");
+  const only = argValue(args, "--only")?.split(",").map((s) => s.trim());
+  const scenariosFile = path.resolve(argValue(args, "--scenarios") ?? DEFAULT_SCENARIOS);
+  const jsonOut = argValue(args, "--json");
+
+  // Before the AI modules read their configuration
+  if (provider) process.env.AI_PROVIDER_SAFER_USE = provider;
+
+  const { getAiProvider } = await import("../src/lib/ai/provider");
+  const { formatEvalReport, parseScenarios, runSaferUseEval } = await import("../src/lib/ai/safer-use-eval");
+
+  const active = getAiProvider("safer_use");
+  if (active === "none") {
+    console.error(
+      "Kein AI-Provider für safer_use konfiguriert – es würde nur die Fallback-Antwort bewertet.\n" +
+        "Setze AI_PROVIDER / einen API-Key oder nutze --provider mock."
+    );
+    process.exit(1);
+  }
+
+  let scenarios = parseScenarios(JSON.parse(fs.readFileSync(scenariosFile, "utf-8")));
+  if (only) scenarios = scenarios.filter((s) => only.includes(s.id));
+  if (scenarios.length === 0) {
+    console.error("Keine Szenarien ausgewählt.");
+    process.exit(1);
+  }
+
+  console.log(`${scenarios.length} Szenarien gegen "${active}" …\n`);
+  const report = await runSaferUseEval(scenarios, {
+    provider: active,
+    onResult: (r) => console.log(`  ${r.passed ? "✓" : "✗"} ${r.id}`),
+  });
+
+  console.log(`\n${formatEvalReport(report)}`);
+  if (jsonOut) {
+    fs.writeFileSync(path.resolve(jsonOut), JSON.stringify(report, null, 2));
+    console.log(`\nBericht gespeichert: ${jsonOut}`);
+  }
+
+  process.exit(report.failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
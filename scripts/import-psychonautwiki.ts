@@ -22,6 +22,7 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 
 import * as url from "node:url";
+import { psychonautwikiHttp } from "../src/lib/connectors/clients";
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -32,9 +33,6 @@ const PSYCHONAUTWIKI_BASE = "https://psychonautwiki.org/wiki/";
 const LICENSE_URL = "https://psychonautwiki.org/wiki/Copyrights";
 const LICENSE_TEXT = "Content sourced from PsychonautWiki, licensed under CC BY-SA 4.0";
 
-/** Minimum milliseconds between consecutive API requests */
-const RATE_LIMIT_MS = 2000;
-
 /** Cache validity in milliseconds (24 hours) */
 const CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
 
@@ -213,10 +211,6 @@ const SUBSTANCES_QUERY = `{
 // Helpers
 // ---------------------------------------------------------------------------
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 function slugify(name: string): string {
   return name
     .toLowerCase()
@@ -241,24 +235,16 @@ function isCacheFresh(): boolean {
 // API Fetch with Rate Limiting
 // ---------------------------------------------------------------------------
 
-let lastRequestTime = 0;
-
+// The shared client keeps 2 s between requests.
 async function graphqlFetch<T>(query: string): Promise<T> {
-  const now = Date.now();
-  const elapsed = now - lastRequestTime;
-  if (elapsed < RATE_LIMIT_MS) {
-    await sleep(RATE_LIMIT_MS - elapsed);
-  }
-  lastRequestTime = Date.now();
-
-  const response = await fetch(API_URL, {
+  const response = await psychonautwikiHttp.fetch(API_URL, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ query }),
   });
 
   if (!response.ok) {
-    throw new Error(`PsychonautWiki API error: ${response.status} ${response.statusText}`);
+    throw new Error(`PsychonautWiki API error: HTTP ${response.status}`);
   }
 
   const json = (await response.json()) as { data: T; errors?: { message: string }[] };
@@ -0,0 +1,48 @@
+/**
+ * job-worker.ts
+ *
+ * Runs the ai_jobs background worker outside of the scheduled function,
+ * e.g. locally or on a long-running host. Needs NEXT_PUBLIC_SUPABASE_URL
+ * and SUPABASE_SERVICE_ROLE_KEY.
+ *
+ * Usage:
+ *   npx tsx scripts/job-worker.ts [--once] [--interval 5000] [--batch 1]
+ *
+ * Without --once it polls until interrupted (Ctrl+C finishes the current job).
+ */
+
+function argValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const once = args.includes("--once");
+  const intervalMs = Number(argValue(args, "--interval") ?? 5000);
+  const batchSize = Number(argValue(args, "--batch") ?? 1);
+
+  const { runWorker } = await import("../src/lib/jobs/worker");
+
+  let stopping = false;
+  process.on("SIGINT", () => {
+    console.log("\nBeende nach dem aktuellen Job …");
+    stopping = true;
+  });
+
+  do {
+    const result = await runWorker({ batchSize, timeBudgetMs: 60_000 });
+    if (result.processed > 0) {
+      const { done, retry, failed, cancelled } = result.outcomes;
+      console.log(
+        `[${new Date().toISOString()}] ${result.processed} Jobs: ${done} fertig, ${retry} erneut geplant, ${failed} fehlgeschlagen, ${cancelled} abgebrochen`
+      );
+    }
+    if (!once && !stopping) await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  } while (!once && !stopping);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
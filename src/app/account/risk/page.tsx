@@ -6,7 +6,10 @@ import Link from "next/link";
 import { createClientSafe } from "@/lib/supabase/client";
 import { computeRiskOverlay } from "@/lib/risk/compute";
 import { RiskOverlayCard } from "@/components/risk/RiskOverlayCard";
-import type { DosingLogEntry, RiskOverlayResult } from "@/lib/risk/models";
+import { ToleranceCard } from "@/components/risk/ToleranceCard";
+import type { DosingLogEntry, RiskOverlayResult, ToleranceEntry } from "@/lib/risk/models";
+import type { SubstanceCategory } from "@/lib/risk/categories";
+import { resolveSubstance, STATIC_TAXONOMY } from "@/lib/taxonomy/taxonomy";
 
 function todayAt(hours: number, minutes: number): string {
   const d = new Date();
@@ -21,6 +24,14 @@ const DEMO_ENTRIES: DosingLogEntry[] = [
   { id: "demo-4", substance: "kratom", dose_mg: null, dose_g: 5, route: "oral", notes: null, taken_at: todayAt(8, 0) },
 ];
 
+/** Risk overlay for the demo entries, computed locally with the static taxonomy. */
+function computeDemoOverlay(overrides: Record<string, SubstanceCategory>): RiskOverlayResult {
+  const categoryOverrides = Object.fromEntries(
+    Object.entries(overrides).map(([name, category]) => [resolveSubstance(STATIC_TAXONOMY, name).key, category])
+  );
+  return computeRiskOverlay(DEMO_ENTRIES, new Date(), { categoryOverrides });
+}
+
 function RiskPageInner() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -29,8 +40,10 @@ function RiskPageInner() {
   const [loading, setLoading] = useState(true);
   const [entries, setEntries] = useState<DosingLogEntry[]>([]);
   const [result, setResult] = useState<RiskOverlayResult | null>(null);
+  const [tolerance, setTolerance] = useState<ToleranceEntry[]>([]);
   const [demoLoaded, setDemoLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<string, SubstanceCategory>>({});
 
   const isDemo = searchParams.get("demo") === "1";
 
@@ -46,26 +59,30 @@ function RiskPageInner() {
         return;
       }
 
-      if (isDemo) {
+      if (isDemo || demoLoaded) {
         setEntries(DEMO_ENTRIES);
-        setResult(computeRiskOverlay(DEMO_ENTRIES));
+        setResult(computeDemoOverlay(categoryOverrides));
         setDemoLoaded(true);
         setLoading(false);
         return;
       }
 
-      const now = new Date();
-      const from = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
-      const to = now.toISOString();
-
       try {
-        const res = await fetch(`/api/dosing-logs?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`);
+        // Computed server-side so dose reference ranges stay on the server
+        const params = new URLSearchParams();
+        for (const [name, category] of Object.entries(categoryOverrides)) {
+          params.append("category", `${name}:${category}`);
+        }
+        const res = await fetch(`/api/dosing-logs/risk?${params}`);
         if (res.ok) {
-          const data: DosingLogEntry[] = await res.json();
-          setEntries(data);
-          if (data.length > 0) {
-            setResult(computeRiskOverlay(data));
-          }
+          const data: {
+            entries: DosingLogEntry[];
+            result: RiskOverlayResult | null;
+            tolerance: ToleranceEntry[];
+          } = await res.json();
+          setEntries(data.entries);
+          setResult(data.result);
+          setTolerance(data.tolerance);
         } else {
           setError("Daten konnten nicht geladen werden. Bitte versuche es erneut.");
         }
@@ -77,14 +94,18 @@ function RiskPageInner() {
       setLoading(false);
     }
     load();
-  }, [supabase, router, isDemo]);
+  }, [supabase, router, isDemo, demoLoaded, categoryOverrides]);
 
   function loadDemo() {
     setEntries(DEMO_ENTRIES);
-    setResult(computeRiskOverlay(DEMO_ENTRIES));
+    setResult(computeDemoOverlay(categoryOverrides));
     setDemoLoaded(true);
   }
 
+  function assignCategory(substance: string, category: SubstanceCategory) {
+    setCategoryOverrides((prev) => ({ ...prev, [substance]: category }));
+  }
+
   if (loading) {
     return (
       <div className="mx-auto max-w-2xl px-4 py-16">
@@ -98,7 +119,7 @@ function RiskPageInner() {
   return (
     <div className="mx-auto max-w-2xl px-4 py-10">
       <h1 className="mb-6 text-2xl font-bold text-neutral-900 dark:text-neutral-50">
-        Risiko-Overlay (letzte 24&nbsp;h)
+        Risiko-Overlay (letzte 72&nbsp;h)
       </h1>
 
       {error && (
@@ -114,12 +135,12 @@ function RiskPageInner() {
               Demo-Daten geladen – diese Einträge werden nicht gespeichert.
             </p>
           )}
-          <RiskOverlayCard result={result} />
+          <RiskOverlayCard result={result} onAssignCategory={assignCategory} />
         </>
       ) : (
         <div className="rounded-lg border border-dashed border-neutral-300 p-8 text-center dark:border-neutral-700">
           <p className="mb-2 text-neutral-600 dark:text-neutral-400">
-            Keine Einträge in den letzten 24&nbsp;Stunden.
+            Keine Einträge in den letzten 72&nbsp;Stunden.
           </p>
           <p className="mb-4 text-sm text-neutral-500 dark:text-neutral-500">
             Füge Einträge im{" "}
@@ -137,6 +158,12 @@ function RiskPageInner() {
         </div>
       )}
 
+      {!demoLoaded && tolerance.length > 0 && (
+        <div className="mt-6">
+          <ToleranceCard tolerance={tolerance} />
+        </div>
+      )}
+
       <div className="mt-6">
         <Link
           href="/account"
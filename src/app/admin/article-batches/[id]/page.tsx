@@ -0,0 +1,76 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Layers } from "lucide-react";
+import { BATCH_STATE_LABELS, getArticleBatch, type BatchItemState } from "@/lib/ai/article-batch";
+import { Card, CardContent } from "@/components/ui/card";
+import { ReviewQueue } from "./review-queue";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminArticleBatchPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const detail = await getArticleBatch(id).catch(() => null);
+  if (!detail) notFound();
+
+  const { batch, articles, jobs, summary } = detail;
+  const withArticle = new Set(articles.map((a) => a.substance_id));
+  const failedJobs = jobs.filter(
+    (j) => (j.status === "failed" || j.status === "cancelled") && !withArticle.has(j.substance_id)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href="/admin/article-batches"
+          className="mb-2 inline-flex items-center gap-1 text-sm text-neutral-500 transition-colors hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-neutral-50"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Alle Batches
+        </Link>
+        <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
+          <Layers className="h-7 w-7 text-cyan-500" />
+          Review-Queue
+        </h1>
+        <p className="mt-1 text-neutral-500 dark:text-neutral-400">
+          {batch.selection.seed_pack ?? [batch.selection.category, batch.selection.query].filter(Boolean).join(" · ")}
+          {" · "}
+          <span className="font-mono text-sm">{batch.template_key}</span>
+          {" · "}
+          {(Object.entries(summary.counts) as [BatchItemState, number][])
+            .filter(([, count]) => count > 0)
+            .map(([state, count]) => `${count} ${BATCH_STATE_LABELS[state]}`)
+            .join(" · ")}
+        </p>
+        {summary.counts.pending > 0 && (
+          <p className="mt-1 text-sm text-neutral-500 dark:text-neutral-400">
+            Fortschritt unter{" "}
+            <Link href="/admin/jobs" className="text-cyan-700 hover:underline dark:text-cyan-400">
+              Hintergrund-Jobs
+            </Link>
+            ; neu laden, um fertige Entwürfe zu sehen.
+          </p>
+        )}
+      </div>
+
+      {(batch.unmatched.length > 0 || failedJobs.length > 0) && (
+        <Card>
+          <CardContent className="space-y-2 pt-6 text-sm text-neutral-700 dark:text-neutral-300">
+            {batch.unmatched.length > 0 && (
+              <p>
+                <span className="font-medium">Ohne passende Substanz:</span> {batch.unmatched.join(", ")}
+              </p>
+            )}
+            {failedJobs.map((job) => (
+              <p key={job.id} className="text-red-700 dark:text-red-400">
+                {job.substance_name ?? job.substance_id}: {job.error ?? "Job fehlgeschlagen"}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <ReviewQueue items={articles} stateLabels={BATCH_STATE_LABELS} />
+    </div>
+  );
+}
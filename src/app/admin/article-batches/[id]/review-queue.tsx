@@ -0,0 +1,250 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { AlertTriangle, CheckCircle, ExternalLink, Loader2, Save, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { GeneratedArticle, GeneratedArticleStatus } from "@/lib/types";
+
+interface ReviewItem extends GeneratedArticle {
+  substance: { name: string; summary: string | null } | null;
+}
+
+const STATUS_VARIANT: Record<GeneratedArticleStatus, "info" | "high" | "low" | "secondary" | "moderate"> = {
+  draft: "secondary",
+  review: "info",
+  blocked: "high",
+  mapped: "low",
+  rejected: "moderate",
+};
+
+async function send(url: string, method: string, body: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error ?? `HTTP ${res.status}`);
+  return data;
+}
+
+/**
+ * Review queue of a batch: list on the left, the selected draft next to the
+ * substance facts it should be checked against, with approve / edit / reject.
+ */
+export function ReviewQueue({
+  items: initialItems,
+  stateLabels,
+}: {
+  items: ReviewItem[];
+  stateLabels: Record<GeneratedArticleStatus, string>;
+}) {
+  const router = useRouter();
+  const [items, setItems] = useState(initialItems);
+  const [selectedId, setSelectedId] = useState(
+    initialItems.find((i) => i.status === "review" || i.status === "blocked")?.id ?? initialItems[0]?.id ?? null
+  );
+  const [content, setContent] = useState(items.find((i) => i.id === selectedId)?.content_mdx ?? "");
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState<"save" | "approve" | "reject" | null>(null);
+  const [message, setMessage] = useState<{ text: string; type: "success" | "error" } | null>(null);
+
+  const selected = items.find((i) => i.id === selectedId) ?? null;
+  const editable = selected ? ["draft", "review", "blocked"].includes(selected.status) : false;
+  const dirty = !!selected && content !== selected.content_mdx;
+
+  const select = (item: ReviewItem) => {
+    setSelectedId(item.id);
+    setContent(item.content_mdx);
+    setNote(item.review_note ?? "");
+    setMessage(null);
+  };
+
+  const replace = (updated: Partial<ReviewItem> & { id: string }) =>
+    setItems((current) => current.map((i) => (i.id === updated.id ? { ...i, ...updated } : i)));
+
+  const nextOpen = (afterId: string) =>
+    items.find((i) => i.id !== afterId && (i.status === "review" || i.status === "blocked"));
+
+  const run = async (action: "save" | "approve" | "reject") => {
+    if (!selected) return;
+    setBusy(action);
+    setMessage(null);
+    try {
+      if (action === "save" || dirty) {
+        const { article } = await send(`/api/admin/ai/generated-articles/${selected.id}`, "PATCH", {
+          content_mdx: content,
+        });
+        replace(article);
+        if (action === "approve" && article.status === "blocked") {
+          throw new Error(`Nach der Bearbeitung geblockt: ${article.blocked_reasons.join(", ")}`);
+        }
+        if (action === "save") {
+          setMessage(
+            article.status === "blocked"
+              ? { text: `Gespeichert, aber geblockt: ${article.blocked_reasons.join(", ")}`, type: "error" }
+              : { text: "Gespeichert.", type: "success" }
+          );
+          return;
+        }
+      }
+
+      const data = await send(`/api/admin/ai/generated-articles/${selected.id}/review`, "POST", {
+        decision: action,
+        note,
+      });
+      if (action === "approve") {
+        replace({ id: selected.id, status: "mapped", article_id: data.mapped.article_id, review_note: note || null });
+        setMessage({ text: `Artikel "${data.mapped.title}" als Entwurf angelegt.`, type: "success" });
+      } else {
+        replace(data.article);
+        setMessage({ text: "Abgelehnt.", type: "success" });
+      }
+
+      const next = nextOpen(selected.id);
+      if (next) select(next);
+      router.refresh();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : "Unbekannter Fehler", type: "error" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+        Noch keine Entwürfe – die Jobs laufen im Hintergrund (siehe Jobs).
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[14rem_1fr]">
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.id}>
+            <button
+              type="button"
+              onClick={() => select(item)}
+              className={`flex w-full items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm transition-colors ${
+                item.id === selectedId
+                  ? "bg-neutral-200 dark:bg-neutral-800"
+                  : "hover:bg-neutral-100 dark:hover:bg-neutral-900"
+              }`}
+            >
+              <span className="truncate text-neutral-800 dark:text-neutral-200">{item.substance?.name ?? "–"}</span>
+              <Badge variant={STATUS_VARIANT[item.status]}>{stateLabels[item.status]}</Badge>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="flex items-center gap-2 text-xl font-semibold text-neutral-900 dark:text-neutral-50">
+              {selected.substance?.name ?? "Unbekannte Substanz"}
+              {selected.template_version && <Badge variant="outline">Template v{selected.template_version}</Badge>}
+            </h2>
+            {selected.article_id && (
+              <Link
+                href={`/admin/articles/${selected.article_id}`}
+                className="inline-flex items-center gap-1 text-sm text-cyan-700 hover:underline dark:text-cyan-400"
+              >
+                Zum Artikel <ExternalLink className="h-3 w-3" />
+              </Link>
+            )}
+          </div>
+
+          {selected.status === "blocked" && selected.blocked_reasons.length > 0 && (
+            <p className="flex items-start gap-2 rounded-md bg-red-50 p-3 text-sm text-red-800 dark:bg-red-900/20 dark:text-red-300">
+              <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+              Geblockt: {selected.blocked_reasons.join(", ")}. Nach einer Bearbeitung wird erneut geprüft.
+            </p>
+          )}
+
+          <div className="grid gap-4 xl:grid-cols-2">
+            <div className="space-y-3 rounded-md border border-neutral-200 p-4 text-sm dark:border-neutral-800">
+              <h3 className="font-medium text-neutral-900 dark:text-neutral-50">Substanzdaten</h3>
+              <p className="whitespace-pre-wrap text-neutral-700 dark:text-neutral-300">
+                {selected.substance?.summary || "Keine Zusammenfassung hinterlegt."}
+              </p>
+              <h3 className="font-medium text-neutral-900 dark:text-neutral-50">Quellen</h3>
+              {selected.citations.length === 0 ? (
+                <p className="text-neutral-500 dark:text-neutral-400">Keine Quellen.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {selected.citations.map((c) => (
+                    <li key={c.url}>
+                      <a
+                        href={c.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-cyan-700 hover:underline dark:text-cyan-400"
+                      >
+                        {c.title} <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-neutral-900 dark:text-neutral-50">Entwurf (MDX)</h3>
+              <Textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                readOnly={!editable}
+                className="min-h-[28rem] font-mono text-xs"
+              />
+            </div>
+          </div>
+
+          {editable ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <Input
+                placeholder="Notiz (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="max-w-sm"
+              />
+              <Button variant="outline" onClick={() => run("save")} disabled={!!busy || !dirty}>
+                {busy === "save" ? <Loader2 className="animate-spin" /> : <Save />}
+                Speichern
+              </Button>
+              <Button onClick={() => run("approve")} disabled={!!busy || (selected.status === "blocked" && !dirty)}>
+                {busy === "approve" ? <Loader2 className="animate-spin" /> : <CheckCircle />}
+                Übernehmen
+              </Button>
+              <Button variant="destructive" onClick={() => run("reject")} disabled={!!busy}>
+                {busy === "reject" ? <Loader2 className="animate-spin" /> : <XCircle />}
+                Ablehnen
+              </Button>
+            </div>
+          ) : (
+            selected.review_note && (
+              <p className="text-sm text-neutral-600 dark:text-neutral-400">Notiz: {selected.review_note}</p>
+            )
+          )}
+
+          {message && (
+            <p
+              className={`text-sm ${
+                message.type === "error" ? "text-red-600 dark:text-red-400" : "text-green-700 dark:text-green-400"
+              }`}
+            >
+              {message.text}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
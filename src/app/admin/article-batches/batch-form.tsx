@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Layers, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/select";
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+/** Creates a batch from a seed pack or a substance filter and opens its review queue. */
+export function BatchForm({ templates, seedPacks }: { templates: Option[]; seedPacks: Option[] }) {
+  const router = useRouter();
+  const [templateKey, setTemplateKey] = useState(templates[0]?.value ?? "");
+  const [mode, setMode] = useState<"seedPack" | "filter">("seedPack");
+  const [seedPack, setSeedPack] = useState(seedPacks[0]?.value ?? "");
+  const [category, setCategory] = useState("");
+  const [query, setQuery] = useState("");
+  const [tone, setTone] = useState("scientific");
+  const [length, setLength] = useState("medium");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/ai/article-batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          templateKey,
+          selection: mode === "seedPack" ? { seedPack } : { category: category || undefined, query: query || undefined },
+          tone,
+          length,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error ?? `HTTP ${res.status}`);
+      router.push(`/admin/article-batches/${data.batch.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unbekannter Fehler");
+      setSubmitting(false);
+    }
+  };
+
+  if (templates.length === 0) {
+    return <p className="text-sm text-neutral-500 dark:text-neutral-400">Keine aktiven Artikel-Templates vorhanden.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <label className="space-y-1 text-sm">
+          <span className="font-medium text-neutral-700 dark:text-neutral-300">Template</span>
+          <NativeSelect value={templateKey} onValueChange={setTemplateKey}>
+            {templates.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </NativeSelect>
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="font-medium text-neutral-700 dark:text-neutral-300">Ton</span>
+          <NativeSelect value={tone} onValueChange={setTone}>
+            <option value="scientific">Wissenschaftlich</option>
+            <option value="friendly">Freundlich</option>
+            <option value="clinical">Klinisch</option>
+          </NativeSelect>
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="font-medium text-neutral-700 dark:text-neutral-300">Länge</span>
+          <NativeSelect value={length} onValueChange={setLength}>
+            <option value="short">Kurz</option>
+            <option value="medium">Mittel</option>
+            <option value="long">Lang</option>
+          </NativeSelect>
+        </label>
+      </div>
+
+      <div className="flex gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={mode === "seedPack"} onChange={() => setMode("seedPack")} />
+          Seed-Pack
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={mode === "filter"} onChange={() => setMode("filter")} />
+          Gefilterte Substanzliste
+        </label>
+      </div>
+
+      {mode === "seedPack" ? (
+        <NativeSelect value={seedPack} onValueChange={setSeedPack}>
+          {seedPacks.map((p) => (
+            <option key={p.value} value={p.value}>
+              {p.label}
+            </option>
+          ))}
+        </NativeSelect>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Input placeholder="Kategorie, z. B. stimulant" value={category} onChange={(e) => setCategory(e.target.value)} />
+          <Input placeholder="Name enthält …" value={query} onChange={(e) => setQuery(e.target.value)} />
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <Button onClick={submit} disabled={submitting || !templateKey}>
+          {submitting ? <Loader2 className="animate-spin" /> : <Layers />}
+          Batch starten
+        </Button>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { BATCH_STATE_LABELS, listArticleBatches, type BatchItemState } from "@/lib/ai/article-batch";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { SEED_PACKS } from "@/lib/substances/seed-packs";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Layers } from "lucide-react";
+import Link from "next/link";
+import { BatchForm } from "./batch-form";
+
+export const dynamic = "force-dynamic";
+
+async function loadTemplates(): Promise<{ value: string; label: string }[]> {
+  try {
+    const { data } = await createAdminClient()
+      .from("article_templates")
+      .select("key, name")
+      .eq("enabled", true)
+      .order("name");
+    return (data ?? []).map((t) => ({ value: t.key, label: t.name }));
+  } catch {
+    return [];
+  }
+}
+
+export default async function AdminArticleBatchesPage() {
+  const [templates, batches] = await Promise.all([loadTemplates(), listArticleBatches().catch(() => [])]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
+          <Layers className="h-7 w-7 text-cyan-500" />
+          Artikel-Batches
+        </h1>
+        <p className="mt-1 text-neutral-500 dark:text-neutral-400">
+          Artikel für ein Seed-Pack oder eine gefilterte Substanzliste generieren und in der Review-Queue prüfen.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Neuer Batch</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BatchForm
+            templates={templates}
+            seedPacks={SEED_PACKS.map((p) => ({ value: p.id, label: `${p.label} (${p.substances.length})` }))}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Letzte Batches</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {batches.length === 0 ? (
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">Noch keine Batches.</p>
+          ) : (
+            <ul className="divide-y divide-neutral-100 dark:divide-neutral-800">
+              {batches.map((batch) => (
+                <li key={batch.id} className="py-3">
+                  <Link
+                    href={`/admin/article-batches/${batch.id}`}
+                    className="flex items-center justify-between gap-4 hover:opacity-80"
+                  >
+                    <div>
+                      <p className="font-medium text-neutral-900 dark:text-neutral-50">
+                        {batch.selection.seed_pack ??
+                          [batch.selection.category, batch.selection.query].filter(Boolean).join(" · ")}
+                        <span className="ml-2 font-mono text-xs text-neutral-500">{batch.template_key}</span>
+                      </p>
+                      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                        {new Date(batch.created_at).toLocaleString("de-DE", { dateStyle: "medium", timeStyle: "short" })}
+                        {" · "}
+                        {batch.summary.total} Substanzen
+                      </p>
+                    </div>
+                    <p className="text-right text-xs text-neutral-600 dark:text-neutral-400">
+                      {(Object.entries(batch.summary.counts) as [BatchItemState, number][])
+                        .filter(([, count]) => count > 0)
+                        .map(([state, count]) => `${count} ${BATCH_STATE_LABELS[state]}`)
+                        .join(" · ")}
+                    </p>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
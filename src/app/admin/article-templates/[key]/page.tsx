@@ -0,0 +1,47 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, History } from "lucide-react";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { listTemplateVersions } from "@/lib/ai/template-versions";
+import { TemplateVersionsPanel } from "./template-versions-panel";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminArticleTemplatePage({ params }: { params: Promise<{ key: string }> }) {
+  const { key } = await params;
+
+  let data: Awaited<ReturnType<typeof listTemplateVersions>>;
+  let substances: { id: string; name: string }[] = [];
+  try {
+    const supabase = createAdminClient();
+    data = await listTemplateVersions(supabase, key);
+    const { data: rows } = await supabase.from("substances").select("id, name").order("name").limit(2000);
+    substances = rows ?? [];
+  } catch {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href="/admin/article-templates"
+          className="mb-2 inline-flex items-center gap-1 text-sm text-neutral-500 transition-colors hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-neutral-50"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Alle Artikel-Templates
+        </Link>
+        <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
+          <History className="h-7 w-7 text-cyan-500" />
+          {data.template.name}
+        </h1>
+        <p className="mt-1 text-neutral-500 dark:text-neutral-400">
+          <span className="font-mono text-sm">{data.template.key}</span> · aktuelle Version v
+          {data.template.current_version ?? 1} · {data.versions.length} Versionen
+        </p>
+      </div>
+
+      <TemplateVersionsPanel template={data.template} versions={data.versions} substances={substances} />
+    </div>
+  );
+}
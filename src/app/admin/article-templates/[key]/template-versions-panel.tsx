@@ -0,0 +1,348 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { CheckCircle, GitCompare, Loader2, RotateCcw, Save, Scale, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { ArticleTemplate, ArticleTemplateVersion } from "@/lib/types";
+import type { TemplateVersionDiff } from "@/lib/ai/template-versions";
+import type { ArticleDraftResult, TemplateComparison } from "@/lib/ai/generate-article";
+import { waitForJob } from "@/lib/jobs/client";
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error ?? `HTTP ${res.status}`);
+  return data as T;
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+  return { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) };
+}
+
+function ErrorText({ error }: { error: string | null }) {
+  return error ? <p className="text-sm text-red-600 dark:text-red-400">{error}</p> : null;
+}
+
+function VersionSelect({
+  versions,
+  value,
+  onChange,
+}: {
+  versions: ArticleTemplateVersion[];
+  value: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <NativeSelect value={String(value)} onValueChange={(v) => onChange(Number(v))} className="w-40">
+      {versions.map((v) => (
+        <option key={v.version} value={v.version}>
+          v{v.version}
+          {v.note ? ` – ${v.note.slice(0, 30)}` : ""}
+        </option>
+      ))}
+    </NativeSelect>
+  );
+}
+
+function DraftColumn({ label, draft }: { label: string; draft: ArticleDraftResult }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="font-medium text-neutral-900 dark:text-neutral-50">{label}</h3>
+        {draft.passed ? (
+          <Badge variant="low">
+            <CheckCircle className="mr-1 h-3 w-3" />
+            Filter bestanden
+          </Badge>
+        ) : (
+          <Badge variant="high">
+            <XCircle className="mr-1 h-3 w-3" />
+            Geblockt
+          </Badge>
+        )}
+        <span className="text-xs text-neutral-500 dark:text-neutral-400">
+          {draft.provider} · {draft.model} · {draft.content_mdx.split(/\s+/).filter(Boolean).length} Wörter
+        </span>
+      </div>
+      {draft.blocked_reasons.length > 0 && (
+        <p className="text-xs text-red-700 dark:text-red-400">{draft.blocked_reasons.join(", ")}</p>
+      )}
+      <pre className="max-h-[32rem] overflow-auto whitespace-pre-wrap rounded-md bg-neutral-100 p-3 text-xs dark:bg-neutral-900">
+        {draft.content_mdx}
+      </pre>
+    </div>
+  );
+}
+
+/** Versions, new-version editor, diff between versions and A/B comparison. */
+export function TemplateVersionsPanel({
+  template,
+  versions,
+  substances,
+}: {
+  template: ArticleTemplate;
+  versions: ArticleTemplateVersion[];
+  substances: { id: string; name: string }[];
+}) {
+  const router = useRouter();
+  const current = template.current_version ?? 1;
+  const previous = versions.find((v) => v.version !== current)?.version ?? current;
+
+  // New version
+  const [promptSystem, setPromptSystem] = useState(template.prompt_system);
+  const [promptUser, setPromptUser] = useState(template.prompt_user);
+  const [outputSchema, setOutputSchema] = useState(JSON.stringify(template.output_schema ?? {}, null, 2));
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Activation
+  const [activating, setActivating] = useState<number | null>(null);
+
+  // Diff
+  const [diffFrom, setDiffFrom] = useState(previous);
+  const [diffTo, setDiffTo] = useState(current);
+  const [diff, setDiff] = useState<TemplateVersionDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [diffError, setDiffError] = useState<string | null>(null);
+
+  // A/B comparison
+  const [substanceId, setSubstanceId] = useState(substances[0]?.id ?? "");
+  const [versionA, setVersionA] = useState(previous);
+  const [versionB, setVersionB] = useState(current);
+  const [comparison, setComparison] = useState<TemplateComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  const base = `/api/admin/ai/templates/${template.key}`;
+
+  const saveVersion = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      let schema: Record<string, unknown>;
+      try {
+        schema = JSON.parse(outputSchema || "{}");
+      } catch {
+        throw new Error("output_schema ist kein gültiges JSON.");
+      }
+      await request(
+        `${base}/versions`,
+        jsonInit("POST", { prompt_system: promptSystem, prompt_user: promptUser, output_schema: schema, note })
+      );
+      setNote("");
+      router.refresh();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activate = async (version: ArticleTemplateVersion) => {
+    setActivating(version.version);
+    try {
+      await request(`${base}/versions/${version.version}/activate`, { method: "POST" });
+      setPromptSystem(version.prompt_system);
+      setPromptUser(version.prompt_user);
+      setOutputSchema(JSON.stringify(version.output_schema ?? {}, null, 2));
+      router.refresh();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    } finally {
+      setActivating(null);
+    }
+  };
+
+  const loadDiff = async () => {
+    setDiffLoading(true);
+    setDiffError(null);
+    try {
+      setDiff(await request<TemplateVersionDiff>(`${base}/diff?from=${diffFrom}&to=${diffTo}`));
+    } catch (err) {
+      setDiffError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    } finally {
+      setDiffLoading(false);
+    }
+  };
+
+  const compare = async () => {
+    setComparing(true);
+    setCompareError(null);
+    setComparison(null);
+    try {
+      // Two generations run in the background worker
+      const { jobId } = await request<{ jobId: string }>(`${base}/compare`, jsonInit("POST", { substanceId, versionA, versionB }));
+      setComparison(await waitForJob<TemplateComparison>(jobId));
+    } catch (err) {
+      setCompareError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Versionen</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y divide-neutral-100 text-sm dark:divide-neutral-800">
+            {versions.map((v) => (
+              <li key={v.version} className="flex items-center justify-between gap-4 py-2">
+                <div className="flex items-center gap-3">
+                  <span className="font-mono font-medium">v{v.version}</span>
+                  {v.version === current && <Badge variant="info">aktuell</Badge>}
+                  <span className="text-neutral-600 dark:text-neutral-400">{v.note ?? "–"}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                    {new Date(v.created_at).toLocaleString("de-DE", { dateStyle: "medium", timeStyle: "short" })}
+                  </span>
+                  {v.version !== current && (
+                    <Button variant="ghost" size="sm" onClick={() => activate(v)} disabled={activating !== null}>
+                      {activating === v.version ? <Loader2 className="animate-spin" /> : <RotateCcw />}
+                      Aktivieren
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Neue Version</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium text-neutral-700 dark:text-neutral-300">System-Prompt</span>
+            <Textarea
+              value={promptSystem}
+              onChange={(e) => setPromptSystem(e.target.value)}
+              className="min-h-[10rem] font-mono text-xs"
+            />
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium text-neutral-700 dark:text-neutral-300">User-Prompt</span>
+            <Textarea
+              value={promptUser}
+              onChange={(e) => setPromptUser(e.target.value)}
+              className="min-h-[10rem] font-mono text-xs"
+            />
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium text-neutral-700 dark:text-neutral-300">Output-Schema (JSON)</span>
+            <Textarea
+              value={outputSchema}
+              onChange={(e) => setOutputSchema(e.target.value)}
+              className="min-h-[6rem] font-mono text-xs"
+            />
+          </label>
+          <div className="flex flex-wrap items-center gap-3">
+            <Input
+              placeholder="Was hat sich geändert?"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="max-w-md"
+            />
+            <Button onClick={saveVersion} disabled={saving}>
+              {saving ? <Loader2 className="animate-spin" /> : <Save />}
+              Als neue Version speichern
+            </Button>
+          </div>
+          <ErrorText error={saveError} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Unterschiede</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <VersionSelect versions={versions} value={diffFrom} onChange={setDiffFrom} />
+            <span>→</span>
+            <VersionSelect versions={versions} value={diffTo} onChange={setDiffTo} />
+            <Button variant="outline" size="sm" onClick={loadDiff} disabled={diffLoading}>
+              {diffLoading ? <Loader2 className="animate-spin" /> : <GitCompare />}
+              Vergleichen
+            </Button>
+          </div>
+          <ErrorText error={diffError} />
+          {diff &&
+            diff.fields.map((field) => (
+              <div key={field.field} className="space-y-1">
+                <h3 className="font-mono text-xs font-medium text-neutral-700 dark:text-neutral-300">
+                  {field.field} {field.changed ? "" : "(unverändert)"}
+                </h3>
+                {field.changed && (
+                  <pre className="max-h-96 overflow-auto rounded-md bg-neutral-50 p-2 text-xs dark:bg-neutral-900">
+                    {field.lines.map((line, i) => (
+                      <div
+                        key={i}
+                        className={
+                          line.type === "added"
+                            ? "bg-green-100 text-green-900 dark:bg-green-900/30 dark:text-green-300"
+                            : line.type === "removed"
+                              ? "bg-red-100 text-red-900 dark:bg-red-900/30 dark:text-red-300"
+                              : "text-neutral-600 dark:text-neutral-400"
+                        }
+                      >
+                        {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                        {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </div>
+            ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">A/B-Vergleich</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">
+            Generiert dieselbe Substanz mit zwei Versionen. Die Ergebnisse werden nicht gespeichert.
+          </p>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <NativeSelect value={substanceId} onValueChange={setSubstanceId} className="w-64">
+              {substances.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </NativeSelect>
+            <span>A</span>
+            <VersionSelect versions={versions} value={versionA} onChange={setVersionA} />
+            <span>B</span>
+            <VersionSelect versions={versions} value={versionB} onChange={setVersionB} />
+            <Button onClick={compare} disabled={comparing || !substanceId || versionA === versionB}>
+              {comparing ? <Loader2 className="animate-spin" /> : <Scale />}
+              Generieren &amp; vergleichen
+            </Button>
+          </div>
+          <ErrorText error={compareError} />
+          {comparison && (
+            <div className="grid gap-4 lg:grid-cols-2">
+              <DraftColumn label={`A · v${comparison.a.template_version}`} draft={comparison.a} />
+              <DraftColumn label={`B · v${comparison.b.template_version}`} draft={comparison.b} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import Link from "next/link";
+import type { ArticleTemplate } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+async function loadTemplates(): Promise<ArticleTemplate[]> {
+  try {
+    const { data } = await createAdminClient().from("article_templates").select("*").order("name");
+    return (data ?? []) as ArticleTemplate[];
+  } catch {
+    return [];
+  }
+}
+
+export default async function AdminArticleTemplatesPage() {
+  const templates = await loadTemplates();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
+          <History className="h-7 w-7 text-cyan-500" />
+          Artikel-Templates
+        </h1>
+        <p className="mt-1 text-neutral-500 dark:text-neutral-400">
+          Prompts der AI-Artikelgenerierung. Jede Änderung wird als eigene Version gespeichert.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {templates.length === 0 ? (
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">Keine Artikel-Templates gefunden.</p>
+          ) : (
+            <ul className="divide-y divide-neutral-100 dark:divide-neutral-800">
+              {templates.map((template) => (
+                <li key={template.key} className="py-3">
+                  <Link
+                    href={`/admin/article-templates/${template.key}`}
+                    className="flex items-center justify-between gap-4 hover:opacity-80"
+                  >
+                    <div>
+                      <p className="font-medium text-neutral-900 dark:text-neutral-50">
+                        {template.name}
+                        <span className="ml-2 font-mono text-xs text-neutral-500">{template.key}</span>
+                      </p>
+                      {template.description && (
+                        <p className="text-sm text-neutral-500 dark:text-neutral-400">{template.description}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {!template.enabled && <Badge variant="secondary">deaktiviert</Badge>}
+                      <Badge variant="outline">v{template.current_version ?? 1}</Badge>
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import { Save, Sparkles, GitBranch, ArrowLeft } from "lucide-react";
 import Link from "next/link";
 import { allArticles } from "@/lib/articles";
 import type { Article, ArticleStatus, RiskLevel, EvidenceStrength } from "@/lib/types";
+import { waitForJob } from "@/lib/jobs/client";
 
 export default function ArticleEditorPage() {
   const params = useParams();
@@ -105,17 +106,19 @@ export default function ArticleEditorPage() {
       const res = await fetch("/api/admin/ai/autofill", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title, subtitle, category, existingDraft: content }),
+        body: JSON.stringify({ title, subtitle, category, existingDraft: content, async: true }),
       });
       const data = await res.json();
       if (data.error) {
         setToast({ message: data.error, type: "error" });
       } else {
-        setAiOutput(data.output);
+        // Runs in the background worker
+        setAiOutput(await waitForJob(data.jobId));
         setToast({ message: "AI-Entwurf erstellt. Prüfe die Ergebnisse.", type: "success" });
       }
-    } catch {
-      setToast({ message: "AI-Autofill fehlgeschlagen.", type: "error" });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "AI-Autofill fehlgeschlagen.";
+      setToast({ message, type: "error" });
     } finally {
       setAiRunning(false);
     }
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ChatMessageLabel, ChatMessageLabelValue } from "@/lib/types";
+
+const LABEL_COLORS: Record<ChatMessageLabelValue, string> = {
+  correct: "border-green-500 bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  too_permissive: "border-orange-500 bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+  too_alarmist: "border-yellow-500 bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  hallucinated: "border-red-500 bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+/** Reviewer label + notes for one assistant reply. */
+export function MessageLabelForm({
+  messageId,
+  initial,
+  labelNames,
+}: {
+  messageId: string;
+  initial: ChatMessageLabel | null;
+  labelNames: Record<ChatMessageLabelValue, string>;
+}) {
+  const [label, setLabel] = useState<ChatMessageLabelValue | null>(initial?.label ?? null);
+  const [notes, setNotes] = useState(initial?.notes ?? "");
+  const [saved, setSaved] = useState<ChatMessageLabel | null>(initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dirty = label !== (saved?.label ?? null) || notes !== (saved?.notes ?? "");
+
+  const request = async (init: RequestInit, url = "/api/admin/chat-sessions/labels") => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error ?? `HTTP ${res.status}`);
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unbekannter Fehler");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const save = async () => {
+    if (!label) return;
+    const data = await request({
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message_id: messageId, label, notes }),
+    });
+    if (data) setSaved(data as ChatMessageLabel);
+  };
+
+  const remove = async () => {
+    const data = await request(
+      { method: "DELETE" },
+      `/api/admin/chat-sessions/labels?message_id=${encodeURIComponent(messageId)}`
+    );
+    if (data) {
+      setSaved(null);
+      setLabel(null);
+      setNotes("");
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 rounded-md border border-neutral-200 bg-white p-3 dark:border-neutral-700 dark:bg-neutral-900">
+      <div className="flex flex-wrap items-center gap-2">
+        <Tag className="h-3 w-3 text-neutral-400" />
+        {(Object.keys(labelNames) as ChatMessageLabelValue[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setLabel(value)}
+            className={`rounded-full border px-2.5 py-0.5 text-xs font-medium transition-colors ${
+              label === value
+                ? LABEL_COLORS[value]
+                : "border-neutral-300 text-neutral-600 hover:bg-neutral-100 dark:border-neutral-600 dark:text-neutral-400 dark:hover:bg-neutral-800"
+            }`}
+          >
+            {labelNames[value]}
+          </button>
+        ))}
+      </div>
+      <textarea
+        rows={2}
+        placeholder="Notiz (optional)"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        className="w-full rounded-md border border-neutral-300 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800 dark:text-neutral-100"
+      />
+      <div className="flex items-center justify-end gap-2">
+        {error && <span className="mr-auto text-xs text-red-600 dark:text-red-400">{error}</span>}
+        {saved && !dirty && <span className="mr-auto text-xs text-neutral-500">Gespeichert</span>}
+        {saved && (
+          <Button variant="ghost" size="sm" onClick={remove} disabled={saving}>
+            Entfernen
+          </Button>
+        )}
+        <Button size="sm" onClick={save} disabled={saving || !label || !dirty}>
+          {saving && <Loader2 className="animate-spin" />}
+          Label speichern
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,16 @@
 import { getChatSession } from "@/lib/chat/persistence";
+import { CHAT_LABEL_NAMES, getSessionLabels } from "@/lib/chat/labels";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, MessageSquare, User, Globe, Clock, Shield } from "lucide-react";
+import { ArrowLeft, MessageSquare, User, Globe, Clock, Shield, ShieldAlert } from "lucide-react";
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import { MessageLabelForm } from "./message-label-form";
+
+const OVERRIDE_FIELD_LABELS: Record<string, string> = {
+  risk_level: "Risikostufe",
+  emergency: "Notfallhinweis",
+};
 
 const RISK_BADGE_COLORS: Record<string, string> = {
   GRÜN: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
@@ -18,7 +25,7 @@ export default async function AdminChatSessionDetailPage({
   params: Promise<{ id: string }>;
 }) {
   const { id } = await params;
-  const { session, messages } = await getChatSession(id);
+  const [{ session, messages }, labels] = await Promise.all([getChatSession(id), getSessionLabels(id)]);
 
   if (!session) {
     notFound();
@@ -152,14 +159,45 @@ export default async function AdminChatSessionDetailPage({
                         {msg.risk_level}
                       </span>
                     )}
+                    {msg.prompt_version && (
+                      <span className="font-mono text-[10px] text-neutral-400" title="Prompt-Version">
+                        {msg.prompt_version}
+                      </span>
+                    )}
                     <span className="text-[10px] text-neutral-400">
                       {new Date(msg.created_at).toLocaleTimeString("de-DE")}
                     </span>
                   </div>
                 </div>
+                {msg.safety_overrides?.length > 0 && (
+                  <div className="mb-2 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-800 dark:border-red-900 dark:bg-red-950/20 dark:text-red-300">
+                    <div className="mb-1 flex items-center gap-1 font-semibold">
+                      <ShieldAlert className="h-3 w-3" />
+                      Red-Flag-Korrektur
+                    </div>
+                    <ul className="space-y-0.5">
+                      {msg.safety_overrides.map((o, i) => (
+                        <li key={i}>
+                          {OVERRIDE_FIELD_LABELS[o.field] ?? o.field}:{" "}
+                          {o.field === "emergency"
+                            ? "ergänzt"
+                            : `${o.from ?? "–"} → ${o.to}`}{" "}
+                          <span className="font-mono text-[10px]">({o.flags.join(", ")})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 <pre className="whitespace-pre-wrap text-sm text-neutral-700 dark:text-neutral-300 overflow-x-auto">
                   {JSON.stringify(msg.content, null, 2)}
                 </pre>
+                {msg.role === "assistant" && (
+                  <MessageLabelForm
+                    messageId={msg.id}
+                    initial={labels.find((l) => l.message_id === msg.id) ?? null}
+                    labelNames={CHAT_LABEL_NAMES}
+                  />
+                )}
               </div>
             ))}
           </div>
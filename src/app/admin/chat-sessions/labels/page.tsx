@@ -0,0 +1,96 @@
+import { CHAT_LABELS, CHAT_LABEL_NAMES, listEvalRecords, summarizeLabels, type LabelRateRow } from "@/lib/chat/labels";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Download, Tag } from "lucide-react";
+import Link from "next/link";
+
+function percent(count: number, total: number): string {
+  return total > 0 ? `${Math.round((count / total) * 100)} %` : "–";
+}
+
+function RateTable({ title, keyLabel, rows }: { title: string; keyLabel: string; rows: LabelRateRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {rows.length === 0 ? (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">Keine Daten.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-left text-xs text-neutral-500 dark:border-neutral-800 dark:text-neutral-400">
+                <th className="py-2 pr-4 font-medium">{keyLabel}</th>
+                <th className="py-2 pr-4 text-right font-medium">Anzahl</th>
+                {CHAT_LABELS.map((label) => (
+                  <th key={label} className="py-2 pr-4 text-right font-medium">
+                    {CHAT_LABEL_NAMES[label]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className="border-b border-neutral-100 last:border-0 dark:border-neutral-800">
+                  <td className="py-2 pr-4 font-mono text-xs text-neutral-700 dark:text-neutral-300">{row.key}</td>
+                  <td className="py-2 pr-4 text-right text-neutral-700 dark:text-neutral-300">{row.total}</td>
+                  {CHAT_LABELS.map((label) => (
+                    <td
+                      key={label}
+                      className={`py-2 pr-4 text-right ${
+                        label !== "correct" && row.counts[label] > 0
+                          ? "text-red-700 dark:text-red-400"
+                          : "text-neutral-700 dark:text-neutral-300"
+                      }`}
+                    >
+                      {percent(row.counts[label], row.total)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default async function AdminChatLabelsPage() {
+  const summary = summarizeLabels(await listEvalRecords().catch(() => []));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Link
+            href="/admin/chat-sessions"
+            className="mb-2 inline-flex items-center gap-1 text-sm text-neutral-500 transition-colors hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-neutral-50"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Alle Sitzungen
+          </Link>
+          <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
+            <Tag className="h-7 w-7 text-cyan-500" />
+            Antwort-Labels
+          </h1>
+          <p className="mt-1 text-neutral-500 dark:text-neutral-400">
+            {summary.total} bewertete Antworten. Label-Raten je Woche, Risikostufe und Prompt-Version.
+          </p>
+        </div>
+        <a
+          href="/api/admin/chat-sessions/labels/export"
+          download
+          className="inline-flex items-center gap-2 rounded-md border border-neutral-300 px-3 py-2 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-100 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-neutral-800"
+        >
+          <Download className="h-4 w-4" />
+          Datensatz exportieren (JSONL)
+        </a>
+      </div>
+
+      <RateTable title="Nach Prompt-Version" keyLabel="Version" rows={summary.byPromptVersion} />
+      <RateTable title="Nach Woche" keyLabel="Woche ab" rows={summary.byWeek} />
+      <RateTable title="Nach Risikostufe" keyLabel="Risikostufe" rows={summary.byRiskLevel} />
+    </div>
+  );
+}
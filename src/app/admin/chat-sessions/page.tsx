@@ -1,8 +1,14 @@
-import { listChatSessions } from "@/lib/chat/persistence";
+import {
+  countExpiredChatSessions,
+  getLastRetentionRun,
+  listChatSessions,
+  retentionStatus,
+} from "@/lib/chat/persistence";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { MessageSquare, User, Globe } from "lucide-react";
+import { MessageSquare, User, Globe, Clock, History, Tag } from "lucide-react";
 import Link from "next/link";
+import { RetentionPurgeButton } from "./retention-purge-button";
 
 const RISK_BADGE_COLORS: Record<string, string> = {
   GRÜN: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
@@ -11,20 +17,72 @@ const RISK_BADGE_COLORS: Record<string, string> = {
   ROT: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
 };
 
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("de-DE", { dateStyle: "medium", timeStyle: "short" });
+}
+
 export default async function AdminChatSessionsPage() {
-  const { sessions, total } = await listChatSessions({ limit: 50 });
+  const [{ sessions, total }, lastRun, expired] = await Promise.all([
+    listChatSessions({ limit: 50 }),
+    getLastRetentionRun(),
+    countExpiredChatSessions(),
+  ]);
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
-          Chat Sessions
-        </h1>
-        <p className="mt-1 text-neutral-500 dark:text-neutral-400">
-          {total} Safer-Use Companion Sitzungen gespeichert.
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
+            Chat Sessions
+          </h1>
+          <p className="mt-1 text-neutral-500 dark:text-neutral-400">
+            {total} Safer-Use Companion Sitzungen gespeichert.
+          </p>
+        </div>
+        <Link
+          href="/admin/chat-sessions/labels"
+          className="inline-flex items-center gap-2 rounded-md border border-neutral-300 px-3 py-2 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-100 dark:border-neutral-700 dark:text-neutral-300 dark:hover:bg-neutral-800"
+        >
+          <Tag className="h-4 w-4" />
+          Antwort-Labels
+        </Link>
       </div>
 
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-cyan-500" />
+              Aufbewahrung
+            </CardTitle>
+            <p className="mt-1 text-sm text-neutral-500 dark:text-neutral-400">
+              Sitzungen werden nach 90 Tagen gelöscht. Der Löschlauf läuft täglich.
+            </p>
+          </div>
+          <RetentionPurgeButton />
+        </CardHeader>
+        <CardContent className="space-y-1 text-sm text-neutral-700 dark:text-neutral-300">
+          {lastRun ? (
+            <p>
+              Letzter Löschlauf: {formatDateTime(lastRun.finished_at)} (
+              {lastRun.trigger === "cron" ? "automatisch" : "manuell"}) –{" "}
+              {lastRun.error ? (
+                <span className="text-red-600 dark:text-red-400">fehlgeschlagen: {lastRun.error}</span>
+              ) : (
+                <>
+                  {lastRun.sessions_deleted} Sitzungen, {lastRun.messages_deleted} Nachrichten gelöscht
+                </>
+              )}
+            </p>
+          ) : (
+            <p>Noch kein Löschlauf protokolliert.</p>
+          )}
+          <p className={expired > 0 ? "text-amber-700 dark:text-amber-400" : "text-neutral-500 dark:text-neutral-400"}>
+            {expired} abgelaufene Sitzungen warten auf Löschung.
+          </p>
+        </CardContent>
+      </Card>
+
       {sessions.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center">
@@ -45,58 +103,65 @@ export default async function AdminChatSessionsPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {sessions.map((session) => (
-                <Link
-                  key={session.id}
-                  href={`/admin/chat-sessions/${session.id}`}
-                  className="flex items-center justify-between rounded-lg border border-neutral-200 p-4 transition-colors hover:bg-neutral-50 dark:border-neutral-800 dark:hover:bg-neutral-800/50"
-                >
-                  <div className="min-w-0 flex-1">
-                    <div className="flex items-center gap-2">
-                      <span className="font-medium text-neutral-900 dark:text-neutral-50 truncate">
-                        {session.title ?? "Unbenannte Sitzung"}
-                      </span>
-                      {session.risk_level && (
-                        <span
-                          className={`inline-block rounded-full px-2 py-0.5 text-xs font-semibold ${
-                            RISK_BADGE_COLORS[session.risk_level] ?? ""
-                          }`}
-                        >
-                          {session.risk_level}
+              {sessions.map((session) => {
+                const retention = retentionStatus(session);
+                return (
+                  <Link
+                    key={session.id}
+                    href={`/admin/chat-sessions/${session.id}`}
+                    className="flex items-center justify-between rounded-lg border border-neutral-200 p-4 transition-colors hover:bg-neutral-50 dark:border-neutral-800 dark:hover:bg-neutral-800/50"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-neutral-900 dark:text-neutral-50 truncate">
+                          {session.title ?? "Unbenannte Sitzung"}
                         </span>
-                      )}
-                    </div>
-                    <div className="mt-1 flex items-center gap-3 text-xs text-neutral-500 dark:text-neutral-400">
-                      <span>
-                        {new Date(session.created_at).toLocaleString("de-DE", {
-                          dateStyle: "medium",
-                          timeStyle: "short",
-                        })}
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <MessageSquare className="h-3 w-3" />
-                        {session.message_count}
-                      </span>
-                      {session.user_id ? (
+                        {session.risk_level && (
+                          <span
+                            className={`inline-block rounded-full px-2 py-0.5 text-xs font-semibold ${
+                              RISK_BADGE_COLORS[session.risk_level] ?? ""
+                            }`}
+                          >
+                            {session.risk_level}
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-1 flex items-center gap-3 text-xs text-neutral-500 dark:text-neutral-400">
+                        <span>{formatDateTime(session.created_at)}</span>
                         <span className="flex items-center gap-1">
-                          <User className="h-3 w-3" />
-                          Angemeldet
+                          <MessageSquare className="h-3 w-3" />
+                          {session.message_count}
                         </span>
-                      ) : (
-                        <span className="flex items-center gap-1">
-                          <Globe className="h-3 w-3" />
-                          Anonym
+                        {session.user_id ? (
+                          <span className="flex items-center gap-1">
+                            <User className="h-3 w-3" />
+                            Angemeldet
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1">
+                            <Globe className="h-3 w-3" />
+                            Anonym
+                          </span>
+                        )}
+                        {session.consent_at && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            Einwilligung
+                          </Badge>
+                        )}
+                        <span
+                          className={`flex items-center gap-1 ${retention.expired ? "text-red-600 dark:text-red-400" : ""}`}
+                          title={`Aufbewahrung bis ${formatDateTime(session.retain_until)}`}
+                        >
+                          <Clock className="h-3 w-3" />
+                          {retention.expired
+                            ? "Abgelaufen"
+                            : `Löschung in ${retention.daysLeft} ${retention.daysLeft === 1 ? "Tag" : "Tagen"}`}
                         </span>
-                      )}
-                      {session.consent_at && (
-                        <Badge variant="secondary" className="text-[10px]">
-                          Einwilligung
-                        </Badge>
-                      )}
+                      </div>
                     </div>
-                  </div>
-                </Link>
-              ))}
+                  </Link>
+                );
+              })}
             </div>
           </CardContent>
         </Card>
@@ -0,0 +1,40 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+/** Runs the retention job immediately and reloads the page. */
+export function RetentionPurgeButton() {
+  const router = useRouter();
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runPurge = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/chat-sessions/retention", { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? `HTTP ${res.status}`);
+      }
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant="outline" size="sm" onClick={runPurge} disabled={running}>
+        {running ? <Loader2 className="animate-spin" /> : <Trash2 />}
+        Abgelaufene jetzt löschen
+      </Button>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
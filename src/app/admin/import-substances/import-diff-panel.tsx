@@ -0,0 +1,344 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle, FileDiff, Loader2 } from "lucide-react";
+import { MAX_IMPORT_BATCH_SIZE } from "@/lib/config";
+import type { DiffField, DiffValue, FieldDiff } from "@/lib/substances/import-diff";
+
+interface DiffSourceItem {
+  qid: string;
+  label: string;
+  pubchem_cid?: number;
+}
+
+interface DiffRow {
+  name: string;
+  slug: string;
+  qid: string;
+  pubchemCid?: number;
+  diffs: FieldDiff[];
+}
+
+interface DryRunResponse {
+  ok: boolean;
+  results?: Array<{
+    ok: boolean;
+    slug?: string;
+    exists?: boolean;
+    diffs?: FieldDiff[];
+    suppressed?: DiffField[];
+    error?: string;
+  }>;
+  error?: string;
+}
+
+interface CommitResponse {
+  ok: boolean;
+  summary?: { inserted: number; updated: number; skipped: number; failed: number };
+  items?: Array<{ staleFields?: DiffField[] }>;
+  error?: string;
+}
+
+type Decision = "accept" | "reject";
+
+const FIELD_LABELS: Record<DiffField, string> = {
+  name: "Name",
+  summary: "Beschreibung",
+  canonical_id: "Kanonische ID",
+  pubchem_cid: "PubChem-CID",
+  aliases_list: "Aliase",
+};
+
+/** Items per dry-run request – each one queries Wikidata and PubChem. */
+const CHECK_CHUNK_SIZE = 10;
+
+function formatValue(value: DiffValue): string {
+  if (value === null || value === "") return "—";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+function ValueCell({ value }: { value: DiffValue }) {
+  const text = formatValue(value);
+  return (
+    <td className="max-w-xs px-2 py-1 align-top">
+      <span className="line-clamp-3 break-words" title={text}>
+        {text}
+      </span>
+    </td>
+  );
+}
+
+export function ImportDiffPanel({ items }: { items: DiffSourceItem[] }) {
+  const [checking, setChecking] = useState(false);
+  const [checked, setChecked] = useState(0);
+  const [rows, setRows] = useState<DiffRow[] | null>(null);
+  const [suppressedCount, setSuppressedCount] = useState(0);
+  const [decisions, setDecisions] = useState<Record<string, Partial<Record<DiffField, Decision>>>>({});
+  const [committing, setCommitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = useCallback(async () => {
+    setChecking(true);
+    setChecked(0);
+    setRows(null);
+    setDecisions({});
+    setSuppressedCount(0);
+    setMessage(null);
+    setError(null);
+    const found: DiffRow[] = [];
+    let suppressed = 0;
+    try {
+      for (let i = 0; i < items.length; i += CHECK_CHUNK_SIZE) {
+        const chunk = items.slice(i, i + CHECK_CHUNK_SIZE);
+        const res = await fetch("/api/admin/import-substances/dry-run", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            items: chunk.map((item) => ({
+              name: item.label,
+              wikidataQid: item.qid || undefined,
+              pubchemCid: item.pubchem_cid,
+            })),
+          }),
+        });
+        const data = (await res.json()) as DryRunResponse;
+        if (!res.ok || !data.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+
+        (data.results ?? []).forEach((result, index) => {
+          suppressed += result.suppressed?.length ?? 0;
+          if (!result.ok || !result.exists || !result.diffs?.length) return;
+          const source = chunk[index];
+          found.push({
+            name: source.label,
+            slug: result.slug ?? "",
+            qid: source.qid,
+            pubchemCid: source.pubchem_cid,
+            diffs: result.diffs,
+          });
+        });
+        setChecked(Math.min(i + CHECK_CHUNK_SIZE, items.length));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRows(found);
+      setSuppressedCount(suppressed);
+      setChecking(false);
+    }
+  }, [items]);
+
+  const decide = useCallback((name: string, field: DiffField, decision: Decision) => {
+    setDecisions((prev) => ({ ...prev, [name]: { ...prev[name], [field]: decision } }));
+  }, []);
+
+  const decideAll = useCallback((row: DiffRow, decision: Decision) => {
+    setDecisions((prev) => ({
+      ...prev,
+      [row.name]: Object.fromEntries(row.diffs.map((d) => [d.field, decision])),
+    }));
+  }, []);
+
+  const reviewed = useMemo(
+    () => (rows ?? []).filter((row) => Object.keys(decisions[row.name] ?? {}).length > 0),
+    [rows, decisions],
+  );
+
+  const handleCommit = useCallback(async () => {
+    if (reviewed.length === 0) return;
+    setCommitting(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const totals = { updated: 0, skipped: 0, failed: 0, stale: 0 };
+      for (let i = 0; i < reviewed.length; i += MAX_IMPORT_BATCH_SIZE) {
+        const res = await fetch("/api/admin/import-substances/commit", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            items: reviewed.slice(i, i + MAX_IMPORT_BATCH_SIZE).map((row) => {
+              const picks = Object.entries(decisions[row.name] ?? {}) as Array<[DiffField, Decision]>;
+              return {
+                name: row.name,
+                wikidataQid: row.qid || undefined,
+                pubchemCid: row.pubchemCid,
+                acceptedFields: picks.filter(([, d]) => d === "accept").map(([field]) => field),
+                rejectedFields: picks.filter(([, d]) => d === "reject").map(([field]) => field),
+                // Commit only writes a field whose value is still the one shown here
+                reviewedValues: Object.fromEntries(
+                  row.diffs.filter((d) => decisions[row.name]?.[d.field]).map((d) => [d.field, d.newValue]),
+                ),
+              };
+            }),
+          }),
+        });
+        const data = (await res.json()) as CommitResponse;
+        if (!res.ok || !data.ok || !data.summary) throw new Error(data.error ?? `HTTP ${res.status}`);
+        totals.updated += data.summary.updated;
+        totals.skipped += data.summary.skipped;
+        totals.failed += data.summary.failed;
+        totals.stale += (data.items ?? []).reduce((sum, item) => sum + (item.staleFields?.length ?? 0), 0);
+      }
+      setMessage(
+        `${totals.updated} aktualisiert, ${totals.skipped} ohne übernommene Felder, ${totals.failed} fehlgeschlagen. ` +
+          "Abgelehnte Werte werden beim nächsten Import nicht erneut vorgeschlagen." +
+          (totals.stale > 0
+            ? ` ${totals.stale} übernommene Felder haben sich seit der Prüfung geändert und wurden nicht geschrieben – bitte Änderungen erneut ermitteln.`
+            : ""),
+      );
+      setRows((prev) => (prev ?? []).filter((row) => !reviewed.includes(row)));
+      setDecisions({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCommitting(false);
+    }
+  }, [reviewed, decisions]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <FileDiff className="h-4 w-4" />
+          Änderungen prüfen
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-neutral-500">
+          Zeigt für bereits vorhandene Substanzen jedes Feld, das der Import ändern würde. Übernimm oder
+          verwirf einzelne Felder; nur übernommene Felder werden geschrieben, verworfene Werte merkt sich
+          das System.
+        </p>
+        <div className="flex flex-wrap items-center gap-4">
+          <Button onClick={handleCheck} disabled={checking || committing || items.length === 0} size="sm">
+            {checking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDiff className="mr-2 h-4 w-4" />}
+            Änderungen ermitteln ({items.length} Items)
+          </Button>
+          {checking && (
+            <span className="text-sm text-neutral-500">
+              {checked}/{items.length} geprüft…
+            </span>
+          )}
+        </div>
+        {items.length === 0 && (
+          <p className="text-sm text-neutral-500">
+            Noch keine Daten geladen. Wechsle zum &quot;Query&quot;-Tab, um Substanzen abzurufen.
+          </p>
+        )}
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </p>
+        )}
+
+        {rows && !checking && suppressedCount > 0 && (
+          <p className="text-xs text-neutral-500">
+            {suppressedCount} früher abgelehnte Werte werden nicht erneut vorgeschlagen.
+          </p>
+        )}
+
+        {rows && rows.length === 0 && !checking && !error && (
+          <p className="flex items-center gap-2 text-sm text-green-600">
+            <CheckCircle className="h-4 w-4" />
+            Keine Änderungen an bestehenden Substanzen.
+          </p>
+        )}
+
+        {rows && rows.length > 0 && (
+          <div className="space-y-4">
+            {rows.map((row) => (
+              <div key={row.name} className="rounded-md border border-neutral-200 p-3 dark:border-neutral-700">
+                <div className="mb-2 flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{row.name}</span>
+                  <span className="font-mono text-xs text-neutral-400">{row.slug}</span>
+                  <Badge variant="info" className="text-[10px]">
+                    {row.diffs.length} Feld{row.diffs.length === 1 ? "" : "er"}
+                  </Badge>
+                  <div className="ml-auto flex gap-2">
+                    <Button size="sm" variant="ghost" onClick={() => decideAll(row, "accept")} disabled={committing}>
+                      Alle übernehmen
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => decideAll(row, "reject")} disabled={committing}>
+                      Alle verwerfen
+                    </Button>
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-neutral-500">
+                        <th className="px-2 py-1">Feld</th>
+                        <th className="px-2 py-1">Aktuell</th>
+                        <th className="px-2 py-1">Neu</th>
+                        <th className="px-2 py-1">Quelle</th>
+                        <th className="px-2 py-1">Entscheidung</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {row.diffs.map((diff) => {
+                        const decision = decisions[row.name]?.[diff.field];
+                        return (
+                          <tr key={diff.field} className="border-t border-neutral-100 dark:border-neutral-800">
+                            <td className="px-2 py-1 align-top font-medium">{FIELD_LABELS[diff.field]}</td>
+                            <ValueCell value={diff.oldValue} />
+                            <ValueCell value={diff.newValue} />
+                            <td className="px-2 py-1 align-top text-xs">
+                              {diff.source ? (
+                                <a
+                                  href={diff.source.sourceUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-violet-500 hover:underline"
+                                >
+                                  {diff.source.sourceId}
+                                </a>
+                              ) : (
+                                <span className="text-neutral-400">mehrere</span>
+                              )}
+                            </td>
+                            <td className="whitespace-nowrap px-2 py-1 align-top">
+                              {(["accept", "reject"] as const).map((option) => (
+                                <label key={option} className="mr-3 inline-flex items-center gap-1 text-xs">
+                                  <input
+                                    type="radio"
+                                    name={`${row.name}-${diff.field}`}
+                                    checked={decision === option}
+                                    onChange={() => decide(row.name, diff.field, option)}
+                                    disabled={committing}
+                                    className="h-3.5 w-3.5"
+                                  />
+                                  {option === "accept" ? "Übernehmen" : "Verwerfen"}
+                                </label>
+                              ))}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-4">
+              <Button onClick={handleCommit} disabled={committing || checking || reviewed.length === 0} size="sm">
+                {committing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Entscheidungen speichern ({reviewed.length} Substanzen)
+              </Button>
+              <span className="text-xs text-neutral-500">
+                Felder ohne Entscheidung bleiben unverändert und werden beim nächsten Import erneut vorgeschlagen.
+              </span>
+            </div>
+          </div>
+        )}
+        {message && <p className="text-sm text-green-600">{message}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,7 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import {
   Globe, Database, Loader2, CheckCircle, AlertTriangle,
   Download, Play, Eye, FileText, Filter, RotateCcw,
-  ChevronDown, ChevronRight, Trash2,
+  ChevronDown, ChevronRight, Trash2, Square, History,
 } from "lucide-react";
 import {
   type ImportFilters,
@@ -17,6 +17,9 @@ import {
   buildSparqlQuery,
   computePsychoactiveConfidence,
 } from "@/lib/connectors/wikidata-query-builder";
+import { SourceConflictsPanel } from "./source-conflicts-panel";
+import { ImportDiffPanel } from "./import-diff-panel";
+import { MAX_IMPORT_RUN_ITEMS } from "@/lib/config";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -48,9 +51,23 @@ interface ImportItemResult {
   error?: string;
 }
 
-interface BatchApiResponse {
-  ok: boolean;
-  results: ImportItemResult[];
+interface ImportRunSummary {
+  id: string;
+  created_at: string;
+  status: "queued" | "running" | "done" | "failed" | "cancelled";
+  dry_run: boolean;
+  total_items: number;
+  next_index: number;
+  inserted_count: number;
+  updated_count: number;
+  skipped_count: number;
+  error_count: number;
+  locked_by: string | null;
+}
+
+interface RunChunkResponse {
+  run?: ImportRunSummary;
+  results?: ImportItemResult[];
   error?: string;
 }
 
@@ -64,7 +81,7 @@ interface BatchProgress {
 }
 
 type PipelineStep = "idle" | "wikidata" | "importing" | "done" | "error";
-type TabId = "query" | "vorschau" | "import" | "log";
+type TabId = "query" | "vorschau" | "konflikte" | "aenderungen" | "import" | "log";
 type PreviewFilter = "all" | "with-pubchem" | "without-pubchem";
 
 // ---------------------------------------------------------------------------
@@ -161,6 +178,8 @@ function ConfidenceChip({ score }: { score: number }) {
 const TABS: { id: TabId; label: string }[] = [
   { id: "query", label: "Query" },
   { id: "vorschau", label: "Vorschau" },
+  { id: "konflikte", label: "Konflikte" },
+  { id: "aenderungen", label: "Änderungen" },
   { id: "import", label: "Import" },
   { id: "log", label: "Log" },
 ];
@@ -201,6 +220,10 @@ export default function ImportSubstancesPage() {
   const [progress, setProgress] = useState<BatchProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const abortRef = useRef(false);
+  // Stable per page session, so a chunk can take over its own lock after a timeout
+  const workerIdRef = useRef(typeof crypto !== "undefined" ? crypto.randomUUID() : "browser");
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [openRuns, setOpenRuns] = useState<ImportRunSummary[]>([]);
 
   // Seed list state
   const [seedLoading, setSeedLoading] = useState(false);
@@ -279,113 +302,146 @@ export default function ImportSubstancesPage() {
     }
   }, [filters, addLog]);
 
-  // Step 2: Run import pipeline with client-side batching
-  const runBatchedImport = useCallback(async (itemsToImport: WikidataItem[]) => {
-    if (itemsToImport.length === 0) return;
+  // Step 2: Drive a resumable import run chunk by chunk. Every item is
+  // checkpointed server-side, so an interrupted run can be continued later.
+  const driveRun = useCallback(async (runId: string, collected: ImportItemResult[]) => {
     setStep("importing");
     setError(null);
     abortRef.current = false;
+    setActiveRunId(runId);
 
-    const totalItems = itemsToImport.length;
-    const totalBatches = Math.ceil(totalItems / batchSize);
-    const collectedResults: ImportItemResult[] = [];
-    let successCount = 0;
-    let failCount = 0;
+    let chunk = 0;
+    let networkErrors = 0;
+    for (;;) {
+      if (abortRef.current) {
+        await fetch(`/api/admin/import-substances/runs/${runId}/cancel`, { method: "POST" }).catch(() => null);
+        addLog("⏹ Import abgebrochen.");
+        break;
+      }
 
-    addLog(
-      `Starte Import-Pipeline (${totalItems} Items, ${totalBatches} Batches à ${batchSize}, dryRun=${dryRun}, skipAi=${skipAi}, skipPubChem=${skipPubChem})…`,
-    );
+      chunk++;
+      let data: RunChunkResponse;
+      try {
+        const res = await fetch(`/api/admin/import-substances/runs/${runId}/resume`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ workerId: workerIdRef.current, maxItems: batchSize }),
+        });
+        data = await res.json();
+        if (!res.ok || !data.run) throw new Error(data.error ?? `HTTP ${res.status}`);
+        networkErrors = 0;
+      } catch (err) {
+        // Timeouts are harmless: finished items are checkpointed, the next call continues
+        const msg = err instanceof Error ? err.message : "Netzwerkfehler";
+        networkErrors++;
+        addLog(`✗ Chunk ${chunk}: ${msg}${networkErrors < 3 ? " – neuer Versuch…" : ""}`);
+        if (networkErrors >= 3) {
+          setError(`Import unterbrochen: ${msg}. Der Lauf kann unter „Offene Läufe“ fortgesetzt werden.`);
+          break;
+        }
+        await new Promise((r) => setTimeout(r, 2000 * networkErrors));
+        continue;
+      }
 
-    setProgress({ totalItems, processedItems: 0, successCount: 0, failCount: 0, currentBatch: 0, totalBatches });
+      const { run, results = [] } = data;
+      collected.push(...results);
+      setAllResults([...collected]);
+      setProgress({
+        totalItems: run.total_items,
+        processedItems: run.next_index,
+        successCount: run.inserted_count + run.updated_count + run.skipped_count,
+        failCount: run.error_count,
+        currentBatch: chunk,
+        totalBatches: Math.max(chunk, Math.ceil(run.total_items / batchSize)),
+      });
+      addLog(`✓ Chunk ${chunk}: ${run.next_index}/${run.total_items} Items verarbeitet.`);
 
-    for (let i = 0; i < totalBatches; i++) {
-      if (abortRef.current) {
-        addLog("⏹ Import abgebrochen.");
+      if (run.status !== "running") {
+        if (run.status === "cancelled") addLog("⏹ Lauf wurde abgebrochen.");
         break;
       }
+    }
 
-      const batchItems = itemsToImport.slice(i * batchSize, (i + 1) * batchSize);
-      const batchNum = i + 1;
-      addLog(`Batch ${batchNum}/${totalBatches} (${batchItems.length} Items)…`);
+    setActiveRunId(null);
+    const failed = collected.filter((r) => r.db_status === "failed").length;
+    addLog(`✓ Pipeline beendet: ${collected.length - failed} erfolgreich, ${failed} fehlgeschlagen.`);
+    setStep("done");
+  }, [batchSize, addLog]);
+
+  const runBatchedImport = useCallback(async (itemsToImport: WikidataItem[]) => {
+    if (itemsToImport.length === 0) return;
+    setStep("importing");
+    setError(null);
+    addLog(
+      `Starte Import-Lauf (${itemsToImport.length} Items, Chunks à ${batchSize}, dryRun=${dryRun}, skipAi=${skipAi}, skipPubChem=${skipPubChem})…`,
+    );
 
+    const collected: ImportItemResult[] = [];
+    for (let i = 0; i < itemsToImport.length; i += MAX_IMPORT_RUN_ITEMS) {
       try {
-        const res = await fetch("/api/admin/import-substances", {
+        const res = await fetch("/api/admin/import-substances/runs", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            items: batchItems,
+            items: itemsToImport.slice(i, i + MAX_IMPORT_RUN_ITEMS),
             dryRun,
             skipAi,
             skipPubChem,
           }),
         });
-
-        const data: BatchApiResponse = await res.json();
-
-        if (!res.ok || !data.ok) {
-          // Whole batch failed — mark all items as failed
-          const failedResults: ImportItemResult[] = batchItems.map((item) => ({
-            label: item.label,
-            qid: item.qid,
-            status: "failed" as const,
-            reason: data.error || `HTTP ${res.status}`,
-            wikidata_status: "ok" as WikidataStatus,
-            pubchem_status: "skipped" as PubChemStatus,
-            ai_status: "skipped" as AiStatus,
-            db_status: "failed" as DbStatus,
-            confidence_score: 0,
-          }));
-          collectedResults.push(...failedResults);
-          failCount += batchItems.length;
-          addLog(`✗ Batch ${batchNum} fehlgeschlagen: ${data.error || `HTTP ${res.status}`}`);
-        } else {
-          // Process individual results
-          for (const r of data.results) {
-            collectedResults.push(r);
-            if (r.db_status === "failed" || r.status === "failed") {
-              failCount++;
-            } else {
-              successCount++;
-            }
-          }
-          addLog(`✓ Batch ${batchNum} abgeschlossen (${data.results.length} Items).`);
-        }
+        const data = await res.json() as { run?: ImportRunSummary; error?: string };
+        if (!res.ok || !data.run) throw new Error(data.error ?? `HTTP ${res.status}`);
+        addLog(`Lauf ${data.run.id} angelegt.`);
+        await driveRun(data.run.id, collected);
       } catch (err) {
-        // Network error for this batch
-        const msg = err instanceof Error ? err.message : "Netzwerkfehler";
-        const failedResults: ImportItemResult[] = batchItems.map((item) => ({
-          label: item.label,
-          qid: item.qid,
-          status: "failed" as const,
-          reason: msg,
-          wikidata_status: "ok" as WikidataStatus,
-          pubchem_status: "skipped" as PubChemStatus,
-          ai_status: "skipped" as AiStatus,
-          db_status: "failed" as DbStatus,
-          confidence_score: 0,
-        }));
-        collectedResults.push(...failedResults);
-        failCount += batchItems.length;
-        addLog(`✗ Batch ${batchNum} Netzwerkfehler: ${msg}`);
+        const msg = err instanceof Error ? err.message : "Unbekannter Fehler";
+        addLog(`✗ Lauf konnte nicht angelegt werden: ${msg}`);
+        setError(msg);
+        setStep("error");
+        return;
       }
+      if (abortRef.current) break;
+    }
+  }, [batchSize, dryRun, skipAi, skipPubChem, addLog, driveRun]);
 
-      // Update progress & results incrementally
-      setProgress({
-        totalItems,
-        processedItems: Math.min((i + 1) * batchSize, totalItems),
-        successCount,
-        failCount,
-        currentBatch: batchNum,
-        totalBatches,
-      });
-      setAllResults([...collectedResults]);
+  const handleLoadOpenRuns = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/import-substances/runs?open=1");
+      const data = await res.json() as { runs?: ImportRunSummary[]; error?: string };
+      if (!res.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+      setOpenRuns(data.runs ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
     }
+  }, []);
 
-    addLog(
-      `✓ Pipeline abgeschlossen: ${successCount} erfolgreich, ${failCount} fehlgeschlagen.`,
-    );
-    setStep("done");
-  }, [batchSize, dryRun, skipAi, skipPubChem, addLog]);
+  const handleResumeRun = useCallback(async (runId: string) => {
+    setActiveTab("import");
+    setProgress(null);
+    try {
+      // Results of the items processed before the interruption
+      const res = await fetch(`/api/admin/import-substances/runs/${runId}`);
+      const data = await res.json() as { items?: Array<{ result: ImportItemResult }>; error?: string };
+      if (!res.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+      const collected = (data.items ?? []).map((i) => i.result);
+      setAllResults(collected);
+      addLog(`Setze Lauf ${runId} fort (${collected.length} Items bereits verarbeitet)…`);
+      await driveRun(runId, collected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setOpenRuns((prev) => prev.filter((r) => r.id !== runId));
+  }, [addLog, driveRun]);
+
+  const handleCancelRun = useCallback(async (runId: string) => {
+    if (runId === activeRunId) {
+      abortRef.current = true;
+      return;
+    }
+    await fetch(`/api/admin/import-substances/runs/${runId}/cancel`, { method: "POST" }).catch(() => null);
+    addLog(`⏹ Lauf ${runId} abgebrochen.`);
+    setOpenRuns((prev) => prev.filter((r) => r.id !== runId));
+  }, [activeRunId, addLog]);
 
   const handleRunImport = useCallback(async () => {
     setAllResults([]);
@@ -842,6 +898,12 @@ export default function ImportSubstancesPage() {
         </Card>
       )}
 
+      {/* ================================================================= */}
+      {/* KONFLIKTE TAB                                                     */}
+      {/* ================================================================= */}
+      {activeTab === "konflikte" && <SourceConflictsPanel items={wikidataItems} />}
+      {activeTab === "aenderungen" && <ImportDiffPanel items={wikidataItems} />}
+
       {/* ================================================================= */}
       {/* IMPORT TAB                                                        */}
       {/* ================================================================= */}
@@ -907,6 +969,12 @@ export default function ImportSubstancesPage() {
                   {step === "importing" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : dryRun ? <Eye className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
                   {dryRun ? "Dry-Run starten" : "Importieren"} ({wikidataItems.length} Items)
                 </Button>
+                {step === "importing" && activeRunId && (
+                  <Button onClick={() => handleCancelRun(activeRunId)} size="sm" variant="destructive">
+                    <Square className="mr-2 h-4 w-4" />
+                    Abbrechen
+                  </Button>
+                )}
                 {failedCount > 0 && step === "done" && (
                   <Button onClick={handleRetryFailed} size="sm" variant="outline">
                     <RotateCcw className="mr-2 h-4 w-4" />
@@ -922,6 +990,55 @@ export default function ImportSubstancesPage() {
             </CardContent>
           </Card>
 
+          {/* Interrupted runs */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <History className="h-4 w-4" />
+                  Offene Läufe
+                </CardTitle>
+                <Button onClick={handleLoadOpenRuns} size="sm" variant="outline" disabled={isRunning}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Laden
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {openRuns.length === 0 ? (
+                <p className="text-sm text-neutral-500">
+                  Unterbrochene Import-Läufe werden hier angezeigt und können ab dem letzten verarbeiteten Item fortgesetzt werden.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {openRuns.map((run) => (
+                    <div
+                      key={run.id}
+                      className="flex flex-wrap items-center gap-3 rounded-md border border-neutral-200 px-3 py-2 text-sm dark:border-neutral-700"
+                    >
+                      <span className="text-neutral-500">{new Date(run.created_at).toLocaleString("de-DE")}</span>
+                      <span>
+                        {run.next_index}/{run.total_items} Items
+                      </span>
+                      {run.dry_run && <Badge variant="secondary" className="text-[10px]">Dry-Run</Badge>}
+                      {run.locked_by && <Badge variant="info" className="text-[10px]">in Bearbeitung</Badge>}
+                      <div className="ml-auto flex gap-2">
+                        <Button onClick={() => handleResumeRun(run.id)} size="sm" variant="outline" disabled={isRunning}>
+                          <Play className="mr-2 h-4 w-4" />
+                          Fortsetzen
+                        </Button>
+                        <Button onClick={() => handleCancelRun(run.id)} size="sm" variant="ghost" disabled={isRunning}>
+                          <Square className="mr-2 h-4 w-4" />
+                          Abbrechen
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Progress bar */}
           {progress && step === "importing" && (
             <Card>
@@ -929,7 +1046,7 @@ export default function ImportSubstancesPage() {
                 <div className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
                     <span>
-                      Batch {progress.currentBatch}/{progress.totalBatches} —{" "}
+                      Chunk {progress.currentBatch}/{progress.totalBatches} —{" "}
                       {progress.processedItems}/{progress.totalItems} Items
                     </span>
                     <span>
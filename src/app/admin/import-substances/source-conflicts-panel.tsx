@@ -0,0 +1,281 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle, GitCompare, Loader2 } from "lucide-react";
+import { MAX_IMPORT_BATCH_SIZE } from "@/lib/config";
+import type { FieldConflict, MergeField, NormalizedSubstance } from "@/lib/substances/adapters";
+
+interface ConflictSourceItem {
+  qid: string;
+  label: string;
+  pubchem_cid?: number;
+}
+
+interface ConflictRow {
+  name: string;
+  qid: string;
+  pubchemCid?: number;
+  conflicts: FieldConflict[];
+}
+
+interface PreviewResponse {
+  ok: boolean;
+  results?: Array<{ ok: boolean; item?: NormalizedSubstance; error?: string }>;
+  error?: string;
+}
+
+interface CommitResponse {
+  ok: boolean;
+  summary?: { inserted: number; updated: number; skipped: number; failed: number };
+  error?: string;
+}
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  name: "Name",
+  category: "Kategorie",
+  summary: "Beschreibung",
+  molecularFormula: "Summenformel",
+  inchiKey: "InChIKey",
+  smiles: "SMILES",
+  pubchemCid: "PubChem-CID",
+};
+
+/** Items per preview request – each one queries Wikidata and PubChem. */
+const CHECK_CHUNK_SIZE = 10;
+
+export function SourceConflictsPanel({ items }: { items: ConflictSourceItem[] }) {
+  const [checking, setChecking] = useState(false);
+  const [checked, setChecked] = useState(0);
+  const [rows, setRows] = useState<ConflictRow[] | null>(null);
+  const [choices, setChoices] = useState<Record<string, Partial<Record<MergeField, string>>>>({});
+  const [overwrite, setOverwrite] = useState(false);
+  const [withChEMBL, setWithChEMBL] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = useCallback(async () => {
+    setChecking(true);
+    setChecked(0);
+    setRows(null);
+    setChoices({});
+    setMessage(null);
+    setError(null);
+    const found: ConflictRow[] = [];
+    const defaults: Record<string, Partial<Record<MergeField, string>>> = {};
+    try {
+      for (let i = 0; i < items.length; i += CHECK_CHUNK_SIZE) {
+        const chunk = items.slice(i, i + CHECK_CHUNK_SIZE);
+        const res = await fetch("/api/admin/import-substances/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            items: chunk.map((item) => ({
+              name: item.label,
+              wikidataQid: item.qid || undefined,
+              pubchemCid: item.pubchem_cid,
+            })),
+            sources: withChEMBL ? ["wikidata", "pubchem", "chembl"] : ["wikidata", "pubchem"],
+          }),
+        });
+        const data = (await res.json()) as PreviewResponse;
+        if (!res.ok || !data.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+
+        (data.results ?? []).forEach((result, index) => {
+          const conflicts = result.item?.conflicts ?? [];
+          if (conflicts.length === 0) return;
+          const source = chunk[index];
+          found.push({ name: source.label, qid: source.qid, pubchemCid: source.pubchem_cid, conflicts });
+          defaults[source.label] = Object.fromEntries(conflicts.map((c) => [c.field, c.chosenSourceId]));
+        });
+        setChecked(Math.min(i + CHECK_CHUNK_SIZE, items.length));
+      }
+      setRows(found);
+      setChoices(defaults);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setRows(found);
+      setChoices(defaults);
+    } finally {
+      setChecking(false);
+    }
+  }, [items, withChEMBL]);
+
+  const choose = useCallback((name: string, field: MergeField, sourceId: string) => {
+    setChoices((prev) => ({ ...prev, [name]: { ...prev[name], [field]: sourceId } }));
+  }, []);
+
+  const handleCommit = useCallback(async () => {
+    if (!rows || rows.length === 0) return;
+    setCommitting(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const totals = { inserted: 0, updated: 0, skipped: 0, failed: 0 };
+      for (let i = 0; i < rows.length; i += MAX_IMPORT_BATCH_SIZE) {
+        const res = await fetch("/api/admin/import-substances/commit", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            items: rows.slice(i, i + MAX_IMPORT_BATCH_SIZE).map((row) => ({
+              name: row.name,
+              wikidataQid: row.qid || undefined,
+              pubchemCid: row.pubchemCid,
+              resolutions: choices[row.name] ?? {},
+            })),
+            overwrite,
+            includeChEMBL: withChEMBL,
+          }),
+        });
+        const data = (await res.json()) as CommitResponse;
+        if (!res.ok || !data.ok || !data.summary) throw new Error(data.error ?? `HTTP ${res.status}`);
+        totals.inserted += data.summary.inserted;
+        totals.updated += data.summary.updated;
+        totals.skipped += data.summary.skipped;
+        totals.failed += data.summary.failed;
+      }
+      setMessage(
+        `${totals.inserted} eingefügt, ${totals.updated} aktualisiert, ${totals.skipped} übersprungen, ${totals.failed} fehlgeschlagen.`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCommitting(false);
+    }
+  }, [rows, choices, overwrite, withChEMBL]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <GitCompare className="h-4 w-4" />
+          Quellen-Konflikte
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-neutral-500">
+          Vergleicht Wikidata und PubChem (optional ChEMBL) je Substanz. Widersprechen sich die Quellen
+          bei InChIKey, Summenformel oder PubChem-CID, wählst du hier den Wert, der übernommen wird.
+        </p>
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="conflicts-chembl"
+              checked={withChEMBL}
+              onChange={(e) => setWithChEMBL(e.target.checked)}
+              disabled={checking || committing}
+              className="h-4 w-4"
+            />
+            <label htmlFor="conflicts-chembl" className="text-sm text-neutral-600 dark:text-neutral-400">
+              ChEMBL einbeziehen (inkl. Rezeptor-Affinitäten)
+            </label>
+          </div>
+          <Button onClick={handleCheck} disabled={checking || committing || items.length === 0} size="sm">
+            {checking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitCompare className="mr-2 h-4 w-4" />}
+            Konflikte prüfen ({items.length} Items)
+          </Button>
+          {checking && (
+            <span className="text-sm text-neutral-500">
+              {checked}/{items.length} geprüft…
+            </span>
+          )}
+        </div>
+        {items.length === 0 && (
+          <p className="text-sm text-neutral-500">
+            Noch keine Daten geladen. Wechsle zum &quot;Query&quot;-Tab, um Substanzen abzurufen.
+          </p>
+        )}
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </p>
+        )}
+
+        {rows && rows.length === 0 && !checking && !error && (
+          <p className="flex items-center gap-2 text-sm text-green-600">
+            <CheckCircle className="h-4 w-4" />
+            Keine Konflikte gefunden.
+          </p>
+        )}
+
+        {rows && rows.length > 0 && (
+          <div className="space-y-4">
+            {rows.map((row) => (
+              <div key={row.name} className="rounded-md border border-neutral-200 p-3 dark:border-neutral-700">
+                <div className="mb-2 flex items-center gap-2">
+                  <span className="font-medium">{row.name}</span>
+                  {row.qid && <span className="font-mono text-xs text-neutral-400">{row.qid}</span>}
+                  <Badge variant="moderate" className="text-[10px]">
+                    {row.conflicts.length} Konflikt{row.conflicts.length === 1 ? "" : "e"}
+                  </Badge>
+                </div>
+                <div className="space-y-3">
+                  {row.conflicts.map((conflict) => (
+                    <fieldset key={conflict.field}>
+                      <legend className="mb-1 text-xs font-medium text-neutral-600 dark:text-neutral-400">
+                        {FIELD_LABELS[conflict.field]}
+                      </legend>
+                      <div className="space-y-1">
+                        {conflict.values.map((value) => (
+                          <label key={value.sourceId} className="flex items-center gap-2 text-sm">
+                            <input
+                              type="radio"
+                              name={`${row.name}-${conflict.field}`}
+                              checked={choices[row.name]?.[conflict.field] === value.sourceId}
+                              onChange={() => choose(row.name, conflict.field, value.sourceId)}
+                              disabled={committing}
+                              className="h-4 w-4"
+                            />
+                            <span className="font-mono text-xs">{String(value.value)}</span>
+                            <a
+                              href={value.sourceUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-violet-500 hover:underline"
+                            >
+                              {value.sourceId}
+                            </a>
+                            <span className="text-xs text-neutral-400">
+                              {new Date(value.retrievedAt).toLocaleString("de-DE")}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </fieldset>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="conflicts-overwrite"
+                  checked={overwrite}
+                  onChange={(e) => setOverwrite(e.target.checked)}
+                  disabled={committing}
+                  className="h-4 w-4"
+                />
+                <label htmlFor="conflicts-overwrite" className="text-sm text-neutral-600 dark:text-neutral-400">
+                  Bestehende Substanzen überschreiben
+                </label>
+              </div>
+              <Button onClick={handleCommit} disabled={committing || checking} size="sm">
+                {committing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Auswahl übernehmen ({rows.length} Substanzen)
+              </Button>
+            </div>
+            {message && <p className="text-sm text-green-600">{message}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
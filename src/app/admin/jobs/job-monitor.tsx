@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Ban, ChevronDown, ChevronRight, Loader2, Play, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { parseSseStream } from "@/lib/ai/stream";
+import type { AiJob, AiJobStatus } from "@/lib/types";
+
+const STATUS_BADGE: Record<AiJobStatus, { label: string; variant: "info" | "moderate" | "low" | "high" | "secondary" }> = {
+  queued: { label: "Wartend", variant: "secondary" },
+  running: { label: "Läuft", variant: "info" },
+  done: { label: "Fertig", variant: "low" },
+  failed: { label: "Fehlgeschlagen", variant: "high" },
+  cancelled: { label: "Abgebrochen", variant: "moderate" },
+};
+
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString("de-DE") : "–";
+}
+
+async function postAction(url: string): Promise<void> {
+  const res = await fetch(url, { method: "POST" });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error ?? `HTTP ${res.status}`);
+  }
+}
+
+function JobRow({ job, onError }: { job: AiJob; onError: (message: string) => void }) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const active = job.status === "queued" || job.status === "running";
+
+  const run = async (action: "cancel" | "retry") => {
+    setBusy(true);
+    try {
+      await postAction(`/api/admin/jobs/${job.id}/${action}`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="border-b border-neutral-100 py-3 last:border-0 dark:border-neutral-800">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200"
+          aria-label={open ? "Details ausblenden" : "Details anzeigen"}
+        >
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <span className="w-24 font-mono text-xs text-neutral-700 dark:text-neutral-300">{job.type}</span>
+        <Badge variant={STATUS_BADGE[job.status].variant}>
+          {STATUS_BADGE[job.status].label}
+          {job.cancel_requested && job.status === "running" ? " (Abbruch angefordert)" : ""}
+        </Badge>
+        <div className="flex-1">
+          <div className="h-2 rounded-full bg-neutral-200 dark:bg-neutral-800">
+            <div
+              className={`h-2 rounded-full transition-all ${job.status === "failed" ? "bg-red-500" : "bg-cyan-500"}`}
+              style={{ width: `${job.progress ?? 0}%` }}
+            />
+          </div>
+        </div>
+        <span className="w-12 text-right text-xs text-neutral-500 dark:text-neutral-400">{job.progress ?? 0} %</span>
+        <span className="w-16 text-right text-xs text-neutral-500 dark:text-neutral-400">
+          {job.attempts}/{job.max_attempts}
+        </span>
+        {active ? (
+          <Button variant="ghost" size="sm" onClick={() => run("cancel")} disabled={busy || job.cancel_requested}>
+            <Ban />
+            Abbrechen
+          </Button>
+        ) : job.status === "failed" || job.status === "cancelled" ? (
+          <Button variant="ghost" size="sm" onClick={() => run("retry")} disabled={busy}>
+            <RotateCcw />
+            Erneut
+          </Button>
+        ) : (
+          <span className="w-[6.5rem]" />
+        )}
+      </div>
+
+      {job.error && <p className="mt-1 pl-7 text-xs text-red-600 dark:text-red-400">{job.error}</p>}
+
+      {open && (
+        <div className="mt-2 space-y-2 pl-7 text-xs text-neutral-600 dark:text-neutral-400">
+          <p>
+            Angelegt {formatTime(job.created_at)} · Gestartet {formatTime(job.started_at)} · Beendet{" "}
+            {formatTime(job.finished_at)}
+            {job.status === "queued" && job.attempts > 0 ? ` · Nächster Versuch ${formatTime(job.run_after)}` : ""}
+          </p>
+          <pre className="max-h-32 overflow-auto rounded bg-neutral-100 p-2 dark:bg-neutral-900">
+            {JSON.stringify(job.input_json, null, 2)}
+          </pre>
+          {(job.logs ?? []).length > 0 && (
+            <ul className="max-h-48 space-y-0.5 overflow-auto font-mono">
+              {job.logs.map((entry, i) => (
+                <li
+                  key={i}
+                  className={
+                    entry.level === "error"
+                      ? "text-red-600 dark:text-red-400"
+                      : entry.level === "warn"
+                        ? "text-amber-600 dark:text-amber-400"
+                        : ""
+                  }
+                >
+                  {new Date(entry.at).toLocaleTimeString("de-DE")} {entry.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Live job list: consumes /api/admin/jobs/stream and reconnects after each `end`. */
+export function JobMonitor() {
+  const [jobs, setJobs] = useState<AiJob[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [runningWorker, setRunningWorker] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const connect = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const res = await fetch("/api/admin/jobs/stream", { signal: controller.signal });
+          if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}`);
+          for await (const event of parseSseStream(res.body)) {
+            const payload = JSON.parse(event.data);
+            if (payload.type === "snapshot") {
+              setJobs(payload.jobs);
+              setError(null);
+            } else if (payload.type === "error") {
+              setError(payload.error);
+            }
+          }
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          setError(err instanceof Error ? err.message : "Verbindung unterbrochen");
+          await new Promise((resolve) => setTimeout(resolve, 5_000));
+        }
+      }
+    };
+
+    void connect();
+    return () => controller.abort();
+  }, []);
+
+  const runWorker = async () => {
+    setRunningWorker(true);
+    try {
+      await postAction("/api/admin/jobs/worker");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    } finally {
+      setRunningWorker(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          {jobs === null ? "Verbinde …" : `${jobs.length} neueste Jobs · aktualisiert sich automatisch`}
+        </p>
+        <Button variant="outline" size="sm" onClick={runWorker} disabled={runningWorker}>
+          {runningWorker ? <Loader2 className="animate-spin" /> : <Play />}
+          Worker jetzt ausführen
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <Card>
+        <CardContent className="pt-6">
+          {jobs === null ? (
+            <Loader2 className="mx-auto h-5 w-5 animate-spin text-neutral-400" />
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">Noch keine Jobs.</p>
+          ) : (
+            jobs.map((job) => <JobRow key={job.id} job={job} onError={setError} />)
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
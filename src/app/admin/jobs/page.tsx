@@ -0,0 +1,20 @@
+import { ListChecks } from "lucide-react";
+import { JobMonitor } from "./job-monitor";
+
+export default function AdminJobsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
+          <ListChecks className="h-7 w-7 text-cyan-500" />
+          Hintergrund-Jobs
+        </h1>
+        <p className="mt-1 text-neutral-500 dark:text-neutral-400">
+          Autofill, Artikel-Generierung, Anreicherung und Importe. Fehlgeschlagene Jobs werden mit Backoff automatisch
+          wiederholt.
+        </p>
+      </div>
+      <JobMonitor />
+    </div>
+  );
+}
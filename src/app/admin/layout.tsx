@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { LayoutDashboard, FileText, BookOpen, Image, ScrollText, Shield, Boxes, Brain, FlaskConical, Network, Upload, Wand2, Sparkles, KeyRound, Globe, MessageSquare, Search, GitBranch } from "lucide-react";
+import { LayoutDashboard, FileText, BookOpen, Image, ScrollText, Shield, Boxes, Brain, FlaskConical, Network, Upload, Wand2, Sparkles, KeyRound, Globe, MessageSquare, Search, GitBranch, ListChecks, Layers, History } from "lucide-react";
 
 const navItems = [
   { href: "/admin", label: "Dashboard", icon: LayoutDashboard },
@@ -7,13 +7,16 @@ const navItems = [
   { href: "/admin/articles", label: "Artikel", icon: FileText },
   { href: "/admin/substances", label: "Substanzen", icon: FlaskConical },
   { href: "/admin/substances/generate", label: "Auto-Generate", icon: Sparkles },
+  { href: "/admin/article-batches", label: "Artikel-Batches", icon: Layers },
   { href: "/admin/import-substances", label: "Import-Pipeline", icon: Upload },
   { href: "/admin/seo", label: "SEO", icon: Globe },
   { href: "/admin/neuro", label: "NeuroMap", icon: Network },
   { href: "/admin/templates", label: "Templates", icon: Boxes },
+  { href: "/admin/article-templates", label: "Artikel-Templates", icon: History },
   { href: "/admin/sources", label: "Quellen", icon: BookOpen },
   { href: "/admin/media", label: "Medien", icon: Image },
   { href: "/admin/chat-sessions", label: "Chat Sessions", icon: MessageSquare },
+  { href: "/admin/jobs", label: "Jobs", icon: ListChecks },
   { href: "/admin/audit", label: "Audit-Log", icon: ScrollText },
   { href: "/admin/secrets", label: "Secrets", icon: KeyRound },
   { href: "/admin/experience-search", label: "Experience Search", icon: Search },
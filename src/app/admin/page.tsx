@@ -171,7 +171,7 @@ export default async function AdminDashboard() {
               </p>
             ) : (
               <p className="text-sm text-neutral-500">
-                Setze OPENAI_API_KEY oder ANTHROPIC_API_KEY
+                Setze OPENAI_API_KEY, ANTHROPIC_API_KEY oder LOCAL_AI_BASE_URL
               </p>
             )}
           </CardContent>
@@ -20,6 +20,7 @@ import {
 import Link from "next/link";
 import type { ArticleTemplate, GeneratedCitation } from "@/lib/types";
 import type { SubstanceRow } from "@/lib/substances/schema";
+import { waitForJob } from "@/lib/jobs/client";
 import { AdminPharmacologyTabs } from "@/components/admin-pharmacology-tabs";
 
 interface GenerateResult {
@@ -113,15 +114,18 @@ export default function SubstanceDetailPage() {
           language,
           tone,
           length,
+          async: true,
         }),
       });
 
-      const data = await res.json();
+      const queued = await res.json();
 
-      if (data.error) {
-        setToast({ message: data.error, type: "error" });
+      if (queued.error) {
+        setToast({ message: queued.error, type: "error" });
       } else {
-        setResult(data as GenerateResult);
+        // Runs in the background worker
+        const data = await waitForJob<GenerateResult>(queued.jobId);
+        setResult(data);
         if (data.status === "blocked") {
           setToast({
             message: `Artikel wurde geblockt: ${data.blocked_reasons.join(", ")}`,
@@ -131,8 +135,9 @@ export default function SubstanceDetailPage() {
           setToast({ message: "AI-Entwurf erfolgreich erstellt.", type: "success" });
         }
       }
-    } catch {
-      setToast({ message: "Generierung fehlgeschlagen.", type: "error" });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Generierung fehlgeschlagen.";
+      setToast({ message, type: "error" });
     } finally {
       setGenerating(false);
     }
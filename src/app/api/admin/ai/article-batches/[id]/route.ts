@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { getArticleBatch } from "@/lib/ai/article-batch";
+
+/**
+ * GET /api/admin/ai/article-batches/[id]
+ *
+ * Batch with its generated articles (review queue) and job states.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const detail = await getArticleBatch(id);
+    if (!detail) {
+      return NextResponse.json({ error: "Batch nicht gefunden." }, { status: 404 });
+    }
+    return NextResponse.json(detail);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { isAiEnabled } from "@/lib/ai/provider";
+import { createArticleBatch, listArticleBatches, type CreateBatchInput } from "@/lib/ai/article-batch";
+import { ArticleGenerationError } from "@/lib/ai/generate-article";
+
+/**
+ * GET /api/admin/ai/article-batches
+ *
+ * Recent batches with the review state of their substances.
+ */
+export async function GET(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ batches: await listArticleBatches() });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/ai/article-batches
+ *
+ * `{ templateKey, selection: { seedPack } | { category?, query?, substanceIds? }, language?, tone?, length? }`
+ * Enqueues one article job per substance; returns 202 with the batch.
+ */
+export async function POST(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  if (!isAiEnabled("article")) {
+    return NextResponse.json(
+      { error: "Kein AI-Provider für Artikel konfiguriert (AI_PROVIDER_ARTICLE, OPENAI_API_KEY, …)." },
+      { status: 503 }
+    );
+  }
+
+  let body: Partial<CreateBatchInput>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ungültiger Request-Body." }, { status: 400 });
+  }
+
+  try {
+    const batch = await createArticleBatch({
+      templateKey: body.templateKey ?? "",
+      selection: body.selection ?? {},
+      language: body.language,
+      tone: body.tone,
+      length: body.length,
+    });
+    return NextResponse.json({ batch }, { status: 202 });
+  } catch (err) {
+    if (err instanceof ArticleGenerationError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    console.error("[article-batches]", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runAutofill, isAiEnabled } from "@/lib/ai/provider";
+import { StructuredOutputError } from "@/lib/ai/structured";
 import { createClient } from "@/lib/supabase/server";
+import { enqueueJob } from "@/lib/jobs/store";
 
 export async function POST(request: NextRequest) {
-  if (!isAiEnabled()) {
+  if (!isAiEnabled("autofill")) {
     return NextResponse.json(
-      { error: "AI ist nicht konfiguriert. Setze OPENAI_API_KEY oder ANTHROPIC_API_KEY." },
+      { error: "AI ist nicht konfiguriert. Setze OPENAI_API_KEY, ANTHROPIC_API_KEY oder LOCAL_AI_BASE_URL." },
       { status: 503 }
     );
   }
@@ -30,6 +32,12 @@ export async function POST(request: NextRequest) {
   }
 
   try {
+    // async: true → run in the background worker, poll /api/admin/jobs
+    if (body.async === true) {
+      const job = await enqueueJob("autofill", { title, subtitle, category, templateSections, existingDraft });
+      return NextResponse.json({ jobId: job.id }, { status: 202 });
+    }
+
     // Create AI job record
     const supabase = await createClient();
     const { data: job, error: jobError } = await supabase
@@ -46,7 +54,10 @@ export async function POST(request: NextRequest) {
       console.error("[autofill] Job creation failed:", jobError.message);
     }
 
-    const output = await runAutofill({ title, subtitle, category, templateSections, existingDraft });
+    const output = await runAutofill(
+      { title, subtitle, category, templateSections, existingDraft },
+      { jobId: job?.id ?? null }
+    );
 
     // Update job with result
     if (job) {
@@ -59,6 +70,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ jobId: job?.id ?? null, output });
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
-    return NextResponse.json({ error: message }, { status: 500 });
+    // Unusable model output is an upstream failure, not a server error
+    const status = err instanceof StructuredOutputError ? 502 : 500;
+    return NextResponse.json({ error: message }, { status });
   }
 }
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { approveGeneratedArticle, rejectGeneratedArticle } from "@/lib/ai/article-batch";
+import { ArticleGenerationError } from "@/lib/ai/generate-article";
+
+/**
+ * POST /api/admin/ai/generated-articles/[id]/review — `{ decision: "approve" | "reject", note? }`
+ *
+ * approve: create a draft article from the generated one (like map-to-article).
+ * reject: mark the generated article as rejected.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  let body: { decision?: unknown; note?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ungültiger Request-Body." }, { status: 400 });
+  }
+  if (body.decision !== "approve" && body.decision !== "reject") {
+    return NextResponse.json({ error: 'decision muss "approve" oder "reject" sein.' }, { status: 400 });
+  }
+  const note = typeof body.note === "string" ? body.note : undefined;
+
+  const { id } = await params;
+  try {
+    if (body.decision === "approve") {
+      return NextResponse.json({ decision: "approve", mapped: await approveGeneratedArticle(id, note) });
+    }
+    return NextResponse.json({ decision: "reject", article: await rejectGeneratedArticle(id, note) });
+  } catch (err) {
+    if (err instanceof ArticleGenerationError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { updateGeneratedArticleContent } from "@/lib/ai/article-batch";
+import { ArticleGenerationError } from "@/lib/ai/generate-article";
+
+/**
+ * PATCH /api/admin/ai/generated-articles/[id] — `{ content_mdx }`
+ *
+ * Save a reviewer's edit; the content filter runs again.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  let body: { content_mdx?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ungültiger Request-Body." }, { status: 400 });
+  }
+  if (typeof body.content_mdx !== "string" || body.content_mdx.trim() === "") {
+    return NextResponse.json({ error: "content_mdx ist erforderlich." }, { status: 400 });
+  }
+
+  const { id } = await params;
+  try {
+    const article = await updateGeneratedArticleContent(id, body.content_mdx);
+    return NextResponse.json({ article });
+  } catch (err) {
+    if (err instanceof ArticleGenerationError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
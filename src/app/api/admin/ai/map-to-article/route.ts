@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { isAdminAuthenticated } from "@/lib/auth";
 import { createClient } from "@/lib/supabase/server";
+import { ArticleGenerationError, mapGeneratedArticleToArticle } from "@/lib/ai/generate-article";
 
 export async function POST(request: NextRequest) {
   const authenticated = await isAdminAuthenticated(request);
@@ -26,113 +27,12 @@ export async function POST(request: NextRequest) {
 
   try {
     const supabase = await createClient();
-
-    // 1. Fetch generated article
-    const { data: generated, error: fetchError } = await supabase
-      .from("generated_articles")
-      .select("*")
-      .eq("id", generatedArticleId)
-      .single();
-
-    if (fetchError || !generated) {
-      return NextResponse.json(
-        { error: "Generierter Artikel nicht gefunden." },
-        { status: 404 }
-      );
-    }
-
-    if (generated.status === "blocked") {
-      return NextResponse.json(
-        { error: "Geblockte Artikel können nicht übernommen werden." },
-        { status: 400 }
-      );
-    }
-
-    // 2. Fetch substance for title/slug
-    const { data: substance } = await supabase
-      .from("substances")
-      .select("name, slug, categories")
-      .eq("id", generated.substance_id)
-      .single();
-
-    if (!substance) {
-      return NextResponse.json(
-        { error: "Zugehörige Substanz nicht gefunden." },
-        { status: 404 }
-      );
-    }
-
-    const templateKey = generated.template_key || "";
-    const templateSuffix = templateKey.replace(/_v\d+$/, "").replace(/_/g, " ");
-    const title = `${substance.name} – ${templateSuffix.charAt(0).toUpperCase() + templateSuffix.slice(1)}`;
-    const slug = `${substance.slug}-${templateKey.replace(/_/g, "-")}`;
-    const category = Array.isArray(substance.categories) && substance.categories.length > 0
-      ? substance.categories[0]
-      : null;
-
-    // 3. Create article in draft status
-    const insertData: Record<string, unknown> = {
-      title,
-      slug,
-      summary: `AI-generierter Artikel über ${substance.name}.`,
-      content_mdx: generated.content_mdx,
-      status: "draft",
-      risk_level: "unknown",
-      evidence_strength: "moderate",
-      category,
-    };
-
-    let { data: article, error: articleError } = await supabase
-      .from("articles")
-      .insert(insertData)
-      .select()
-      .single();
-
-    // Retry without risk_level if the column is missing from the schema cache
-    if (articleError?.message?.includes("schema cache")) {
-      delete insertData.risk_level;
-      ({ data: article, error: articleError } = await supabase
-        .from("articles")
-        .insert(insertData)
-        .select()
-        .single());
-    }
-
-    if (articleError || !article) {
-      return NextResponse.json(
-        { error: "Artikel konnte nicht erstellt werden: " + (articleError?.message ?? "Unbekannter Fehler") },
-        { status: 500 }
-      );
-    }
-
-    // 4. Update generated article with mapping
-    await supabase
-      .from("generated_articles")
-      .update({
-        article_id: article.id,
-        status: "mapped",
-      })
-      .eq("id", generatedArticleId);
-
-    // 5. Audit log
-    await supabase.from("audit_log").insert({
-      action: "draft_mapped_to_article",
-      entity_type: "article",
-      entity_id: article.id,
-      details: {
-        generated_article_id: generatedArticleId,
-        substance_name: substance.name,
-        template_key: templateKey,
-      },
-    });
-
-    return NextResponse.json({
-      article_id: article.id,
-      title,
-      slug,
-      status: "draft",
-    });
+    const mapped = await mapGeneratedArticleToArticle(supabase, generatedArticleId);
+    return NextResponse.json(mapped);
   } catch (err) {
+    if (err instanceof ArticleGenerationError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
     return NextResponse.json({ error: message }, { status: 500 });
   }
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { isAiEnabled } from "@/lib/ai/provider";
+import { ArticleGenerationError, validateArticleGenerationInput } from "@/lib/ai/generate-article";
+import { enqueueJob } from "@/lib/jobs/store";
+
+/**
+ * POST /api/admin/ai/templates/[key]/compare — `{ substanceId, versionA, versionB, language?, tone?, length? }`
+ *
+ * Queue a `template_compare` job that generates the substance with both
+ * versions; its output holds the drafts with their content-filter results
+ * side by side. Returns 202 with `{ jobId }`. Nothing is stored.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  if (!isAiEnabled("article")) {
+    return NextResponse.json(
+      { error: "Kein AI-Provider für Artikel konfiguriert (AI_PROVIDER_ARTICLE, OPENAI_API_KEY, …)." },
+      { status: 503 }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ungültiger Request-Body." }, { status: 400 });
+  }
+
+  const versionA = Number(body.versionA);
+  const versionB = Number(body.versionB);
+  if (!Number.isInteger(versionA) || !Number.isInteger(versionB) || versionA < 1 || versionB < 1) {
+    return NextResponse.json({ error: "versionA und versionB müssen Versionsnummern sein." }, { status: 400 });
+  }
+  if (versionA === versionB) {
+    return NextResponse.json({ error: "Bitte zwei verschiedene Versionen wählen." }, { status: 400 });
+  }
+
+  const { key } = await params;
+  try {
+    const input = validateArticleGenerationInput({
+      substanceId: body.substanceId as string | undefined,
+      templateKey: key,
+      language: body.language as string | undefined,
+      tone: body.tone as string | undefined,
+      length: body.length as string | undefined,
+    });
+    const job = await enqueueJob("template_compare", { ...input, versionA, versionB });
+    return NextResponse.json({ jobId: job.id }, { status: 202 });
+  } catch (err) {
+    if (err instanceof ArticleGenerationError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    console.error("[templates/compare]", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { ArticleGenerationError } from "@/lib/ai/generate-article";
+import { diffTemplateVersions, getTemplateVersion } from "@/lib/ai/template-versions";
+
+/**
+ * GET /api/admin/ai/templates/[key]/diff?from=1&to=2
+ *
+ * Line diff of prompt_system, prompt_user and output_schema between two versions.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const from = Number(request.nextUrl.searchParams.get("from"));
+  const to = Number(request.nextUrl.searchParams.get("to"));
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+    return NextResponse.json({ error: "from und to müssen Versionsnummern sein." }, { status: 400 });
+  }
+
+  const { key } = await params;
+  try {
+    const supabase = createAdminClient();
+    const [a, b] = await Promise.all([getTemplateVersion(supabase, key, from), getTemplateVersion(supabase, key, to)]);
+    return NextResponse.json(diffTemplateVersions(a, b));
+  } catch (err) {
+    if (err instanceof ArticleGenerationError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { ArticleGenerationError } from "@/lib/ai/generate-article";
+import { activateTemplateVersion } from "@/lib/ai/template-versions";
+
+/**
+ * POST /api/admin/ai/templates/[key]/versions/[version]/activate
+ *
+ * Make an older version current again; the versions themselves are kept.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string; version: string }> }
+) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const { key, version } = await params;
+  const versionNumber = Number(version);
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+    return NextResponse.json({ error: "Ungültige Version." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ version: await activateTemplateVersion(createAdminClient(), key, versionNumber) });
+  } catch (err) {
+    if (err instanceof ArticleGenerationError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { ArticleGenerationError } from "@/lib/ai/generate-article";
+import { createTemplateVersion, listTemplateVersions, type TemplateVersionInput } from "@/lib/ai/template-versions";
+
+type Params = { params: Promise<{ key: string }> };
+
+/**
+ * GET /api/admin/ai/templates/[key]/versions
+ *
+ * The template (with its current version) and all versions, newest first.
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const { key } = await params;
+  try {
+    return NextResponse.json(await listTemplateVersions(createAdminClient(), key));
+  } catch (err) {
+    if (err instanceof ArticleGenerationError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/ai/templates/[key]/versions — `{ prompt_system, prompt_user, output_schema?, note? }`
+ *
+ * Save the prompts as a new version and make it current.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  let body: TemplateVersionInput;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ungültiger Request-Body." }, { status: 400 });
+  }
+
+  const { key } = await params;
+  try {
+    const version = await createTemplateVersion(createAdminClient(), key, body);
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (err) {
+    if (err instanceof ArticleGenerationError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { listEvalRecords, toJsonl } from "@/lib/chat/labels";
+
+/**
+ * GET /api/admin/chat-sessions/labels/export
+ *
+ * All labelled Safer-Use replies as JSONL evaluation dataset (one
+ * `ChatEvalRecord` per line, ordered by reply time).
+ */
+export async function GET(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  try {
+    const records = await listEvalRecords();
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(toJsonl(records), {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Content-Disposition": `attachment; filename="safer-use-labels-${date}.jsonl"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Interner Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
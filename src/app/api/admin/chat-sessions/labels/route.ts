@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { isChatLabel, removeMessageLabel, saveMessageLabel } from "@/lib/chat/labels";
+
+/**
+ * PUT /api/admin/chat-sessions/labels
+ *
+ * Body: { message_id, label, notes? } – sets or replaces the reviewer label
+ * of an assistant reply.
+ */
+export async function PUT(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    message_id?: string;
+    label?: string;
+    notes?: string | null;
+  } | null;
+
+  if (!body?.message_id || !isChatLabel(body.label)) {
+    return NextResponse.json(
+      { error: "message_id und ein gültiges label sind erforderlich." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const saved = await saveMessageLabel(body.message_id, body.label, body.notes ?? null);
+    if (!saved) {
+      return NextResponse.json({ error: "Antwort nicht gefunden." }, { status: 404 });
+    }
+    return NextResponse.json(saved);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Interner Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/chat-sessions/labels?message_id=…
+ */
+export async function DELETE(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const messageId = request.nextUrl.searchParams.get("message_id");
+  if (!messageId) {
+    return NextResponse.json({ error: "message_id ist erforderlich." }, { status: 400 });
+  }
+
+  if (!(await removeMessageLabel(messageId))) {
+    return NextResponse.json({ error: "Label konnte nicht entfernt werden." }, { status: 500 });
+  }
+  return NextResponse.json({ deleted: true });
+}
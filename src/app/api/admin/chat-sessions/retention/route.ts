@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated, isCronRequest } from "@/lib/auth";
+import {
+  countExpiredChatSessions,
+  getLastRetentionRun,
+  purgeExpiredChatSessions,
+} from "@/lib/chat/persistence";
+
+/**
+ * GET /api/admin/chat-sessions/retention
+ *
+ * Last run of the retention job and the number of sessions waiting for it.
+ */
+export async function GET(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const [lastRun, expired] = await Promise.all([getLastRetentionRun(), countExpiredChatSessions()]);
+  return NextResponse.json({ last_run: lastRun, expired });
+}
+
+/**
+ * POST /api/admin/chat-sessions/retention
+ *
+ * Delete all chat sessions past `retain_until`. Called daily by the
+ * scheduled function (netlify/functions/chat-retention.ts) or manually from
+ * /admin/chat-sessions.
+ */
+export async function POST(request: NextRequest) {
+  const cron = isCronRequest(request);
+  if (!cron && !(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const run = await purgeExpiredChatSessions({ trigger: cron ? "cron" : "admin" });
+  if (!run) {
+    return NextResponse.json({ error: "Supabase ist nicht konfiguriert." }, { status: 503 });
+  }
+  if (run.error) {
+    return NextResponse.json({ error: `Löschlauf fehlgeschlagen: ${run.error}`, run }, { status: 500 });
+  }
+
+  return NextResponse.json(run);
+}
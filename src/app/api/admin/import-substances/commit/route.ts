@@ -1,18 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
 import { isAdminAuthenticated } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { wikidataAdapter } from "@/lib/substances/adapters/wikidata-adapter";
-import { pubchemAdapter } from "@/lib/substances/adapters/pubchem-adapter";
+import { collectRawSources, type ImportSourceItem } from "@/lib/substances/adapters/collect";
+import {
+  fetchChEMBLAffinities,
+  saveChEMBLAffinities,
+  verifiedChEMBLId,
+} from "@/lib/substances/chembl-pharmacology";
 import { mergeRawSources } from "@/lib/substances/adapters/normalize";
+import type { MergeField } from "@/lib/substances/adapters";
+import {
+  DIFF_SELECT,
+  applyFieldDecisions,
+  diffSubstance,
+  withoutRejectedValues,
+  type DiffField,
+  type DiffValue,
+  type DiffableSubstance,
+} from "@/lib/substances/import-diff";
 import { slugify } from "@/lib/substances/slugify";
 import { MAX_IMPORT_BATCH_SIZE } from "@/lib/config";
 
-interface CommitItem {
-  name: string;
-  wikidataQid?: string;
-  pubchemCid?: number;
-  tags?: string[];
-  category?: string;
+interface CommitItem extends ImportSourceItem {
+  /** Manually resolved field conflicts: field → sourceId whose value wins */
+  resolutions?: Partial<Record<MergeField, string>>;
+  /**
+   * Reviewed diff of an existing substance (see dry run): only accepted
+   * fields are written, rejected ones are remembered. Reviewed items are
+   * updated regardless of `overwrite`.
+   */
+  acceptedFields?: DiffField[];
+  rejectedFields?: DiffField[];
+  /** New value per decided field as shown in the dry run */
+  reviewedValues?: Partial<Record<DiffField, DiffValue>>;
 }
 
 export async function POST(request: NextRequest) {
@@ -30,14 +50,14 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  let body: { items: CommitItem[]; overwrite?: boolean; skipPubChem?: boolean };
+  let body: { items: CommitItem[]; overwrite?: boolean; skipPubChem?: boolean; includeChEMBL?: boolean };
   try {
     body = await request.json();
   } catch {
     return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
   }
 
-  const { items, overwrite = false, skipPubChem = false } = body;
+  const { items, overwrite = false, skipPubChem = false, includeChEMBL = false } = body;
   if (!Array.isArray(items) || items.length === 0) {
     return NextResponse.json({ ok: false, error: "No items" }, { status: 400 });
   }
@@ -58,7 +78,11 @@ export async function POST(request: NextRequest) {
       .insert({
         triggered_by: "admin",
         source_config: {
-          adapters: skipPubChem ? ["wikidata"] : ["wikidata", "pubchem"],
+          adapters: [
+            "wikidata",
+            ...(skipPubChem ? [] : ["pubchem"]),
+            ...(includeChEMBL ? ["chembl"] : []),
+          ],
           overwrite,
         },
         dry_run: false,
@@ -77,48 +101,30 @@ export async function POST(request: NextRequest) {
     slug: string;
     action: string;
     confidence_score: number;
+    conflicts?: number;
+    affinities?: number;
+    staleFields?: DiffField[];
     error?: string;
   }> = [];
 
   for (const item of items) {
     const slug = slugify(item.name);
     try {
-      // Fetch from adapters
-      const raws = await (async () => {
-        const results = [];
-        const wikiRaw = item.wikidataQid
-          ? await wikidataAdapter.fetchById(item.wikidataQid)
-          : await wikidataAdapter.search(item.name).then((r) => r[0] ?? null);
-        if (wikiRaw) {
-          results.push({
-            ...wikiRaw,
-            category: item.category,
-            tags: [...(wikiRaw.tags ?? []), ...(item.tags ?? [])],
-          });
-        }
-
-        if (!skipPubChem) {
-          const pubRaw = item.pubchemCid
-            ? await pubchemAdapter.fetchById(String(item.pubchemCid)).catch(() => null)
-            : await pubchemAdapter
-                .search(item.name)
-                .then((r) => r[0] ?? null)
-                .catch(() => null);
-          if (pubRaw) results.push(pubRaw);
-        }
-        return results;
-      })();
-
-      const normalized = mergeRawSources(item.name, raws);
+      const raws = await collectRawSources(item, { skipPubChem, includeChEMBL });
+      const normalized = mergeRawSources(item.name, raws, { resolutions: item.resolutions });
 
       // Check existing
-      const { data: existing } = await supabase
+      const { data: existingRow } = await supabase
         .from("substances")
-        .select("id, slug")
+        .select(DIFF_SELECT)
         .eq("slug", slug)
         .maybeSingle();
+      const existing = existingRow as DiffableSubstance | null;
+      const reviewed = item.acceptedFields !== undefined || item.rejectedFields !== undefined;
 
       let action: "inserted" | "updated" | "skipped";
+      let staleFields: DiffField[] | undefined;
+      let substanceId: string | null = existing?.id ?? null;
       const upsertData = {
         name: normalized.name,
         slug: normalized.slug,
@@ -126,6 +132,7 @@ export async function POST(request: NextRequest) {
         confidence_score: normalized.confidenceScore,
         verification_status: normalized.verificationStatus,
         sources_meta: normalized.sources,
+        field_provenance: normalized.provenance,
         aliases_list: normalized.aliases,
         last_imported_at: normalized.lastImportedAt,
         import_run_id: runId,
@@ -135,20 +142,67 @@ export async function POST(request: NextRequest) {
       };
 
       if (!existing) {
-        await supabase.from("substances").insert(upsertData);
+        const { data: created } = await supabase.from("substances").insert(upsertData).select("id").single();
+        substanceId = created?.id ?? null;
         action = "inserted";
+      } else if (reviewed) {
+        const { diffs } = diffSubstance(existing, normalized);
+        // Sources may have changed or failed since the dry run: an accepted
+        // field is only written if its value is still the one reviewed
+        const { update, provenance, rejections, stale } = applyFieldDecisions(existing, diffs, {
+          accepted: item.acceptedFields ?? [],
+          rejected: item.rejectedFields ?? [],
+          reviewed: item.reviewedValues ?? {},
+        });
+        staleFields = stale;
+        await supabase
+          .from("substances")
+          .update({
+            ...update,
+            field_provenance: provenance,
+            import_rejections: rejections,
+            ...(Object.keys(update).length > 0
+              ? {
+                  confidence_score: normalized.confidenceScore,
+                  verification_status: normalized.verificationStatus,
+                  sources_meta: normalized.sources,
+                  last_imported_at: normalized.lastImportedAt,
+                  import_run_id: runId,
+                }
+              : {}),
+          })
+          .eq("id", existing.id);
+        action = Object.keys(update).length > 0 ? "updated" : "skipped";
       } else if (overwrite) {
-        await supabase.from("substances").update(upsertData).eq("id", existing.id);
+        await supabase
+          .from("substances")
+          .update(withoutRejectedValues(upsertData, existing.import_rejections))
+          .eq("id", existing.id);
         action = "updated";
       } else {
         action = "skipped";
       }
 
+      // Receptor heatmap: mechanisms and binding data (curated rows are kept),
+      // only for substances this commit wrote and a structure-matched molecule
+      let affinities: number | undefined;
+      const chemblId = verifiedChEMBLId(raws, normalized);
+      if (chemblId && substanceId && action !== "skipped") {
+        try {
+          affinities = (await saveChEMBLAffinities(supabase, substanceId, await fetchChEMBLAffinities(chemblId))).saved;
+        } catch (err) {
+          console.error(`[commit] ChEMBL affinities for ${item.name}:`, err instanceof Error ? err.message : err);
+        }
+      }
+
       itemResults.push({
         name: item.name,
         slug,
         action,
         confidence_score: normalized.confidenceScore,
+        conflicts: normalized.conflicts.length,
+        affinities,
+        ...(staleFields?.length ? { staleFields } : {}),
       });
 
       // Write audit item (non-blocking fire-and-forget)
@@ -163,6 +217,7 @@ export async function POST(request: NextRequest) {
             action,
             confidence_score: normalized.confidenceScore,
             sources: normalized.sources,
+            conflicts: normalized.conflicts,
           });
       }
     } catch (err) {
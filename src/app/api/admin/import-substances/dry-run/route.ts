@@ -1,31 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
 import { isAdminAuthenticated } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { wikidataAdapter } from "@/lib/substances/adapters/wikidata-adapter";
+import { collectRawSources, type ImportSourceItem } from "@/lib/substances/adapters/collect";
 import { mergeRawSources } from "@/lib/substances/adapters/normalize";
+import type { MergeField } from "@/lib/substances/adapters";
+import { DIFF_SELECT, diffSubstance, type DiffableSubstance } from "@/lib/substances/import-diff";
 import { slugify } from "@/lib/substances/slugify";
 import { MAX_IMPORT_BATCH_SIZE } from "@/lib/config";
 
-interface DryRunItem {
-  name: string;
-  wikidataQid?: string;
-  tags?: string[];
-  category?: string;
+interface DryRunItem extends ImportSourceItem {
+  /** Same conflict resolutions as the later commit, so the diff matches */
+  resolutions?: Partial<Record<MergeField, string>>;
 }
 
+/**
+ * POST /api/admin/import-substances/dry-run
+ * What commit would do with the same body – insert, update or skip – and,
+ * for existing substances, the field-by-field diff (old value, new value,
+ * source). Values rejected in an earlier review are not proposed again.
+ */
+
 export async function POST(request: NextRequest) {
   if (!(await isAdminAuthenticated(request))) {
     return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
   }
 
-  let body: { items: DryRunItem[]; overwrite?: boolean };
+  let body: { items: DryRunItem[]; overwrite?: boolean; skipPubChem?: boolean; includeChEMBL?: boolean };
   try {
     body = await request.json();
   } catch {
     return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
   }
 
-  const { items, overwrite = false } = body;
+  const { items, overwrite = false, skipPubChem = false, includeChEMBL = false } = body;
   if (!Array.isArray(items) || items.length === 0) {
     return NextResponse.json({ ok: false, error: "No items" }, { status: 400 });
   }
@@ -37,13 +44,18 @@ export async function POST(request: NextRequest) {
 
   const limited = items.slice(0, MAX_IMPORT_BATCH_SIZE);
 
-  // Fetch existing slugs from DB (if available)
-  let existingSlugs = new Set<string>();
+  // Fetch existing substances from DB (if available)
+  const existingBySlug = new Map<string, DiffableSubstance>();
   if (hasSupabase) {
     try {
       const supabase = createAdminClient();
-      const { data } = await supabase.from("substances").select("slug").limit(5000);
-      existingSlugs = new Set((data ?? []).map((r: { slug: string }) => r.slug));
+      const { data } = await supabase
+        .from("substances")
+        .select(DIFF_SELECT)
+        .in("slug", limited.map((item) => slugify(item.name)));
+      for (const row of (data ?? []) as Array<DiffableSubstance & { slug: string }>) {
+        existingBySlug.set(row.slug, row);
+      }
     } catch {
       // non-blocking
     }
@@ -52,28 +64,18 @@ export async function POST(request: NextRequest) {
   const operations = await Promise.allSettled(
     limited.map(async (item) => {
       const slug = slugify(item.name);
-      const rawResult = await (item.wikidataQid
-        ? wikidataAdapter.fetchById(item.wikidataQid)
-        : wikidataAdapter.search(item.name).then((r) => r[0] ?? null));
-
-      const rawList = rawResult
-        ? [
-            {
-              ...rawResult,
-              category: item.category,
-              tags: [...(rawResult.tags ?? []), ...(item.tags ?? [])],
-            },
-          ]
-        : [];
-      const normalized = mergeRawSources(item.name, rawList);
+      const rawList = await collectRawSources(item, { skipPubChem, includeChEMBL });
+      const normalized = mergeRawSources(item.name, rawList, { resolutions: item.resolutions });
 
-      const exists = existingSlugs.has(slug);
+      const existing = existingBySlug.get(slug);
+      const exists = Boolean(existing);
       let action: "insert" | "update" | "skip";
       if (!exists) action = "insert";
       else if (overwrite) action = "update";
       else action = "skip";
 
-      return { slug, name: item.name, normalized, action, exists };
+      const { diffs, suppressed } = existing ? diffSubstance(existing, normalized) : { diffs: [], suppressed: [] };
+      return { slug, name: item.name, normalized, action, exists, substanceId: existing?.id, diffs, suppressed };
     }),
   );
 
@@ -90,6 +92,7 @@ export async function POST(request: NextRequest) {
       .length,
     willSkip: results.filter((r) => r.ok && (r as { action?: string }).action === "skip").length,
     errors: results.filter((r) => !r.ok).length,
+    fieldChanges: results.reduce((sum, r) => sum + ((r as { diffs?: unknown[] }).diffs?.length ?? 0), 0),
   };
 
   return NextResponse.json({ ok: true, results, summary, dryRun: true });
@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { isAdminAuthenticated } from "@/lib/auth";
 import { wikidataAdapter } from "@/lib/substances/adapters/wikidata-adapter";
+import { pubchemAdapter } from "@/lib/substances/adapters/pubchem-adapter";
+import { chemblAdapter } from "@/lib/substances/adapters/chembl-adapter";
 import { mergeRawSources } from "@/lib/substances/adapters/normalize";
+import type { RawSourceSubstance } from "@/lib/substances/adapters";
 import { MAX_IMPORT_BATCH_SIZE } from "@/lib/config";
 
 interface PreviewRequestItem {
   name: string;
   wikidataQid?: string;
+  pubchemCid?: number;
+  chemblId?: string;
   tags?: string[];
   category?: string;
 }
@@ -23,7 +28,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
   }
 
-  const { items } = body;
+  const { items, sources = ["wikidata"] } = body;
   if (!Array.isArray(items) || items.length === 0) {
     return NextResponse.json({ ok: false, error: "No items" }, { status: 400 });
   }
@@ -37,7 +42,7 @@ export async function POST(request: NextRequest) {
         ? wikidataAdapter.fetchById(item.wikidataQid)
         : wikidataAdapter.search(item.name).then((results) => results[0] ?? null));
 
-      const rawList = rawResult
+      const rawList: RawSourceSubstance[] = rawResult
         ? [
             {
               ...rawResult,
@@ -46,6 +51,28 @@ export async function POST(request: NextRequest) {
             },
           ]
         : [];
+
+      // PubChem / ChEMBL on request, so field conflicts between the sources show up
+      if (sources.includes("pubchem")) {
+        const pubRaw = item.pubchemCid
+          ? await pubchemAdapter.fetchById(String(item.pubchemCid)).catch(() => null)
+          : await pubchemAdapter
+              .search(item.name)
+              .then((r) => r[0] ?? null)
+              .catch(() => null);
+        if (pubRaw) rawList.push(pubRaw);
+      }
+
+      if (sources.includes("chembl")) {
+        const chemblRaw = item.chemblId
+          ? await chemblAdapter.fetchById(item.chemblId).catch(() => null)
+          : await chemblAdapter
+              .search(item.name)
+              .then((r) => r[0] ?? null)
+              .catch(() => null);
+        if (chemblRaw) rawList.push(chemblRaw);
+      }
+
       const normalized = mergeRawSources(item.name, rawList);
       return { ...normalized, seedCategory: item.category, seedTags: item.tags };
     }),
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { isAdminAuthenticated } from "@/lib/auth";
 import { runImport, type WikidataItem } from "@/lib/substances/import-engine";
+import { FUNCTION_TIME_BUDGET_MS } from "@/lib/config";
 
 // ---------------------------------------------------------------------------
 // POST /api/admin/import-substances
@@ -122,7 +123,7 @@ export async function POST(request: NextRequest) {
     console.error(`[import-substances] [${requestId}] Unhandled error after ${elapsed}ms:`, message);
 
     // User-friendly timeout warning
-    if (elapsed > 8_000) {
+    if (elapsed > FUNCTION_TIME_BUDGET_MS) {
       return NextResponse.json(
         {
           ok: false,
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { cancelImportRun, withoutItems } from "@/lib/substances/import-runs";
+
+/**
+ * POST /api/admin/import-substances/runs/[id]/cancel
+ *
+ * Cancel an idle run immediately or stop a running one before its next item.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const run = await cancelImportRun(id);
+    if (!run) {
+      return NextResponse.json({ error: "Import-Lauf nicht gefunden oder bereits beendet." }, { status: 409 });
+    }
+    return NextResponse.json({ run: withoutItems(run) });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { resumeImportRun, withoutItems } from "@/lib/substances/import-runs";
+
+/**
+ * POST /api/admin/import-substances/runs/[id]/resume — `{ workerId?, maxItems? }`
+ *
+ * Process the next chunk of a run (at most ~8 s). Call again while
+ * `run.status` is "running". A client that keeps its `workerId` can pick
+ * up its own lock right after a timed-out request.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  let body: { workerId?: unknown; maxItems?: unknown } = {};
+  try {
+    body = await request.json();
+  } catch {
+    // Empty body: defaults
+  }
+
+  const workerId =
+    typeof body.workerId === "string" && /^[\w-]{1,100}$/.test(body.workerId) ? `admin-${body.workerId}` : undefined;
+  const maxItems =
+    typeof body.maxItems === "number" && body.maxItems > 0 ? Math.min(Math.floor(body.maxItems), 50) : undefined;
+
+  const { id } = await params;
+  try {
+    const { claimed, run, results } = await resumeImportRun(id, { workerId, maxItems });
+    if (!run) {
+      return NextResponse.json({ error: "Import-Lauf nicht gefunden." }, { status: 404 });
+    }
+    if (!claimed && run.status === "running") {
+      return NextResponse.json(
+        { error: "Import-Lauf wird gerade von einem anderen Prozess bearbeitet.", run: withoutItems(run) },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json({ run: withoutItems(run), results });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
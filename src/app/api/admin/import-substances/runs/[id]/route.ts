@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { getImportRun, listImportRunItems, withoutItems } from "@/lib/substances/import-runs";
+
+/**
+ * GET /api/admin/import-substances/runs/[id]
+ *
+ * The run and the checkpointed results of its processed items.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const run = await getImportRun(id);
+    if (!run) {
+      return NextResponse.json({ error: "Import-Lauf nicht gefunden." }, { status: 404 });
+    }
+    const items = await listImportRunItems(id);
+    return NextResponse.json({ run: withoutItems(run), items });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
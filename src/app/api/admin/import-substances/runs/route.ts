@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { enqueueJob } from "@/lib/jobs/store";
+import type { WikidataItem } from "@/lib/substances/import-engine";
+import { createImportRun, listImportRuns, withoutItems } from "@/lib/substances/import-runs";
+import { MAX_IMPORT_RUN_ITEMS } from "@/lib/config";
+
+/**
+ * GET /api/admin/import-substances/runs?open=1&limit=20
+ *
+ * Recent import runs; `open=1` lists only queued and interrupted ones.
+ */
+export async function GET(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const open = request.nextUrl.searchParams.get("open") === "1";
+  const limit = Math.min(Number(request.nextUrl.searchParams.get("limit")) || 20, 100);
+
+  try {
+    const runs = await listImportRuns({ open, limit });
+    return NextResponse.json({ runs });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/import-substances/runs —
+ * `{ items, dryRun?, skipAi?, skipPubChem?, background? }`
+ *
+ * Create a resumable run. The caller then drives it chunk by chunk via
+ * …/runs/[id]/resume; with `background: true` an `import` job does that.
+ */
+export async function POST(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  let body: {
+    items?: WikidataItem[];
+    dryRun?: boolean;
+    skipAi?: boolean;
+    skipPubChem?: boolean;
+    background?: boolean;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ungültiger Request-Body." }, { status: 400 });
+  }
+
+  const { items } = body;
+  if (!Array.isArray(items) || items.length === 0) {
+    return NextResponse.json({ error: "Keine Items angegeben." }, { status: 400 });
+  }
+  if (items.length > MAX_IMPORT_RUN_ITEMS) {
+    return NextResponse.json({ error: `Max ${MAX_IMPORT_RUN_ITEMS} Items pro Lauf.` }, { status: 400 });
+  }
+  if (items.some((item) => typeof item?.qid !== "string" || typeof item?.label !== "string")) {
+    return NextResponse.json({ error: "Jedes Item braucht qid und label." }, { status: 400 });
+  }
+
+  try {
+    const run = await createImportRun(items, {
+      dryRun: body.dryRun === true,
+      skipAi: body.skipAi === true,
+      skipPubChem: body.skipPubChem === true,
+    });
+    if (body.background) {
+      const job = await enqueueJob("import", { runId: run.id });
+      return NextResponse.json({ run: withoutItems(run), jobId: job.id }, { status: 202 });
+    }
+    return NextResponse.json({ run: withoutItems(run) }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
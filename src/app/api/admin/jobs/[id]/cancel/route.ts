@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { cancelJob } from "@/lib/jobs/store";
+
+/**
+ * POST /api/admin/jobs/[id]/cancel
+ *
+ * Cancel a queued job immediately or ask a running job to stop.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const job = await cancelJob(id);
+    if (!job) {
+      return NextResponse.json({ error: "Job nicht gefunden oder bereits beendet." }, { status: 409 });
+    }
+    return NextResponse.json({ job });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { retryJob } from "@/lib/jobs/store";
+
+/**
+ * POST /api/admin/jobs/[id]/retry
+ *
+ * Re-queue a failed or cancelled job with a fresh attempt budget.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const job = await retryJob(id);
+    if (!job) {
+      return NextResponse.json({ error: "Job nicht gefunden oder noch aktiv." }, { status: 409 });
+    }
+    return NextResponse.json({ job });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { getJobById } from "@/lib/jobs/store";
+
+/**
+ * GET /api/admin/jobs/[id]
+ *
+ * Status, progress and output of one job – polled by the admin pages that
+ * queue AI work.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const job = await getJobById(id);
+    if (!job) {
+      return NextResponse.json({ error: "Job nicht gefunden." }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { enqueueJob, listRecentJobs } from "@/lib/jobs/store";
+import type { AiJobStatus } from "@/lib/types";
+
+const JOB_TYPES = ["autofill", "article", "template_compare", "enrichment", "import"];
+const JOB_STATUSES: AiJobStatus[] = ["queued", "running", "done", "failed", "cancelled"];
+
+/**
+ * GET /api/admin/jobs?status=failed&limit=50
+ */
+export async function GET(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const status = request.nextUrl.searchParams.get("status") as AiJobStatus | null;
+  if (status && !JOB_STATUSES.includes(status)) {
+    return NextResponse.json({ error: `Ungültiger Status. Erlaubt: ${JOB_STATUSES.join(", ")}` }, { status: 400 });
+  }
+  const limit = Math.min(Number(request.nextUrl.searchParams.get("limit")) || 50, 200);
+
+  try {
+    const jobs = await listRecentJobs({ status: status ?? undefined, limit });
+    return NextResponse.json({ jobs });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/jobs — `{ type, input, maxAttempts? }`
+ *
+ * Queue a job for the background worker. Returns 202 with the job.
+ */
+export async function POST(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  let body: { type?: string; input?: Record<string, unknown>; maxAttempts?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Ungültiger Request-Body." }, { status: 400 });
+  }
+
+  if (!body.type || !JOB_TYPES.includes(body.type)) {
+    return NextResponse.json({ error: `Ungültiger Job-Typ. Erlaubt: ${JOB_TYPES.join(", ")}` }, { status: 400 });
+  }
+  if (body.input !== undefined && (typeof body.input !== "object" || body.input === null || Array.isArray(body.input))) {
+    return NextResponse.json({ error: "input muss ein Objekt sein." }, { status: 400 });
+  }
+
+  try {
+    const job = await enqueueJob(body.type, body.input ?? {}, { maxAttempts: body.maxAttempts });
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth";
+import { encodeSseEvent } from "@/lib/ai/stream";
+import { listRecentJobs } from "@/lib/jobs/store";
+import type { AiJob } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 2_000;
+/** The client reconnects after `end`; keeps each function call short. */
+const STREAM_DURATION_MS = 55_000;
+
+export type JobStreamEvent =
+  | { type: "snapshot"; jobs: AiJob[] }
+  | { type: "error"; error: string }
+  | { type: "end" };
+
+/**
+ * GET /api/admin/jobs/stream
+ *
+ * Server-sent events with the latest jobs: a `snapshot` whenever something
+ * changed (polled every 2 s), `end` after ~55 s.
+ */
+export async function GET(request: NextRequest) {
+  const authenticated = await isAdminAuthenticated(request);
+  if (!authenticated) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: JobStreamEvent) => controller.enqueue(encoder.encode(encodeSseEvent(event)));
+      const deadline = Date.now() + STREAM_DURATION_MS;
+      let last = "";
+
+      try {
+        while (Date.now() < deadline && !request.signal.aborted) {
+          const jobs = await listRecentJobs({ limit: 50 });
+          const serialized = JSON.stringify(jobs);
+          if (serialized !== last) {
+            send({ type: "snapshot", jobs });
+            last = serialized;
+          }
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+        send({ type: "end" });
+      } catch (err) {
+        send({ type: "error", error: err instanceof Error ? err.message : "Unbekannter Fehler." });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated, isCronRequest } from "@/lib/auth";
+import { runWorker } from "@/lib/jobs/worker";
+import { FUNCTION_TIME_BUDGET_MS } from "@/lib/config";
+
+/**
+ * POST /api/admin/jobs/worker
+ *
+ * Process due jobs from `ai_jobs` within one function invocation (see
+ * FUNCTION_TIME_LIMIT_MS). Called every minute by the scheduled function
+ * (netlify/functions/job-worker.ts) or manually from /admin/jobs. A job that
+ * outlives the function is reclaimed as stale and fails once its attempts
+ * are used up; such jobs need `npm run jobs:worker`.
+ */
+export async function POST(request: NextRequest) {
+  if (!isCronRequest(request) && !(await isAdminAuthenticated(request))) {
+    return NextResponse.json({ error: "Nicht autorisiert." }, { status: 401 });
+  }
+
+  try {
+    const result = await runWorker({ timeBudgetMs: FUNCTION_TIME_BUDGET_MS });
+    return NextResponse.json(result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unbekannter Fehler.";
+    console.error("[jobs/worker]", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
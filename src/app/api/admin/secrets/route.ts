@@ -17,6 +17,7 @@ const SECRET_DEFS: { name: string; category: string; hint: string }[] = [
   { name: "ADMIN_TOKEN", category: "Auth", hint: "Shared admin authentication token" },
   { name: "OPENAI_API_KEY", category: "AI", hint: "OpenAI API key for AI features" },
   { name: "ANTHROPIC_API_KEY", category: "AI", hint: "Anthropic API key for AI features" },
+  { name: "LOCAL_AI_BASE_URL", category: "AI", hint: "OpenAI-compatible local server (llama.cpp, Ollama)" },
   { name: "GITHUB_TOKEN", category: "GitHub", hint: "GitHub PAT for Dev-Activity feed" },
 ];
 
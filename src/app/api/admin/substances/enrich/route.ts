@@ -64,6 +64,23 @@ export async function POST(request: NextRequest) {
     const chemblResult = await fetchChEMBLTargets(substance.name);
     const targets = chemblResult?.targets ?? [];
 
+    // Binding data for the receptor heatmap (best-effort). The name search may
+    // hit a salt or another compound – only a structure match is saved.
+    let affinitiesSaved = 0;
+    const structureMatch = !!chemblResult?.inchiKey && chemblResult.inchiKey === substance.canonical_id;
+    if (chemblResult && !structureMatch) {
+      console.warn(`[enrich] ChEMBL ${chemblResult.chemblId} does not match the InChIKey of ${substance.name}, skipping affinities`);
+    }
+    if (chemblResult && structureMatch) {
+      try {
+        const { fetchChEMBLAffinities, saveChEMBLAffinities } = await import("@/lib/substances/chembl-pharmacology");
+        const affinities = await fetchChEMBLAffinities(chemblResult.chemblId);
+        affinitiesSaved = (await saveChEMBLAffinities(supabase, substanceId, affinities)).saved;
+      } catch (err) {
+        console.error("[enrich] ChEMBL affinities:", err instanceof Error ? err.message : err);
+      }
+    }
+
     await supabase
       .from("enrichment_jobs")
       .update({ phase: "summary", updated_at: new Date().toISOString() })
@@ -169,6 +186,7 @@ export async function POST(request: NextRequest) {
       enrichment: {
         hasPubChem: !!pubchem,
         hasChEMBL: targets.length > 0,
+        affinities: affinitiesSaved,
         tags: enrichmentData.tags,
         relatedCount: enrichmentData.related_slugs.length,
       },
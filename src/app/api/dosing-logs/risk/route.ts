@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { computeRiskOverlay } from "@/lib/risk/compute";
+import { computeToleranceOverview, TOLERANCE_LOOKBACK_DAYS } from "@/lib/risk/tolerance";
+import { getPDForSubstanceNames, getPKRoutesForSubstanceNames } from "@/lib/db/pharmacology";
+import { getDoseReferencesForSubstanceNames } from "@/lib/db/dose-references";
+import { getTaxonomy } from "@/lib/taxonomy/load";
+import { resolveSubstance, SUBSTANCE_CATEGORY_LABELS } from "@/lib/taxonomy/taxonomy";
+import type { SubstanceCategory } from "@/lib/risk/categories";
+import type { DosingLogEntry } from "@/lib/risk/models";
+
+/** Long-acting substances (e.g. GABAergics) can still matter 72 h after intake. */
+const LOOKBACK_HOURS = 72;
+
+/** Entries considered for the overlay; the tolerance history may be longer. */
+const MAX_OVERLAY_ENTRIES = 200;
+const MAX_HISTORY_ENTRIES = 1000;
+
+/**
+ * GET /api/dosing-logs/risk
+ *
+ * Computes the risk overlay for the current user's recent dosing logs on the
+ * server, so dose reference ranges never leave it. Returns the entries of
+ * the last 72 h, the qualitative overlay (null without entries) and the
+ * tolerance estimate from the last `TOLERANCE_LOOKBACK_DAYS` days.
+ *
+ * `?category=<substance>:<category>` (repeatable) assigns a category to a
+ * substance the taxonomy does not know.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Nicht authentifiziert" }, { status: 401 });
+  }
+
+  const now = new Date();
+  const overlayFrom = now.getTime() - LOOKBACK_HOURS * 60 * 60 * 1000;
+  const from = new Date(now.getTime() - TOLERANCE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from("dosing_logs")
+    .select("*")
+    .eq("user_id", user.id)
+    .gte("taken_at", from)
+    .lte("taken_at", now.toISOString())
+    .order("taken_at", { ascending: false })
+    .limit(MAX_HISTORY_ENTRIES);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const history = (data ?? []) as DosingLogEntry[];
+  if (history.length === 0) {
+    return NextResponse.json({ entries: [], result: null, tolerance: [] });
+  }
+  const entries = history
+    .filter((e) => new Date(e.taken_at).getTime() >= overlayFrom)
+    .slice(0, MAX_OVERLAY_ENTRIES);
+
+  const taxonomy = await getTaxonomy();
+  const categoryOverrides: Record<string, SubstanceCategory> = {};
+  for (const param of request.nextUrl.searchParams.getAll("category")) {
+    const separator = param.lastIndexOf(":");
+    const category = param.slice(separator + 1) as SubstanceCategory;
+    if (separator <= 0 || !(category in SUBSTANCE_CATEGORY_LABELS) || category === "unknown") continue;
+    categoryOverrides[resolveSubstance(taxonomy, param.slice(0, separator)).key] = category;
+  }
+
+  const names = Array.from(new Set(entries.map((e) => e.substance)));
+  const historyNames = Array.from(new Set(history.map((e) => e.substance)));
+  const [pk, doseRefs, pd] = await Promise.all([
+    getPKRoutesForSubstanceNames(names),
+    getDoseReferencesForSubstanceNames(names),
+    getPDForSubstanceNames(historyNames),
+  ]);
+
+  return NextResponse.json({
+    entries,
+    result: entries.length > 0
+      ? computeRiskOverlay(entries, now, { pk, doseRefs, taxonomy, categoryOverrides })
+      : null,
+    tolerance: computeToleranceOverview(history, now, { pd, taxonomy }),
+  });
+}
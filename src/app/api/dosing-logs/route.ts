@@ -67,6 +67,8 @@ export async function POST(request: NextRequest) {
       substance: body.substance,
       dose_mg: body.dose_mg ?? null,
       dose_g: body.dose_g ?? null,
+      dose_ug: body.dose_ug ?? null,
+      dose_ml: body.dose_ml ?? null,
       route: body.route || null,
       notes: body.notes || null,
       taken_at: body.taken_at,
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { estimateTolerance, type ToleranceEstimate } from "@/lib/pkpd-math";
+import { TOLERANCE_LOOKBACK_DAYS } from "@/lib/risk/tolerance";
+import { getTaxonomy } from "@/lib/taxonomy/load";
+import { resolveSubstance } from "@/lib/taxonomy/taxonomy";
+import type { Pharmacodynamics } from "@/lib/types";
+
+/**
+ * GET /api/dosing-logs/tolerance?substance_id=<id>
+ *
+ * Tolerance estimate of the current user for one substance, per PD row with
+ * a `tolerance_shift_per_day`. Returns `{ estimates }` keyed by PD row id;
+ * only relative factors, no amounts.
+ */
+export async function GET(request: NextRequest) {
+  const substanceId = request.nextUrl.searchParams.get("substance_id");
+  if (!substanceId) {
+    return NextResponse.json({ error: "substance_id ist erforderlich." }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Nicht authentifiziert" }, { status: 401 });
+  }
+
+  const { data: pdRows, error: pdError } = await supabase
+    .from("pharmacodynamics")
+    .select("*")
+    .eq("substance_id", substanceId);
+
+  if (pdError) {
+    return NextResponse.json({ error: pdError.message }, { status: 500 });
+  }
+
+  const withShift = ((pdRows ?? []) as Pharmacodynamics[]).filter(
+    (pd) => pd.tolerance_shift_per_day && pd.tolerance_shift_per_day > 0
+  );
+  if (withShift.length === 0) {
+    return NextResponse.json({ estimates: {} });
+  }
+
+  const now = new Date();
+  const from = new Date(now.getTime() - TOLERANCE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data: logs, error } = await supabase
+    .from("dosing_logs")
+    .select("substance, taken_at")
+    .eq("user_id", user.id)
+    .gte("taken_at", from)
+    .lte("taken_at", now.toISOString())
+    // Newest first, so the cap drops the oldest logs
+    .order("taken_at", { ascending: false })
+    .limit(1000);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const taxonomy = await getTaxonomy();
+  const takenAt = ((logs ?? []) as { substance: string; taken_at: string }[])
+    .filter((l) => resolveSubstance(taxonomy, l.substance).substanceId === substanceId)
+    .map((l) => l.taken_at);
+
+  const estimates: Record<string, ToleranceEstimate> = {};
+  for (const pd of withShift) {
+    estimates[pd.id] = estimateTolerance(pd.tolerance_shift_per_day, takenAt, now);
+  }
+  return NextResponse.json({ estimates });
+}
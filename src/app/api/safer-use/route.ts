@@ -1,14 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
-import { runSaferUseChat } from "@/lib/ai/safer-use";
-import {
-  getIpHash,
-  getOrCreateVisitorId,
-  persistChatExchange,
-} from "@/lib/chat/persistence";
-import type { SaferUseChatRequest } from "@/lib/types";
-
-const VISITOR_COOKIE = "sp_visitor_id";
+import { runSaferUseChat, SAFER_USE_PROMPT_VERSION, streamSaferUseChat } from "@/lib/ai/safer-use";
+import { encodeSseEvent } from "@/lib/ai/stream";
+import { resolveChatOwner, VISITOR_COOKIE } from "@/lib/chat/owner";
+import { getIpHash, loadSessionHistory, persistChatExchange } from "@/lib/chat/persistence";
+import type {
+  SaferUseChatRequest,
+  SaferUseChatResponse,
+  SaferUseHistoryTurn,
+  SaferUseOverride,
+  SaferUseStreamEvent,
+} from "@/lib/types";
 
+/**
+ * POST /api/safer-use
+ *
+ * With `Accept: text/event-stream` the reply is streamed as server-sent
+ * events (see `SaferUseStreamEvent`): `red_flags` if the pre-screen detected
+ * an emergency, `delta` while the assessment arrives,
+ * `final` with the complete reply, then `session` with the id to send as
+ * `session_id` for follow-up questions. Otherwise the complete reply is
+ * returned as JSON.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = (await request.json()) as SaferUseChatRequest & {
@@ -23,48 +35,83 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const chatResponse = await runSaferUseChat(body);
-
-    // --- Persistence (best-effort, never blocks the response) ---
-    let userId: string | null = null;
-    let visitorId: string | null = null;
-    let isNewVisitor = false;
-
-    // Try to get authenticated user from Supabase session cookie
-    try {
-      const { createClient } = await import("@/lib/supabase/server");
-      const supabase = await createClient();
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) userId = user.id;
-    } catch {
-      // No auth available — use visitor_id
-    }
+    const { userId, visitorId, isNewVisitor } = await resolveChatOwner(request);
 
-    if (!userId) {
-      const cookieVal = request.cookies.get(VISITOR_COOKIE)?.value;
-      const result = getOrCreateVisitorId(cookieVal);
-      visitorId = result.visitorId;
-      isNewVisitor = result.isNew;
+    // Follow-up: only sessions of the same user / visitor are continued
+    let sessionId: string | null = null;
+    let history: SaferUseHistoryTurn[] = [];
+    if (body.session_id && !isNewVisitor) {
+      const loaded = await loadSessionHistory(body.session_id, { userId, visitorId });
+      if (loaded) {
+        sessionId = body.session_id;
+        history = loaded;
+      }
     }
 
     const ipHash = getIpHash(request.headers);
     const userAgent = request.headers.get("user-agent");
 
-    // Fire-and-forget persistence — do not await in critical path
-    persistChatExchange({
-      userId,
-      visitorId,
-      ipHash,
-      userAgent,
-      consentAt: body.consent_at ?? null,
-      request: body,
-      response: chatResponse,
-    }).catch((err) => {
-      console.error("[safer-use] persistence error:", err);
-    });
+    const persist = (response: SaferUseChatResponse, overrides: SaferUseOverride[]) =>
+      persistChatExchange({
+        userId,
+        visitorId,
+        ipHash,
+        userAgent,
+        consentAt: body.consent_at ?? null,
+        request: body,
+        response,
+        overrides,
+        promptVersion: SAFER_USE_PROMPT_VERSION,
+        sessionId,
+      }).catch((err) => {
+        console.error("[safer-use] persistence error:", err);
+        return null;
+      });
+
+    let res: NextResponse;
 
-    // Build response with optional visitor_id cookie
-    const res = NextResponse.json(chatResponse);
+    if (request.headers.get("accept")?.includes("text/event-stream")) {
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (event: SaferUseStreamEvent) =>
+            controller.enqueue(encoder.encode(encodeSseEvent(event)));
+          try {
+            for await (const chunk of streamSaferUseChat(body, history)) {
+              if (chunk.type !== "final") {
+                send(chunk);
+                continue;
+              }
+              // The reply is complete; the session id follows once stored
+              send({ type: "final", response: chunk.response });
+              send({
+                type: "session",
+                session_id: (await persist(chunk.response, chunk.overrides)) ?? sessionId,
+              });
+            }
+          } catch {
+            send({ type: "error", error: "Interner Serverfehler. Bitte versuche es später erneut." });
+          } finally {
+            controller.close();
+          }
+        },
+      });
+
+      res = new NextResponse(stream, {
+        headers: {
+          "Content-Type": "text/event-stream; charset=utf-8",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+        },
+      });
+    } else {
+      const { response: chatResponse, overrides } = await runSaferUseChat(body, history);
+
+      // Fire-and-forget persistence — do not await in critical path
+      void persist(chatResponse, overrides);
+
+      res = NextResponse.json(chatResponse);
+    }
 
     if (isNewVisitor && visitorId) {
       res.cookies.set(VISITOR_COOKIE, visitorId, {
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveExistingChatOwner } from "@/lib/chat/owner";
+import { deleteOwnChatSession } from "@/lib/chat/persistence";
+
+/**
+ * DELETE /api/safer-use/sessions/:id
+ *
+ * Self-service deletion of one session (messages included) by its owner.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const owner = await resolveExistingChatOwner(request);
+
+  const result = await deleteOwnChatSession(id, owner);
+  if (result === "not_found") {
+    return NextResponse.json({ error: "Sitzung nicht gefunden." }, { status: 404 });
+  }
+  if (result === "error") {
+    return NextResponse.json(
+      { error: "Löschen fehlgeschlagen. Bitte versuche es später erneut." },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ deleted: true });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveExistingChatOwner } from "@/lib/chat/owner";
+import { exportChatSessions } from "@/lib/chat/persistence";
+
+/**
+ * GET /api/safer-use/sessions
+ *
+ * Download of all stored Safer-Use sessions (with messages) of the caller –
+ * the logged-in user or the holder of the visitor cookie – as JSON.
+ */
+export async function GET(request: NextRequest) {
+  const owner = await resolveExistingChatOwner(request);
+  if (!owner.userId && !owner.visitorId) {
+    return NextResponse.json({ error: "Keine gespeicherten Sitzungen gefunden." }, { status: 404 });
+  }
+
+  const data = await exportChatSessions(owner);
+  if (!data) {
+    return NextResponse.json(
+      { error: "Export nicht verfügbar. Bitte versuche es später erneut." },
+      { status: 503 }
+    );
+  }
+
+  const date = data.exported_at.slice(0, 10);
+  return new NextResponse(JSON.stringify(data, null, 2), {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="safer-use-export-${date}.json"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
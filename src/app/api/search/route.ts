@@ -1,26 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAllArticlesAsync } from "@/lib/articles";
+import { getSearchIndex } from "@/lib/search/documents";
+import { searchIndex, type SearchEntityType } from "@/lib/search/search-index";
+
+const ENTITY_TYPES: SearchEntityType[] = ["article", "substance", "glossary", "receptor"];
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const query = searchParams.get("q")?.toLowerCase() ?? "";
+  const query = searchParams.get("q")?.trim() ?? "";
 
   if (!query || query.length < 2) {
-    return NextResponse.json([]);
+    return NextResponse.json({ query, results: [] });
   }
 
-  const allArticles = await getAllArticlesAsync();
-  const results = allArticles
-    .filter(
-      (a) =>
-        a.status === "published" &&
-        (a.title.toLowerCase().includes(query) ||
-          (a.subtitle?.toLowerCase().includes(query) ?? false) ||
-          a.summary.toLowerCase().includes(query) ||
-          a.content_mdx.toLowerCase().includes(query))
-    )
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    .map(({ content_mdx: _, ...rest }) => rest);
+  const limitParam = parseInt(searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 50) : 20;
+
+  const typesParam = searchParams.get("types");
+  const types = typesParam
+    ? typesParam
+        .split(",")
+        .filter((t): t is SearchEntityType => ENTITY_TYPES.includes(t as SearchEntityType))
+    : undefined;
+
+  const index = await getSearchIndex();
+  const results = searchIndex(index, query, { limit, types });
 
-  return NextResponse.json(results);
+  return NextResponse.json({ query, results });
 }
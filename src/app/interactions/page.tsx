@@ -8,11 +8,23 @@ export const metadata = {
     "Prüfe mögliche Wechselwirkungen zwischen psychoaktiven Substanzen.",
 };
 
-export default function InteractionsPage() {
+export default async function InteractionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ a?: string; b?: string; s?: string }>;
+}) {
+  const { a, b, s } = await searchParams;
+  const initialSubstances = s
+    ? s.split(",").map((slug) => slug.trim()).filter(Boolean)
+    : undefined;
+
   return (
     <InteractionChecker
       substances={substancesData}
       interactions={interactionsData}
+      initialA={a}
+      initialB={b}
+      initialSubstances={initialSubstances}
     />
   );
 }
@@ -36,7 +36,7 @@ export default async function Home() {
         </p>
 
         <div className="relative z-10 mt-8 flex justify-center">
-          <SearchBar articles={articles} />
+          <SearchBar />
         </div>
       </section>
 
@@ -7,7 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Plus, Trash2, Save, AlertTriangle } from "lucide-react";
+import { Loader2, Plus, Trash2, Save, AlertTriangle, Pencil } from "lucide-react";
 import {
   upsertTargetAffinity,
   deleteTargetAffinity,
@@ -28,6 +28,8 @@ import type {
   EffectType,
   ConfidenceLevel,
   PKRoute,
+  PKModel,
+  PKAbsorption,
 } from "@/lib/types";
 
 interface AdminPharmacologyTabsProps {
@@ -40,6 +42,8 @@ const EFFECT_TYPES: EffectType[] = [
 ];
 const CONFIDENCE_LEVELS: ConfidenceLevel[] = ["literature", "clinical", "estimate", "low"];
 const PK_ROUTES: PKRoute[] = ["oral", "nasal", "iv", "smoked", "sublingual"];
+const PK_MODELS: PKModel[] = ["one_compartment", "two_compartment"];
+const PK_ABSORPTIONS: PKAbsorption[] = ["first_order", "zero_order"];
 
 const EFFECT_LABELS: Record<string, string> = {
   agonist: "Agonist",
@@ -59,6 +63,16 @@ const ROUTE_LABELS: Record<string, string> = {
   sublingual: "Sublingual",
 };
 
+const PK_MODEL_LABELS: Record<string, string> = {
+  one_compartment: "Ein-Kompartiment",
+  two_compartment: "Zwei-Kompartiment",
+};
+
+const PK_ABSORPTION_LABELS: Record<string, string> = {
+  first_order: "Absorption 1. Ordnung",
+  zero_order: "Absorption 0. Ordnung",
+};
+
 const CONFIDENCE_LABELS: Record<string, string> = {
   literature: "Literatur",
   clinical: "Klinisch",
@@ -340,13 +354,29 @@ function PKRouteForm({
   const [bioF, setBioF] = useState(existing?.bioavailability_f?.toString() ?? "");
   const [afterMin, setAfterMin] = useState(existing?.after_effects_min?.toString() ?? "");
   const [afterMax, setAfterMax] = useState(existing?.after_effects_max?.toString() ?? "");
+  const [model, setModel] = useState<PKModel>(existing?.model ?? "one_compartment");
+  const [absorption, setAbsorption] = useState<PKAbsorption>(existing?.absorption ?? "first_order");
+  const [alpha, setAlpha] = useState(existing?.alpha_h?.toString() ?? "");
+  const [beta, setBeta] = useState(existing?.beta_h?.toString() ?? "");
+  const [alphaFraction, setAlphaFraction] = useState(existing?.alpha_fraction?.toString() ?? "");
+  const [absorptionDuration, setAbsorptionDuration] = useState(existing?.absorption_duration_min?.toString() ?? "");
   const [confidence, setConfidence] = useState<ConfidenceLevel>(existing?.confidence_level ?? "estimate");
   const [notes, setNotes] = useState(existing?.notes ?? "");
 
   const n = (v: string) => v ? parseFloat(v) : null;
   const ni = (v: string) => v ? parseInt(v, 10) : null;
+  const twoCompartment = model === "two_compartment";
+  const zeroOrder = absorption === "zero_order";
 
   const handleSave = async () => {
+    if (zeroOrder && !ni(absorptionDuration)) {
+      setError("Kinetik 0. Ordnung benötigt eine Absorptionsdauer.");
+      return;
+    }
+    if (twoCompartment && !n(alpha)) {
+      setError("Zwei-Kompartiment-Modell benötigt α.");
+      return;
+    }
     setSaving(true);
     setError(null);
     const data: Omit<PharmacokineticRoute, "id" | "created_at" | "updated_at"> = {
@@ -365,6 +395,12 @@ function PKRouteForm({
       cmax_rel: existing?.cmax_rel ?? null,
       after_effects_min: ni(afterMin),
       after_effects_max: ni(afterMax),
+      model,
+      absorption,
+      alpha_h: twoCompartment ? n(alpha) : null,
+      beta_h: twoCompartment ? n(beta) : null,
+      alpha_fraction: twoCompartment ? n(alphaFraction) : null,
+      absorption_duration_min: zeroOrder ? ni(absorptionDuration) : null,
       confidence_level: confidence,
       sources: existing?.sources ?? [],
       notes,
@@ -438,6 +474,51 @@ function PKRouteForm({
           <Input type="number" min="0" max="1" step="0.01" placeholder="z.B. 0.50" value={bioF} onChange={(e) => setBioF(e.target.value)} />
         </div>
 
+        <div>
+          <label className="mb-1 block text-xs text-neutral-500">Modell</label>
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value as PKModel)}
+            className="w-full rounded-md border border-neutral-300 bg-white px-3 py-2 text-sm dark:border-neutral-600 dark:bg-neutral-800"
+          >
+            {PK_MODELS.map((m) => <option key={m} value={m}>{PK_MODEL_LABELS[m]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 block text-xs text-neutral-500">Absorption</label>
+          <select
+            value={absorption}
+            onChange={(e) => setAbsorption(e.target.value as PKAbsorption)}
+            className="w-full rounded-md border border-neutral-300 bg-white px-3 py-2 text-sm dark:border-neutral-600 dark:bg-neutral-800"
+          >
+            {PK_ABSORPTIONS.map((a) => <option key={a} value={a}>{PK_ABSORPTION_LABELS[a]}</option>)}
+          </select>
+        </div>
+
+        {twoCompartment && (
+          <>
+            <div>
+              <label className="mb-1 block text-xs text-neutral-500">α – Verteilungsphase (h⁻¹) *</label>
+              <Input type="number" step="0.01" placeholder="z.B. 2.0" value={alpha} onChange={(e) => setAlpha(e.target.value)} />
+            </div>
+            <div>
+              <label className="mb-1 block text-xs text-neutral-500">β – Eliminationsphase (h⁻¹)</label>
+              <Input type="number" step="0.01" placeholder="leer = ln(2)/t½" value={beta} onChange={(e) => setBeta(e.target.value)} />
+            </div>
+            <div>
+              <label className="mb-1 block text-xs text-neutral-500">Anteil α-Phase (0–1)</label>
+              <Input type="number" min="0" max="1" step="0.05" placeholder="z.B. 0.5" value={alphaFraction} onChange={(e) => setAlphaFraction(e.target.value)} />
+            </div>
+          </>
+        )}
+
+        {zeroOrder && (
+          <div>
+            <label className="mb-1 block text-xs text-neutral-500">Absorptionsdauer (min) *</label>
+            <Input type="number" placeholder="z.B. 30" value={absorptionDuration} onChange={(e) => setAbsorptionDuration(e.target.value)} />
+          </div>
+        )}
+
         <div>
           <label className="mb-1 block text-xs text-neutral-500">Konfidenz</label>
           <select
@@ -470,6 +551,7 @@ function PKRoutesTab({ substanceId }: { substanceId: string }) {
   const [pkRoutes, setPKRoutes] = useState<PharmacokineticRoute[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<PharmacokineticRoute | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -507,16 +589,18 @@ function PKRoutesTab({ substanceId }: { substanceId: string }) {
 
       <div className="flex items-center justify-between">
         <p className="text-sm text-neutral-500">{pkRoutes.length} Routen</p>
-        <Button size="sm" onClick={() => setShowForm(true)}>
+        <Button size="sm" onClick={() => { setEditing(null); setShowForm(true); }}>
           <Plus className="mr-1 h-3 w-3" /> Hinzufügen
         </Button>
       </div>
 
       {showForm && (
         <PKRouteForm
+          key={editing?.id ?? "new"}
           substanceId={substanceId}
-          onSaved={() => { setShowForm(false); load(); }}
-          onCancel={() => setShowForm(false)}
+          existing={editing ?? undefined}
+          onSaved={() => { setShowForm(false); setEditing(null); load(); }}
+          onCancel={() => { setShowForm(false); setEditing(null); }}
         />
       )}
 
@@ -537,15 +621,30 @@ function PKRoutesTab({ substanceId }: { substanceId: string }) {
               {pk.duration_min !== null && ` · Dauer ${pk.duration_min}–${pk.duration_max ?? pk.duration_min} min`}
               {pk.bioavailability_f !== null && ` · F=${(pk.bioavailability_f * 100).toFixed(0)}%`}
             </p>
+            <p className="text-xs text-neutral-500">
+              {PK_MODEL_LABELS[pk.model]}
+              {pk.model === "two_compartment" && pk.alpha_h !== null && ` (α=${pk.alpha_h} h⁻¹${pk.beta_h !== null ? `, β=${pk.beta_h} h⁻¹` : ""})`}
+              {` · ${PK_ABSORPTION_LABELS[pk.absorption]}`}
+              {pk.absorption === "zero_order" && pk.absorption_duration_min !== null && ` über ${pk.absorption_duration_min} min`}
+            </p>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => { setEditing(pk); setShowForm(true); }}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => handleDelete(pk.id)}
+              disabled={deleting === pk.id}
+            >
+              {deleting === pk.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3 text-red-500" />}
+            </Button>
           </div>
-          <Button
-            size="sm"
-            variant="ghost"
-            onClick={() => handleDelete(pk.id)}
-            disabled={deleting === pk.id}
-          >
-            {deleting === pk.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3 text-red-500" />}
-          </Button>
         </div>
       ))}
     </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   LineChart,
   Line,
@@ -10,15 +10,22 @@ import {
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  Legend,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ChevronDown, ChevronUp, BarChart2, AlertTriangle } from "lucide-react";
-import { computeDoseResponseCurve } from "@/lib/pkpd-math";
+import {
+  computeDoseResponseCurve,
+  computeRelativeDoseResponseCurve,
+  type ToleranceEstimate,
+} from "@/lib/pkpd-math";
 import type { Pharmacodynamics } from "@/lib/types";
 
 interface DoseResponseChartProps {
   pdParams: Pharmacodynamics[];
+  /** Enables the tolerance overlay from the signed-in user's dosing log */
+  substanceId?: string;
 }
 
 const CONFIDENCE_WARNING: Record<string, boolean> = {
@@ -26,13 +33,35 @@ const CONFIDENCE_WARNING: Record<string, boolean> = {
   low: true,
 };
 
-export function DoseResponseChart({ pdParams }: DoseResponseChartProps) {
+export function DoseResponseChart({ pdParams, substanceId }: DoseResponseChartProps) {
   const [scienceMode, setScienceMode] = useState(false);
   const [selectedPD, setSelectedPD] = useState<Pharmacodynamics | null>(
     pdParams.length > 0 ? pdParams[0] : null
   );
+  const [toleranceEstimates, setToleranceEstimates] = useState<Record<string, ToleranceEstimate>>({});
+  const [showTolerance, setShowTolerance] = useState(false);
 
   const pd = selectedPD ?? pdParams[0];
+  const hasToleranceData = pdParams.some((p) => p.tolerance_shift_per_day);
+
+  useEffect(() => {
+    if (!substanceId || !hasToleranceData) return;
+    let cancelled = false;
+    fetch(`/api/dosing-logs/tolerance?substance_id=${encodeURIComponent(substanceId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { estimates: Record<string, ToleranceEstimate> } | null) => {
+        if (!cancelled && data) setToleranceEstimates(data.estimates);
+      })
+      .catch(() => {
+        // Not signed in or offline: the chart works without the overlay
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [substanceId, hasToleranceData]);
+
+  const tolerance = pd ? toleranceEstimates[pd.id] : undefined;
+  const toleranceActive = showTolerance && tolerance !== undefined;
 
   const curveData = useMemo(() => {
     if (!pd?.ec50_mg) return [];
@@ -40,6 +69,12 @@ export function DoseResponseChart({ pdParams }: DoseResponseChartProps) {
     return computeDoseResponseCurve(pd, [0, max]);
   }, [pd]);
 
+  // Relative axis (multiples of ED₅₀) so the tolerance shift never reads as an amount
+  const relativeData = useMemo(() => {
+    if (!pd || !tolerance) return [];
+    return computeRelativeDoseResponseCurve(pd, tolerance.ec50_factor);
+  }, [pd, tolerance]);
+
   if (pdParams.length === 0) {
     return (
       <Card>
@@ -106,7 +141,73 @@ export function DoseResponseChart({ pdParams }: DoseResponseChartProps) {
           </div>
         )}
 
-        {curveData.length > 0 ? (
+        {tolerance && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-neutral-200 p-3 dark:border-neutral-700">
+            <p className="text-xs text-neutral-600 dark:text-neutral-400">
+              {tolerance.ec50_factor > 1.01
+                ? `Geschätzte Toleranz aus deinem Protokoll: Kurve um Faktor ${tolerance.ec50_factor.toLocaleString("de-DE", { maximumFractionDigits: 1 })} verschoben (${tolerance.use_days} ${tolerance.use_days === 1 ? "Tag" : "Tage"} mit Einnahme).`
+                : "Aus deinem Protokoll ergibt sich derzeit keine relevante Toleranz."}
+            </p>
+            <Button
+              variant={showTolerance ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowTolerance((v) => !v)}
+            >
+              Wirkung bei deiner aktuellen Toleranz
+            </Button>
+          </div>
+        )}
+
+        {toleranceActive ? (
+          <>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={relativeData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="dose"
+                  type="number"
+                  label={{ value: "Relative Dosis (× ED₅₀)", position: "insideBottom", offset: -2, fontSize: 11 }}
+                  tick={{ fontSize: 11 }}
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  label={{ value: "Effekt (%)", angle: -90, position: "insideLeft", fontSize: 11 }}
+                  tick={{ fontSize: 11 }}
+                />
+                <Tooltip
+                  formatter={(value: number | undefined, name?: string) => [
+                    value !== undefined ? `${value.toFixed(1)}%` : "",
+                    name ?? "",
+                  ]}
+                  labelFormatter={(d) => `${d} × ED₅₀`}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line
+                  type="monotone"
+                  dataKey="effect"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Ohne Toleranz"
+                />
+                <Line
+                  type="monotone"
+                  dataKey="tolerant"
+                  stroke="#f97316"
+                  strokeWidth={2}
+                  strokeDasharray="5 3"
+                  dot={false}
+                  name="Bei deiner aktuellen Toleranz"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-neutral-500">
+              Toleranz gegenüber Nebenwirkungen wie Atemdepression entwickelt sich oft langsamer
+              als gegenüber der erwünschten Wirkung – eine verschobene Kurve bedeutet nicht, dass
+              mehr sicher ist.
+            </p>
+          </>
+        ) : curveData.length > 0 ? (
           <ResponsiveContainer width="100%" height={260}>
             <LineChart data={curveData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
               <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
@@ -156,6 +257,12 @@ export function DoseResponseChart({ pdParams }: DoseResponseChartProps) {
             <h4 className="mb-3 text-sm font-semibold">Modellgleichung</h4>
             <p className="mb-3 font-mono text-xs text-neutral-600 dark:text-neutral-400">
               E(D) = E₀ + (Emax · Dʰ) / (ED₅₀ʰ + Dʰ)
+              {pd.tolerance_shift_per_day !== null && (
+                <>
+                  <br />
+                  Toleranz: ED₅₀′ = ED₅₀ · (1 + Σ s · 0,5^(d / t½,tol)), je Tag mit Einnahme vor d Tagen
+                </>
+              )}
             </p>
             <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs sm:grid-cols-3">
               <span className="text-neutral-500">Emax</span>
@@ -170,6 +277,12 @@ export function DoseResponseChart({ pdParams }: DoseResponseChartProps) {
               <span className="font-mono">{pd.hill_h}</span>
               <span className="text-neutral-500">E₀ (Baseline)</span>
               <span className="font-mono">{pd.baseline_e0}%</span>
+              {pd.tolerance_shift_per_day !== null && (
+                <>
+                  <span className="text-neutral-500">Toleranzshift / Tag</span>
+                  <span className="font-mono">+{(pd.tolerance_shift_per_day * 100).toFixed(0)}% ED₅₀</span>
+                </>
+              )}
               {pd.therapeutic_index !== null && (
                 <>
                   <span className="text-neutral-500">Therapeut. Index</span>
@@ -1,38 +1,43 @@
 "use client";
 
 import { useState, useRef, useEffect, useMemo } from "react";
-import { AlertTriangle, Search, ExternalLink } from "lucide-react";
+import { AlertTriangle, Info, Search, ExternalLink, Link2, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import {
+  buildInteractionMatrix,
+  resolveInteraction,
+  matrixCell,
+  MAX_MATRIX_SUBSTANCES,
+} from "@/lib/interactions/matrix";
+import {
+  buildSubstanceProfiles,
+  isInferred,
+  type SubstanceProfile,
+} from "@/lib/interactions/inference";
+import type {
+  Interaction,
+  InferredInteraction,
+  InteractionPairResult,
+  InteractionRisk,
+} from "@/lib/interactions/models";
 
 interface Substance {
   id: string;
   slug: string;
   title: string;
   class_primary: string;
+  mechanisms: string[];
+  receptors: string[];
   [key: string]: unknown;
 }
 
-interface Source {
-  label: string;
-  url: string;
-}
-
-interface Interaction {
-  a: string;
-  b: string;
-  risk: string;
-  headline: string;
-  mechanism_conflict: string[];
-  explanation: string;
-  harm_reduction: string[];
-  sources: Source[];
-  last_reviewed: string;
-}
-
 type RiskFilter = "all" | "high" | "moderate" | "unknown";
 
+type CheckerMode = "pair" | "matrix";
+
 const riskLabels: Record<string, string> = {
   high: "Hoch",
   moderate: "Moderat",
@@ -50,6 +55,11 @@ const riskVariant: Record<string, "high" | "moderate" | "low" | "unknown"> = {
 interface InteractionCheckerProps {
   substances: Substance[];
   interactions: Interaction[];
+  /** Slugs for pair mode (`?a=…&b=…`) */
+  initialA?: string;
+  initialB?: string;
+  /** Slugs for matrix mode (`?s=a,b,c`); switches the checker to matrix mode */
+  initialSubstances?: string[];
 }
 
 function SubstanceSearch({
@@ -57,11 +67,14 @@ function SubstanceSearch({
   substances,
   selected,
   onSelect,
+  clearOnSelect = false,
 }: {
   label: string;
   substances: Substance[];
   selected: Substance | null;
   onSelect: (s: Substance | null) => void;
+  /** Reset the input after a pick (used for adding to a list) */
+  clearOnSelect?: boolean;
 }) {
   const [query, setQuery] = useState("");
   const [open, setOpen] = useState(false);
@@ -120,7 +133,7 @@ function SubstanceSearch({
                 className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-neutral-800"
                 onClick={() => {
                   onSelect(s);
-                  setQuery(s.title);
+                  setQuery(clearOnSelect ? "" : s.title);
                   setOpen(false);
                 }}
               >
@@ -137,23 +150,198 @@ function SubstanceSearch({
   );
 }
 
-export function InteractionChecker({
+/**
+ * Full card for a single interaction: mechanism, explanation,
+ * harm reduction notes and sources. Inferred interactions are labelled
+ * with the rule that produced them.
+ */
+function InteractionDetails({
+  interaction,
+}: {
+  interaction: Interaction | InferredInteraction;
+}) {
+  const inferred = isInferred(interaction) ? interaction : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center gap-3">
+          <Badge variant={riskVariant[interaction.risk] ?? "unknown"}>
+            {riskLabels[interaction.risk] ?? interaction.risk}
+          </Badge>
+          {inferred && <Badge variant="outline">Abgeleitet</Badge>}
+          <CardTitle className="text-xl">
+            {interaction.headline}
+          </CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {inferred && (
+          <div className="rounded-md border border-neutral-700 bg-neutral-900/60 p-3 text-sm text-neutral-400">
+            Keine kuratierte Interaktion vorhanden. Diese Einschätzung wurde aus
+            Wirkstoffklasse und Wirkmechanismus abgeleitet (Regel:{" "}
+            <span className="font-medium text-neutral-300">
+              {inferred.rule.label}
+            </span>
+            {inferred.matched_rules.length > 1 &&
+              `; weitere: ${inferred.matched_rules
+                .slice(1)
+                .map((r) => r.label)
+                .join(", ")}`}
+            ) und ist weniger belastbar als kuratierte Daten.
+          </div>
+        )}
+
+        {/* Mechanism */}
+        <section>
+          <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-neutral-500">
+            Mechanismus
+          </h3>
+          <ul className="list-inside list-disc space-y-1 text-sm text-neutral-300">
+            {interaction.mechanism_conflict.map((m) => (
+              <li key={m}>{m}</li>
+            ))}
+          </ul>
+        </section>
+
+        {/* Explanation */}
+        <section>
+          <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-neutral-500">
+            Erklärung
+          </h3>
+          <p className="text-sm leading-relaxed text-neutral-300">
+            {interaction.explanation}
+          </p>
+        </section>
+
+        {/* Harm Reduction */}
+        <section>
+          <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-neutral-500">
+            Harm Reduction
+          </h3>
+          <ul className="list-inside list-disc space-y-1 text-sm text-neutral-300">
+            {interaction.harm_reduction.map((h) => (
+              <li key={h}>{h}</li>
+            ))}
+          </ul>
+        </section>
+
+        {/* Sources */}
+        {interaction.sources.length > 0 && (
+          <section>
+            <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-neutral-500">
+              Quellen
+            </h3>
+            <ul className="space-y-1">
+              {interaction.sources.map((src) => (
+                <li key={src.url}>
+                  <a
+                    href={src.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-sm text-cyan-400 hover:underline"
+                  >
+                    {src.label}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {/* Last Reviewed */}
+        {!inferred && (
+          <p className="text-xs text-neutral-600">
+            Zuletzt geprüft: {interaction.last_reviewed}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Matrix cell colours per risk level. */
+const riskCellClass: Record<InteractionRisk, string> = {
+  high: "bg-red-500/20 text-red-300 border-red-500/40 hover:bg-red-500/30",
+  moderate:
+    "bg-yellow-500/15 text-yellow-300 border-yellow-500/40 hover:bg-yellow-500/25",
+  low: "bg-green-500/15 text-green-300 border-green-500/40 hover:bg-green-500/25",
+  unknown:
+    "bg-neutral-800/60 text-neutral-400 border-neutral-700 border-dashed hover:bg-neutral-800",
+};
+
+/** Banner for the worst pair, coloured like its matrix cell. */
+const riskBannerClass: Record<InteractionRisk, { box: string; icon: string; detail: string }> = {
+  high: { box: "border-red-500/40 bg-red-500/10 text-red-200", icon: "text-red-400", detail: "text-red-300/90" },
+  moderate: {
+    box: "border-yellow-500/40 bg-yellow-500/10 text-yellow-200",
+    icon: "text-yellow-400",
+    detail: "text-yellow-300/90",
+  },
+  low: { box: "border-green-500/40 bg-green-500/10 text-green-200", icon: "text-green-400", detail: "text-green-300/90" },
+  unknown: { box: "border-neutral-700 bg-neutral-900/60 text-neutral-300", icon: "text-neutral-400", detail: "text-neutral-400" },
+};
+
+function ShareButton({ path }: { path: string }) {
+  const [copied, setCopied] = useState(false);
+
+  function handleShare() {
+    navigator.clipboard.writeText(`${window.location.origin}${path}`).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  }
+
+  return (
+    <Button variant="outline" size="sm" className="w-full sm:w-auto" onClick={handleShare}>
+      <Link2 className="mr-1.5 h-4 w-4" />
+      {copied ? "Link kopiert!" : "Als Link teilen"}
+    </Button>
+  );
+}
+
+function UnknownPairNotice() {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0 text-neutral-500" />
+          <p className="text-neutral-400">
+            Keine kuratierte Interaktion vorhanden. Risiko unbekannt. Bitte
+            Quellen prüfen.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PairMode({
   substances,
   interactions,
-}: InteractionCheckerProps) {
-  const [subA, setSubA] = useState<Substance | null>(null);
-  const [subB, setSubB] = useState<Substance | null>(null);
+  profiles,
+  initialA,
+  initialB,
+}: {
+  substances: Substance[];
+  interactions: Interaction[];
+  profiles: Map<string, SubstanceProfile>;
+  initialA?: string;
+  initialB?: string;
+}) {
+  const [subA, setSubA] = useState<Substance | null>(() =>
+    initialA ? substances.find((s) => s.slug === initialA) ?? null : null
+  );
+  const [subB, setSubB] = useState<Substance | null>(() =>
+    initialB ? substances.find((s) => s.slug === initialB) ?? null : null
+  );
   const [riskFilter, setRiskFilter] = useState<RiskFilter>("all");
 
-  const result = useMemo<Interaction | null | "none">(() => {
+  const result = useMemo<Interaction | InferredInteraction | null | "none">(() => {
     if (!subA || !subB) return null;
-    const [lo, hi] = [subA.id, subB.id].sort();
-    const match = interactions.find((i) => {
-      const [a, b] = [i.a, i.b].sort();
-      return a === lo && b === hi;
-    });
-    return match ?? "none";
-  }, [subA, subB, interactions]);
+    return resolveInteraction(interactions, subA.id, subB.id, profiles).interaction ?? "none";
+  }, [subA, subB, interactions, profiles]);
 
   const filteredResult = useMemo(() => {
     if (result === null || result === "none") return result;
@@ -169,21 +357,7 @@ export function InteractionChecker({
   ];
 
   return (
-    <div className="mx-auto max-w-4xl px-4 py-12">
-      <h1 className="mb-6 text-4xl font-bold tracking-tight">
-        Interaktions-Checker
-      </h1>
-
-      {/* Disclaimer */}
-      <div className="mb-10 flex items-start gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-950/30 dark:text-amber-300">
-        <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0" />
-        <p>
-          <strong>Hinweis:</strong> Dieses Tool dient ausschließlich der
-          wissenschaftlichen Aufklärung. Die Ergebnisse ersetzen keine ärztliche
-          Beratung und stellen keine Aufforderung zum Konsum dar.
-        </p>
-      </div>
-
+    <>
       {/* Search Fields */}
       <div className="mb-6 flex flex-col gap-4 sm:flex-row">
         <SubstanceSearch
@@ -201,7 +375,7 @@ export function InteractionChecker({
       </div>
 
       {/* Risk Filter Chips */}
-      <div className="mb-8 flex flex-wrap gap-2">
+      <div className="mb-8 flex flex-wrap items-center gap-2">
         {filters.map((f) => (
           <button
             key={f.key}
@@ -216,6 +390,13 @@ export function InteractionChecker({
             {f.label}
           </button>
         ))}
+        {subA && subB && (
+          <div className="ml-auto">
+            <ShareButton
+              path={`/interactions?a=${encodeURIComponent(subA.slug)}&b=${encodeURIComponent(subB.slug)}`}
+            />
+          </div>
+        )}
       </div>
 
       {/* Results */}
@@ -225,95 +406,332 @@ export function InteractionChecker({
         </p>
       )}
 
-      {filteredResult === "none" && (
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-start gap-3">
-              <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0 text-neutral-500" />
-              <p className="text-neutral-400">
-                Keine kuratierte Interaktion vorhanden. Risiko unbekannt. Bitte
-                Quellen prüfen.
-              </p>
-            </div>
-          </CardContent>
-        </Card>
-      )}
+      {filteredResult === "none" && <UnknownPairNotice />}
 
       {filteredResult !== null && filteredResult !== "none" && (
-        <Card>
-          <CardHeader>
-            <div className="flex items-center gap-3">
-              <Badge variant={riskVariant[filteredResult.risk] ?? "unknown"}>
-                {riskLabels[filteredResult.risk] ?? filteredResult.risk}
-              </Badge>
-              <CardTitle className="text-xl">
-                {filteredResult.headline}
-              </CardTitle>
+        <InteractionDetails interaction={filteredResult} />
+      )}
+    </>
+  );
+}
+
+function MatrixMode({
+  substances,
+  interactions,
+  profiles,
+  initialSubstances,
+}: {
+  substances: Substance[];
+  interactions: Interaction[];
+  profiles: Map<string, SubstanceProfile>;
+  initialSubstances?: string[];
+}) {
+  const [selected, setSelected] = useState<Substance[]>(() =>
+    (initialSubstances ?? [])
+      .map((slug) => substances.find((s) => s.slug === slug))
+      .filter((s): s is Substance => Boolean(s))
+      .filter((s, i, arr) => arr.findIndex((o) => o.id === s.id) === i)
+      .slice(0, MAX_MATRIX_SUBSTANCES)
+  );
+  const [activePair, setActivePair] = useState<InteractionPairResult | null>(null);
+
+  const byId = useMemo(
+    () => new Map(substances.map((s) => [s.id, s])),
+    [substances]
+  );
+  const matrix = useMemo(
+    () => buildInteractionMatrix(selected.map((s) => s.id), interactions, profiles),
+    [selected, interactions, profiles]
+  );
+  const available = useMemo(
+    () => substances.filter((s) => !selected.some((o) => o.id === s.id)),
+    [substances, selected]
+  );
+
+  const title = (id: string) => byId.get(id)?.title ?? id;
+  const isFull = selected.length >= MAX_MATRIX_SUBSTANCES;
+  const detailPair = activePair ?? matrix.worst;
+
+  function add(s: Substance | null) {
+    if (!s || isFull) return;
+    setSelected((prev) => [...prev, s]);
+    setActivePair(null);
+  }
+
+  function remove(id: string) {
+    setSelected((prev) => prev.filter((s) => s.id !== id));
+    setActivePair(null);
+  }
+
+  return (
+    <>
+      {/* Selection */}
+      <div className="mb-4">
+        {isFull ? (
+          <p className="text-sm text-neutral-500">
+            Maximal {MAX_MATRIX_SUBSTANCES} Substanzen pro Matrix.
+          </p>
+        ) : (
+          <SubstanceSearch
+            label="Substanz hinzufügen"
+            substances={available}
+            selected={null}
+            onSelect={add}
+            clearOnSelect
+          />
+        )}
+      </div>
+
+      <div className="mb-8 flex flex-wrap items-center gap-2">
+        {selected.map((s) => (
+          <span
+            key={s.id}
+            className="inline-flex items-center gap-1 rounded-full border border-neutral-700 px-3 py-1 text-sm text-neutral-200"
+          >
+            {s.title}
+            <button
+              type="button"
+              onClick={() => remove(s.id)}
+              className="text-neutral-500 hover:text-neutral-200"
+              aria-label={`${s.title} entfernen`}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        ))}
+        {selected.length >= 2 && (
+          <div className="ml-auto">
+            <ShareButton
+              path={`/interactions?s=${selected.map((s) => encodeURIComponent(s.slug)).join(",")}`}
+            />
+          </div>
+        )}
+      </div>
+
+      {selected.length < 2 && (
+        <p className="text-center text-neutral-500">
+          Wähle mindestens zwei Substanzen, um alle Kombinationen zu prüfen.
+        </p>
+      )}
+
+      {selected.length >= 2 && (
+        <div className="space-y-8">
+          {/* Worst combination */}
+          {matrix.worst?.interaction ? (
+            <div
+              className={`flex items-start gap-3 rounded-lg border p-4 text-sm ${riskBannerClass[matrix.worst.risk].box}`}
+            >
+              {matrix.worst.risk === "high" || matrix.worst.risk === "moderate" ? (
+                <AlertTriangle className={`mt-0.5 h-5 w-5 shrink-0 ${riskBannerClass[matrix.worst.risk].icon}`} />
+              ) : (
+                <Info className={`mt-0.5 h-5 w-5 shrink-0 ${riskBannerClass[matrix.worst.risk].icon}`} />
+              )}
+              <div>
+                <p className="font-semibold">
+                  Kritischste Kombination: {title(matrix.worst.a)} +{" "}
+                  {title(matrix.worst.b)} ({riskLabels[matrix.worst.risk]}
+                  {matrix.worst.origin === "inferred" && ", abgeleitet"})
+                </p>
+                <p className={`mt-1 ${riskBannerClass[matrix.worst.risk].detail}`}>
+                  {matrix.worst.interaction.headline}
+                </p>
+              </div>
             </div>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            {/* Mechanism */}
-            <section>
-              <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-neutral-500">
-                Mechanismus
-              </h3>
-              <ul className="list-inside list-disc space-y-1 text-sm text-neutral-300">
-                {filteredResult.mechanism_conflict.map((m) => (
-                  <li key={m}>{m}</li>
+          ) : (
+            <div className="flex items-start gap-3 rounded-lg border border-neutral-700 bg-neutral-900/60 p-4 text-sm text-neutral-400">
+              <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0" />
+              <p>
+                Für keine der Kombinationen liegen Daten vor. Das
+                bedeutet <strong>nicht</strong>, dass die Kombination
+                unbedenklich ist.
+              </p>
+            </div>
+          )}
+
+          {/* Matrix */}
+          <div className="overflow-x-auto">
+            <table className="border-separate border-spacing-1 text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {matrix.ids.map((id) => (
+                    <th
+                      key={id}
+                      scope="col"
+                      className="px-2 py-1 text-left font-medium text-neutral-400"
+                    >
+                      {title(id)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.ids.map((rowId) => (
+                  <tr key={rowId}>
+                    <th
+                      scope="row"
+                      className="whitespace-nowrap px-2 py-1 text-left font-medium text-neutral-400"
+                    >
+                      {title(rowId)}
+                    </th>
+                    {matrix.ids.map((colId) => {
+                      const cell = matrixCell(matrix, rowId, colId);
+                      if (!cell) {
+                        return (
+                          <td
+                            key={colId}
+                            className="min-w-20 rounded-md bg-neutral-900 px-2 py-2 text-center text-neutral-700"
+                          >
+                            —
+                          </td>
+                        );
+                      }
+                      const isActive =
+                        detailPair !== null &&
+                        matrixCell(matrix, detailPair.a, detailPair.b) === cell;
+                      return (
+                        <td key={colId} className="min-w-20 p-0">
+                          <button
+                            type="button"
+                            onClick={() => setActivePair(cell)}
+                            className={`w-full rounded-md border px-2 py-2 text-center font-medium transition-colors ${riskCellClass[cell.risk]} ${
+                              isActive ? "ring-2 ring-cyan-500" : ""
+                            }`}
+                          >
+                            {riskLabels[cell.risk]}
+                            {cell.origin === "inferred" && (
+                              <span
+                                className="ml-0.5 align-super text-[10px]"
+                                title="Abgeleitet aus Wirkstoffklasse/Mechanismus"
+                              >
+                                *
+                              </span>
+                            )}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
                 ))}
-              </ul>
-            </section>
+              </tbody>
+            </table>
+          </div>
 
-            {/* Explanation */}
-            <section>
-              <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-neutral-500">
-                Erklärung
-              </h3>
-              <p className="text-sm leading-relaxed text-neutral-300">
-                {filteredResult.explanation}
-              </p>
-            </section>
+          {matrix.pairs.some((p) => p.origin === "inferred") && (
+            <p className="-mt-6 text-xs text-neutral-500">
+              * Abgeleitet aus Wirkstoffklasse und Mechanismus – keine
+              kuratierte Interaktion.
+            </p>
+          )}
 
-            {/* Harm Reduction */}
+          {/* Details for the selected (or worst) pair */}
+          {detailPair && (
             <section>
-              <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-neutral-500">
-                Harm Reduction
-              </h3>
-              <ul className="list-inside list-disc space-y-1 text-sm text-neutral-300">
-                {filteredResult.harm_reduction.map((h) => (
-                  <li key={h}>{h}</li>
-                ))}
-              </ul>
+              <h2 className="mb-3 text-lg font-semibold">
+                {title(detailPair.a)} + {title(detailPair.b)}
+              </h2>
+              {detailPair.interaction ? (
+                <InteractionDetails interaction={detailPair.interaction} />
+              ) : (
+                <UnknownPairNotice />
+              )}
             </section>
+          )}
 
-            {/* Sources */}
+          {/* Pairs without curated data */}
+          {matrix.unknown.length > 0 && (
             <section>
-              <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-neutral-500">
-                Quellen
-              </h3>
-              <ul className="space-y-1">
-                {filteredResult.sources.map((src) => (
-                  <li key={src.url}>
-                    <a
-                      href={src.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center gap-1 text-sm text-cyan-400 hover:underline"
+              <h2 className="mb-2 text-sm font-semibold uppercase tracking-wide text-neutral-500">
+                Ohne Daten (unbekannt)
+              </h2>
+              <ul className="space-y-1 text-sm text-neutral-400">
+                {matrix.unknown.map((p) => (
+                  <li key={`${p.a}|${p.b}`}>
+                    <button
+                      type="button"
+                      onClick={() => setActivePair(p)}
+                      className="hover:text-neutral-200 hover:underline"
                     >
-                      {src.label}
-                      <ExternalLink className="h-3 w-3" />
-                    </a>
+                      {title(p.a)} + {title(p.b)}
+                    </button>
+                    : Risiko unbekannt – bitte Quellen prüfen.
                   </li>
                 ))}
               </ul>
             </section>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
 
-            {/* Last Reviewed */}
-            <p className="text-xs text-neutral-600">
-              Zuletzt geprüft: {filteredResult.last_reviewed}
-            </p>
-          </CardContent>
-        </Card>
+export function InteractionChecker({
+  substances,
+  interactions,
+  initialA,
+  initialB,
+  initialSubstances,
+}: InteractionCheckerProps) {
+  const [mode, setMode] = useState<CheckerMode>(
+    initialSubstances && initialSubstances.length > 0 ? "matrix" : "pair"
+  );
+  const profiles = useMemo(() => buildSubstanceProfiles(substances), [substances]);
+
+  const modes: { key: CheckerMode; label: string }[] = [
+    { key: "pair", label: "Zwei Substanzen" },
+    { key: "matrix", label: "Mischkonsum-Matrix" },
+  ];
+
+  return (
+    <div className="mx-auto max-w-4xl px-4 py-12">
+      <h1 className="mb-6 text-4xl font-bold tracking-tight">
+        Interaktions-Checker
+      </h1>
+
+      {/* Disclaimer */}
+      <div className="mb-10 flex items-start gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-950/30 dark:text-amber-300">
+        <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0" />
+        <p>
+          <strong>Hinweis:</strong> Dieses Tool dient ausschließlich der
+          wissenschaftlichen Aufklärung. Die Ergebnisse ersetzen keine ärztliche
+          Beratung und stellen keine Aufforderung zum Konsum dar.
+        </p>
+      </div>
+
+      {/* Mode Toggle */}
+      <div className="mb-6 inline-flex rounded-md border border-neutral-700 p-1">
+        {modes.map((m) => (
+          <button
+            key={m.key}
+            type="button"
+            onClick={() => setMode(m.key)}
+            className={`rounded px-3 py-1.5 text-sm font-medium transition-colors ${
+              mode === m.key
+                ? "bg-cyan-500/10 text-cyan-400"
+                : "text-neutral-400 hover:text-neutral-200"
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "pair" ? (
+        <PairMode
+          substances={substances}
+          interactions={interactions}
+          profiles={profiles}
+          initialA={initialA}
+          initialB={initialB}
+        />
+      ) : (
+        <MatrixMode
+          substances={substances}
+          interactions={interactions}
+          profiles={profiles}
+          initialSubstances={initialSubstances}
+        />
       )}
     </div>
   );
@@ -9,19 +9,24 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  ReferenceLine,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ChevronDown, ChevronUp, FlaskConical } from "lucide-react";
+import { ChevronDown, ChevronUp, FlaskConical, Plus, X } from "lucide-react";
 import { computePKCurve } from "@/lib/pkpd-math";
-import type { PharmacokineticRoute, Pharmacodynamics } from "@/lib/types";
+import type { PharmacokineticRoute, Pharmacodynamics, PKAdministration } from "@/lib/types";
 
 interface PKPDCurveProps {
   pkRoutes: PharmacokineticRoute[];
   pdParams: Pharmacodynamics[];
   substanceName?: string;
+  /** Timed administrations (e.g. from logged redoses); defaults to a single dose at 0 min */
+  administrations?: PKAdministration[];
 }
 
+const SINGLE_DOSE: PKAdministration[] = [{ offset_min: 0 }];
+
 const ROUTE_COLORS: Record<string, string> = {
   oral: "#3b82f6",
   nasal: "#10b981",
@@ -45,11 +50,35 @@ const CONFIDENCE_LABELS: Record<string, string> = {
   low: "Gering",
 };
 
-export function PKPDCurve({ pkRoutes, pdParams, substanceName }: PKPDCurveProps) {
+export function PKPDCurve({
+  pkRoutes,
+  pdParams,
+  substanceName,
+  administrations = SINGLE_DOSE,
+}: PKPDCurveProps) {
   const [activeRoutes, setActiveRoutes] = useState<Set<string>>(
     new Set(pkRoutes.map((r) => r.route))
   );
   const [scienceMode, setScienceMode] = useState(false);
+  const [doses, setDoses] = useState<PKAdministration[]>(administrations);
+  const [newOffset, setNewOffset] = useState("");
+
+  const isMultiDose = doses.length > 1;
+
+  const addDose = () => {
+    const offset = Number(newOffset);
+    if (!Number.isFinite(offset) || offset < 0) return;
+    setDoses((prev) =>
+      prev.some((d) => d.offset_min === offset)
+        ? prev
+        : [...prev, { offset_min: offset }].sort((a, b) => a.offset_min - b.offset_min)
+    );
+    setNewOffset("");
+  };
+
+  const removeDose = (offset: number) => {
+    setDoses((prev) => (prev.length > 1 ? prev.filter((d) => d.offset_min !== offset) : prev));
+  };
 
   const toggleRoute = (route: string) => {
     setActiveRoutes((prev) => {
@@ -69,7 +98,7 @@ export function PKPDCurve({ pkRoutes, pdParams, substanceName }: PKPDCurveProps)
     for (const pk of pkRoutes) {
       if (!activeRoutes.has(pk.route)) continue;
       const pd = pdParams.find((p) => !p.route || p.route === pk.route) ?? null;
-      const points = computePKCurve(pk, pd);
+      const points = computePKCurve(pk, pd, 1, doses);
 
       for (const p of points) {
         if (!allPoints.has(p.t)) allPoints.set(p.t, { t: p.t });
@@ -77,11 +106,12 @@ export function PKPDCurve({ pkRoutes, pdParams, substanceName }: PKPDCurveProps)
         entry[`${pk.route}_mean`] = p.mean;
         entry[`${pk.route}_low`] = p.low;
         entry[`${pk.route}_high`] = p.high;
+        entry[`${pk.route}_conc`] = Math.round(p.concentration * 1000) / 10;
       }
     }
 
     return Array.from(allPoints.values()).sort((a, b) => a.t - b.t);
-  }, [pkRoutes, pdParams, activeRoutes]);
+  }, [pkRoutes, pdParams, activeRoutes, doses]);
 
   if (pkRoutes.length === 0) {
     return (
@@ -149,18 +179,63 @@ export function PKPDCurve({ pkRoutes, pdParams, substanceName }: PKPDCurveProps)
         <p className="text-xs text-neutral-500 dark:text-neutral-400">
           Relatives Modell (1-Kompartiment PK + Emax-PD). Nicht für medizinische Entscheidungen geeignet.
           Schraffierter Bereich = Unsicherheitsband (min/max-Parametervarianz).
+          {isMultiDose &&
+            " Mehrere Einnahmen werden linear überlagert; die gestrichelte Linie zeigt die kumulierte relative Konzentration (100 % = Spitze einer Einzeldosis)."}
         </p>
 
+        {/* Administrations */}
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-neutral-500">Einnahmezeitpunkte:</span>
+          {doses.map((d) => (
+            <span
+              key={d.offset_min}
+              className="inline-flex items-center gap-1 rounded-full border border-neutral-300 px-2 py-0.5 dark:border-neutral-600"
+            >
+              {d.offset_min === 0 ? "0 min" : `+${d.offset_min} min`}
+              {(d.dose_scale ?? 1) !== 1 && ` (×${d.dose_scale})`}
+              {doses.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => removeDose(d.offset_min)}
+                  aria-label={`Einnahme bei ${d.offset_min} min entfernen`}
+                  className="text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </span>
+          ))}
+          <input
+            type="number"
+            min={0}
+            step={15}
+            value={newOffset}
+            onChange={(e) => setNewOffset(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addDose();
+            }}
+            placeholder="min"
+            aria-label="Zeitpunkt einer weiteren Einnahme in Minuten"
+            className="w-20 rounded-md border border-neutral-300 bg-transparent px-2 py-0.5 dark:border-neutral-600"
+          />
+          <Button variant="ghost" size="sm" onClick={addDose} disabled={newOffset === ""}>
+            <Plus className="h-3 w-3" />
+            Weitere Einnahme
+          </Button>
+        </div>
+
         <ResponsiveContainer width="100%" height={300}>
           <AreaChart data={curveData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
             <XAxis
               dataKey="t"
+              type="number"
+              domain={["dataMin", "dataMax"]}
               label={{ value: "Zeit (min)", position: "insideBottom", offset: -2, fontSize: 11 }}
               tick={{ fontSize: 11 }}
             />
             <YAxis
-              domain={[0, 100]}
+              domain={[0, (dataMax: number) => Math.max(100, Math.ceil(dataMax / 10) * 10)]}
               label={{ value: "Effekt (%)", angle: -90, position: "insideLeft", fontSize: 11 }}
               tick={{ fontSize: 11 }}
             />
@@ -172,6 +247,16 @@ export function PKPDCurve({ pkRoutes, pdParams, substanceName }: PKPDCurveProps)
               labelFormatter={(t) => `${t} min`}
             />
 
+            {doses.map((d) => (
+              <ReferenceLine
+                key={`dose_${d.offset_min}`}
+                x={d.offset_min}
+                stroke="#6b7280"
+                strokeDasharray="2 2"
+                label={{ value: "▼", position: "top", fontSize: 10, fill: "#6b7280" }}
+              />
+            ))}
+
             {pkRoutes
               .filter((pk) => activeRoutes.has(pk.route))
               .flatMap((pk) => {
@@ -207,6 +292,21 @@ export function PKPDCurve({ pkRoutes, pdParams, substanceName }: PKPDCurveProps)
                     fillOpacity={0.08}
                     name={ROUTE_LABELS[pk.route] ?? pk.route}
                   />,
+                  ...(isMultiDose
+                    ? [
+                        <Area
+                          key={`${pk.route}_conc`}
+                          type="monotone"
+                          dataKey={`${pk.route}_conc`}
+                          stroke={color}
+                          strokeWidth={1.5}
+                          strokeDasharray="5 4"
+                          fill="none"
+                          name={`${ROUTE_LABELS[pk.route] ?? pk.route} – Konzentration`}
+                          isAnimationActive={false}
+                        />,
+                      ]
+                    : []),
                 ];
               })}
           </AreaChart>
@@ -239,6 +339,26 @@ export function PKPDCurve({ pkRoutes, pdParams, substanceName }: PKPDCurveProps)
                             <span className="font-mono">{ke.toFixed(4)} h⁻¹</span>
                           </>
                         )}
+                        <span className="text-neutral-500">Modell</span>
+                        <span>
+                          {pk.model === "two_compartment" ? "Zwei-Kompartiment" : "Ein-Kompartiment"}
+                        </span>
+                        {pk.model === "two_compartment" && pk.alpha_h !== null && (
+                          <>
+                            <span className="text-neutral-500">α / β</span>
+                            <span className="font-mono">
+                              {pk.alpha_h} / {pk.beta_h ?? ke?.toFixed(4) ?? "–"} h⁻¹
+                            </span>
+                            <span className="text-neutral-500">Anteil α</span>
+                            <span className="font-mono">{((pk.alpha_fraction ?? 0.5) * 100).toFixed(0)}%</span>
+                          </>
+                        )}
+                        {pk.absorption === "zero_order" && pk.absorption_duration_min !== null && (
+                          <>
+                            <span className="text-neutral-500">Absorption 0. Ordnung</span>
+                            <span className="font-mono">{pk.absorption_duration_min} min</span>
+                          </>
+                        )}
                         {pk.ka_h !== null && (
                           <>
                             <span className="text-neutral-500">k_a</span>
@@ -275,6 +395,9 @@ export function PKPDCurve({ pkRoutes, pdParams, substanceName }: PKPDCurveProps)
               <div className="border-t border-neutral-200 pt-3 dark:border-neutral-700">
                 <p className="font-mono text-xs text-neutral-600 dark:text-neutral-400">
                   Modell: C(t) ∝ (kₐ/(kₐ−kₑ)) · (e⁻ᵏₑᵗ − e⁻ᵏₐᵗ)<br />
+                  Zwei-Kompartiment: C(t) ∝ f · e⁻ᵅᵗ + (1−f) · e⁻ᵝᵗ (gefaltet mit der Absorption)<br />
+                  0. Ordnung über T: C(t) ∝ (1 − e⁻ᵏₑᵗ) / (kₑT) für t ≤ T<br />
+                  Mehrfachgabe: C(t) = Σᵢ Dᵢ · C(t − tᵢ)<br />
                   kₑ = ln(2) / t½ · E(C) = E₀ + (Emax · Cʰ) / (EC50ʰ + Cʰ)
                 </p>
               </div>
@@ -9,8 +9,11 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { AlertTriangle, Shield, Clock, Heart } from "lucide-react";
+import { NativeSelect } from "@/components/ui/select";
+import { AlertTriangle, Shield, Clock, Heart, HelpCircle } from "lucide-react";
 import type { RiskLevel, RiskOverlayResult } from "@/lib/risk/models";
+import type { SubstanceCategory } from "@/lib/risk/categories";
+import { SUBSTANCE_CATEGORY_LABELS } from "@/lib/taxonomy/taxonomy";
 
 const levelLabel: Record<RiskLevel, string> = {
   low: "Niedrig",
@@ -37,11 +40,17 @@ function formatTime(iso: string): string {
   });
 }
 
+const assignableCategories = (
+  Object.keys(SUBSTANCE_CATEGORY_LABELS) as SubstanceCategory[]
+).filter((c) => c !== "unknown");
+
 interface RiskOverlayCardProps {
   result: RiskOverlayResult;
+  /** Called when the user assigns a category to an unknown substance */
+  onAssignCategory?: (substance: string, category: SubstanceCategory) => void;
 }
 
-export function RiskOverlayCard({ result }: RiskOverlayCardProps) {
+export function RiskOverlayCard({ result, onAssignCategory }: RiskOverlayCardProps) {
   return (
     <Card>
       <CardHeader>
@@ -117,6 +126,47 @@ export function RiskOverlayCard({ result }: RiskOverlayCardProps) {
           </>
         )}
 
+        {/* Unknown substances */}
+        {result.unknown_substances.length > 0 && (
+          <>
+            <Separator />
+            <section>
+              <h3 className="mb-3 flex items-center gap-1.5 text-sm font-semibold text-neutral-700 dark:text-neutral-300">
+                <HelpCircle className="h-4 w-4 text-neutral-500" />
+                Nicht zugeordnete Substanzen
+              </h3>
+              <p className="mb-3 text-xs text-neutral-500 dark:text-neutral-400">
+                Diese Substanzen sind keiner Substanzklasse zugeordnet und fließen nicht in die
+                Analyse ein. Wähle eine Klasse, um sie zu berücksichtigen.
+              </p>
+              <ul className="space-y-2">
+                {result.unknown_substances.map((name) => (
+                  <li key={name} className="flex items-center justify-between gap-3">
+                    <span className="text-sm font-medium">{name}</span>
+                    {onAssignCategory && (
+                      <NativeSelect
+                        className="w-56"
+                        defaultValue=""
+                        aria-label={`Substanzklasse für ${name}`}
+                        onValueChange={(value) => {
+                          if (value) onAssignCategory(name, value as SubstanceCategory);
+                        }}
+                      >
+                        <option value="">Klasse wählen…</option>
+                        {assignableCategories.map((c) => (
+                          <option key={c} value={c}>
+                            {SUBSTANCE_CATEGORY_LABELS[c]}
+                          </option>
+                        ))}
+                      </NativeSelect>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </>
+        )}
+
         {/* Rebound Timeline */}
         {result.rebound.length > 0 && (
           <>
@@ -0,0 +1,88 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { TrendingUp, AlertTriangle } from "lucide-react";
+import type { ToleranceEntry } from "@/lib/risk/models";
+
+function formatFactor(factor: number): string {
+  return factor.toLocaleString("de-DE", { maximumFractionDigits: 1 });
+}
+
+function formatLastUse(days: number | null): string {
+  if (days === null) return "";
+  if (days === 0) return "zuletzt heute";
+  if (days === 1) return "zuletzt gestern";
+  return `zuletzt vor ${days} Tagen`;
+}
+
+interface ToleranceCardProps {
+  tolerance: ToleranceEntry[];
+}
+
+export function ToleranceCard({ tolerance }: ToleranceCardProps) {
+  if (tolerance.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-cyan-600 dark:text-cyan-400" />
+          <CardTitle>Toleranz-Schätzung</CardTitle>
+        </div>
+        <CardDescription>
+          Wie weit die Konzentrations-Wirkungs-Kurve durch deine Einnahmen der letzten Wochen
+          verschoben ist – als relativer Faktor, nicht als Menge
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {tolerance.map((entry) => (
+            <li
+              key={entry.substance}
+              className="rounded-md border border-neutral-200 p-3 dark:border-neutral-800"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{entry.substance}</span>
+                <Badge variant="outline" className="text-xs">
+                  EC50 × {formatFactor(entry.ec50_factor)}
+                </Badge>
+              </div>
+              <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                {entry.use_days} {entry.use_days === 1 ? "Tag" : "Tage"} mit Einnahme
+                {entry.days_since_last_use !== null && `, ${formatLastUse(entry.days_since_last_use)}`}
+              </p>
+              {entry.reduced_after_break && (
+                <p className="mt-2 flex items-start gap-1.5 text-xs text-orange-700 dark:text-orange-400">
+                  <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                  Nach einer Pause sinkt die Toleranz. Gewohnte Mengen können jetzt deutlich stärker
+                  wirken als zuvor.
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <Separator />
+        <section className="space-y-1.5">
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            Toleranz gegenüber der erwünschten Wirkung entwickelt sich oft schneller als gegenüber
+            Nebenwirkungen wie Atemdepression oder Herz-Kreislauf-Belastung. Eine höhere Toleranz
+            macht höhere Mengen nicht sicherer.
+          </p>
+          <p className="text-xs font-medium text-neutral-500 dark:text-neutral-400">
+            Vereinfachtes Bildungsmodell auf Basis von Literaturschätzungen, keine Dosierungsempfehlung.
+          </p>
+        </section>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,22 +1,30 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from "react";
+import Link from "next/link";
 import {
   AlertTriangle,
+  BookOpen,
   ChevronDown,
   ChevronUp,
+  Download,
+  ExternalLink,
   Loader2,
   Phone,
   Plus,
+  RotateCcw,
   Send,
   Shield,
   Trash2,
 } from "lucide-react";
+import { parseSseStream } from "@/lib/ai/stream";
 import type {
   SaferUseChatRequest,
   SaferUseChatResponse,
+  SaferUseCitation,
   SaferUseIntakeEntry,
   SaferUseRiskLevel,
+  SaferUseStreamEvent,
   SaferUseUserProfile,
 } from "@/lib/types";
 
@@ -54,6 +62,177 @@ const defaultProfile: SaferUseUserProfile = {
   regular_meds: [],
 };
 
+/** One question and its (possibly still streaming) reply. */
+interface ChatTurn {
+  user_message: string;
+  /** Assessment text received so far while streaming */
+  assessment: string;
+  /** Emergency notice from the red-flag pre-screen, shown before the reply is complete */
+  emergency: string | null;
+  response: SaferUseChatResponse | null;
+}
+
+// ---------------------------------------------------------------------------
+// Assistant reply
+// ---------------------------------------------------------------------------
+
+function EmergencyNotice({ text }: { text: string }) {
+  return (
+    <div className="rounded-lg border-2 border-red-500 bg-red-50 p-4 dark:bg-red-950/20">
+      <div className="flex items-center gap-2 font-semibold text-red-700 dark:text-red-400">
+        <Phone className="h-5 w-5" />
+        Notfall
+      </div>
+      <p className="mt-2 text-sm text-red-700 dark:text-red-300">{text}</p>
+      <a
+        href="tel:112"
+        className="mt-3 inline-flex items-center gap-2 rounded-md bg-red-600 px-4 py-2 text-sm font-bold text-white transition-colors hover:bg-red-700"
+      >
+        <Phone className="h-4 w-4" />
+        112 anrufen
+      </a>
+    </div>
+  );
+}
+
+function Citations({ citations }: { citations: SaferUseCitation[] }) {
+  return (
+    <div>
+      <h3 className="mb-2 font-semibold text-neutral-900 dark:text-neutral-50">
+        📚 Quellen
+      </h3>
+      <ul className="space-y-2">
+        {citations.map((citation) => (
+          <li key={citation.ref} className="text-sm">
+            <Link
+              href={citation.url}
+              className="inline-flex items-start gap-1.5 font-medium text-cyan-700 hover:underline dark:text-cyan-400"
+            >
+              <BookOpen className="mt-0.5 h-4 w-4 shrink-0" />
+              [{citation.ref}] {citation.title}
+            </Link>
+            {citation.sources.length > 0 && (
+              <ul className="mt-1 space-y-0.5 pl-6">
+                {citation.sources.map((source) => (
+                  <li key={source.url}>
+                    <a
+                      href={source.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-neutral-500 hover:underline dark:text-neutral-400"
+                    >
+                      {source.label}
+                      <ExternalLink className="h-3 w-3 shrink-0" />
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function AssistantResponse({ turn }: { turn: ChatTurn }) {
+  const response = turn.response;
+
+  if (!response) {
+    return (
+      <div className="space-y-3 rounded-xl border-2 border-neutral-200 bg-white p-6 dark:border-neutral-700 dark:bg-neutral-900">
+        {turn.emergency && <EmergencyNotice text={turn.emergency} />}
+        <div className="flex items-center gap-2 text-sm text-neutral-500 dark:text-neutral-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Einschätzung wird erstellt…
+        </div>
+        {turn.assessment && (
+          <p className="text-sm leading-relaxed text-neutral-700 dark:text-neutral-300">
+            {turn.assessment}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`space-y-5 rounded-xl border-2 p-6 ${RISK_BORDER[response.risk_level]} bg-white dark:bg-neutral-900`}
+    >
+      {/* Risk badge */}
+      <div className="flex items-center gap-3">
+        <Shield className="h-6 w-6 text-neutral-500 dark:text-neutral-400" />
+        <span
+          className={`inline-block rounded-full px-4 py-1 text-sm font-bold text-white ${RISK_COLORS[response.risk_level]}`}
+        >
+          Risikostufe: {response.risk_level}
+        </span>
+      </div>
+
+      {/* Assessment */}
+      <div>
+        <h3 className="mb-1 font-semibold text-neutral-900 dark:text-neutral-50">
+          Einordnung
+        </h3>
+        <p className="text-sm leading-relaxed text-neutral-700 dark:text-neutral-300">
+          {response.assessment}
+        </p>
+      </div>
+
+      {/* Interactions */}
+      {response.interactions.length > 0 && (
+        <div>
+          <h3 className="mb-2 font-semibold text-neutral-900 dark:text-neutral-50">
+            ⚠️ Interaktionen
+          </h3>
+          <ul className="space-y-1.5">
+            {response.interactions.map((item, i) => (
+              <li
+                key={i}
+                className="flex items-start gap-2 text-sm text-neutral-700 dark:text-neutral-300"
+              >
+                <span className="mt-1 h-2 w-2 shrink-0 rounded-full bg-amber-500" />
+                {item}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Harm reduction */}
+      {response.harm_reduction.length > 0 && (
+        <div>
+          <h3 className="mb-2 font-semibold text-neutral-900 dark:text-neutral-50">
+            🛡️ Harm-Reduction-Tipps
+          </h3>
+          <ul className="space-y-1.5">
+            {response.harm_reduction.map((item, i) => (
+              <li
+                key={i}
+                className="flex items-start gap-2 text-sm text-neutral-700 dark:text-neutral-300"
+              >
+                <span className="mt-1 h-2 w-2 shrink-0 rounded-full bg-cyan-500" />
+                {item}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Emergency */}
+      {response.emergency && <EmergencyNotice text={response.emergency} />}
+
+      {/* Citations (replies stored before retrieval have none) */}
+      {response.citations?.length > 0 && <Citations citations={response.citations} />}
+
+      {/* Disclaimer */}
+      <p className="text-xs text-neutral-500 dark:text-neutral-500">
+        {response.disclaimer}
+      </p>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
@@ -65,7 +244,8 @@ export function SaferUseChat() {
   ]);
   const [message, setMessage] = useState("");
   const [loading, setLoading] = useState(false);
-  const [response, setResponse] = useState<SaferUseChatResponse | null>(null);
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [profileOpen, setProfileOpen] = useState(true);
   const [medsInput, setMedsInput] = useState("");
@@ -73,12 +253,12 @@ export function SaferUseChat() {
   const [consentGiven, setConsentGiven] = useState(false);
   const responseRef = useRef<HTMLDivElement>(null);
 
-  // Scroll to response when it appears
+  // Scroll to the newest reply when a question is sent
   useEffect(() => {
-    if (response && responseRef.current) {
+    if (turns.length > 0 && responseRef.current) {
       responseRef.current.scrollIntoView({ behavior: "smooth", block: "start" });
     }
-  }, [response]);
+  }, [turns.length]);
 
   // --- Intake log helpers ---
   const updateEntry = useCallback(
@@ -101,7 +281,6 @@ export function SaferUseChat() {
     if (!message.trim()) return;
     setLoading(true);
     setError(null);
-    setResponse(null);
 
     // Parse comma-separated meds/conditions into arrays
     const meds = medsInput
@@ -118,30 +297,78 @@ export function SaferUseChat() {
       intake_log: intakeLog.filter((e) => e.substance.trim() !== ""),
       user_message: message,
       locale: "de-DE",
+      session_id: sessionId,
     };
 
+    const updateLastTurn = (patch: Partial<ChatTurn>) =>
+      setTurns((prev) => prev.map((t, i) => (i === prev.length - 1 ? { ...t, ...patch } : t)));
+
+    setTurns((prev) => [...prev, { user_message: message, assessment: "", emergency: null, response: null }]);
+    setMessage("");
+
     try {
       const res = await fetch("/api/safer-use", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
         body: JSON.stringify({
           ...req,
           consent_at: consentGiven ? new Date().toISOString() : null,
         }),
       });
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
         const data = await res.json().catch(() => null);
         throw new Error(data?.error ?? `HTTP ${res.status}`);
       }
-      const data: SaferUseChatResponse = await res.json();
-      setResponse(data);
+
+      let completed = false;
+      for await (const { data } of parseSseStream(res.body)) {
+        const event = JSON.parse(data) as SaferUseStreamEvent;
+        if (event.type === "red_flags") {
+          updateLastTurn({ emergency: event.emergency });
+        } else if (event.type === "delta") {
+          updateLastTurn({ assessment: event.assessment });
+        } else if (event.type === "final") {
+          updateLastTurn({ assessment: event.response.assessment, response: event.response });
+          completed = true;
+        } else if (event.type === "session") {
+          if (event.session_id) setSessionId(event.session_id);
+        } else {
+          throw new Error(event.error);
+        }
+      }
+      if (!completed) throw new Error("Die Antwort wurde unterbrochen.");
     } catch (err) {
+      // Drop the unanswered question so it can be sent again
+      setTurns((prev) => (prev[prev.length - 1]?.response ? prev : prev.slice(0, -1)));
+      setMessage(req.user_message);
       setError(err instanceof Error ? err.message : "Unbekannter Fehler");
     } finally {
       setLoading(false);
     }
   };
 
+  const startNewConversation = () => {
+    setTurns([]);
+    setSessionId(null);
+    setError(null);
+  };
+
+  // --- Self-service deletion of the stored conversation ---
+  const deleteConversation = async () => {
+    if (!sessionId || !window.confirm("Dieses Gespräch endgültig löschen?")) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/safer-use/sessions/${sessionId}`, { method: "DELETE" });
+      if (!res.ok && res.status !== 404) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? `HTTP ${res.status}`);
+      }
+      startNewConversation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unbekannter Fehler");
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* ───── Disclaimer banner ───── */}
@@ -411,11 +638,25 @@ export function SaferUseChat() {
         </div>
       </section>
 
+      {/* ───── Conversation ───── */}
+      {turns.map((turn, idx) => (
+        <div
+          key={idx}
+          ref={idx === turns.length - 1 ? responseRef : undefined}
+          className="space-y-3"
+        >
+          <div className="ml-auto max-w-[85%] rounded-xl bg-cyan-50 px-4 py-3 text-sm text-neutral-800 dark:bg-cyan-950/30 dark:text-neutral-200">
+            {turn.user_message}
+          </div>
+          <AssistantResponse turn={turn} />
+        </div>
+      ))}
+
       {/* ───── Message input ───── */}
       <section className="rounded-xl border border-neutral-200 bg-white dark:border-neutral-800 dark:bg-neutral-900">
         <div className="px-5 py-4">
           <label className="mb-2 block text-lg font-semibold text-neutral-900 dark:text-neutral-50">
-            Deine Frage
+            {turns.length > 0 ? "Deine Folgefrage" : "Deine Frage"}
           </label>
           <textarea
             rows={3}
@@ -424,7 +665,29 @@ export function SaferUseChat() {
             onChange={(e) => setMessage(e.target.value)}
             className="w-full rounded-md border border-neutral-300 bg-white px-3 py-2 text-sm dark:border-neutral-700 dark:bg-neutral-800 dark:text-neutral-100"
           />
-          <div className="mt-3 flex justify-end">
+          <div className="mt-3 flex justify-end gap-2">
+            {sessionId && (
+              <button
+                type="button"
+                disabled={loading}
+                onClick={deleteConversation}
+                className="inline-flex items-center gap-2 rounded-lg border border-neutral-300 px-4 py-2.5 text-sm font-medium text-neutral-600 transition-colors hover:border-red-500 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed dark:border-neutral-600 dark:text-neutral-400"
+              >
+                <Trash2 className="h-4 w-4" />
+                Gespräch löschen
+              </button>
+            )}
+            {turns.length > 0 && (
+              <button
+                type="button"
+                disabled={loading}
+                onClick={startNewConversation}
+                className="inline-flex items-center gap-2 rounded-lg border border-neutral-300 px-4 py-2.5 text-sm font-medium text-neutral-600 transition-colors hover:border-cyan-500 hover:text-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed dark:border-neutral-600 dark:text-neutral-400"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Neues Gespräch
+              </button>
+            )}
             <button
               type="button"
               disabled={loading || !message.trim()}
@@ -436,111 +699,30 @@ export function SaferUseChat() {
               ) : (
                 <Send className="h-4 w-4" />
               )}
-              Einschätzung anfordern
+              {turns.length > 0 ? "Nachfragen" : "Einschätzung anfordern"}
             </button>
           </div>
         </div>
       </section>
 
+      {/* ───── Stored data ───── */}
+      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+        <a
+          href="/api/safer-use/sessions"
+          download
+          className="inline-flex items-center gap-1 hover:text-cyan-600 hover:underline dark:hover:text-cyan-400"
+        >
+          <Download className="h-3 w-3" />
+          Meine gespeicherten Gespräche herunterladen (JSON)
+        </a>
+      </p>
+
       {/* ───── Error ───── */}
       {error && (
         <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-700 dark:border-red-700 dark:bg-red-950/30 dark:text-red-300">
           <strong>Fehler:</strong> {error}
         </div>
       )}
-
-      {/* ───── Response ───── */}
-      {response && (
-        <div
-          ref={responseRef}
-          className={`space-y-5 rounded-xl border-2 p-6 ${RISK_BORDER[response.risk_level]} bg-white dark:bg-neutral-900`}
-        >
-          {/* Risk badge */}
-          <div className="flex items-center gap-3">
-            <Shield className="h-6 w-6 text-neutral-500 dark:text-neutral-400" />
-            <span
-              className={`inline-block rounded-full px-4 py-1 text-sm font-bold text-white ${RISK_COLORS[response.risk_level]}`}
-            >
-              Risikostufe: {response.risk_level}
-            </span>
-          </div>
-
-          {/* Assessment */}
-          <div>
-            <h3 className="mb-1 font-semibold text-neutral-900 dark:text-neutral-50">
-              Einordnung
-            </h3>
-            <p className="text-sm leading-relaxed text-neutral-700 dark:text-neutral-300">
-              {response.assessment}
-            </p>
-          </div>
-
-          {/* Interactions */}
-          {response.interactions.length > 0 && (
-            <div>
-              <h3 className="mb-2 font-semibold text-neutral-900 dark:text-neutral-50">
-                ⚠️ Interaktionen
-              </h3>
-              <ul className="space-y-1.5">
-                {response.interactions.map((item, i) => (
-                  <li
-                    key={i}
-                    className="flex items-start gap-2 text-sm text-neutral-700 dark:text-neutral-300"
-                  >
-                    <span className="mt-1 h-2 w-2 shrink-0 rounded-full bg-amber-500" />
-                    {item}
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Harm reduction */}
-          {response.harm_reduction.length > 0 && (
-            <div>
-              <h3 className="mb-2 font-semibold text-neutral-900 dark:text-neutral-50">
-                🛡️ Harm-Reduction-Tipps
-              </h3>
-              <ul className="space-y-1.5">
-                {response.harm_reduction.map((item, i) => (
-                  <li
-                    key={i}
-                    className="flex items-start gap-2 text-sm text-neutral-700 dark:text-neutral-300"
-                  >
-                    <span className="mt-1 h-2 w-2 shrink-0 rounded-full bg-cyan-500" />
-                    {item}
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Emergency */}
-          {response.emergency && (
-            <div className="rounded-lg border-2 border-red-500 bg-red-50 p-4 dark:bg-red-950/20">
-              <div className="flex items-center gap-2 font-semibold text-red-700 dark:text-red-400">
-                <Phone className="h-5 w-5" />
-                Notfall
-              </div>
-              <p className="mt-2 text-sm text-red-700 dark:text-red-300">
-                {response.emergency}
-              </p>
-              <a
-                href="tel:112"
-                className="mt-3 inline-flex items-center gap-2 rounded-md bg-red-600 px-4 py-2 text-sm font-bold text-white transition-colors hover:bg-red-700"
-              >
-                <Phone className="h-4 w-4" />
-                112 anrufen
-              </a>
-            </div>
-          )}
-
-          {/* Disclaimer */}
-          <p className="text-xs text-neutral-500 dark:text-neutral-500">
-            {response.disclaimer}
-          </p>
-        </div>
-      )}
     </div>
   );
 }
@@ -1,23 +1,79 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useEffect, useMemo } from "react";
 import Link from "next/link";
 import { Search, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
-import type { Article } from "@/lib/types";
+import {
+  groupResults,
+  type SearchResult,
+  type SearchHighlight,
+} from "@/lib/search/search-index";
 
-export function SearchBar({ articles }: { articles: Article[] }) {
-  const [query, setQuery] = useState("");
+const DEBOUNCE_MS = 150;
 
-  const results = useMemo(() => {
-    if (query.length < 2) return [];
-    const q = query.toLowerCase();
-    return articles.filter(
-      (a) =>
-        a.title.toLowerCase().includes(q) ||
-        a.summary.toLowerCase().includes(q)
+function HighlightedSnippet({
+  text,
+  highlights,
+}: {
+  text: string;
+  highlights: SearchHighlight[];
+}) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach((h, i) => {
+    if (h.start > cursor) parts.push(text.slice(cursor, h.start));
+    parts.push(
+      <mark
+        key={i}
+        className="rounded-sm bg-cyan-100 px-0.5 text-inherit dark:bg-cyan-900/60"
+      >
+        {text.slice(h.start, h.end)}
+      </mark>
     );
-  }, [query, articles]);
+    cursor = h.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
+export function SearchBar() {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < 2) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}&limit=12`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) return;
+        const data = (await res.json()) as { results: SearchResult[] };
+        setResults(data.results);
+      } catch {
+        // Aborted or offline — keep the previous results
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const groups = useMemo(
+    () => (query.trim().length < 2 ? [] : groupResults(results)),
+    [query, results]
+  );
+
+  const reset = () => {
+    setQuery("");
+    setResults([]);
+  };
 
   return (
     <div className="relative w-full max-w-xl">
@@ -32,27 +88,44 @@ export function SearchBar({ articles }: { articles: Article[] }) {
         />
         {query && (
           <button
-            onClick={() => setQuery("")}
+            onClick={reset}
             className="absolute right-3 top-1/2 -translate-y-1/2 text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
           >
             <X className="h-4 w-4" />
           </button>
         )}
       </div>
-      {results.length > 0 && (
-        <div className="absolute z-50 mt-2 w-full rounded-lg border border-neutral-200 bg-white shadow-lg dark:border-neutral-800 dark:bg-neutral-950">
-          {results.map((article) => (
-            <Link
-              key={article.id}
-              href={`/articles/${article.slug}`}
-              onClick={() => setQuery("")}
-              className="block px-4 py-3 transition-colors hover:bg-neutral-100 dark:hover:bg-neutral-900"
-            >
-              <p className="font-medium">{article.title}</p>
-              <p className="text-sm text-neutral-500 dark:text-neutral-400 line-clamp-1">
-                {article.summary}
+      {groups.length > 0 && (
+        <div className="absolute z-50 mt-2 max-h-[70vh] w-full overflow-y-auto rounded-lg border border-neutral-200 bg-white text-left shadow-lg dark:border-neutral-800 dark:bg-neutral-950">
+          {groups.map((group) => (
+            <div key={group.type}>
+              <p className="border-b border-neutral-100 px-4 pb-1 pt-3 text-xs font-semibold uppercase tracking-wide text-neutral-400 dark:border-neutral-900 dark:text-neutral-500">
+                {group.label}
               </p>
-            </Link>
+              {group.results.map((result) => (
+                <Link
+                  key={result.id}
+                  href={result.href}
+                  onClick={reset}
+                  className="block px-4 py-3 transition-colors hover:bg-neutral-100 dark:hover:bg-neutral-900"
+                >
+                  <p className="font-medium">
+                    {result.title}
+                    {result.matchedAlias && (
+                      <span className="ml-2 text-xs font-normal text-neutral-500">
+                        ({result.matchedAlias})
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-neutral-500 dark:text-neutral-400 line-clamp-2">
+                    <HighlightedSnippet
+                      text={result.snippet}
+                      highlights={result.highlights}
+                    />
+                  </p>
+                </Link>
+              ))}
+            </div>
           ))}
         </div>
       )}
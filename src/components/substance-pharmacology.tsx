@@ -38,7 +38,7 @@ export async function SubstancePharmacologySection({
       )}
 
       {pharmacology.pdParams.length > 0 && (
-        <DoseResponseChart pdParams={pharmacology.pdParams} />
+        <DoseResponseChart pdParams={pharmacology.pdParams} substanceId={substanceId} />
       )}
     </section>
   );
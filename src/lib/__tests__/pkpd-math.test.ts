@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import {
+  computePKCurve,
+  concentration,
+  concentrationTwoCompartment,
+  concentrationZeroOrder,
+  computeRelativeDoseResponseCurve,
+  estimateTolerance,
+  MAX_TOLERANCE_FACTOR,
+} from "../pkpd-math";
+import type { PharmacokineticRoute, Pharmacodynamics } from "../types";
+
+const PK: PharmacokineticRoute = {
+  id: "pk-1",
+  substance_id: "sub-1",
+  route: "oral",
+  onset_min: 20,
+  onset_max: 40,
+  tmax_min: 60,
+  tmax_max: 90,
+  duration_min: 180,
+  duration_max: 300,
+  half_life_h: 3,
+  bioavailability_f: null,
+  ka_h: null,
+  ke_h: null,
+  cmax_rel: null,
+  after_effects_min: null,
+  after_effects_max: 60,
+  model: "one_compartment",
+  absorption: "first_order",
+  alpha_h: null,
+  beta_h: null,
+  alpha_fraction: null,
+  absorption_duration_min: null,
+  confidence_level: "estimate",
+  sources: [],
+  notes: "",
+  created_at: "",
+  updated_at: "",
+};
+
+function peak(points: { concentration: number }[]): number {
+  return Math.max(...points.map((p) => p.concentration));
+}
+
+function at(points: { t: number; concentration: number }[], t: number): number {
+  return points.reduce((best, p) => (Math.abs(p.t - t) < Math.abs(best.t - t) ? p : best)).concentration;
+}
+
+describe("computePKCurve", () => {
+  it("normalizes a single dose to peak at 1", () => {
+    const points = computePKCurve(PK, null);
+    expect(points).toHaveLength(121);
+    expect(peak(points)).toBeCloseTo(1, 2);
+    expect(Math.max(...points.map((p) => p.mean))).toBeCloseTo(100, 0);
+  });
+
+  it("keeps the single-dose result when administrations are given explicitly", () => {
+    expect(computePKCurve(PK, null, 1, [{ offset_min: 0 }])).toEqual(computePKCurve(PK, null));
+  });
+
+  it("superimposes redoses linearly", () => {
+    const single = computePKCurve(PK, null);
+    const multi = computePKCurve(PK, null, 1, [{ offset_min: 0 }, { offset_min: 120 }]);
+
+    // Before the redose both curves match
+    expect(at(multi, 60)).toBeCloseTo(at(single, 60), 2);
+    // The second dose stacks on the remaining first dose
+    expect(peak(multi)).toBeGreaterThan(1.2);
+    // The time range extends past the last administration
+    expect(multi[multi.length - 1].t).toBeGreaterThan(single[single.length - 1].t + 100);
+  });
+
+  it("scales individual administrations", () => {
+    const half = computePKCurve(PK, null, 1, [{ offset_min: 0, dose_scale: 0.5 }]);
+    expect(peak(half)).toBeCloseTo(0.5, 2);
+  });
+
+  it("keeps the uncertainty band around the mean", () => {
+    const points = computePKCurve(PK, null, 1, [{ offset_min: 0 }, { offset_min: 90 }]);
+    for (const p of points) {
+      expect(p.low).toBeLessThanOrEqual(p.high);
+    }
+  });
+
+  it("saturates the effect via the Emax model while concentration stacks", () => {
+    const pd: Pharmacodynamics = {
+      id: "pd-1",
+      substance_id: "sub-1",
+      route: null,
+      emax: 100,
+      ec50_mg: null,
+      ec50_rel_concentration: 0.5,
+      hill_h: 1,
+      baseline_e0: 0,
+      therapeutic_index: null,
+      tolerance_shift_per_day: null,
+      confidence_level: "estimate",
+      sources: [],
+      notes: "",
+      created_at: "",
+      updated_at: "",
+    };
+    const points = computePKCurve(PK, pd, 1, [{ offset_min: 0 }, { offset_min: 60 }]);
+    expect(peak(points)).toBeGreaterThan(1.5);
+    expect(Math.max(...points.map((p) => p.mean))).toBeLessThan(100);
+  });
+});
+
+describe("compartment and absorption models", () => {
+  it("reduces the two-compartment model to one compartment when α equals β", () => {
+    for (const t of [0.5, 1, 3, 8]) {
+      expect(concentrationTwoCompartment(t, 2, 0.3, 0.3, 0.4)).toBeCloseTo(concentration(t, 2, 0.3), 10);
+    }
+  });
+
+  it("drops faster after the peak in the distribution phase", () => {
+    const two = computePKCurve(
+      { ...PK, model: "two_compartment", alpha_h: 2, beta_h: 0.15, alpha_fraction: 0.7 },
+      null
+    );
+    const one = computePKCurve(PK, null);
+    expect(peak(two)).toBeCloseTo(1, 2);
+    // α phase pulls the curve down early, the slow β tail keeps it up later
+    expect(at(two, 240)).toBeLessThan(at(one, 240));
+    expect(at(two, two[two.length - 1].t)).toBeGreaterThan(0);
+  });
+
+  it("falls back to one compartment without α", () => {
+    expect(computePKCurve({ ...PK, model: "two_compartment" }, null)).toEqual(computePKCurve(PK, null));
+  });
+
+  it("rises linearly-ish during zero-order absorption and decays afterwards", () => {
+    const ke = Math.log(2) / 3;
+    expect(concentrationZeroOrder(0, 1, ke)).toBe(0);
+    expect(concentrationZeroOrder(0.5, 1, ke)).toBeLessThan(concentrationZeroOrder(1, 1, ke));
+    expect(concentrationZeroOrder(2, 1, ke)).toBeLessThan(concentrationZeroOrder(1, 1, ke));
+    // Approaches the bolus curve for very short infusions
+    expect(concentrationZeroOrder(2, 1e-6, ke)).toBeCloseTo(Math.exp(-ke * 2), 4);
+  });
+
+  it("peaks at the end of a zero-order absorption period", () => {
+    const points = computePKCurve({ ...PK, absorption: "zero_order", absorption_duration_min: 45 }, null);
+    const top = points.reduce((best, p) => (p.concentration > best.concentration ? p : best));
+    expect(top.t).toBeGreaterThanOrEqual(40);
+    expect(top.t).toBeLessThanOrEqual(50);
+  });
+});
+
+describe("estimateTolerance", () => {
+  const NOW = new Date("2026-03-01T12:00:00Z");
+  const daysAgo = (d: number, h = 0) =>
+    new Date(NOW.getTime() - (d * 24 + h) * 3600_000).toISOString();
+
+  it("returns no shift without history or without a shift parameter", () => {
+    expect(estimateTolerance(0.2, [], NOW)).toEqual({ ec50_factor: 1, use_days: 0, days_since_last_use: null });
+    expect(estimateTolerance(null, [daysAgo(0)], NOW).ec50_factor).toBe(1);
+  });
+
+  it("counts several doses on one day once", () => {
+    const once = estimateTolerance(0.2, [daysAgo(0)], NOW);
+    const thrice = estimateTolerance(0.2, [daysAgo(0), daysAgo(0, 2), daysAgo(0, 5)], NOW);
+    expect(thrice).toEqual(once);
+    expect(once.ec50_factor).toBeCloseTo(1.2, 6);
+  });
+
+  it("accumulates over days and decays with the half-life", () => {
+    const daily = estimateTolerance(0.2, [0, 1, 2, 3, 4].map((d) => daysAgo(d)), NOW);
+    expect(daily.use_days).toBe(5);
+    expect(daily.ec50_factor).toBeGreaterThan(1.8);
+
+    const twoWeeksLater = estimateTolerance(0.2, [14, 15, 16, 17, 18].map((d) => daysAgo(d)), NOW);
+    expect(twoWeeksLater.days_since_last_use).toBe(14);
+    expect(twoWeeksLater.ec50_factor - 1).toBeCloseTo((daily.ec50_factor - 1) / 4, 6);
+  });
+
+  it("caps the shift and ignores future timestamps", () => {
+    const many = Array.from({ length: 40 }, (_, d) => daysAgo(d));
+    expect(estimateTolerance(1, many, NOW).ec50_factor).toBe(MAX_TOLERANCE_FACTOR);
+    const future = new Date(NOW.getTime() + 3600_000).toISOString();
+    expect(estimateTolerance(0.2, [future], NOW).use_days).toBe(0);
+  });
+});
+
+describe("computeRelativeDoseResponseCurve", () => {
+  it("shifts the curve to the right by the EC50 factor", () => {
+    const pd = {
+      id: "pd-1", substance_id: "sub-1", route: null, emax: 100, ec50_mg: null,
+      ec50_rel_concentration: null, hill_h: 1, baseline_e0: 0, therapeutic_index: null,
+      tolerance_shift_per_day: 0.2, confidence_level: "estimate" as const, sources: [],
+      notes: "", created_at: "", updated_at: "",
+    };
+    const points = computeRelativeDoseResponseCurve(pd, 2, 4, 100);
+    const atOne = points.find((p) => p.dose === 1)!;
+    const atTwo = points.find((p) => p.dose === 2)!;
+    expect(atOne.effect).toBeCloseTo(50, 1);
+    expect(atTwo.tolerant).toBeCloseTo(50, 1);
+    for (const p of points) expect(p.tolerant).toBeLessThanOrEqual(p.effect);
+  });
+});
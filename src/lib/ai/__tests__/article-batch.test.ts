@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { matchSeedPackNames, summarizeBatch } from "../article-batch";
+
+const SUBSTANCES = [
+  { id: "s1", name: "Ketamin" },
+  { id: "s2", name: "Methoxetamin" },
+  { id: "s3", name: "Alkohol (Ethanol)" },
+  { id: "s4", name: "Lachgas" },
+];
+
+describe("matchSeedPackNames", () => {
+  it("matches names case-insensitively and keeps the pack order", () => {
+    const { matched, unmatched } = matchSeedPackNames(["lachgas", "KETAMIN"], SUBSTANCES);
+    expect(matched.map((s) => s.id)).toEqual(["s4", "s1"]);
+    expect(unmatched).toEqual([]);
+  });
+
+  it("matches either part of a parenthetical name", () => {
+    const { matched } = matchSeedPackNames(["MXE (Methoxetamin)", "Ethanol", "Lachgas (N2O)"], SUBSTANCES);
+    expect(matched.map((s) => s.id)).toEqual(["s2", "s3", "s4"]);
+  });
+
+  it("reports names without a substance and skips duplicates", () => {
+    const { matched, unmatched } = matchSeedPackNames(["Ketamin", "PCP", "ketamin"], SUBSTANCES);
+    expect(matched.map((s) => s.id)).toEqual(["s1"]);
+    expect(unmatched).toEqual(["PCP"]);
+  });
+});
+
+describe("summarizeBatch", () => {
+  it("uses the newest article per substance and falls back to the job state", () => {
+    const summary = summarizeBatch(
+      { substance_ids: ["s1", "s2", "s3", "s4"] },
+      [
+        { substance_id: "s1", status: "blocked", created_at: "2026-10-01T10:00:00Z" },
+        { substance_id: "s1", status: "review", created_at: "2026-10-01T11:00:00Z" },
+        { substance_id: "s2", status: "mapped", created_at: "2026-10-01T10:00:00Z" },
+      ],
+      [
+        { status: "failed", substance_id: "s3" },
+        { status: "running", substance_id: "s4" },
+      ]
+    );
+
+    expect(summary.total).toBe(4);
+    expect(summary.counts).toMatchObject({ review: 1, mapped: 1, blocked: 0, failed: 1, pending: 1 });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { complete, getAiProvider, resolveAiConfig, streamCompletion } from "../provider";
+import { resetMockFixtures, setMockFixture } from "../mock-fixtures";
+import { runSaferUseChat } from "../safer-use";
+import type { SaferUseChatRequest } from "@/lib/types";
+
+function clearAiEnv() {
+  for (const key of ["OPENAI_API_KEY", "ANTHROPIC_API_KEY", "LOCAL_AI_BASE_URL", "AI_PROVIDER", "AI_MODEL"]) {
+    vi.stubEnv(key, "");
+  }
+}
+
+async function collect<T>(gen: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of gen) out.push(item);
+  return out;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  resetMockFixtures();
+});
+
+describe("provider registry", () => {
+  it("auto-detects the first configured backend", () => {
+    clearAiEnv();
+    expect(getAiProvider()).toBe("none");
+    vi.stubEnv("LOCAL_AI_BASE_URL", "http://localhost:11434/v1");
+    expect(getAiProvider()).toBe("local");
+    vi.stubEnv("ANTHROPIC_API_KEY", "key");
+    expect(getAiProvider("article")).toBe("anthropic");
+  });
+
+  it("resolves provider and model per feature", () => {
+    clearAiEnv();
+    vi.stubEnv("OPENAI_API_KEY", "key");
+    vi.stubEnv("LOCAL_AI_BASE_URL", "http://localhost:8080/v1");
+    vi.stubEnv("AI_PROVIDER_ARTICLE", "local");
+    vi.stubEnv("AI_MODEL_ARTICLE", "qwen2.5");
+    vi.stubEnv("AI_PROVIDER_ENRICHMENT", "none");
+
+    expect(resolveAiConfig("article")).toEqual({ provider: "local", model: "qwen2.5" });
+    expect(resolveAiConfig("safer_use")).toEqual({ provider: "openai", model: "gpt-4o-mini" });
+    expect(resolveAiConfig("enrichment")).toBeNull();
+  });
+
+  it("treats an explicitly chosen but unconfigured backend as none", () => {
+    clearAiEnv();
+    vi.stubEnv("OPENAI_API_KEY", "key");
+    vi.stubEnv("AI_PROVIDER", "anthropic");
+    expect(getAiProvider("autofill")).toBe("none");
+  });
+});
+
+describe("local backend", () => {
+  it("calls the OpenAI-compatible endpoint without an API key", async () => {
+    clearAiEnv();
+    vi.stubEnv("LOCAL_AI_BASE_URL", "http://localhost:11434/v1/");
+    vi.stubEnv("LOCAL_AI_MODEL", "llama3.1:8b");
+    const fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify({
+        choices: [{ message: { content: "{}" } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 },
+      }))
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await complete({ feature: "enrichment", system: "S", messages: [{ role: "user", content: "P" }], json: true });
+
+    expect(result).toMatchObject({ provider: "local", model: "llama3.1:8b", text: "{}", usage: { input_tokens: 12, output_tokens: 3 } });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(init.headers).not.toHaveProperty("Authorization");
+    expect(JSON.parse(init.body as string)).not.toHaveProperty("response_format");
+  });
+});
+
+describe("mock backend", () => {
+  const REQUEST: SaferUseChatRequest = {
+    user_profile: { age_range: "unknown", weight_kg: null, tolerance: "unknown", conditions: [], regular_meds: [] },
+    intake_log: [{ substance: "Cannabis", dose_mg: null, route: "oral", time_taken: "", notes: "" }],
+    user_message: "Worauf sollte ich achten?",
+    locale: "de-DE",
+  };
+
+  it("replays registered fixtures deterministically, also streamed", async () => {
+    clearAiEnv();
+    vi.stubEnv("AI_PROVIDER", "mock");
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    setMockFixture("article", (req) => `# ${req.messages[0].content}`);
+
+    const first = await complete({ feature: "article", system: "S", messages: [{ role: "user", content: "Koffein" }] });
+    const streamed = await collect(streamCompletion({ feature: "article", system: "S", messages: [{ role: "user", content: "Koffein" }] }));
+
+    expect(first).toMatchObject({ provider: "mock", model: "mock", text: "# Koffein" });
+    expect(streamed.join("")).toBe(first.text);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("serves a valid default reply for the Safer-Use chat", async () => {
+    clearAiEnv();
+    vi.stubEnv("AI_PROVIDER", "mock");
+
+    const { response } = await runSaferUseChat(REQUEST);
+
+    expect(response.assessment).toContain("Mock-Einschätzung");
+    expect(response.risk_level).toBe("GELB");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { applyRedFlagFloor, CRISIS_NOTICE, EMERGENCY_NOTICE, screenRedFlags } from "../red-flags";
+import type { SaferUseChatRequest, SaferUseChatResponse } from "@/lib/types";
+
+function request(overrides: Partial<SaferUseChatRequest> & { substances?: string[] } = {}): SaferUseChatRequest {
+  const { substances = [], ...rest } = overrides;
+  return {
+    user_profile: { age_range: "unknown", weight_kg: null, tolerance: "unknown", conditions: [], regular_meds: [] },
+    intake_log: substances.map((substance) => ({ substance, dose_mg: null, route: "oral", time_taken: "", notes: "" })),
+    user_message: "Worauf sollte ich achten?",
+    locale: "de-DE",
+    ...rest,
+  };
+}
+
+const REPLY: SaferUseChatResponse = {
+  assessment: "Moderates Risiko.",
+  risk_level: "GELB",
+  interactions: [],
+  harm_reduction: [],
+  emergency: null,
+  disclaimer: "Keine medizinische Beratung.",
+  citations: [],
+};
+
+describe("screenRedFlags", () => {
+  it("flags dangerous combinations across intake and regular medication", () => {
+    const screen = screenRedFlags(
+      request({
+        substances: ["Heroin"],
+        user_profile: { age_range: "unknown", weight_kg: null, tolerance: "unknown", conditions: [], regular_meds: ["Diazepam"] },
+      })
+    );
+    expect(screen.flags.map((f) => f.id)).toEqual(["opioid_benzo"]);
+    expect(screen.risk_floor).toBe("ROT");
+    expect(screen.emergency).toBe(EMERGENCY_NOTICE);
+  });
+
+  it("sets a floor without an emergency for non-acute flags", () => {
+    const screen = screenRedFlags(request({ substances: ["MDMA"], user_profile: { age_range: "unknown", weight_kg: null, tolerance: "unknown", conditions: [], regular_meds: ["Sertralin"] } }));
+    expect(screen.risk_floor).toBe("ORANGE");
+    expect(screen.emergency).toBeNull();
+  });
+
+  it("detects symptoms in the message and respects negation", () => {
+    expect(screenRedFlags(request({ user_message: "Mein Freund hat Atemnot und blaue Lippen" })).flags.map((f) => f.id))
+      .toEqual(["symptom_breathing", "symptom_cyanosis"]);
+    expect(screenRedFlags(request({ user_message: "Ich habe keine Atemnot, nur Kopfweh" })).flags).toEqual([]);
+    expect(screenRedFlags(request({ user_message: "Ohne Brustschmerzen, aber ich bin verwirrt" })).flags.map((f) => f.id))
+      .toEqual(["symptom_confusion"]);
+  });
+
+  it("treats seizures as an emergency but not jaw clenching or muscle cramps", () => {
+    for (const message of ["Sie hat einen Krampfanfall", "Er krampft und reagiert nicht", "epileptischer Anfall nach Tramadol"]) {
+      expect(screenRedFlags(request({ user_message: message })).flags.map((f) => f.id)).toContain("symptom_seizure");
+    }
+    for (const message of ["Mein Kiefer verkrampft total", "Kieferkrampf nach MDMA", "Habe einen Wadenkrampf"]) {
+      const screen = screenRedFlags(request({ substances: ["MDMA"], user_message: message }));
+      expect(screen.risk_floor).not.toBe("ROT");
+      expect(screen.emergency).toBeNull();
+    }
+  });
+
+  it("adds the crisis helpline for suicidal ideation", () => {
+    const screen = screenRedFlags(request({ user_message: "Ich will nicht mehr leben" }));
+    expect(screen.risk_floor).toBe("ROT");
+    expect(screen.emergency).toContain(CRISIS_NOTICE);
+  });
+
+  it("returns no flags for an unremarkable request", () => {
+    const screen = screenRedFlags(request({ substances: ["Cannabis"] }));
+    expect(screen).toEqual({ flags: [], risk_floor: "GRÜN", emergency: null });
+  });
+});
+
+describe("applyRedFlagFloor", () => {
+  it("raises the risk level and adds the emergency notice", () => {
+    const screen = screenRedFlags(request({ substances: ["Heroin", "Alkohol"] }));
+    const { response, overrides } = applyRedFlagFloor(REPLY, screen);
+    expect(response.risk_level).toBe("ROT");
+    expect(response.emergency).toBe(EMERGENCY_NOTICE);
+    expect(overrides).toEqual([
+      { field: "risk_level", from: "GELB", to: "ROT", flags: ["opioid_alcohol"] },
+      { field: "emergency", from: null, to: EMERGENCY_NOTICE, flags: ["opioid_alcohol"] },
+    ]);
+  });
+
+  it("keeps a higher model rating and a text that already has the notice", () => {
+    const screen = screenRedFlags(request({ substances: ["MDMA"], user_profile: { age_range: "unknown", weight_kg: null, tolerance: "unknown", conditions: [], regular_meds: ["Sertralin"] } }));
+    const reply = { ...REPLY, risk_level: "ROT" as const, emergency: `${EMERGENCY_NOTICE} Sofort handeln.` };
+    expect(applyRedFlagFloor(reply, screen)).toEqual({ response: reply, overrides: [] });
+
+    const acute = screenRedFlags(request({ user_message: "Er ist bewusstlos" }));
+    const kept = applyRedFlagFloor(reply, acute);
+    expect(kept.response.emergency).toBe(reply.emergency);
+    expect(kept.overrides).toEqual([]);
+  });
+
+  it("puts the notice in front of a model text that downplays the danger", () => {
+    const screen = screenRedFlags(request({ substances: ["Heroin", "Alkohol"] }));
+    const reply = { ...REPLY, risk_level: "ROT" as const, emergency: "Kein Notfall, einfach ausruhen." };
+    const { response, overrides } = applyRedFlagFloor(reply, screen);
+    expect(response.emergency).toBe(`${EMERGENCY_NOTICE} Kein Notfall, einfach ausruhen.`);
+    expect(overrides).toEqual([
+      {
+        field: "emergency",
+        from: "Kein Notfall, einfach ausruhen.",
+        to: `${EMERGENCY_NOTICE} Kein Notfall, einfach ausruhen.`,
+        flags: ["opioid_alcohol"],
+      },
+    ]);
+  });
+
+  it("adds the crisis helpline to a model emergency text that lacks it", () => {
+    const screen = screenRedFlags(request({ user_message: "Ich denke an Suizid" }));
+    const { response, overrides } = applyRedFlagFloor({ ...REPLY, risk_level: "ROT", emergency: "Ruf 112 an." }, screen);
+    expect(response.emergency).toBe(`${EMERGENCY_NOTICE} ${CRISIS_NOTICE} Ruf 112 an.`);
+    expect(overrides).toHaveLength(1);
+    expect(overrides[0].field).toBe("emergency");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  allCitations,
+  extractArticleSections,
+  formatKnowledgePrompt,
+  resolveCitations,
+  resolveKnowledgeIds,
+  retrieveKnowledge,
+} from "../retrieval";
+import type { SaferUseChatRequest } from "@/lib/types";
+
+function request(substances: string[], regular_meds: string[] = []): SaferUseChatRequest {
+  return {
+    user_profile: { age_range: "unknown", weight_kg: null, tolerance: "unknown", conditions: [], regular_meds },
+    intake_log: substances.map((substance) => ({ substance, dose_mg: null, route: "oral", time_taken: "", notes: "" })),
+    user_message: "Worauf sollte ich achten?",
+    locale: "de-DE",
+  };
+}
+
+describe("resolveKnowledgeIds", () => {
+  it("resolves substance names and medication classes", () => {
+    expect(resolveKnowledgeIds(["MDMA", "Sertralin 50 mg", "mdma"])).toEqual(["sub:mdma", "sub:ssri"]);
+  });
+
+  it("ignores unknown names", () => {
+    expect(resolveKnowledgeIds(["Unbekanntes Pulver", ""])).toEqual([]);
+  });
+});
+
+describe("retrieveKnowledge", () => {
+  it("puts the curated interaction first and links it to the checker", () => {
+    const ctx = retrieveKnowledge(request(["MDMA"], ["Sertralin"]), []);
+
+    expect(ctx.substanceIds).toEqual(["sub:mdma", "sub:ssri"]);
+    expect(ctx.blocks[0]).toMatchObject({ ref: "K1", kind: "interaction", url: "/interactions?a=mdma&b=ssri" });
+    expect(ctx.blocks.slice(1).map((b) => b.url)).toEqual(["/articles/mdma", "/articles/ssri"]);
+    expect(formatKnowledgePrompt(ctx)).toContain("[K1]");
+  });
+
+  it("returns no blocks and no prompt section without known substances", () => {
+    const ctx = retrieveKnowledge(request(["Unbekanntes Pulver"]), []);
+    expect(ctx.blocks).toEqual([]);
+    expect(formatKnowledgePrompt(ctx)).toBe("");
+    expect(allCitations(ctx)).toEqual([]);
+  });
+});
+
+describe("resolveCitations", () => {
+  it("keeps only ids of known blocks", () => {
+    const ctx = retrieveKnowledge(request(["MDMA"], ["Sertralin"]), []);
+    const citations = resolveCitations(["[k2]", "K1", "K99"], ctx);
+
+    expect(citations.map((c) => c.ref)).toEqual(["K1", "K2"]);
+    expect(citations[0]).not.toHaveProperty("text");
+  });
+});
+
+describe("extractArticleSections", () => {
+  it("keeps risk and interaction sections only", () => {
+    const mdx = "# MDMA\n\n## Wirkung\nEuphorie.\n\n## Risiken\n- **Überhitzung**\n- Hyponatriämie\n\n## Interaktionen\nSSRI dämpfen die Wirkung.\n";
+    expect(extractArticleSections(mdx)).toEqual([
+      "Risiken: Überhitzung Hyponatriämie",
+      "Interaktionen: SSRI dämpfen die Wirkung.",
+    ]);
+  });
+});
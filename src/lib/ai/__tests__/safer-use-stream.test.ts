@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { encodeSseEvent, extractPartialJsonString, parseSseStream } from "../stream";
+import { streamSaferUseChat, type SaferUseChatChunk } from "../safer-use";
+import type { SaferUseChatRequest, SaferUseChatResponse } from "@/lib/types";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const c of chunks) controller.enqueue(encoder.encode(c));
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(gen: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of gen) out.push(item);
+  return out;
+}
+
+const REQUEST: SaferUseChatRequest = {
+  user_profile: { age_range: "unknown", weight_kg: null, tolerance: "unknown", conditions: [], regular_meds: [] },
+  intake_log: [{ substance: "MDMA", dose_mg: null, route: "oral", time_taken: "", notes: "" }],
+  user_message: "Worauf sollte ich achten?",
+  locale: "de-DE",
+};
+
+const REPLY: SaferUseChatResponse = {
+  assessment: "Moderates Risiko – \"Hitze\" beachten.",
+  risk_level: "GELB",
+  interactions: [],
+  harm_reduction: ["Pausen einlegen"],
+  emergency: null,
+  disclaimer: "Keine medizinische Beratung.",
+  citations: [],
+};
+
+describe("parseSseStream", () => {
+  it("parses events split across chunks", async () => {
+    const events = await collect(
+      parseSseStream(streamOf(["event: a\ndata: {\"x\"", ":1}\n\n", "data: line1\ndata: line2\r\n\r\n", "data: tail"]))
+    );
+    expect(events).toEqual([
+      { event: "a", data: "{\"x\":1}" },
+      { event: null, data: "line1\nline2" },
+      { event: null, data: "tail" },
+    ]);
+  });
+
+  it("round-trips encoded events", async () => {
+    const events = await collect(parseSseStream(streamOf([encodeSseEvent({ type: "delta", assessment: "a\nb" })])));
+    expect(JSON.parse(events[0].data)).toEqual({ type: "delta", assessment: "a\nb" });
+  });
+});
+
+describe("extractPartialJsonString", () => {
+  it("reads unterminated and escaped values", () => {
+    expect(extractPartialJsonString('{"risk_level":"GELB"', "assessment")).toBeNull();
+    expect(extractPartialJsonString('{"assessment": "Erste Zei', "assessment")).toBe("Erste Zei");
+    expect(extractPartialJsonString('{"assessment":"a\\"b\\nc\\u00e4", "x":1}', "assessment")).toBe('a"b\ncä');
+    expect(extractPartialJsonString('{"assessment":"a\\', "assessment")).toBe("a");
+  });
+});
+
+describe("streamSaferUseChat", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("returns the fallback as a single final chunk without a provider", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("ANTHROPIC_API_KEY", "");
+    const chunks = await collect(streamSaferUseChat(REQUEST));
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].type).toBe("final");
+  });
+
+  it("streams the assessment and sends history to the provider", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test-key");
+    const json = JSON.stringify(REPLY);
+    const pieces = [json.slice(0, 25), json.slice(25, 40), json.slice(40)];
+    const fetchMock = vi.fn(async () =>
+      new Response(
+        streamOf([
+          ...pieces.map((p) => `data: ${JSON.stringify({ choices: [{ delta: { content: p } }] })}\n\n`),
+          "data: [DONE]\n\n",
+        ])
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const history = [
+      { role: "user" as const, content: "Erste Frage" },
+      { role: "assistant" as const, content: REPLY },
+    ];
+    const chunks: SaferUseChatChunk[] = await collect(streamSaferUseChat(REQUEST, history));
+
+    const deltas = chunks.filter((c) => c.type === "delta");
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(chunks[chunks.length - 1]).toEqual({ type: "final", response: REPLY, overrides: [] });
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.stream).toBe(true);
+    expect(body.messages.map((m: { role: string }) => m.role)).toEqual(["system", "user", "assistant", "user"]);
+    expect(body.messages[3].content).toContain("FOLGEFRAGE");
+  });
+
+  it("falls back when the streamed reply is not valid JSON", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test-key");
+    vi.stubGlobal("fetch", vi.fn(async () =>
+      new Response(streamOf([`data: ${JSON.stringify({ choices: [{ delta: { content: "{\"assessment\":\"kaputt" } }] })}\n\n`]))
+    ));
+    const chunks = await collect(streamSaferUseChat(REQUEST));
+    const final = chunks[chunks.length - 1];
+    expect(final.type).toBe("final");
+    if (final.type === "final") expect(final.response.disclaimer).toContain("ersetzt keine");
+  });
+
+  it("repairs a reply that fails validation", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test-key");
+    const invalid = JSON.stringify({ ...REPLY, risk_level: "MITTEL" });
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(streamOf([`data: ${JSON.stringify({ choices: [{ delta: { content: invalid } }] })}\n\n`])))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(REPLY) } }] })));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const chunks = await collect(streamSaferUseChat(REQUEST));
+
+    expect(chunks[chunks.length - 1]).toEqual({ type: "final", response: REPLY, overrides: [] });
+    const repair = JSON.parse((fetchMock.mock.calls[1] as unknown as [string, RequestInit])[1].body as string);
+    expect(repair.messages[repair.messages.length - 1].content).toContain("risk_level");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { z } from "zod";
+import { generateStructured, parseStructured, repairTurn, stripCodeFences } from "../structured";
+
+const Schema = z.object({
+  name: z.string().min(1),
+  tags: z.array(z.string()).default([]),
+});
+
+function openAiReply(content: string): Response {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+}
+
+function sentMessages(fetchMock: ReturnType<typeof vi.fn>, call: number): { role: string; content: string }[] {
+  const init = (fetchMock.mock.calls[call] as unknown as [string, RequestInit])[1];
+  return JSON.parse(init.body as string).messages;
+}
+
+describe("stripCodeFences", () => {
+  it("removes a fence around the whole reply only", () => {
+    expect(stripCodeFences('```json\n{"a":1}\n```')).toBe('{"a":1}');
+    expect(stripCodeFences("```\nText\n```  ")).toBe("Text");
+    expect(stripCodeFences("Intro\n```js\nx\n```")).toBe("Intro\n```js\nx\n```");
+  });
+});
+
+describe("parseStructured", () => {
+  it("distinguishes empty, parse and validation failures", () => {
+    expect(parseStructured(Schema, "  ")).toMatchObject({ ok: false, kind: "empty" });
+    expect(parseStructured(Schema, "{name:")).toMatchObject({ ok: false, kind: "parse" });
+    expect(parseStructured(Schema, '{"name":""}')).toMatchObject({
+      ok: false,
+      kind: "validation",
+      issues: [expect.stringMatching(/^name: /)],
+    });
+  });
+
+  it("applies schema defaults and validates plain text", () => {
+    expect(parseStructured(Schema, '```json\n{"name":"MDMA"}\n```')).toEqual({ ok: true, data: { name: "MDMA", tags: [] } });
+    expect(parseStructured(z.string().min(3), "```mdx\n# Titel\n```", "text")).toEqual({ ok: true, data: "# Titel" });
+  });
+});
+
+describe("repairTurn", () => {
+  it("replays the invalid reply with the issues", () => {
+    const turns = repairTurn('{"name":""}', ["name: zu kurz"]);
+    expect(turns.map((t) => t.role)).toEqual(["assistant", "user"]);
+    expect(turns[1].content).toContain("- name: zu kurz");
+    expect(repairTurn("", ["Die Antwort war leer."])).toEqual([]);
+  });
+});
+
+describe("generateStructured", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("feeds validation errors back and returns the repaired reply", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test-key");
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(openAiReply('{"tags":"x"}'))
+      .mockResolvedValueOnce(openAiReply('{"name":"Ketamin","tags":["dissoziativ"]}'));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await generateStructured({ feature: "substance", schema: Schema, system: "System", prompt: "Prompt" });
+
+    expect(result).toEqual({
+      ok: true,
+      data: { name: "Ketamin", tags: ["dissoziativ"] },
+      attempts: 2,
+      provider: "openai",
+      model: "gpt-4o-mini",
+    });
+    const retry = sentMessages(fetchMock, 1);
+    expect(retry.map((m) => m.role)).toEqual(["system", "user", "assistant", "user"]);
+    expect(retry[3].content).toContain("name:");
+  });
+
+  it("returns a typed failure after the last attempt", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test-key");
+    vi.stubGlobal("fetch", vi.fn(async () => openAiReply("kein json")));
+
+    const result = await generateStructured({ feature: "substance", schema: Schema, system: "System", prompt: "Prompt", maxAttempts: 3 });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toMatchObject({ kind: "parse", attempts: 3, raw: "kein json" });
+    }
+  });
+
+  it("does not retry provider errors", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test-key");
+    const fetchMock = vi.fn(async () => new Response("overloaded", { status: 529 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await generateStructured({ feature: "substance", schema: Schema, system: "System", prompt: "Prompt" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.kind).toBe("provider");
+  });
+});
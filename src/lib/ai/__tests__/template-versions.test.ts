@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, diffTemplateVersions } from "../template-versions";
+import type { ArticleTemplateVersion } from "@/lib/types";
+
+function version(n: number, overrides: Partial<ArticleTemplateVersion> = {}): ArticleTemplateVersion {
+  return {
+    id: `v${n}`,
+    template_key: "overview_v1",
+    version: n,
+    prompt_system: "Du bist ein Fachautor.",
+    prompt_user: "Schreibe über {{SUBSTANCE_JSON}}.\nSprache: {{LANGUAGE}}",
+    output_schema: {},
+    note: null,
+    created_at: "2026-10-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("diffLines", () => {
+  it("marks unchanged, removed and added lines", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x" },
+      { type: "same", text: "c" },
+    ]);
+  });
+
+  it("handles appended and deleted tails", () => {
+    expect(diffLines("a", "a\nb")).toEqual([
+      { type: "same", text: "a" },
+      { type: "added", text: "b" },
+    ]);
+    expect(diffLines("a\nb", "b")).toEqual([
+      { type: "removed", text: "a" },
+      { type: "same", text: "b" },
+    ]);
+  });
+});
+
+describe("diffTemplateVersions", () => {
+  it("reports which prompt fields changed", () => {
+    const diff = diffTemplateVersions(
+      version(1),
+      version(2, { prompt_user: "Schreibe über {{SUBSTANCE_JSON}}.\nTon: {{TONE}}\nSprache: {{LANGUAGE}}" })
+    );
+
+    expect(diff.from).toBe(1);
+    expect(diff.to).toBe(2);
+    expect(diff.fields.map((f) => [f.field, f.changed])).toEqual([
+      ["prompt_system", false],
+      ["prompt_user", true],
+      ["output_schema", false],
+    ]);
+    expect(diff.fields[1].lines.filter((l) => l.type === "added")).toEqual([{ type: "added", text: "Ton: {{TONE}}" }]);
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Batch article generation and its review queue.
+ *
+ * A batch takes a seed pack (src/lib/substances/seed-packs.ts) or a filtered
+ * substance list plus an article template, and enqueues one "article" job
+ * per substance for the background worker. The drafts are stored with
+ * `batch_id` and status `review`; a reviewer approves (maps to an article),
+ * edits or rejects each one in /admin/article-batches.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { enqueueJob } from "@/lib/jobs/store";
+import { getSeedPackNames } from "@/lib/substances/seed-packs";
+import { filterArticleContent } from "./article-generator";
+import {
+  ARTICLE_LENGTHS,
+  ARTICLE_TONES,
+  ArticleGenerationError,
+  mapGeneratedArticleToArticle,
+  type MappedArticle,
+} from "./generate-article";
+import type { AiJobStatus, ArticleBatch, GeneratedArticle, GeneratedArticleStatus } from "@/lib/types";
+
+/** Upper bound per batch; keeps the job queue and the review effort manageable. */
+export const MAX_BATCH_SIZE = 50;
+
+export interface BatchSelection {
+  seedPack?: string;
+  category?: string;
+  /** Substring of the substance name */
+  query?: string;
+  substanceIds?: string[];
+}
+
+export interface CreateBatchInput {
+  templateKey: string;
+  selection: BatchSelection;
+  language?: string;
+  tone?: string;
+  length?: string;
+}
+
+interface SubstanceRef {
+  id: string;
+  name: string;
+}
+
+// ---------------------------------------------------------------------------
+// Substance selection
+// ---------------------------------------------------------------------------
+
+function nameVariants(name: string): string[] {
+  const lower = name.toLowerCase().trim();
+  const variants = [lower];
+  // "MXE (Methoxetamin)" → "mxe", "methoxetamin"
+  const match = /^(.*?)\s*\((.+)\)\s*$/.exec(lower);
+  if (match) variants.push(match[1].trim(), match[2].trim());
+  return variants.filter(Boolean);
+}
+
+/**
+ * Match seed pack names against substance rows. Names with a parenthetical
+ * ("Alkohol (Ethanol)") also match on either part. Keeps the pack order.
+ */
+export function matchSeedPackNames(
+  names: string[],
+  substances: SubstanceRef[]
+): { matched: SubstanceRef[]; unmatched: string[] } {
+  const byName = new Map<string, SubstanceRef>();
+  for (const substance of substances) {
+    for (const variant of nameVariants(substance.name)) {
+      if (!byName.has(variant)) byName.set(variant, substance);
+    }
+  }
+
+  const matched: SubstanceRef[] = [];
+  const unmatched: string[] = [];
+  const seen = new Set<string>();
+  for (const name of names) {
+    const hit = nameVariants(name)
+      .map((variant) => byName.get(variant))
+      .find(Boolean);
+    if (!hit) unmatched.push(name);
+    else if (!seen.has(hit.id)) {
+      seen.add(hit.id);
+      matched.push(hit);
+    }
+  }
+  return { matched, unmatched };
+}
+
+/** Resolve a selection to substances. Throws `ArticleGenerationError` (400) for empty or unknown selections. */
+export async function resolveBatchSelection(
+  selection: BatchSelection
+): Promise<{ substances: SubstanceRef[]; unmatched: string[] }> {
+  const supabase = createAdminClient();
+
+  if (selection.seedPack) {
+    const names = getSeedPackNames(selection.seedPack);
+    if (names.length === 0) throw new ArticleGenerationError(`Unbekanntes Seed-Pack "${selection.seedPack}".`, 400);
+
+    const { data, error } = await supabase.from("substances").select("id, name").limit(5000);
+    if (error) throw new Error(`Substanzen konnten nicht geladen werden: ${error.message}`);
+    const { matched, unmatched } = matchSeedPackNames(names, (data ?? []) as SubstanceRef[]);
+    return { substances: matched, unmatched };
+  }
+
+  if (!selection.substanceIds?.length && !selection.category && !selection.query) {
+    throw new ArticleGenerationError("Seed-Pack, Kategorie, Suchbegriff oder Substanz-IDs angeben.", 400);
+  }
+
+  let query = supabase.from("substances").select("id, name").order("name").limit(MAX_BATCH_SIZE + 1);
+  if (selection.substanceIds?.length) query = query.in("id", selection.substanceIds);
+  if (selection.category) query = query.contains("categories", [selection.category]);
+  if (selection.query) query = query.ilike("name", `%${selection.query}%`);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Substanzen konnten nicht geladen werden: ${error.message}`);
+  return { substances: (data ?? []) as SubstanceRef[], unmatched: [] };
+}
+
+// ---------------------------------------------------------------------------
+// Batch creation
+// ---------------------------------------------------------------------------
+
+export async function createArticleBatch(input: CreateBatchInput): Promise<ArticleBatch> {
+  const { templateKey, selection, language = "de", tone = "scientific", length = "medium" } = input;
+
+  if (!templateKey) throw new ArticleGenerationError("templateKey ist erforderlich.", 400);
+  if (!ARTICLE_TONES.includes(tone)) {
+    throw new ArticleGenerationError(`Ungültiger Ton. Erlaubt: ${ARTICLE_TONES.join(", ")}`, 400);
+  }
+  if (!ARTICLE_LENGTHS.includes(length)) {
+    throw new ArticleGenerationError(`Ungültige Länge. Erlaubt: ${ARTICLE_LENGTHS.join(", ")}`, 400);
+  }
+
+  const supabase = createAdminClient();
+  const { data: template } = await supabase
+    .from("article_templates")
+    .select("key, current_version")
+    .eq("key", templateKey)
+    .eq("enabled", true)
+    .maybeSingle();
+  if (!template) throw new ArticleGenerationError("Template nicht gefunden oder deaktiviert.", 404);
+
+  const { substances, unmatched } = await resolveBatchSelection(selection);
+  if (substances.length === 0) throw new ArticleGenerationError("Keine passenden Substanzen gefunden.", 400);
+  if (substances.length > MAX_BATCH_SIZE) {
+    throw new ArticleGenerationError(
+      `Zu viele Substanzen (${substances.length}). Maximal ${MAX_BATCH_SIZE} pro Batch.`,
+      400
+    );
+  }
+
+  const { data: batch, error } = await supabase
+    .from("article_batches")
+    .insert({
+      template_key: templateKey,
+      selection: {
+        ...(selection.seedPack ? { seed_pack: selection.seedPack } : {}),
+        ...(selection.category ? { category: selection.category } : {}),
+        ...(selection.query ? { query: selection.query } : {}),
+      },
+      // Pinned, so a template edit during the batch does not mix versions
+      options: { language, tone, length, template_version: template.current_version ?? 1 },
+      substance_ids: substances.map((s) => s.id),
+      unmatched,
+    })
+    .select()
+    .single();
+  if (error || !batch) throw new Error(`Batch konnte nicht angelegt werden: ${error?.message ?? "unbekannt"}`);
+
+  const jobIds: string[] = [];
+  for (const substance of substances) {
+    const job = await enqueueJob("article", {
+      substanceId: substance.id,
+      substanceName: substance.name,
+      templateKey,
+      language,
+      tone,
+      length,
+      templateVersion: template.current_version ?? 1,
+      batchId: batch.id,
+    });
+    jobIds.push(job.id);
+  }
+
+  await supabase.from("article_batches").update({ job_ids: jobIds }).eq("id", batch.id);
+  await supabase.from("audit_log").insert({
+    action: "ai_article_batch_created",
+    entity_type: "article_batch",
+    entity_id: batch.id,
+    details: { template_key: templateKey, substances: substances.length, unmatched },
+  });
+
+  return { ...(batch as ArticleBatch), job_ids: jobIds };
+}
+
+// ---------------------------------------------------------------------------
+// Batch overview
+// ---------------------------------------------------------------------------
+
+export type BatchItemState = "pending" | "failed" | GeneratedArticleStatus;
+
+export const BATCH_STATE_LABELS: Record<BatchItemState, string> = {
+  pending: "in Arbeit",
+  failed: "fehlgeschlagen",
+  draft: "Entwurf",
+  review: "zu prüfen",
+  blocked: "geblockt",
+  mapped: "übernommen",
+  rejected: "abgelehnt",
+};
+
+export interface BatchSummary {
+  total: number;
+  counts: Record<BatchItemState, number>;
+}
+
+const EMPTY_COUNTS: Record<BatchItemState, number> = {
+  pending: 0,
+  failed: 0,
+  draft: 0,
+  review: 0,
+  blocked: 0,
+  mapped: 0,
+  rejected: 0,
+};
+
+/**
+ * State per substance of a batch: the newest generated article if there is
+ * one, otherwise the state of its job (`pending` while queued or running).
+ */
+export function summarizeBatch(
+  batch: Pick<ArticleBatch, "substance_ids">,
+  articles: Pick<GeneratedArticle, "substance_id" | "status" | "created_at">[],
+  jobs: { status: AiJobStatus; substance_id: string | null }[]
+): BatchSummary {
+  const counts = { ...EMPTY_COUNTS };
+
+  for (const substanceId of batch.substance_ids) {
+    const article = articles
+      .filter((a) => a.substance_id === substanceId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+    if (article) {
+      counts[article.status]++;
+      continue;
+    }
+    const job = jobs.find((j) => j.substance_id === substanceId);
+    counts[job && (job.status === "failed" || job.status === "cancelled") ? "failed" : "pending"]++;
+  }
+
+  return { total: batch.substance_ids.length, counts };
+}
+
+export interface BatchJobRef {
+  id: string;
+  status: AiJobStatus;
+  error: string | null;
+  substance_id: string | null;
+  substance_name: string | null;
+}
+
+/** Generated article with the substance facts the reviewer checks it against */
+export type ReviewItem = GeneratedArticle & { substance: { name: string; summary: string | null } | null };
+
+export interface ArticleBatchDetail {
+  batch: ArticleBatch;
+  articles: ReviewItem[];
+  jobs: BatchJobRef[];
+  summary: BatchSummary;
+}
+
+async function loadBatchJobs(jobIds: string[]): Promise<BatchJobRef[]> {
+  if (jobIds.length === 0) return [];
+  const { data } = await createAdminClient().from("ai_jobs").select("id, status, error, input_json").in("id", jobIds);
+  return (data ?? []).map((job) => ({
+    id: job.id,
+    status: job.status as AiJobStatus,
+    error: job.error,
+    substance_id: typeof job.input_json?.substanceId === "string" ? job.input_json.substanceId : null,
+    substance_name: typeof job.input_json?.substanceName === "string" ? job.input_json.substanceName : null,
+  }));
+}
+
+export async function listArticleBatches(limit = 30): Promise<(ArticleBatch & { summary: BatchSummary })[]> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from("article_batches")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Batches konnten nicht geladen werden: ${error.message}`);
+
+  const batches = (data ?? []) as ArticleBatch[];
+  if (batches.length === 0) return [];
+
+  const [{ data: articles }, jobs] = await Promise.all([
+    supabase
+      .from("generated_articles")
+      .select("batch_id, substance_id, status, created_at")
+      .in(
+        "batch_id",
+        batches.map((b) => b.id)
+      ),
+    loadBatchJobs(batches.flatMap((b) => b.job_ids)),
+  ]);
+
+  return batches.map((batch) => ({
+    ...batch,
+    summary: summarizeBatch(
+      batch,
+      (articles ?? []).filter((a) => a.batch_id === batch.id) as GeneratedArticle[],
+      jobs.filter((j) => batch.job_ids.includes(j.id))
+    ),
+  }));
+}
+
+export async function getArticleBatch(id: string): Promise<ArticleBatchDetail | null> {
+  const supabase = createAdminClient();
+  const { data: batch } = await supabase.from("article_batches").select("*").eq("id", id).maybeSingle();
+  if (!batch) return null;
+
+  const [{ data: articles }, jobs] = await Promise.all([
+    supabase
+      .from("generated_articles")
+      .select("*, substances(name, summary)")
+      .eq("batch_id", id)
+      .order("created_at", { ascending: true }),
+    loadBatchJobs((batch as ArticleBatch).job_ids),
+  ]);
+
+  const rows: ReviewItem[] = (articles ?? []).map(({ substances, ...article }) => ({
+    ...(article as GeneratedArticle),
+    substance: (substances as ReviewItem["substance"]) ?? null,
+  }));
+
+  return {
+    batch: batch as ArticleBatch,
+    articles: rows,
+    jobs,
+    summary: summarizeBatch(batch as ArticleBatch, rows, jobs),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Review
+// ---------------------------------------------------------------------------
+
+const REVIEWABLE: GeneratedArticleStatus[] = ["draft", "review", "blocked"];
+
+async function loadReviewable(id: string): Promise<GeneratedArticle> {
+  const { data } = await createAdminClient().from("generated_articles").select("*").eq("id", id).maybeSingle();
+  if (!data) throw new ArticleGenerationError("Generierter Artikel nicht gefunden.", 404);
+  if (!REVIEWABLE.includes(data.status)) {
+    throw new ArticleGenerationError("Der Entwurf wurde bereits übernommen oder abgelehnt.", 409);
+  }
+  return data as GeneratedArticle;
+}
+
+/**
+ * Save an edited draft. The content filter runs again, so an edit can
+ * unblock a draft (→ review) or block it.
+ */
+export async function updateGeneratedArticleContent(id: string, contentMdx: string): Promise<GeneratedArticle> {
+  const current = await loadReviewable(id);
+  const filterResult = filterArticleContent(contentMdx);
+  const status: GeneratedArticleStatus = !filterResult.passed ? "blocked" : current.batch_id ? "review" : "draft";
+
+  const { data, error } = await createAdminClient()
+    .from("generated_articles")
+    .update({ content_mdx: contentMdx, status, blocked_reasons: filterResult.reasons })
+    .eq("id", id)
+    .select()
+    .single();
+  if (error) throw new Error(`Entwurf konnte nicht gespeichert werden: ${error.message}`);
+  return data as GeneratedArticle;
+}
+
+export async function rejectGeneratedArticle(id: string, note?: string): Promise<GeneratedArticle> {
+  await loadReviewable(id);
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from("generated_articles")
+    .update({ status: "rejected", reviewed_at: new Date().toISOString(), review_note: note?.trim() || null })
+    .eq("id", id)
+    .select()
+    .single();
+  if (error) throw new Error(`Entwurf konnte nicht abgelehnt werden: ${error.message}`);
+
+  await supabase.from("audit_log").insert({
+    action: "ai_generated_article_rejected",
+    entity_type: "generated_article",
+    entity_id: id,
+    details: { batch_id: data.batch_id, note: note?.trim() || null },
+  });
+  return data as GeneratedArticle;
+}
+
+/** Approve a draft: creates the article (status draft) and marks the draft `mapped`. */
+export async function approveGeneratedArticle(id: string, note?: string): Promise<MappedArticle> {
+  await loadReviewable(id);
+  const supabase = createAdminClient();
+  const mapped = await mapGeneratedArticleToArticle(supabase, id);
+  if (note?.trim()) {
+    await supabase.from("generated_articles").update({ review_note: note.trim() }).eq("id", id);
+  }
+  return mapped;
+}
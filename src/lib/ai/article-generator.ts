@@ -1,9 +1,13 @@
 /**
  * AI Article Generator for Synapedia.
  * Takes substance data + template → generates MDX article draft.
- * Server-side only. Uses OpenAI Chat Completions API.
+ * Server-side only. Uses the provider configured for "article" via the
+ * shared structured-output layer.
  */
 
+import { z } from "zod";
+import { getAiProvider, type AiBackendId } from "./provider";
+import { generateStructured, StructuredOutputError } from "./structured";
 import type { ArticleTemplate, GeneratedCitation } from "@/lib/types";
 import type { SubstanceRow } from "@/lib/substances/schema";
 
@@ -123,44 +127,41 @@ export function buildPrompts(input: GenerateArticleInput): {
   return { systemPrompt, userPrompt, citations };
 }
 
-// --- OpenAI Call ---
+// --- AI Call ---
 
-export async function callOpenAIForArticle(
+/** Generated MDX: non-empty, code fences are stripped before validation */
+const ArticleMdxSchema = z.string().trim().min(1, "Der Artikel ist leer.");
+
+export interface GeneratedArticleDraft {
+  content_mdx: string;
+  provider: AiBackendId;
+  model: string;
+}
+
+/**
+ * Generate the MDX article with the provider configured for "article". An
+ * empty reply is retried once; throws `StructuredOutputError` if the output
+ * is still unusable.
+ */
+export async function generateArticleDraft(
   systemPrompt: string,
   userPrompt: string,
-): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY ist nicht konfiguriert.");
+  opts: { jobId?: string | null } = {},
+): Promise<GeneratedArticleDraft> {
+  if (getAiProvider("article") === "none") {
+    throw new Error("Kein AI-Provider für Artikel konfiguriert.");
   }
 
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.4,
-      max_tokens: 4096,
-    }),
+  const result = await generateStructured({
+    feature: "article",
+    schema: ArticleMdxSchema,
+    format: "text",
+    system: systemPrompt,
+    prompt: userPrompt,
+    temperature: 0.4,
+    maxTokens: 4096,
+    jobId: opts.jobId,
   });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`OpenAI API Fehler: ${response.status} ${err}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error("Leere Antwort von OpenAI.");
-  }
-
-  return content as string;
+  if (!result.ok) throw new StructuredOutputError(result.error);
+  return { content_mdx: result.data, provider: result.provider, model: result.model };
 }
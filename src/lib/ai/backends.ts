@@ -0,0 +1,223 @@
+/**
+ * AI backends behind the provider registry.
+ *
+ * - openai / local: OpenAI-compatible Chat Completions API. "local" points at
+ *   a self-hosted server (llama.cpp, Ollama, vLLM …) via LOCAL_AI_BASE_URL.
+ * - anthropic: Messages API.
+ * - mock: replays fixtures (see `./mock-fixtures`) without any network call.
+ *
+ * Backends only talk to the API; model selection, usage recording and
+ * latency measurement happen in `./provider`.
+ */
+
+import { parseSseStream } from "./stream";
+import { mockReply } from "./mock-fixtures";
+import type { AiBackendId, CompletionRequest } from "./provider";
+
+export interface TokenUsage {
+  input_tokens: number | null;
+  output_tokens: number | null;
+}
+
+export type StreamPiece =
+  | { type: "text"; text: string }
+  | { type: "usage"; usage: TokenUsage };
+
+export interface AiBackend {
+  complete(req: CompletionRequest, model: string): Promise<{ text: string; usage: TokenUsage | null }>;
+  stream(req: CompletionRequest, model: string): AsyncGenerator<StreamPiece>;
+}
+
+function timeoutSignal(req: CompletionRequest): AbortSignal | undefined {
+  return req.timeoutMs ? AbortSignal.timeout(req.timeoutMs) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible (OpenAI, local servers)
+// ---------------------------------------------------------------------------
+
+interface OpenAiCompatibleOptions {
+  label: string;
+  baseUrl: () => string;
+  apiKey: () => string | undefined;
+  /** Server supports `response_format` / `stream_options` (local servers vary) */
+  extendedParams: boolean;
+}
+
+function openAiUsage(usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): TokenUsage | null {
+  if (!usage) return null;
+  return { input_tokens: usage.prompt_tokens ?? null, output_tokens: usage.completion_tokens ?? null };
+}
+
+function openAiCompatible(opts: OpenAiCompatibleOptions): AiBackend {
+  const request = (req: CompletionRequest, model: string, stream: boolean) => {
+    const apiKey = opts.apiKey();
+    return fetch(`${opts.baseUrl().replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "system", content: req.system }, ...req.messages],
+        temperature: req.temperature ?? 0.3,
+        ...(req.maxTokens ? { max_tokens: req.maxTokens } : {}),
+        ...(req.json && opts.extendedParams ? { response_format: { type: "json_object" } } : {}),
+        ...(stream ? { stream: true } : {}),
+        ...(stream && opts.extendedParams ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: timeoutSignal(req),
+    });
+  };
+
+  return {
+    async complete(req, model) {
+      const response = await request(req, model, false);
+      if (!response.ok) {
+        const err = await response.text();
+        throw new Error(`${opts.label} API error: ${response.status} ${err}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) throw new Error(`Leere Antwort von ${opts.label}.`);
+      return { text: content as string, usage: openAiUsage(data.usage) };
+    },
+
+    async *stream(req, model) {
+      const response = await request(req, model, true);
+      if (!response.ok || !response.body) {
+        const err = await response.text();
+        throw new Error(`${opts.label} API error: ${response.status} ${err}`);
+      }
+
+      for await (const event of parseSseStream(response.body)) {
+        if (event.data === "[DONE]") return;
+        const chunk = JSON.parse(event.data);
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield { type: "text", text };
+        if (chunk.usage) yield { type: "usage", usage: openAiUsage(chunk.usage)! };
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic
+// ---------------------------------------------------------------------------
+
+const anthropic: AiBackend = (() => {
+  const request = (req: CompletionRequest, model: string, stream: boolean) => {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) throw new Error("ANTHROPIC_API_KEY ist nicht konfiguriert.");
+
+    return fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: req.maxTokens ?? 4096,
+        temperature: req.temperature ?? 0.3,
+        system: req.system,
+        messages: req.messages,
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal: timeoutSignal(req),
+    });
+  };
+
+  return {
+    async complete(req, model) {
+      const response = await request(req, model, false);
+      if (!response.ok) {
+        const err = await response.text();
+        throw new Error(`Anthropic API error: ${response.status} ${err}`);
+      }
+
+      const data = await response.json();
+      const content = data.content?.[0]?.text;
+      if (!content) throw new Error("Leere Antwort von Anthropic.");
+      const usage = data.usage
+        ? { input_tokens: data.usage.input_tokens ?? null, output_tokens: data.usage.output_tokens ?? null }
+        : null;
+      return { text: content as string, usage };
+    },
+
+    async *stream(req, model) {
+      const response = await request(req, model, true);
+      if (!response.ok || !response.body) {
+        const err = await response.text();
+        throw new Error(`Anthropic API error: ${response.status} ${err}`);
+      }
+
+      const usage: TokenUsage = { input_tokens: null, output_tokens: null };
+      for await (const event of parseSseStream(response.body)) {
+        if (event.event === "error") {
+          throw new Error(`Anthropic stream error: ${event.data}`);
+        }
+        if (event.event === "message_start") {
+          usage.input_tokens = JSON.parse(event.data).message?.usage?.input_tokens ?? null;
+        } else if (event.event === "message_delta") {
+          usage.output_tokens = JSON.parse(event.data).usage?.output_tokens ?? null;
+        } else if (event.event === "content_block_delta") {
+          const chunk = JSON.parse(event.data);
+          if (chunk.delta?.type === "text_delta" && chunk.delta.text) yield { type: "text", text: chunk.delta.text };
+        }
+      }
+      yield { type: "usage", usage };
+    },
+  };
+})();
+
+// ---------------------------------------------------------------------------
+// Mock
+// ---------------------------------------------------------------------------
+
+/** Rough token estimate for fixtures (~4 characters per token). */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const MOCK_CHUNK_SIZE = 16;
+
+const mock: AiBackend = {
+  async complete(req) {
+    const text = await mockReply(req);
+    const prompt = req.system + req.messages.map((m) => m.content).join("");
+    return { text, usage: { input_tokens: estimateTokens(prompt), output_tokens: estimateTokens(text) } };
+  },
+
+  async *stream(req, model) {
+    const { text, usage } = await this.complete(req, model);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      yield { type: "text", text: text.slice(i, i + MOCK_CHUNK_SIZE) };
+    }
+    if (usage) yield { type: "usage", usage };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export const AI_BACKENDS: Record<AiBackendId, AiBackend> = {
+  openai: openAiCompatible({
+    label: "OpenAI",
+    baseUrl: () => "https://api.openai.com/v1",
+    apiKey: () => process.env.OPENAI_API_KEY,
+    extendedParams: true,
+  }),
+  local: openAiCompatible({
+    label: "Lokaler AI-Server",
+    baseUrl: () => process.env.LOCAL_AI_BASE_URL ?? "",
+    apiKey: () => process.env.LOCAL_AI_API_KEY,
+    extendedParams: false,
+  }),
+  anthropic,
+  mock,
+};
@@ -0,0 +1,422 @@
+/**
+ * Article generation for one substance: loads substance, template and
+ * sources, generates the MDX draft, runs the content filter and stores the
+ * result in `generated_articles` (plus an audit entry).
+ *
+ * Used by POST /api/admin/ai/generate-article and by the "article" job type
+ * of the background worker. Drafts of a batch (`opts.batchId`, see
+ * article-batch.ts) go to the review queue instead of staying a plain draft.
+ * `mapGeneratedArticleToArticle` turns a draft into an article.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildPrompts, filterArticleContent, generateArticleDraft } from "./article-generator";
+import type { ArticleTemplate, ArticleTemplateVersion, GeneratedArticleStatus, GeneratedCitation } from "@/lib/types";
+import type { SubstanceRow } from "@/lib/substances/schema";
+
+export const ARTICLE_TONES = ["scientific", "friendly", "clinical"];
+export const ARTICLE_LENGTHS = ["short", "medium", "long"];
+
+export interface ArticleGenerationInput {
+  substanceId: string;
+  templateKey: string;
+  language?: string;
+  tone?: string;
+  length?: string;
+  /** Template version to generate with; defaults to the template's current version */
+  templateVersion?: number;
+}
+
+export interface ArticleGenerationResult {
+  id?: string;
+  content_mdx: string;
+  status: GeneratedArticleStatus;
+  template_version: number;
+  blocked_reasons: string[];
+  citations: GeneratedCitation[];
+  /** Set when the draft was generated but could not be stored */
+  db_error?: string;
+}
+
+/** Invalid input or missing data; `status` is the matching HTTP status. */
+export class ArticleGenerationError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ArticleGenerationError";
+    this.status = status;
+  }
+}
+
+/** Throws `ArticleGenerationError` (400) for unknown tone or length. */
+export function validateArticleGenerationInput(input: Partial<ArticleGenerationInput>): ArticleGenerationInput {
+  const { substanceId, templateKey, language = "de", tone = "scientific", length = "medium", templateVersion } = input;
+
+  if (!substanceId || !templateKey) {
+    throw new ArticleGenerationError("substanceId und templateKey sind erforderlich.", 400);
+  }
+  if (!ARTICLE_TONES.includes(tone)) {
+    throw new ArticleGenerationError(`Ungültiger Ton. Erlaubt: ${ARTICLE_TONES.join(", ")}`, 400);
+  }
+  if (!ARTICLE_LENGTHS.includes(length)) {
+    throw new ArticleGenerationError(`Ungültige Länge. Erlaubt: ${ARTICLE_LENGTHS.join(", ")}`, 400);
+  }
+  if (templateVersion !== undefined && (!Number.isInteger(templateVersion) || templateVersion < 1)) {
+    throw new ArticleGenerationError("templateVersion muss eine positive Ganzzahl sein.", 400);
+  }
+  return { substanceId, templateKey, language, tone, length, templateVersion };
+}
+
+/**
+ * The template row always holds the current version's prompts; older
+ * versions are read from `article_template_versions`.
+ */
+async function resolveTemplateVersion(
+  supabase: SupabaseClient,
+  template: ArticleTemplate,
+  requested?: number,
+): Promise<{ number: number; template: ArticleTemplate }> {
+  const current = template.current_version ?? 1;
+  if (requested === undefined || requested === current) return { number: current, template };
+
+  const { data } = await supabase
+    .from("article_template_versions")
+    .select("*")
+    .eq("template_key", template.key)
+    .eq("version", requested)
+    .maybeSingle();
+  if (!data) {
+    throw new ArticleGenerationError(`Version ${requested} von Template "${template.key}" nicht gefunden.`, 404);
+  }
+
+  const version = data as ArticleTemplateVersion;
+  return {
+    number: version.version,
+    template: {
+      ...template,
+      prompt_system: version.prompt_system,
+      prompt_user: version.prompt_user,
+      output_schema: version.output_schema,
+    },
+  };
+}
+
+export interface ArticleDraftResult {
+  content_mdx: string;
+  passed: boolean;
+  blocked_reasons: string[];
+  citations: GeneratedCitation[];
+  template_version: number;
+  provider: string;
+  model: string;
+}
+
+/**
+ * Steps 1–6: load substance, template (version) and sources, generate the
+ * draft and run the content filter. Nothing is stored; used directly by the
+ * template A/B comparison.
+ */
+export async function draftArticle(
+  supabase: SupabaseClient,
+  input: ArticleGenerationInput,
+  opts: { jobId?: string | null } = {},
+): Promise<ArticleDraftResult> {
+  const { substanceId, templateKey, language = "de", tone = "scientific", length = "medium" } = input;
+
+  // 1. Fetch substance
+  const { data: substance, error: substanceError } = await supabase
+    .from("substances")
+    .select("*")
+    .eq("id", substanceId)
+    .single();
+
+  if (substanceError || !substance) {
+    throw new ArticleGenerationError("Substanz nicht gefunden.", 404);
+  }
+
+  // 2. Fetch template and the requested version of its prompts
+  const { data: template, error: templateError } = await supabase
+    .from("article_templates")
+    .select("*")
+    .eq("key", templateKey)
+    .eq("enabled", true)
+    .single();
+
+  if (templateError || !template) {
+    throw new ArticleGenerationError("Template nicht gefunden oder deaktiviert.", 404);
+  }
+
+  const version = await resolveTemplateVersion(supabase, template as ArticleTemplate, input.templateVersion);
+
+  // 3. Fetch substance sources
+  const { data: sources } = await supabase
+    .from("substance_sources")
+    .select("*")
+    .eq("substance_id", substanceId)
+    .order("confidence", { ascending: false })
+    .limit(10);
+
+  // 4. Build prompts
+  const { systemPrompt, userPrompt, citations } = buildPrompts({
+    substance: substance as SubstanceRow,
+    sources: (sources || []) as Array<{
+      source_name: string;
+      source_url: string;
+      source_type: string;
+      snippet: string;
+      license_note: string;
+      confidence: number;
+    }>,
+    template: version.template,
+    language,
+    tone,
+    length,
+  });
+
+  // 5. Call the AI provider
+  const draft = await generateArticleDraft(systemPrompt, userPrompt, { jobId: opts.jobId });
+
+  // 6. Content safety filter
+  const filterResult = filterArticleContent(draft.content_mdx);
+
+  return {
+    content_mdx: draft.content_mdx,
+    passed: filterResult.passed,
+    blocked_reasons: filterResult.reasons,
+    citations,
+    template_version: version.number,
+    provider: draft.provider,
+    model: draft.model,
+  };
+}
+
+export async function generateArticleForSubstance(
+  supabase: SupabaseClient,
+  input: ArticleGenerationInput,
+  opts: { jobId?: string | null; batchId?: string | null } = {},
+): Promise<ArticleGenerationResult> {
+  const { substanceId, templateKey, language = "de", tone = "scientific", length = "medium" } = input;
+
+  const draft = await draftArticle(supabase, input, opts);
+  const contentMdx = draft.content_mdx;
+  const citations = draft.citations;
+
+  const status: GeneratedArticleStatus = !draft.passed ? "blocked" : opts.batchId ? "review" : "draft";
+  const blockedReasons = draft.blocked_reasons;
+
+  // 7. Store generated article
+  const { data: generated, error: insertError } = await supabase
+    .from("generated_articles")
+    .insert({
+      substance_id: substanceId,
+      template_key: templateKey,
+      content_mdx: contentMdx,
+      citations: JSON.parse(JSON.stringify(citations)),
+      template_version: draft.template_version,
+      model_info: {
+        provider: draft.provider,
+        model: draft.model,
+        template: templateKey,
+        template_version: draft.template_version,
+        language,
+        tone,
+        length,
+        generated_at: new Date().toISOString(),
+        ...(opts.jobId ? { job_id: opts.jobId } : {}),
+      },
+      status,
+      blocked_reasons: blockedReasons,
+      ...(opts.batchId ? { batch_id: opts.batchId } : {}),
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    console.error("[generate-article] Insert error:", insertError.message);
+    // Still return the content even if DB insert fails
+    return {
+      content_mdx: contentMdx,
+      status,
+      template_version: draft.template_version,
+      blocked_reasons: blockedReasons,
+      citations,
+      db_error: insertError.message,
+    };
+  }
+
+  // 8. Audit log
+  await supabase.from("audit_log").insert({
+    action: "ai_generate_draft",
+    entity_type: "substance",
+    entity_id: substanceId,
+    details: {
+      template_key: templateKey,
+      template_version: draft.template_version,
+      generated_article_id: generated?.id,
+      status,
+      blocked_reasons: blockedReasons,
+      provider: draft.provider,
+      model: draft.model,
+    },
+  });
+
+  return {
+    id: generated?.id,
+    content_mdx: contentMdx,
+    status,
+    template_version: draft.template_version,
+    blocked_reasons: blockedReasons,
+    citations,
+  };
+}
+
+export interface TemplateComparison {
+  substance_id: string;
+  template_key: string;
+  a: ArticleDraftResult;
+  b: ArticleDraftResult;
+}
+
+/**
+ * Generate the same substance with two versions of a template (one after
+ * the other) for a side-by-side comparison. Nothing is stored except an
+ * audit entry. Runs as a `template_compare` job – two generations do not
+ * fit into one request.
+ */
+export async function compareTemplateVersions(
+  supabase: SupabaseClient,
+  input: Omit<ArticleGenerationInput, "templateVersion"> & { versionA: number; versionB: number },
+  opts: { onDraft?: (version: number) => Promise<void> } = {},
+): Promise<TemplateComparison> {
+  const { versionA, versionB, ...base } = input;
+  const a = await draftArticle(supabase, { ...base, templateVersion: versionA });
+  await opts.onDraft?.(versionA);
+  const b = await draftArticle(supabase, { ...base, templateVersion: versionB });
+  await opts.onDraft?.(versionB);
+
+  await supabase.from("audit_log").insert({
+    action: "ai_template_versions_compared",
+    entity_type: "substance",
+    entity_id: base.substanceId,
+    details: {
+      template_key: base.templateKey,
+      versions: [versionA, versionB],
+      passed: [a.passed, b.passed],
+    },
+  });
+
+  return { substance_id: base.substanceId, template_key: base.templateKey, a, b };
+}
+
+export interface MappedArticle {
+  article_id: string;
+  title: string;
+  slug: string;
+  status: "draft";
+}
+
+/**
+ * Create a draft article from a generated article and mark the generated
+ * article as `mapped`. Blocked drafts are refused.
+ */
+export async function mapGeneratedArticleToArticle(
+  supabase: SupabaseClient,
+  generatedArticleId: string,
+): Promise<MappedArticle> {
+  // 1. Fetch generated article
+  const { data: generated, error: fetchError } = await supabase
+    .from("generated_articles")
+    .select("*")
+    .eq("id", generatedArticleId)
+    .single();
+
+  if (fetchError || !generated) {
+    throw new ArticleGenerationError("Generierter Artikel nicht gefunden.", 404);
+  }
+
+  if (generated.status === "blocked") {
+    throw new ArticleGenerationError("Geblockte Artikel können nicht übernommen werden.", 400);
+  }
+  if (generated.status === "mapped") {
+    throw new ArticleGenerationError("Der Entwurf wurde bereits übernommen.", 409);
+  }
+
+  // 2. Fetch substance for title/slug
+  const { data: substance } = await supabase
+    .from("substances")
+    .select("name, slug, categories")
+    .eq("id", generated.substance_id)
+    .single();
+
+  if (!substance) {
+    throw new ArticleGenerationError("Zugehörige Substanz nicht gefunden.", 404);
+  }
+
+  const templateKey = generated.template_key || "";
+  const templateSuffix = templateKey.replace(/_v\d+$/, "").replace(/_/g, " ");
+  const title = `${substance.name} – ${templateSuffix.charAt(0).toUpperCase() + templateSuffix.slice(1)}`;
+  const slug = `${substance.slug}-${templateKey.replace(/_/g, "-")}`;
+  const category = Array.isArray(substance.categories) && substance.categories.length > 0
+    ? substance.categories[0]
+    : null;
+
+  // 3. Create article in draft status
+  const insertData: Record<string, unknown> = {
+    title,
+    slug,
+    summary: `AI-generierter Artikel über ${substance.name}.`,
+    content_mdx: generated.content_mdx,
+    status: "draft",
+    risk_level: "unknown",
+    evidence_strength: "moderate",
+    category,
+  };
+
+  let { data: article, error: articleError } = await supabase
+    .from("articles")
+    .insert(insertData)
+    .select()
+    .single();
+
+  // Retry without risk_level if the column is missing from the schema cache
+  if (articleError?.message?.includes("schema cache")) {
+    delete insertData.risk_level;
+    ({ data: article, error: articleError } = await supabase
+      .from("articles")
+      .insert(insertData)
+      .select()
+      .single());
+  }
+
+  if (articleError || !article) {
+    throw new ArticleGenerationError(
+      "Artikel konnte nicht erstellt werden: " + (articleError?.message ?? "Unbekannter Fehler"),
+      500,
+    );
+  }
+
+  // 4. Update generated article with mapping
+  await supabase
+    .from("generated_articles")
+    .update({
+      article_id: article.id,
+      status: "mapped",
+      ...(generated.batch_id ? { reviewed_at: new Date().toISOString() } : {}),
+    })
+    .eq("id", generatedArticleId);
+
+  // 5. Audit log
+  await supabase.from("audit_log").insert({
+    action: "draft_mapped_to_article",
+    entity_type: "article",
+    entity_id: article.id,
+    details: {
+      generated_article_id: generatedArticleId,
+      substance_name: substance.name,
+      template_key: templateKey,
+    },
+  });
+
+  return { article_id: article.id, title, slug, status: "draft" };
+}
@@ -1,11 +1,12 @@
 /**
  * AI-powered substance generation for Synapedia.
- * Generates a structured SubstanceDraft using the configured AI provider (OpenAI or Anthropic).
+ * Generates a structured SubstanceDraft using the AI provider configured for "substance".
  * Enforces harm-reduction compliance — no actionable dosage instructions.
  */
 
 import { z } from "zod";
 import { getAiProvider } from "./provider";
+import { generateStructured, StructuredOutputError } from "./structured";
 import {
   EffectsSchema,
   RisksSchema,
@@ -105,113 +106,42 @@ Antworte als JSON-Objekt mit GENAU diesem Schema:
 WICHTIG: Nur validiertes JSON zurückgeben. Keine Markdown-Codeblöcke. Keine Kommentare außerhalb des JSON.`;
 }
 
-/* ---------- AI Calls ---------- */
-
-async function callOpenAI(userPrompt: string): Promise<Record<string, unknown>> {
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" },
-    }),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${err}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) throw new Error("Leere Antwort von OpenAI.");
-  return JSON.parse(content) as Record<string, unknown>;
-}
-
-async function callAnthropic(userPrompt: string): Promise<Record<string, unknown>> {
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": process.env.ANTHROPIC_API_KEY!,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 4096,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: "user", content: userPrompt }],
-    }),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} ${err}`);
-  }
-
-  const data = await response.json();
-  const content = data.content?.[0]?.text;
-  if (!content) throw new Error("Leere Antwort von Anthropic.");
-
-  const cleaned = content.replace(/^```json?\s*\n?/i, "").replace(/\n?```\s*$/i, "");
-  return JSON.parse(cleaned) as Record<string, unknown>;
-}
-
 /* ---------- Main generation function ---------- */
 
 /**
  * Generate a structured SubstanceDraft using AI.
- * Validates the output with Zod. Retries once on invalid output.
+ * Validates the output with Zod; an invalid reply is sent back once with the
+ * validation errors. Throws `StructuredOutputError` if it still fails.
  */
 export async function generateSubstance(
   input: GenerateSubstanceInput,
 ): Promise<SubstanceDraft> {
-  const provider = getAiProvider();
-  if (provider === "none") {
-    throw new Error("Kein AI-Provider konfiguriert. Setze OPENAI_API_KEY oder ANTHROPIC_API_KEY.");
-  }
-
-  const userPrompt = buildPrompt(input);
-  const callAi = provider === "openai" ? callOpenAI : callAnthropic;
-
-  let raw: Record<string, unknown>;
-  let lastError: string | undefined;
-
-  // Try up to 2 times (initial + single retry)
-  for (let attempt = 0; attempt < 2; attempt++) {
-    raw = await callAi(attempt === 0 ? userPrompt : userPrompt + "\n\nDein letzter Versuch war ungültig. Bitte korrigiere das JSON.");
-    const parsed = AiSubstanceOutputSchema.safeParse(raw);
-    if (parsed.success) {
-      // Map AI output to SubstanceDraft shape
-      const ai = parsed.data;
-      return {
-        name: ai.name,
-        slug: "", // Will be set by the API route
-        categories: ai.categories,
-        summary: ai.summary,
-        mechanism: ai.mechanism,
-        effects: ai.effects,
-        risks: ai.risks,
-        interactions: ai.interactions,
-        dependence: ai.dependence,
-        legality: ai.legality,
-        citations: {},
-        confidence: {},
-      };
-    }
-    lastError = parsed.error.flatten().fieldErrors
-      ? JSON.stringify(parsed.error.flatten().fieldErrors)
-      : parsed.error.message;
-    console.error(`[generateSubstance] Attempt ${attempt + 1} validation failed:`, lastError);
+  if (getAiProvider("substance") === "none") {
+    throw new Error("Kein AI-Provider konfiguriert. Setze OPENAI_API_KEY, ANTHROPIC_API_KEY oder LOCAL_AI_BASE_URL.");
   }
 
-  throw new Error(`AI-Ausgabe konnte nicht validiert werden: ${lastError}`);
+  const result = await generateStructured({
+    feature: "substance",
+    schema: AiSubstanceOutputSchema,
+    system: SYSTEM_PROMPT,
+    prompt: buildPrompt(input),
+  });
+  if (!result.ok) throw new StructuredOutputError(result.error);
+
+  // Map AI output to SubstanceDraft shape
+  const ai = result.data;
+  return {
+    name: ai.name,
+    slug: "", // Will be set by the API route
+    categories: ai.categories,
+    summary: ai.summary,
+    mechanism: ai.mechanism,
+    effects: ai.effects,
+    risks: ai.risks,
+    interactions: ai.interactions,
+    dependence: ai.dependence,
+    legality: ai.legality,
+    citations: {},
+    confidence: {},
+  };
 }
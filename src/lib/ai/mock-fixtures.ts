@@ -0,0 +1,105 @@
+/**
+ * Fixtures for the mock AI backend (AI_PROVIDER=mock).
+ *
+ * Replies are deterministic: a fixture registered with `setMockFixture`
+ * (tests), else `<AI_MOCK_FIXTURES_DIR>/<feature>.json` (`.mdx` for text
+ * features), else the built-in default below. All defaults validate
+ * against the schemas of their feature.
+ */
+
+import type { AiFeature, CompletionRequest } from "./provider";
+
+export type MockFixture = string | ((req: CompletionRequest) => string);
+
+const registered = new Map<AiFeature, MockFixture>();
+
+/** Replace the reply for a feature until `resetMockFixtures` is called. */
+export function setMockFixture(feature: AiFeature, fixture: MockFixture): void {
+  registered.set(feature, fixture);
+}
+
+export function resetMockFixtures(): void {
+  registered.clear();
+}
+
+/** Text of the last user message, where the prompts name the substance. */
+function lastPrompt(req: CompletionRequest): string {
+  return [...req.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+}
+
+function quotedName(req: CompletionRequest, fallback: string): string {
+  return /Substanz:?\s*"([^"]+)"/.exec(lastPrompt(req))?.[1] ?? fallback;
+}
+
+const DEFAULT_FIXTURES: Record<AiFeature, (req: CompletionRequest) => string> = {
+  safer_use: () =>
+    JSON.stringify({
+      assessment: "Mock-Einschätzung: Auf Basis der Angaben wurden moderate Risiken erkannt.",
+      risk_level: "GELB",
+      interactions: [],
+      harm_reduction: ["Sei nicht allein – informiere eine Vertrauensperson."],
+      emergency: null,
+      disclaimer: "Diese Einschätzung ersetzt keine ärztliche oder toxikologische Beratung.",
+      citations: [],
+    }),
+
+  autofill: (req) => {
+    const title = /Substanz: ([^\n(]+)/.exec(lastPrompt(req))?.[1]?.trim() ?? "Mock-Substanz";
+    return JSON.stringify({
+      quickFacts: { class: "Mock", receptor: "–", riskLevel: "moderat", evidenceStrength: "niedrig" },
+      sections: [{ key: "overview", title: "Überblick", blocks: [{ type: "markdown", content: `Mock-Entwurf zu ${title}.` }] }],
+      dosage: { qualitative_only: true, notes: [] },
+      duration: {},
+      warnings: [],
+      interactions: [],
+      suggestedGraphEdges: [],
+      suggestedMediaRoles: [],
+    });
+  },
+
+  enrichment: (req) => {
+    const name = quotedName(req, "Mock-Substanz");
+    return JSON.stringify({
+      overview: `Mock-Übersicht zu ${name}.`,
+      effects: "",
+      risks: "",
+      harm_reduction: "",
+      interactions: "",
+      dosage_notes: "",
+      legal_status_notes: "",
+      sources: [],
+    });
+  },
+
+  substance: (req) =>
+    JSON.stringify({
+      name: quotedName(req, "Mock-Substanz"),
+      summary: "Mock-Zusammenfassung.",
+      categories: [],
+      tags: [],
+    }),
+
+  article: () => "# Mock-Artikel\n\nDieser Entwurf wurde vom Mock-Provider erzeugt.\n",
+};
+
+async function readFixtureFile(feature: AiFeature, json: boolean): Promise<string | null> {
+  const dir = process.env.AI_MOCK_FIXTURES_DIR;
+  if (!dir) return null;
+  const { readFile } = await import("fs/promises");
+  const { join } = await import("path");
+  try {
+    return await readFile(join(dir, `${feature}.${json ? "json" : "mdx"}`), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+export async function mockReply(req: CompletionRequest): Promise<string> {
+  const fixture = registered.get(req.feature);
+  if (fixture !== undefined) return typeof fixture === "function" ? fixture(req) : fixture;
+
+  const fromFile = await readFixtureFile(req.feature, req.json ?? false);
+  if (fromFile !== null) return fromFile;
+
+  return DEFAULT_FIXTURES[req.feature](req);
+}
@@ -1,20 +1,187 @@
 /**
- * AI Provider abstraction for Synapedia Content Studio.
- * Supports OpenAI and Anthropic. Falls back gracefully when no keys are set.
+ * AI Provider registry for Synapedia.
+ *
+ * Backends: OpenAI, Anthropic, a local OpenAI-compatible server and a mock
+ * that replays fixtures (see `./backends`). Provider and model are chosen
+ * per feature:
+ *
+ *   AI_PROVIDER_<FEATURE> / AI_MODEL_<FEATURE>   e.g. AI_PROVIDER_ARTICLE=local
+ *   AI_PROVIDER / AI_MODEL                       default for all features
+ *
+ * Without an explicit choice the first configured backend is used (OpenAI,
+ * Anthropic, local). "none" disables AI for a feature. Every call records
+ * token usage and latency (see `./usage`).
+ *
+ * `complete` / `streamCompletion` are the only request paths; structured
+ * (JSON) output is validated on top of them in `./structured`.
  */
 
-export type AiProvider = "openai" | "anthropic" | "none";
+import { z } from "zod";
+import { AI_BACKENDS, type TokenUsage } from "./backends";
+import { generateStructured, StructuredOutputError } from "./structured";
+import { recordAiUsage } from "./usage";
 
-export function getAiProvider(): AiProvider {
+export type AiBackendId = "openai" | "anthropic" | "local" | "mock";
+export type AiProvider = AiBackendId | "none";
+
+export type AiFeature = "safer_use" | "article" | "enrichment" | "substance" | "autofill";
+
+export const AI_FEATURES: AiFeature[] = ["safer_use", "article", "enrichment", "substance", "autofill"];
+
+const AI_BACKEND_IDS: AiBackendId[] = ["openai", "anthropic", "local", "mock"];
+
+const DEFAULT_MODELS: Record<AiBackendId, () => string> = {
+  openai: () => "gpt-4o-mini",
+  anthropic: () => "claude-sonnet-4-20250514",
+  local: () => process.env.LOCAL_AI_MODEL || "llama3.1",
+  mock: () => "mock",
+};
+
+function isBackendConfigured(id: AiBackendId): boolean {
+  switch (id) {
+    case "openai":
+      return !!process.env.OPENAI_API_KEY;
+    case "anthropic":
+      return !!process.env.ANTHROPIC_API_KEY;
+    case "local":
+      return !!process.env.LOCAL_AI_BASE_URL;
+    case "mock":
+      return true;
+  }
+}
+
+function featureEnv(prefix: string, feature?: AiFeature): string | undefined {
+  return (feature && process.env[`${prefix}_${feature.toUpperCase()}`]) || process.env[prefix] || undefined;
+}
+
+/**
+ * Provider used for a feature (or the default without one). An explicitly
+ * chosen backend that is not configured resolves to "none".
+ */
+export function getAiProvider(feature?: AiFeature): AiProvider {
+  const explicit = featureEnv("AI_PROVIDER", feature);
+  if (explicit) {
+    const id = explicit as AiBackendId;
+    return AI_BACKEND_IDS.includes(id) && isBackendConfigured(id) ? id : "none";
+  }
   if (process.env.OPENAI_API_KEY) return "openai";
   if (process.env.ANTHROPIC_API_KEY) return "anthropic";
+  if (process.env.LOCAL_AI_BASE_URL) return "local";
   return "none";
 }
 
-export function isAiEnabled(): boolean {
-  return getAiProvider() !== "none";
+export function isAiEnabled(feature?: AiFeature): boolean {
+  return getAiProvider(feature) !== "none";
+}
+
+export interface AiConfig {
+  provider: AiBackendId;
+  model: string;
+}
+
+export function resolveAiConfig(feature: AiFeature): AiConfig | null {
+  const provider = getAiProvider(feature);
+  if (provider === "none") return null;
+  return { provider, model: featureEnv("AI_MODEL", feature) ?? DEFAULT_MODELS[provider]() };
+}
+
+// ---------------------------------------------------------------------------
+// Completion request
+// ---------------------------------------------------------------------------
+
+export interface AiMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  feature: AiFeature;
+  system: string;
+  messages: AiMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a JSON object (`response_format` where supported, else prompt-only) */
+  json?: boolean;
+  timeoutMs?: number;
+  /** `ai_jobs` row the usage is attributed to */
+  jobId?: string | null;
+}
+
+export interface Completion extends AiConfig {
+  text: string;
+  usage: TokenUsage | null;
+  latency_ms: number;
+}
+
+const NOT_CONFIGURED =
+  "Kein AI-Provider konfiguriert. Setze OPENAI_API_KEY, ANTHROPIC_API_KEY oder LOCAL_AI_BASE_URL.";
+
+function requireConfig(feature: AiFeature): AiConfig {
+  const config = resolveAiConfig(feature);
+  if (!config) throw new Error(NOT_CONFIGURED);
+  return config;
+}
+
+function record(
+  req: CompletionRequest,
+  config: AiConfig,
+  started: number,
+  usage: TokenUsage | null,
+  error: unknown
+): void {
+  void recordAiUsage({
+    feature: req.feature,
+    provider: config.provider,
+    model: config.model,
+    input_tokens: usage?.input_tokens ?? null,
+    output_tokens: usage?.output_tokens ?? null,
+    latency_ms: Date.now() - started,
+    ok: error === null,
+    error: error === null ? null : error instanceof Error ? error.message : String(error),
+    job_id: req.jobId ?? null,
+  });
+}
+
+/** Run one completion with the feature's provider and return the reply. */
+export async function complete(req: CompletionRequest): Promise<Completion> {
+  const config = requireConfig(req.feature);
+  const started = Date.now();
+
+  try {
+    const { text, usage } = await AI_BACKENDS[config.provider].complete(req, config.model);
+    record(req, config, started, usage, null);
+    return { ...config, text, usage, latency_ms: Date.now() - started };
+  } catch (err) {
+    record(req, config, started, null, err);
+    throw err;
+  }
 }
 
+/** Stream one completion as text chunks; usage is recorded when it ends. */
+export async function* streamCompletion(req: CompletionRequest): AsyncGenerator<string> {
+  const config = requireConfig(req.feature);
+  const started = Date.now();
+  let usage: TokenUsage | null = null;
+  let error: unknown = "Stream abgebrochen.";
+
+  try {
+    for await (const piece of AI_BACKENDS[config.provider].stream(req, config.model)) {
+      if (piece.type === "usage") usage = piece.usage;
+      else yield piece.text;
+    }
+    error = null;
+  } catch (err) {
+    error = err;
+    throw err;
+  } finally {
+    record(req, config, started, usage, error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Content Studio autofill
+// ---------------------------------------------------------------------------
+
 const SYSTEM_PROMPT = `Du bist ein wissenschaftlicher Redaktionsassistent für Synapedia, eine deutschsprachige Wissensplattform über psychoaktive Substanzen.
 
 REGELN:
@@ -26,26 +193,63 @@ REGELN:
 - Antworte IMMER in validem JSON gemäß dem angeforderten Schema
 - Sprache: Deutsch`;
 
-interface AutofillInput {
-  title: string;
-  subtitle?: string;
-  category?: string;
-  templateSections?: { key: string; title: string; aiHints?: string }[];
-  existingDraft?: string;
-}
+/** Schema of the autofill draft; unknown extra fields are kept. */
+export const AutofillOutputSchema = z.looseObject({
+  quickFacts: z.record(z.string(), z.string()).default({}),
+  sections: z
+    .array(
+      z.looseObject({
+        key: z.string(),
+        title: z.string(),
+        blocks: z.array(z.looseObject({ type: z.string(), content: z.string() })).default([]),
+      })
+    )
+    .default([]),
+  dosage: z
+    .looseObject({ qualitative_only: z.boolean().default(true), notes: z.array(z.string()).default([]) })
+    .default({ qualitative_only: true, notes: [] }),
+  duration: z.record(z.string(), z.string()).default({}),
+  warnings: z.array(z.string()).default([]),
+  interactions: z
+    .array(z.looseObject({ substance: z.string(), severity: z.string(), description: z.string() }))
+    .default([]),
+  suggestedGraphEdges: z.array(z.record(z.string(), z.string())).default([]),
+  suggestedMediaRoles: z.array(z.looseObject({ role: z.string(), description: z.string() })).default([]),
+});
 
-export async function runAutofill(input: AutofillInput): Promise<Record<string, unknown>> {
-  const provider = getAiProvider();
-  if (provider === "none") {
-    throw new Error("Kein AI-Provider konfiguriert. Setze OPENAI_API_KEY oder ANTHROPIC_API_KEY.");
-  }
+export type AutofillOutput = z.infer<typeof AutofillOutputSchema>;
 
-  const userPrompt = buildAutofillPrompt(input);
+export const AutofillInputSchema = z.object({
+  title: z.string().trim().min(1),
+  subtitle: z.string().optional(),
+  category: z.string().optional(),
+  templateSections: z
+    .array(z.object({ key: z.string(), title: z.string(), aiHints: z.string().optional() }))
+    .optional(),
+  existingDraft: z.string().optional(),
+});
 
-  if (provider === "openai") {
-    return callOpenAI(userPrompt);
-  }
-  return callAnthropic(userPrompt);
+export type AutofillInput = z.infer<typeof AutofillInputSchema>;
+
+/**
+ * Generate a Content Studio draft. Throws `StructuredOutputError` if the
+ * reply still fails validation after the repair attempt.
+ */
+export async function runAutofill(
+  input: AutofillInput,
+  opts: { jobId?: string | null } = {}
+): Promise<AutofillOutput> {
+  if (getAiProvider("autofill") === "none") throw new Error(NOT_CONFIGURED);
+
+  const result = await generateStructured({
+    feature: "autofill",
+    jobId: opts.jobId,
+    schema: AutofillOutputSchema,
+    system: SYSTEM_PROMPT,
+    prompt: buildAutofillPrompt(input),
+  });
+  if (!result.ok) throw new StructuredOutputError(result.error);
+  return result.data;
 }
 
 function buildAutofillPrompt(input: AutofillInput): string {
@@ -73,63 +277,3 @@ Antworte als JSON-Objekt mit folgendem Schema:
 
 WICHTIG: Nur validiertes JSON zurückgeben. Keine Markdown-Codeblöcke.`;
 }
-
-async function callOpenAI(userPrompt: string): Promise<Record<string, unknown>> {
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" },
-    }),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${err}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) throw new Error("Leere Antwort von OpenAI.");
-
-  return JSON.parse(content) as Record<string, unknown>;
-}
-
-async function callAnthropic(userPrompt: string): Promise<Record<string, unknown>> {
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": process.env.ANTHROPIC_API_KEY!,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 4096,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: "user", content: userPrompt }],
-    }),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} ${err}`);
-  }
-
-  const data = await response.json();
-  const content = data.content?.[0]?.text;
-  if (!content) throw new Error("Leere Antwort von Anthropic.");
-
-  // Strip markdown code fences if present
-  const cleaned = content.replace(/^```json?\s*\n?/i, "").replace(/\n?```\s*$/i, "");
-  return JSON.parse(cleaned) as Record<string, unknown>;
-}
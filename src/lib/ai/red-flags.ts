@@ -0,0 +1,267 @@
+/**
+ * Safer-Use Companion – deterministic red-flag pre-screen.
+ *
+ * Runs before every Safer-Use reply over the intake log, the profile
+ * (conditions, regular medication) and the message text. The result sets a
+ * floor for `risk_level` and, for acute situations, an emergency notice that
+ * a model reply can never drop. Also the basis of the fallback response when
+ * no AI provider is configured.
+ */
+
+import type {
+  SaferUseChatRequest,
+  SaferUseChatResponse,
+  SaferUseOverride,
+  SaferUseRedFlag,
+  SaferUseRiskLevel,
+} from "@/lib/types";
+
+// ---------------------------------------------------------------------------
+// Risk levels
+// ---------------------------------------------------------------------------
+
+export const RISK_LEVEL_ORDER: Record<SaferUseRiskLevel, number> = {
+  GRÜN: 0,
+  GELB: 1,
+  ORANGE: 2,
+  ROT: 3,
+};
+
+export function maxRiskLevel(a: SaferUseRiskLevel, b: SaferUseRiskLevel): SaferUseRiskLevel {
+  return RISK_LEVEL_ORDER[a] >= RISK_LEVEL_ORDER[b] ? a : b;
+}
+
+// ---------------------------------------------------------------------------
+// Term lists
+// ---------------------------------------------------------------------------
+
+const OPIOID_TERMS = ["opioid", "heroin", "morphin", "fentanyl", "codein", "tramadol", "oxycodon", "methadon", "buprenorphin"];
+export const BENZO_TERMS = ["benzo", "benzodiazepine", "diazepam", "alprazolam", "lorazepam", "clonazepam", "xanax", "valium"];
+const ALCOHOL_TERMS = ["alkohol", "alcohol", "ethanol"];
+const SEROTONERGIC_TERMS = ["mdma", "ecstasy", "mda"];
+export const SSRI_TERMS = ["ssri", "sertralin", "fluoxetin", "citalopram", "escitalopram", "paroxetin", "fluvoxamin"];
+export const MAOI_TERMS = ["maoi", "mao-hemmer", "moclobemid", "tranylcypromin", "phenelzin"];
+const STIMULANT_TERMS = ["amphetamin", "methamphetamin", "kokain", "cocaine", "speed", "crystal"];
+const SEIZURE_THRESHOLD_TERMS = ["tramadol", "bupropion", ...STIMULANT_TERMS];
+const UNKNOWN_TERMS = ["unbekannt", "unknown", "rc", "research chemical"];
+const HEART_CONDITIONS = ["heart_disease", "herzkrankheit"];
+const SEIZURE_CONDITIONS = ["epilepsy", "epilepsie"];
+
+/**
+ * Symptoms and crisis statements in the message text. Patterns match on the
+ * lowercased message; a preceding "kein/keine/ohne" negates a match.
+ */
+const MESSAGE_RULES: {
+  id: string;
+  level: SaferUseRiskLevel;
+  reason: string;
+  patterns: RegExp[];
+}[] = [
+  {
+    id: "symptom_breathing",
+    level: "ROT",
+    reason: "Beschriebene Atemprobleme können auf eine Atemdepression hinweisen.",
+    patterns: [/atemnot/, /atemprobleme/, /kriege? keine luft/, /bekomm\w* keine luft/, /kann (kaum |nicht )?(mehr )?atmen/, /atmet (kaum|flach|nicht)/, /flache atmung/, /atemstillstand/],
+  },
+  {
+    id: "symptom_chest_pain",
+    level: "ROT",
+    reason: "Brustschmerzen können auf eine Herz-Kreislauf-Komplikation hinweisen.",
+    patterns: [/brustschmerz/, /schmerz\w* in der brust/, /engegefühl in der brust/, /druck auf der brust/],
+  },
+  {
+    id: "symptom_seizure",
+    level: "ROT",
+    reason: "Krampfanfälle sind ein medizinischer Notfall.",
+    // Not bare "krampf": jaw clenching and muscle cramps are common and harmless
+    patterns: [/krampfanf[aä]ll/, /\bkrampft\b/, /epilepti\w* anfall/, /zuckt am ganzen körper/],
+  },
+  {
+    id: "symptom_unconscious",
+    level: "ROT",
+    reason: "Bewusstlosigkeit oder fehlende Ansprechbarkeit ist ein medizinischer Notfall.",
+    patterns: [/bewusstlos/, /nicht (mehr )?ansprechbar/, /wacht nicht (mehr )?auf/, /nicht (mehr )?wach zu kriegen/],
+  },
+  {
+    id: "symptom_cyanosis",
+    level: "ROT",
+    reason: "Blaue Lippen oder Fingernägel deuten auf Sauerstoffmangel hin.",
+    patterns: [/blaue lippen/, /lippen (sind |werden )?blau/, /blaue (finger|fingernägel)/],
+  },
+  {
+    id: "symptom_overheating",
+    level: "ROT",
+    reason: "Überhitzung kann lebensbedrohlich werden (Hyperthermie).",
+    patterns: [/überhitz/, /hyperthermie/, /hitzschlag/],
+  },
+  {
+    id: "symptom_confusion",
+    level: "ORANGE",
+    reason: "Starke Verwirrtheit kann ein Zeichen einer Vergiftung oder eines Delirs sein.",
+    patterns: [/verwirrt/, /delir/, /weiß nicht (mehr )?wo (ich|er|sie) (bin|ist)/],
+  },
+  {
+    id: "suicidal_ideation",
+    level: "ROT",
+    reason: "Äußerungen zu Suizidgedanken erfordern sofortige Unterstützung.",
+    patterns: [/suizid/, /selbstmord/, /mich umbringen/, /mir das leben (zu )?nehmen/, /nicht mehr leben/, /sterben will/, /will sterben/, /lebensmüde/],
+  },
+];
+
+const NEGATION = /\b(kein|keine|keinen|keinerlei|ohne)\s+(\S+\s+)?$/;
+
+// ---------------------------------------------------------------------------
+// Emergency notices
+// ---------------------------------------------------------------------------
+
+export const EMERGENCY_NOTICE =
+  "🚨 ACHTUNG: Die beschriebene Kombination / Situation birgt akute Gefahren. " +
+  "Bei Atemnot, Bewusstlosigkeit, Krampfanfällen, Brustschmerz oder starker Verwirrtheit " +
+  "sofort den Notruf 112 anrufen. Bleib nicht allein – lass jemanden bei dir.";
+
+export const CRISIS_NOTICE =
+  "Wenn du daran denkst, dir das Leben zu nehmen: Ruf 112 oder die TelefonSeelsorge an " +
+  "(0800 111 0 111 oder 0800 111 0 222, kostenlos und rund um die Uhr). Du musst da nicht allein durch.";
+
+// ---------------------------------------------------------------------------
+// Screen
+// ---------------------------------------------------------------------------
+
+export interface RedFlagScreen {
+  flags: SaferUseRedFlag[];
+  /** Lowest acceptable risk level for the reply */
+  risk_floor: SaferUseRiskLevel;
+  /** Emergency notice the reply must contain; null if no flag requires one */
+  emergency: string | null;
+}
+
+function matchesAny(values: string[], terms: string[]): boolean {
+  return values.some((v) => terms.some((t) => v.includes(t)));
+}
+
+function matchesMessage(text: string, pattern: RegExp): boolean {
+  const re = new RegExp(pattern.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    if (!NEGATION.test(text.slice(0, match.index))) return true;
+  }
+  return false;
+}
+
+export function screenRedFlags(req: SaferUseChatRequest): RedFlagScreen {
+  const substances = req.intake_log.map((e) => e.substance.toLowerCase());
+  const meds = req.user_profile.regular_meds.map((m) => m.toLowerCase());
+  const conditions = req.user_profile.conditions.map((c) => c.toLowerCase());
+  const taken = [...substances, ...meds];
+
+  const hasOpioid = matchesAny(taken, OPIOID_TERMS);
+  const hasBenzo = matchesAny(taken, BENZO_TERMS);
+  const hasAlcohol = substances.some((s) => ALCOHOL_TERMS.includes(s));
+  const hasSerotonergic = matchesAny(substances, SEROTONERGIC_TERMS);
+  const hasSSRI = matchesAny(taken, SSRI_TERMS);
+  const hasMAOI = matchesAny(taken, MAOI_TERMS);
+  const hasStimulant = matchesAny(substances, STIMULANT_TERMS);
+
+  const flags: SaferUseRedFlag[] = [];
+  const add = (flag: Omit<SaferUseRedFlag, "emergency">) =>
+    flags.push({ ...flag, emergency: flag.level === "ROT" });
+
+  // --- Intake combinations ---
+  if (hasOpioid && hasBenzo) {
+    add({ id: "opioid_benzo", level: "ROT", source: "intake", reason: "Opioid + Benzodiazepin: Hohes Risiko für additive Atemdepression und ZNS-Depression." });
+  }
+  if (hasOpioid && hasAlcohol) {
+    add({ id: "opioid_alcohol", level: "ROT", source: "intake", reason: "Opioid + Alkohol: Hohes Risiko für Atemdepression." });
+  }
+  if (hasBenzo && hasAlcohol) {
+    add({ id: "benzo_alcohol", level: "ORANGE", source: "intake", reason: "Benzodiazepin + Alkohol: Additive ZNS-Depression, Atemdepression möglich." });
+  }
+  if (hasSerotonergic && hasSSRI) {
+    add({ id: "serotonergic_ssri", level: "ORANGE", source: "intake", reason: "MDMA/MDA + SSRI: Risiko für Serotoninsyndrom bei serotonerger Überaktivierung." });
+  }
+  if (hasSerotonergic && hasMAOI) {
+    add({ id: "serotonergic_maoi", level: "ROT", source: "intake", reason: "MDMA/MDA + MAO-Hemmer: Lebensbedrohliches Risiko für Serotoninsyndrom." });
+  }
+  if (hasStimulant && hasMAOI) {
+    add({ id: "stimulant_maoi", level: "ROT", source: "intake", reason: "Stimulanz + MAO-Hemmer: Gefahr einer hypertensiven Krise." });
+  }
+
+  // --- Profile ---
+  if (hasStimulant && conditions.some((c) => HEART_CONDITIONS.includes(c))) {
+    add({ id: "stimulant_heart", level: "ORANGE", source: "profile", reason: "Stimulanz bei Herzerkrankung: Erhöhtes Risiko für kardiovaskuläre Komplikationen (Blutdruck, Herzfrequenz)." });
+  }
+  if (matchesAny(taken, SEIZURE_THRESHOLD_TERMS) && conditions.some((c) => SEIZURE_CONDITIONS.includes(c))) {
+    add({ id: "seizure_threshold", level: "ORANGE", source: "profile", reason: "Epilepsie + krampfschwellensenkende Substanz: Erhöhtes Risiko für Krampfanfälle." });
+  }
+
+  // --- Route / unknown substances ---
+  if (req.intake_log.some((e) => e.route === "iv")) {
+    add({ id: "iv_use", level: "GELB", source: "intake", reason: "Intravenöser Konsum: Deutlich erhöhtes Risiko für Überdosierung, Infektionen und Gefäßschäden." });
+  }
+  if (substances.some((s) => UNKNOWN_TERMS.includes(s))) {
+    add({ id: "unknown_substance", level: "GELB", source: "intake", reason: "Unbekannte Substanz: Ohne Identifikation ist eine Risikoabschätzung kaum möglich. Drug-Checking-Angebote nutzen." });
+  }
+
+  // --- Message text ---
+  const text = req.user_message.toLowerCase();
+  for (const rule of MESSAGE_RULES) {
+    if (rule.patterns.some((p) => matchesMessage(text, p))) {
+      add({ id: rule.id, level: rule.level, source: "message", reason: rule.reason });
+    }
+  }
+
+  const risk_floor = flags.reduce<SaferUseRiskLevel>((lvl, f) => maxRiskLevel(lvl, f.level), "GRÜN");
+  let emergency: string | null = null;
+  if (flags.some((f) => f.emergency)) {
+    emergency = flags.some((f) => f.id === "suicidal_ideation")
+      ? `${EMERGENCY_NOTICE} ${CRISIS_NOTICE}`
+      : EMERGENCY_NOTICE;
+  }
+
+  return { flags, risk_floor, emergency };
+}
+
+// ---------------------------------------------------------------------------
+// Floor
+// ---------------------------------------------------------------------------
+
+/**
+ * Enforce the screen on a reply: raise `risk_level` to the floor and put the
+ * emergency notice (plus the crisis helpline for suicidal ideation) in front
+ * of the model's emergency text unless it already contains it.
+ * Returns the corrected reply and the overrides that were applied.
+ */
+export function applyRedFlagFloor(
+  response: SaferUseChatResponse,
+  screen: RedFlagScreen
+): { response: SaferUseChatResponse; overrides: SaferUseOverride[] } {
+  const overrides: SaferUseOverride[] = [];
+  const result = { ...response };
+
+  if (RISK_LEVEL_ORDER[result.risk_level] < RISK_LEVEL_ORDER[screen.risk_floor]) {
+    overrides.push({
+      field: "risk_level",
+      from: result.risk_level,
+      to: screen.risk_floor,
+      flags: screen.flags.filter((f) => f.level === screen.risk_floor).map((f) => f.id),
+    });
+    result.risk_level = screen.risk_floor;
+  }
+
+  if (screen.emergency) {
+    const emergencyFlags = screen.flags.filter((f) => f.emergency).map((f) => f.id);
+    const current = result.emergency?.trim() || null;
+    // The model text never replaces the notice – it may downplay the danger
+    const required = emergencyFlags.includes("suicidal_ideation")
+      ? [EMERGENCY_NOTICE, CRISIS_NOTICE]
+      : [EMERGENCY_NOTICE];
+    const missing = required.filter((notice) => !current?.includes(notice));
+    if (missing.length > 0) {
+      const next = [...missing, current].filter(Boolean).join(" ");
+      overrides.push({ field: "emergency", from: current, to: next, flags: emergencyFlags });
+      result.emergency = next;
+    }
+  }
+
+  return { response: result, overrides };
+}
@@ -0,0 +1,267 @@
+/**
+ * Safer-Use Companion – retrieval from our own knowledge base.
+ *
+ * Resolves the intake log and the regular medication to entries of
+ * data/substances.json, then collects the curated interactions between them
+ * (data/interactions.json) and, per substance, the risk and interaction
+ * sections of its article plus its receptor notes (data/receptors.json).
+ * Every entry becomes a numbered context block ("K1", "K2", …) in the prompt.
+ * The model cites blocks by id and only known ids are turned into links, so
+ * a reply can never point to a source we do not have.
+ */
+
+import substancesJson from "@/../data/substances.json";
+import interactionsJson from "@/../data/interactions.json";
+import receptorsJson from "@/../data/receptors.json";
+import { allArticles, allSources, getArticleBySlugWithFallback } from "@/lib/articles";
+import { compareRisk, findInteraction, indexInteractions } from "@/lib/interactions/matrix";
+import type { Interaction, InteractionRisk } from "@/lib/interactions/models";
+import { synonymsFor } from "@/lib/substances/canonicalize";
+import { normalizeAlias } from "@/lib/taxonomy/taxonomy";
+import { BENZO_TERMS, MAOI_TERMS, SSRI_TERMS } from "./red-flags";
+import type { Article, SaferUseChatRequest, SaferUseCitation, Source } from "@/lib/types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface SubstanceRecord {
+  id: string;
+  slug: string;
+  title: string;
+  receptors: string[];
+  summary: string;
+  sources: { label: string; url: string }[];
+}
+
+interface ReceptorRecord {
+  label: string;
+  risk_notes: string;
+}
+
+export interface KnowledgeBlock extends SaferUseCitation {
+  /** Text injected into the prompt */
+  text: string;
+}
+
+export interface KnowledgeContext {
+  /** Resolved substance ids (e.g. "sub:mdma"), in request order */
+  substanceIds: string[];
+  blocks: KnowledgeBlock[];
+}
+
+const substances = substancesJson as SubstanceRecord[];
+const receptors = receptorsJson as ReceptorRecord[];
+const interactionIndex = indexInteractions(interactionsJson as Interaction[]);
+
+/** Upper bound on context blocks per request (keeps the prompt small). */
+const MAX_BLOCKS = 8;
+
+/** Characters per article section in a context block. */
+const MAX_SECTION_CHARS = 700;
+
+/** Article sections (## headings) used as context. */
+const ARTICLE_SECTIONS = [/^risiken/i, /^interaktionen/i];
+
+/** Ids that only occur in interaction pairs, with a display name. */
+const EXTRA_NAMES: Record<string, string> = { "sub:maoi": "MAO-Hemmer" };
+
+/** Drug classes matched by substring (medication names, brand names). */
+const CLASS_TERMS: [string, string[]][] = [
+  ["sub:ssri", SSRI_TERMS],
+  ["sub:maoi", MAOI_TERMS],
+  ["sub:benzodiazepine", BENZO_TERMS],
+];
+
+// ---------------------------------------------------------------------------
+// Substance resolution
+// ---------------------------------------------------------------------------
+
+/** Normalized alias → substance id: id suffix, slug, title parts and their synonyms. */
+const ALIAS_INDEX: Map<string, string> = (() => {
+  const index = new Map<string, string>();
+  for (const s of substances) {
+    const titleParts = s.title.split("/").map((p) => p.trim());
+    const names = [s.id.replace(/^sub:/, ""), s.slug, s.title, ...titleParts, ...titleParts.flatMap(synonymsFor)];
+    for (const name of names) {
+      const alias = normalizeAlias(name);
+      if (alias && !index.has(alias)) index.set(alias, s.id);
+    }
+  }
+  return index;
+})();
+
+/** Knowledge-base ids for free-text substance / medication names (deduplicated). */
+export function resolveKnowledgeIds(names: string[]): string[] {
+  const ids: string[] = [];
+  for (const name of names) {
+    const alias = normalizeAlias(name);
+    if (!alias) continue;
+    const id =
+      ALIAS_INDEX.get(alias) ?? CLASS_TERMS.find(([, terms]) => terms.some((t) => alias.includes(t)))?.[0];
+    if (id && !ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+function requestNames(req: SaferUseChatRequest): string[] {
+  return [...req.intake_log.map((e) => e.substance), ...req.user_profile.regular_meds];
+}
+
+function substanceById(id: string): SubstanceRecord | undefined {
+  return substances.find((s) => s.id === id);
+}
+
+function displayName(id: string): string {
+  return substanceById(id)?.title ?? EXTRA_NAMES[id] ?? id.replace(/^sub:/, "");
+}
+
+// ---------------------------------------------------------------------------
+// Context blocks
+// ---------------------------------------------------------------------------
+
+function collapse(text: string): string {
+  return text
+    .replace(/\*\*|__|`/g, "")
+    .replace(/^\s*[-*]\s+/gm, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+/** Risk and interaction sections of an article as "Heading: text" lines. */
+export function extractArticleSections(mdx: string): string[] {
+  return mdx
+    .split(/^##\s+/m)
+    .slice(1)
+    .map((part) => {
+      const newline = part.indexOf("\n");
+      const heading = (newline === -1 ? part : part.slice(0, newline)).trim();
+      const body = newline === -1 ? "" : collapse(part.slice(newline + 1));
+      return { heading, body };
+    })
+    .filter((s) => s.body && ARTICLE_SECTIONS.some((re) => re.test(s.heading)))
+    .map((s) => `${s.heading}: ${truncate(s.body, MAX_SECTION_CHARS)}`);
+}
+
+function sourceLink(source: Source): { label: string; url: string } | null {
+  const url = source.url ?? (source.doi ? `https://doi.org/${source.doi}` : null);
+  return url ? { label: source.title, url } : null;
+}
+
+function uniqueByUrl(links: { label: string; url: string }[]): { label: string; url: string }[] {
+  const seen = new Set<string>();
+  return links.filter((l) => !seen.has(l.url) && seen.add(l.url));
+}
+
+function interactionBlock(interaction: Interaction): Omit<KnowledgeBlock, "ref"> {
+  const slugA = substanceById(interaction.a)?.slug;
+  const slugB = substanceById(interaction.b)?.slug;
+  const lines = [
+    `Risiko: ${interaction.risk}. ${interaction.explanation}`,
+    interaction.mechanism_conflict.length > 0 ? `Mechanismus: ${interaction.mechanism_conflict.join("; ")}` : "",
+    interaction.harm_reduction.length > 0 ? `Harm Reduction: ${interaction.harm_reduction.join(" ")}` : "",
+  ];
+  return {
+    kind: "interaction",
+    title: `${displayName(interaction.a)} + ${displayName(interaction.b)}: ${interaction.headline}`,
+    text: lines.filter(Boolean).join("\n"),
+    url: slugA && slugB ? `/interactions?a=${slugA}&b=${slugB}` : "/interactions",
+    sources: uniqueByUrl(interaction.sources),
+  };
+}
+
+function articleBlock(substance: SubstanceRecord, article: Article | undefined): Omit<KnowledgeBlock, "ref"> {
+  const sections = article ? extractArticleSections(article.content_mdx) : [];
+  const receptorNotes = substance.receptors
+    .map((label) => receptors.find((r) => r.label === label))
+    .filter((r): r is ReceptorRecord => !!r && !!r.risk_notes)
+    .map((r) => `Rezeptor ${r.label}: ${r.risk_notes}`);
+
+  const staticArticle = allArticles.find((a) => a.slug === substance.slug);
+  const articleSources = (staticArticle ? allSources[staticArticle.id] ?? [] : [])
+    .map(sourceLink)
+    .filter((l): l is { label: string; url: string } => l !== null);
+
+  return {
+    kind: "article",
+    title: article?.title ?? substance.title,
+    text: [...(sections.length > 0 ? sections : [article?.summary || substance.summary]), ...receptorNotes].join("\n"),
+    url: `/articles/${substance.slug}`,
+    sources: uniqueByUrl([...articleSources, ...substance.sources]),
+  };
+}
+
+/**
+ * Build the context for a request. `articles` are the articles of the
+ * resolved substances (matched by slug); missing ones fall back to the
+ * substance summary.
+ */
+export function retrieveKnowledge(req: SaferUseChatRequest, articles: Article[]): KnowledgeContext {
+  const ids = resolveKnowledgeIds(requestNames(req));
+
+  const interactions: Interaction[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const found = findInteraction(interactionIndex, ids[i], ids[j]);
+      if (found) interactions.push(found);
+    }
+  }
+  interactions.sort((x, y) => compareRisk(x.risk as InteractionRisk, y.risk as InteractionRisk));
+
+  const blocks = [
+    ...interactions.map(interactionBlock),
+    ...ids
+      .map(substanceById)
+      .filter((s): s is SubstanceRecord => !!s)
+      .map((s) => articleBlock(s, articles.find((a) => a.slug === s.slug))),
+  ]
+    .slice(0, MAX_BLOCKS)
+    .map((block, i) => ({ ref: `K${i + 1}`, ...block }));
+
+  return { substanceIds: ids, blocks };
+}
+
+/** Load the articles of the request's substances and build the context. */
+export async function loadKnowledgeContext(req: SaferUseChatRequest): Promise<KnowledgeContext> {
+  const slugs = resolveKnowledgeIds(requestNames(req))
+    .map((id) => substanceById(id)?.slug)
+    .filter((slug): slug is string => !!slug);
+
+  try {
+    const articles = await Promise.all(slugs.map((slug) => getArticleBySlugWithFallback(slug)));
+    return retrieveKnowledge(req, articles.filter((a): a is Article => !!a));
+  } catch (err) {
+    console.error("[safer-use] knowledge retrieval failed:", err);
+    return retrieveKnowledge(req, []);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Prompt + citations
+// ---------------------------------------------------------------------------
+
+/** Prompt section listing the context blocks; empty without blocks. */
+export function formatKnowledgePrompt(ctx: KnowledgeContext): string {
+  if (ctx.blocks.length === 0) return "";
+  const blocks = ctx.blocks.map((b) => `[${b.ref}] ${b.title}\n${b.text}`).join("\n\n");
+  return `WISSENSBASIS (kuratierte Synapedia-Einträge, zitiere über die ID in "citations"):\n${blocks}\n`;
+}
+
+function toCitation({ ref, kind, title, url, sources }: KnowledgeBlock): SaferUseCitation {
+  return { ref, kind, title, url, sources };
+}
+
+/** Citations for the ids a reply referenced; unknown ids are dropped. */
+export function resolveCitations(refs: string[], ctx: KnowledgeContext): SaferUseCitation[] {
+  const wanted = new Set(refs.map((r) => r.trim().replace(/^\[|\]$/g, "").toUpperCase()));
+  return ctx.blocks.filter((b) => wanted.has(b.ref)).map(toCitation);
+}
+
+/** All blocks as citations (deterministic fallback reply). */
+export function allCitations(ctx: KnowledgeContext): SaferUseCitation[] {
+  return ctx.blocks.map(toCitation);
+}
@@ -0,0 +1,295 @@
+/**
+ * Offline evaluation of the Safer-Use prompt.
+ *
+ * Each scenario (data/safer-use-scenarios.json) describes a request and what
+ * a good reply must contain: a minimum (optionally maximum) risk level, an
+ * emergency notice, required phrases and forbidden phrases / patterns. The
+ * runner sends every scenario through `runSaferUseChat` – prompt, provider
+ * and red-flag floor exactly as in production – and scores the reply.
+ *
+ * Risk level and emergency are judged on the model's own answer, i.e. before
+ * the red-flag floor corrected it: a floor override counts as a failure,
+ * because the prompt alone should have got it right.
+ *
+ * Usage: `npm run eval:safer-use` (see scripts/eval-safer-use.ts).
+ */
+
+import { z } from "zod";
+import { RISK_LEVEL_ORDER } from "./red-flags";
+import { runSaferUseChat } from "./safer-use";
+import { formatIssues } from "./structured";
+import type {
+  SaferUseChatRequest,
+  SaferUseChatResponse,
+  SaferUseOverride,
+  SaferUseRiskLevel,
+} from "@/lib/types";
+
+// ---------------------------------------------------------------------------
+// Scenarios
+// ---------------------------------------------------------------------------
+
+const RiskLevelSchema = z.enum(["GRÜN", "GELB", "ORANGE", "ROT"]);
+
+const ScenarioSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().default(""),
+  user_profile: z
+    .object({
+      age_range: z.string().optional(),
+      weight_kg: z.number().nullable().optional(),
+      tolerance: z.string().optional(),
+      conditions: z.array(z.string()).optional(),
+      regular_meds: z.array(z.string()).optional(),
+    })
+    .default({}),
+  intake_log: z
+    .array(
+      z.object({
+        substance: z.string(),
+        dose_mg: z.number().nullable().default(null),
+        route: z.string().default(""),
+        time_taken: z.string().default(""),
+        notes: z.string().default(""),
+      })
+    )
+    .default([]),
+  user_message: z.string().min(1),
+  expect: z.object({
+    min_risk_level: RiskLevelSchema,
+    max_risk_level: RiskLevelSchema.optional(),
+    /** true: the reply must carry an emergency notice */
+    emergency: z.boolean().optional(),
+    /** Case-insensitive substrings that must appear in the reply */
+    required_phrases: z.array(z.string()).default([]),
+    /** Case-insensitive substrings that must not appear */
+    forbidden_phrases: z.array(z.string()).default([]),
+    /** Regular expressions (case-insensitive) that must not match */
+    forbidden_patterns: z.array(z.string()).default([]),
+  }),
+});
+
+export type SaferUseScenario = z.infer<typeof ScenarioSchema>;
+
+/** Validate a scenario file; throws with all problems listed. */
+export function parseScenarios(json: unknown): SaferUseScenario[] {
+  const parsed = z.array(ScenarioSchema).safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Ungültige Szenarien:\n${formatIssues(parsed.error).join("\n")}`);
+  }
+  const ids = new Set<string>();
+  for (const scenario of parsed.data) {
+    if (ids.has(scenario.id)) throw new Error(`Doppelte Szenario-ID: ${scenario.id}`);
+    ids.add(scenario.id);
+  }
+  return parsed.data;
+}
+
+export function scenarioRequest(scenario: SaferUseScenario): SaferUseChatRequest {
+  return {
+    user_profile: {
+      age_range: "unknown",
+      weight_kg: null,
+      tolerance: "unknown",
+      conditions: [],
+      regular_meds: [],
+      ...scenario.user_profile,
+    },
+    intake_log: scenario.intake_log,
+    user_message: scenario.user_message,
+    locale: "de-DE",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+export interface EvalCheck {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface ScenarioResult {
+  id: string;
+  description: string;
+  passed: boolean;
+  /** Share of passed checks, 0–1 */
+  score: number;
+  checks: EvalCheck[];
+  /** Risk level of the model reply before the red-flag floor */
+  model_risk_level: SaferUseRiskLevel | null;
+  overrides: SaferUseOverride[];
+  latency_ms: number;
+  /** Set when the run itself failed (no reply to score) */
+  error?: string;
+}
+
+function replyText(response: SaferUseChatResponse, emergency: string | null): string {
+  return [
+    response.assessment,
+    ...response.interactions,
+    ...response.harm_reduction,
+    emergency ?? "",
+    response.disclaimer,
+  ].join("\n");
+}
+
+/**
+ * Score one reply. `overrides` are the corrections of the red-flag floor;
+ * they are undone before checking, so only the model's own text counts.
+ */
+export function scoreReply(
+  scenario: SaferUseScenario,
+  response: SaferUseChatResponse,
+  overrides: SaferUseOverride[] = []
+): { checks: EvalCheck[]; model_risk_level: SaferUseRiskLevel } {
+  const { expect } = scenario;
+  const checks: EvalCheck[] = [];
+
+  const riskOverride = overrides.find((o) => o.field === "risk_level");
+  const modelRisk = (riskOverride?.from as SaferUseRiskLevel | null) ?? response.risk_level;
+  const rank = RISK_LEVEL_ORDER[modelRisk] ?? -1;
+
+  checks.push({
+    name: "min_risk_level",
+    passed: rank >= RISK_LEVEL_ORDER[expect.min_risk_level],
+    detail: `${modelRisk} (mind. ${expect.min_risk_level})${riskOverride ? `, Floor → ${riskOverride.to}` : ""}`,
+  });
+  if (expect.max_risk_level) {
+    checks.push({
+      name: "max_risk_level",
+      passed: rank <= RISK_LEVEL_ORDER[expect.max_risk_level],
+      detail: `${modelRisk} (höchstens ${expect.max_risk_level})`,
+    });
+  }
+
+  const emergencyOverride = overrides.find((o) => o.field === "emergency");
+  const modelEmergency = emergencyOverride ? emergencyOverride.from : response.emergency;
+
+  if (expect.emergency !== undefined) {
+    // A model text that never mentions the emergency number does not count
+    const hasEmergency = /\b112\b/.test(modelEmergency ?? "");
+    checks.push({
+      name: "emergency",
+      passed: hasEmergency === expect.emergency,
+      detail: hasEmergency
+        ? "Notfallhinweis vorhanden"
+        : emergencyOverride
+          ? "Notfallhinweis nur durch Floor ergänzt"
+          : "kein Notfallhinweis",
+    });
+  }
+
+  const text = replyText(response, modelEmergency).toLowerCase();
+  for (const phrase of expect.required_phrases) {
+    const found = text.includes(phrase.toLowerCase());
+    checks.push({ name: `enthält "${phrase}"`, passed: found, detail: found ? "gefunden" : "fehlt" });
+  }
+  for (const phrase of expect.forbidden_phrases) {
+    const found = text.includes(phrase.toLowerCase());
+    checks.push({ name: `ohne "${phrase}"`, passed: !found, detail: found ? "gefunden" : "nicht enthalten" });
+  }
+  for (const pattern of expect.forbidden_patterns) {
+    const match = new RegExp(pattern, "i").exec(text);
+    checks.push({
+      name: `ohne /${pattern}/`,
+      passed: !match,
+      detail: match ? `Treffer: "${match[0]}"` : "kein Treffer",
+    });
+  }
+
+  return { checks, model_risk_level: modelRisk };
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+export interface EvalReport {
+  provider: string;
+  started_at: string;
+  results: ScenarioResult[];
+  passed: number;
+  failed: number;
+  /** Mean score over all scenarios, 0–1 */
+  score: number;
+}
+
+/** Run the scenarios one after another (keeps provider rate limits simple). */
+export async function runSaferUseEval(
+  scenarios: SaferUseScenario[],
+  opts: { provider: string; onResult?: (result: ScenarioResult) => void }
+): Promise<EvalReport> {
+  const startedAt = new Date().toISOString();
+  const results: ScenarioResult[] = [];
+
+  for (const scenario of scenarios) {
+    const start = Date.now();
+    let result: ScenarioResult;
+    try {
+      const { response, overrides } = await runSaferUseChat(scenarioRequest(scenario));
+      const { checks, model_risk_level } = scoreReply(scenario, response, overrides);
+      const passedChecks = checks.filter((c) => c.passed).length;
+      result = {
+        id: scenario.id,
+        description: scenario.description,
+        passed: passedChecks === checks.length,
+        score: checks.length > 0 ? passedChecks / checks.length : 1,
+        checks,
+        model_risk_level,
+        overrides,
+        latency_ms: Date.now() - start,
+      };
+    } catch (err) {
+      result = {
+        id: scenario.id,
+        description: scenario.description,
+        passed: false,
+        score: 0,
+        checks: [],
+        model_risk_level: null,
+        overrides: [],
+        latency_ms: Date.now() - start,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+    results.push(result);
+    opts.onResult?.(result);
+  }
+
+  const passed = results.filter((r) => r.passed).length;
+  return {
+    provider: opts.provider,
+    started_at: startedAt,
+    results,
+    passed,
+    failed: results.length - passed,
+    score: results.length > 0 ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 0,
+  };
+}
+
+/** Plain-text report: one block per scenario, failed checks listed. */
+export function formatEvalReport(report: EvalReport): string {
+  const lines: string[] = [`Safer-Use-Evaluation (${report.provider}, ${report.started_at})`, ""];
+
+  for (const r of report.results) {
+    const status = r.passed ? "PASS" : "FAIL";
+    lines.push(
+      `${status}  ${r.id.padEnd(24)} ${Math.round(r.score * 100)
+        .toString()
+        .padStart(3)} %  ${r.model_risk_level ?? "–"}  ${r.latency_ms} ms`
+    );
+    if (r.error) lines.push(`      Fehler: ${r.error}`);
+    for (const check of r.checks.filter((c) => !c.passed)) {
+      lines.push(`      ✗ ${check.name}: ${check.detail}`);
+    }
+  }
+
+  lines.push(
+    "",
+    `${report.passed}/${report.results.length} Szenarien bestanden, Ø-Score ${Math.round(report.score * 100)} %`
+  );
+  return lines.join("\n");
+}
@@ -1,18 +1,43 @@
 /**
  * Safer-Use Companion – AI-powered harm-reduction chat logic.
  *
- * Uses OpenAI or Anthropic (same provider abstraction as the rest of the
- * platform) to produce structured, empathetic risk-assessment responses.
+ * Uses the provider configured for "safer_use" (same registry as the rest of
+ * the platform) to produce structured, empathetic risk-assessment responses.
+ * Replies are streamed: the assessment text is emitted while it arrives, the
+ * structured fields once the JSON reply is complete. Earlier turns of the
+ * session are sent as conversation history. Curated entries of our knowledge
+ * base for the logged substances are injected into the prompt and returned
+ * as citations (see ./retrieval).
  *
  * IMPORTANT: This module NEVER provides dosage clearances, procurement
  * instructions, or medical diagnoses. It focuses exclusively on risk
  * education, interaction warnings, harm reduction, and emergency referrals.
  */
 
-import { getAiProvider } from "./provider";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { getAiProvider, streamCompletion, type AiMessage } from "./provider";
+import { extractPartialJsonString } from "./stream";
+import { generateStructured, parseStructured, repairTurn } from "./structured";
+import {
+  applyRedFlagFloor,
+  EMERGENCY_NOTICE,
+  screenRedFlags,
+  type RedFlagScreen,
+} from "./red-flags";
+import {
+  allCitations,
+  formatKnowledgePrompt,
+  loadKnowledgeContext,
+  resolveCitations,
+  retrieveKnowledge,
+  type KnowledgeContext,
+} from "./retrieval";
 import type {
   SaferUseChatRequest,
   SaferUseChatResponse,
+  SaferUseHistoryTurn,
+  SaferUseOverride,
   SaferUseRiskLevel,
 } from "@/lib/types";
 
@@ -48,6 +73,15 @@ AUFGABEN (Priorität von oben nach unten)
 6) Kommunikation: Empathisch, ruhig, nicht beschämend. Kurze Absätze, klare Bulletpoints.
 7) Wenn Nutzer nach "wie viel ist okay" fragt → freundlich erklären, dass du keine Dosierungsfreigaben gibst, aber Risiken erklären kannst.
 
+WISSENSBASIS
+- Wenn der Prompt einen Abschnitt WISSENSBASIS enthält, stütze Interaktionen und Risiken vorrangig auf diese kuratierten Einträge.
+- Gib in "citations" die IDs (z. B. "K1") der Einträge an, auf die sich deine Antwort stützt. Erfinde keine IDs, Links oder Quellen.
+
+GESPRÄCHSVERLAUF
+- Frühere Nachrichten der Sitzung sind Kontext. Beziehe dich auf sie, wenn die Frage daran anknüpft.
+- Bewerte die Risikostufe bei jeder Antwort neu für die gesamte aktuelle Situation (Profil, Einnahme-Log, Verlauf).
+- Eine frühere hohe Risikostufe darf nur gesenkt werden, wenn neue Angaben das eindeutig rechtfertigen.
+
 AUSGABEFORMAT
 Antworte IMMER in validem JSON mit diesem Schema:
 {
@@ -56,16 +90,26 @@ Antworte IMMER in validem JSON mit diesem Schema:
   "interactions": ["Interaktion 1 mit Begründung", "..."],
   "harm_reduction": ["Schritt 1", "Schritt 2", "..."],
   "emergency": "Notfallhinweis oder null wenn nicht ROT",
-  "disclaimer": "Standardhinweis, dass dies keine medizinische Beratung ersetzt"
+  "disclaimer": "Standardhinweis, dass dies keine medizinische Beratung ersetzt",
+  "citations": ["K1", "..."]
 }
 
 Wichtig: Nur valides JSON. Keine Markdown-Code-Blöcke. Sprache: Deutsch.`;
 
+/**
+ * Short hash of the system prompt, stored with every reply so reviewer
+ * labels can be compared before and after a prompt change.
+ */
+export const SAFER_USE_PROMPT_VERSION = createHash("sha256")
+  .update(SAFER_USE_SYSTEM_PROMPT)
+  .digest("hex")
+  .slice(0, 12);
+
 // ---------------------------------------------------------------------------
 // Build the user prompt from the structured request
 // ---------------------------------------------------------------------------
 
-function buildUserPrompt(req: SaferUseChatRequest): string {
+function buildUserPrompt(req: SaferUseChatRequest, followUp: boolean, knowledge: KnowledgeContext): string {
   const profile = req.user_profile;
   const log = req.intake_log;
 
@@ -90,148 +134,67 @@ function buildUserPrompt(req: SaferUseChatRequest): string {
     }
   }
 
-  prompt += `\nFRAGE DER NUTZERIN / DES NUTZERS:\n${req.user_message}`;
+  const knowledgeSection = formatKnowledgePrompt(knowledge);
+  if (knowledgeSection) prompt += `\n${knowledgeSection}`;
+
+  prompt += followUp
+    ? `\nFOLGEFRAGE DER NUTZERIN / DES NUTZERS:\n${req.user_message}`
+    : `\nFRAGE DER NUTZERIN / DES NUTZERS:\n${req.user_message}`;
 
   return prompt;
 }
 
 // ---------------------------------------------------------------------------
-// Provider calls (OpenAI / Anthropic)
+// Conversation messages
 // ---------------------------------------------------------------------------
 
-async function callOpenAI(userPrompt: string): Promise<SaferUseChatResponse> {
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: SAFER_USE_SYSTEM_PROMPT },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" },
-    }),
-  });
-
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`OpenAI API error: ${res.status} ${err}`);
-  }
-
-  const data = await res.json();
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) throw new Error("Leere Antwort von OpenAI.");
-
-  return JSON.parse(content) as SaferUseChatResponse;
+/**
+ * History plus the current prompt. Assistant turns are replayed as the JSON
+ * they were answered with (citations as their ids), so the model keeps the
+ * output format.
+ */
+function buildMessages(
+  req: SaferUseChatRequest,
+  history: SaferUseHistoryTurn[],
+  knowledge: KnowledgeContext
+): AiMessage[] {
+  const messages: AiMessage[] = history.map((turn) =>
+    turn.role === "user"
+      ? { role: "user", content: turn.content }
+      : {
+          role: "assistant",
+          content: JSON.stringify({ ...turn.content, citations: (turn.content.citations ?? []).map((c) => c.ref) }),
+        }
+  );
+  messages.push({ role: "user", content: buildUserPrompt(req, history.length > 0, knowledge) });
+  return messages;
 }
 
-async function callAnthropic(userPrompt: string): Promise<SaferUseChatResponse> {
-  const res = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": process.env.ANTHROPIC_API_KEY!,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 4096,
-      system: SAFER_USE_SYSTEM_PROMPT,
-      messages: [{ role: "user", content: userPrompt }],
-    }),
-  });
-
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`Anthropic API error: ${res.status} ${err}`);
-  }
-
-  const data = await res.json();
-  const content = data.content?.[0]?.text;
-  if (!content) throw new Error("Leere Antwort von Anthropic.");
-
-  const cleaned = content.replace(/^```json?\s*\n?/i, "").replace(/\n?```\s*$/i, "");
-  return JSON.parse(cleaned) as SaferUseChatResponse;
-}
+const SaferUseChatResponseSchema = z.object({
+  assessment: z.string().min(1),
+  risk_level: z.enum(["GRÜN", "GELB", "ORANGE", "ROT"]),
+  interactions: z.array(z.string()).default([]),
+  harm_reduction: z.array(z.string()).default([]),
+  emergency: z.string().nullable().default(null),
+  disclaimer: z.string().min(1),
+  /** Ids of the cited knowledge blocks, resolved by `resolveCitations` */
+  citations: z.array(z.string()).default([]),
+});
 
 // ---------------------------------------------------------------------------
 // Deterministic fallback when no AI provider is configured
 // ---------------------------------------------------------------------------
 
-function buildFallbackResponse(req: SaferUseChatRequest): SaferUseChatResponse {
-  const substances = req.intake_log.map((e) => e.substance.toLowerCase());
-  const meds = req.user_profile.regular_meds.map((m) => m.toLowerCase());
-  const conditions = req.user_profile.conditions.map((c) => c.toLowerCase());
-  const hasIV = req.intake_log.some((e) => e.route === "iv");
-  const hasAlcohol = substances.some((s) =>
-    ["alkohol", "alcohol", "ethanol"].includes(s)
-  );
-
-  const interactions: string[] = [];
-  let riskLevel: SaferUseRiskLevel = "GRÜN";
-
-  // --- Opioid + Benzo + Alcohol ---
-  const opioidTerms = ["opioid", "heroin", "morphin", "fentanyl", "codein", "tramadol", "oxycodon", "methadon", "buprenorphin"];
-  const benzoTerms = ["benzo", "benzodiazepine", "diazepam", "alprazolam", "lorazepam", "clonazepam", "xanax", "valium"];
-  const hasOpioid = substances.some((s) => opioidTerms.some((t) => s.includes(t))) || meds.some((m) => opioidTerms.some((t) => m.includes(t)));
-  const hasBenzo = substances.some((s) => benzoTerms.some((t) => s.includes(t))) || meds.some((m) => benzoTerms.some((t) => m.includes(t)));
-
-  if (hasOpioid && hasBenzo) {
-    interactions.push("Opioid + Benzodiazepin: Hohes Risiko für additive Atemdepression und ZNS-Depression.");
-    riskLevel = "ROT";
-  }
-  if (hasOpioid && hasAlcohol) {
-    interactions.push("Opioid + Alkohol: Hohes Risiko für Atemdepression.");
-    riskLevel = "ROT";
-  }
-  if (hasBenzo && hasAlcohol) {
-    interactions.push("Benzodiazepin + Alkohol: Additive ZNS-Depression, Atemdepression möglich.");
-    riskLevel = riskLevel === "ROT" ? "ROT" : "ORANGE";
-  }
-
-  // --- Serotonergic combinations ---
-  const serotonergicTerms = ["mdma", "ecstasy", "mda"];
-  const ssriTerms = ["ssri", "sertralin", "fluoxetin", "citalopram", "escitalopram", "paroxetin", "fluvoxamin"];
-  const maoiTerms = ["maoi", "mao-hemmer", "moclobemid", "tranylcypromin", "phenelzin"];
-  const hasSerotonergic = substances.some((s) => serotonergicTerms.some((t) => s.includes(t)));
-  const hasSSRI = substances.some((s) => ssriTerms.some((t) => s.includes(t))) || meds.some((m) => ssriTerms.some((t) => m.includes(t)));
-  const hasMAOI = substances.some((s) => maoiTerms.some((t) => s.includes(t))) || meds.some((m) => maoiTerms.some((t) => m.includes(t)));
-
-  if (hasSerotonergic && hasSSRI) {
-    interactions.push("MDMA/MDA + SSRI: Risiko für Serotoninsyndrom bei serotonerger Überaktivierung.");
-    riskLevel = riskLevel === "ROT" ? "ROT" : "ORANGE";
-  }
-  if (hasSerotonergic && hasMAOI) {
-    interactions.push("MDMA/MDA + MAO-Hemmer: Lebensbedrohliches Risiko für Serotoninsyndrom.");
-    riskLevel = "ROT";
-  }
-
-  // --- Stimulant + Heart disease ---
-  const stimulantTerms = ["amphetamin", "methamphetamin", "kokain", "cocaine", "speed", "crystal"];
-  const hasStimulant = substances.some((s) => stimulantTerms.some((t) => s.includes(t)));
-  const hasHeartCondition = conditions.some((c) => ["heart_disease", "herzkrankheit"].includes(c));
-
-  if (hasStimulant && hasHeartCondition) {
-    interactions.push("Stimulanz bei Herzerkrankung: Erhöhtes Risiko für kardiovaskuläre Komplikationen (Blutdruck, Herzfrequenz).");
-    riskLevel = riskLevel === "ROT" ? "ROT" : "ORANGE";
-  }
-
-  // --- IV use ---
-  if (hasIV) {
-    interactions.push("Intravenöser Konsum: Deutlich erhöhtes Risiko für Überdosierung, Infektionen und Gefäßschäden.");
-    if (riskLevel === "GRÜN") riskLevel = "GELB";
-  }
-
-  // --- Unknown substances ---
-  const hasUnknown = substances.some((s) => ["unbekannt", "unknown", "rc", "research chemical"].includes(s));
-  if (hasUnknown) {
-    interactions.push("Unbekannte Substanz: Ohne Identifikation ist eine Risikoabschätzung kaum möglich. Drug-Checking-Angebote nutzen.");
-    if (riskLevel === "GRÜN") riskLevel = "GELB";
-  }
+function buildFallbackResponse(
+  req: SaferUseChatRequest,
+  screen: RedFlagScreen = screenRedFlags(req),
+  knowledge: KnowledgeContext = retrieveKnowledge(req, [])
+): SaferUseChatResponse {
+  const hasIV = screen.flags.some((f) => f.id === "iv_use");
+  const interactions = screen.flags
+    .filter((f) => f.source !== "message")
+    .map((f) => f.reason);
+  let riskLevel: SaferUseRiskLevel = screen.risk_floor;
 
   // Default: if any substance at all and no specific interactions detected, at least GELB
   if (req.intake_log.length > 0 && riskLevel === "GRÜN" && interactions.length === 0) {
@@ -252,13 +215,7 @@ function buildFallbackResponse(req: SaferUseChatRequest): SaferUseChatResponse {
   harm_reduction.push("Nutze Drug-Checking-Angebote, wenn verfügbar, um die Reinheit und Identität zu prüfen.");
 
   // Emergency note
-  let emergency: string | null = null;
-  if (riskLevel === "ROT") {
-    emergency =
-      "🚨 ACHTUNG: Die beschriebene Kombination / Situation birgt akute Gefahren. " +
-      "Bei Atemnot, Bewusstlosigkeit, Krampfanfällen, Brustschmerz oder starker Verwirrtheit " +
-      "sofort den Notruf 112 anrufen. Bleib nicht allein – lass jemanden bei dir.";
-  }
+  const emergency = screen.emergency ?? (riskLevel === "ROT" ? EMERGENCY_NOTICE : null);
 
   // Assessment
   let assessment: string;
@@ -284,6 +241,7 @@ function buildFallbackResponse(req: SaferUseChatRequest): SaferUseChatResponse {
     emergency,
     disclaimer:
       "Diese Einschätzung ersetzt keine ärztliche oder toxikologische Beratung. Bei gesundheitlichen Problemen wende dich an den Notruf 112 oder eine Suchtberatungsstelle.",
+    citations: allCitations(knowledge),
   };
 }
 
@@ -291,25 +249,100 @@ function buildFallbackResponse(req: SaferUseChatRequest): SaferUseChatResponse {
 // Public API
 // ---------------------------------------------------------------------------
 
-export async function runSaferUseChat(
-  req: SaferUseChatRequest
-): Promise<SaferUseChatResponse> {
-  const provider = getAiProvider();
+/**
+ * Progress of a streamed reply: red flags from the pre-screen (only when an
+ * emergency was detected), the assessment text so far, then the full reply
+ * with the overrides the red-flag floor applied to it.
+ */
+export type SaferUseChatChunk =
+  | { type: "red_flags"; risk_floor: SaferUseRiskLevel; emergency: string | null }
+  | { type: "delta"; assessment: string }
+  | { type: "final"; response: SaferUseChatResponse; overrides: SaferUseOverride[] };
 
-  if (provider === "none") {
+/**
+ * Stream a Safer-Use reply. The red-flag pre-screen runs first; its floor is
+ * applied to every model reply, so a detected emergency cannot be
+ * downgraded. Yields `delta` chunks with the assessment text received so far
+ * and always ends with exactly one `final` chunk. A reply that fails schema
+ * validation gets one (non-streamed) repair attempt. Without a provider, or
+ * when the call or the repair fails, `final` carries the deterministic
+ * fallback response.
+ */
+export async function* streamSaferUseChat(
+  req: SaferUseChatRequest,
+  history: SaferUseHistoryTurn[] = []
+): AsyncGenerator<SaferUseChatChunk> {
+  const screen = screenRedFlags(req);
+  if (screen.emergency) {
+    yield { type: "red_flags", risk_floor: screen.risk_floor, emergency: screen.emergency };
+  }
+
+  const knowledge = await loadKnowledgeContext(req);
+
+  if (getAiProvider("safer_use") === "none") {
     // Deterministic fallback – works without any AI key
-    return buildFallbackResponse(req);
+    yield { type: "final", response: buildFallbackResponse(req, screen, knowledge), overrides: [] };
+    return;
   }
 
-  const userPrompt = buildUserPrompt(req);
+  const messages = buildMessages(req, history, knowledge);
+  let content = "";
+  let assessment = "";
 
   try {
-    if (provider === "openai") {
-      return await callOpenAI(userPrompt);
+    const chunks = streamCompletion({
+      feature: "safer_use",
+      system: SAFER_USE_SYSTEM_PROMPT,
+      messages,
+      json: true,
+    });
+    for await (const text of chunks) {
+      content += text;
+      const partial = extractPartialJsonString(content, "assessment");
+      if (partial && partial !== assessment) {
+        assessment = partial;
+        yield { type: "delta", assessment };
+      }
     }
-    return await callAnthropic(userPrompt);
   } catch {
-    // If AI call fails, fall back to deterministic response
-    return buildFallbackResponse(req);
+    // If the AI call fails, fall back to the deterministic response
+    yield { type: "final", response: buildFallbackResponse(req, screen, knowledge), overrides: [] };
+    return;
+  }
+
+  let reply: z.infer<typeof SaferUseChatResponseSchema>;
+  const parsed = parseStructured(SaferUseChatResponseSchema, content);
+  if (parsed.ok) {
+    reply = parsed.data;
+  } else {
+    // One non-streamed repair attempt with the validation errors
+    const repaired = await generateStructured({
+      feature: "safer_use",
+      schema: SaferUseChatResponseSchema,
+      system: SAFER_USE_SYSTEM_PROMPT,
+      messages: [...messages, ...repairTurn(content, parsed.issues)],
+      maxAttempts: 1,
+    });
+    if (!repaired.ok) {
+      yield { type: "final", response: buildFallbackResponse(req, screen, knowledge), overrides: [] };
+      return;
+    }
+    reply = repaired.data;
+  }
+
+  const response: SaferUseChatResponse = { ...reply, citations: resolveCitations(reply.citations, knowledge) };
+
+  const floored = applyRedFlagFloor(response, screen);
+  yield { type: "final", response: floored.response, overrides: floored.overrides };
+}
+
+/** Non-streaming variant: resolves with the complete reply and its overrides. */
+export async function runSaferUseChat(
+  req: SaferUseChatRequest,
+  history: SaferUseHistoryTurn[] = []
+): Promise<{ response: SaferUseChatResponse; overrides: SaferUseOverride[] }> {
+  for await (const chunk of streamSaferUseChat(req, history)) {
+    if (chunk.type === "final") return { response: chunk.response, overrides: chunk.overrides };
   }
+  return { response: buildFallbackResponse(req), overrides: [] };
 }
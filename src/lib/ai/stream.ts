@@ -0,0 +1,102 @@
+/**
+ * Server-sent events helpers shared by the AI providers (reading their
+ * streaming APIs) and the Safer-Use route/client (our own event stream).
+ *
+ * No Node-only APIs — the same parser runs in the browser.
+ */
+
+export interface SseEvent {
+  /** `event:` field; null for unnamed events */
+  event: string | null;
+  data: string;
+}
+
+/**
+ * Parse a byte stream of server-sent events. Multi-line `data:` fields are
+ * joined with newlines; comments and `id:`/`retry:` fields are ignored.
+ */
+export async function* parseSseStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: string | null = null;
+  let data: string[] = [];
+
+  const flush = (): SseEvent | null => {
+    const result = data.length > 0 ? { event, data: data.join("\n") } : null;
+    event = null;
+    data = [];
+    return result;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.search(/\r?\n/)) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === "\r" ? newline + 2 : newline + 1);
+
+        if (line === "") {
+          const parsed = flush();
+          if (parsed) yield parsed;
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        } else if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        }
+      }
+
+      if (done) {
+        if (buffer.startsWith("data:")) data.push(buffer.slice(5).replace(/^ /, ""));
+        const parsed = flush();
+        if (parsed) yield parsed;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Serialize a JSON payload as one server-sent event. */
+export function encodeSseEvent(payload: unknown, event?: string): string {
+  const name = event ? `event: ${event}\n` : "";
+  return `${name}data: ${JSON.stringify(payload)}\n\n`;
+}
+
+/**
+ * Read the (possibly unterminated) value of a top-level string field from a
+ * JSON document that is still being streamed. Returns null until the field
+ * has started. Used to render `assessment` before the full reply arrived.
+ */
+export function extractPartialJsonString(buffer: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(buffer);
+  if (!match) return null;
+
+  let out = "";
+  for (let i = match.index + match[0].length; i < buffer.length; i++) {
+    const ch = buffer[i];
+    if (ch === '"') return out;
+    if (ch !== "\\") {
+      out += ch;
+      continue;
+    }
+    const next = buffer[i + 1];
+    if (next === undefined) return out; // escape split across chunks
+    if (next === "u") {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (hex.length < 4) return out;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    out += ({ n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" } as Record<string, string>)[next] ?? next;
+    i += 1;
+  }
+  return out;
+}
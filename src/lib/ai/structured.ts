@@ -0,0 +1,177 @@
+/**
+ * Structured output for AI calls.
+ *
+ * Every reply is cleaned (code fences), parsed and validated against a zod
+ * schema. Invalid replies are sent back to the model together with the
+ * validation errors for a repair attempt; if that fails too, a typed
+ * `StructuredFailure` is returned instead of throwing, so malformed output
+ * never reaches the UI or the database.
+ */
+
+import type { z } from "zod";
+import {
+  complete,
+  type AiBackendId,
+  type AiMessage,
+  type Completion,
+  type CompletionRequest,
+} from "./provider";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type StructuredFailureKind = "provider" | "empty" | "parse" | "validation";
+
+export interface StructuredFailure {
+  kind: StructuredFailureKind;
+  message: string;
+  /** Validation / parse problems of the last reply, as "path: message" */
+  issues: string[];
+  /** Number of model calls made */
+  attempts: number;
+  /** Raw text of the last reply (null if the provider call failed) */
+  raw: string | null;
+}
+
+export type StructuredResult<T> =
+  | { ok: true; data: T; attempts: number; provider: AiBackendId; model: string }
+  | { ok: false; error: StructuredFailure };
+
+/** Thrown by callers that cannot return a `StructuredResult`. */
+export class StructuredOutputError extends Error {
+  readonly failure: StructuredFailure;
+
+  constructor(failure: StructuredFailure) {
+    super(failure.message);
+    this.name = "StructuredOutputError";
+    this.failure = failure;
+  }
+}
+
+export type OutputFormat = "json" | "text";
+
+type ParseResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; kind: Exclude<StructuredFailureKind, "provider">; issues: string[] };
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Remove a Markdown code fence wrapped around the whole reply. */
+export function stripCodeFences(text: string): string {
+  const trimmed = text.trim();
+  const match = /^```[\w-]*[ \t]*\r?\n([\s\S]*?)\r?\n?```$/.exec(trimmed);
+  return match ? match[1].trim() : trimmed;
+}
+
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+/**
+ * Clean, parse and validate one reply. With format "text" the cleaned reply
+ * itself is validated (e.g. MDX against a string schema).
+ */
+export function parseStructured<T>(
+  schema: z.ZodType<T>,
+  text: string,
+  format: OutputFormat = "json"
+): ParseResult<T> {
+  const cleaned = stripCodeFences(text);
+  if (!cleaned) return { ok: false, kind: "empty", issues: ["Die Antwort war leer."] };
+
+  let value: unknown = cleaned;
+  if (format === "json") {
+    try {
+      value = JSON.parse(cleaned);
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : "Ungültiges JSON";
+      return { ok: false, kind: "parse", issues: [`Kein gültiges JSON: ${detail}`] };
+    }
+  }
+
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) return { ok: false, kind: "validation", issues: formatIssues(parsed.error) };
+  return { ok: true, data: parsed.data };
+}
+
+/**
+ * Conversation turns that hand an invalid reply back to the model with the
+ * problems found, asking for a corrected version. An empty reply adds no
+ * turns – the request is simply repeated.
+ */
+export function repairTurn(raw: string, issues: string[], format: OutputFormat = "json"): AiMessage[] {
+  if (!raw.trim()) return [];
+  const expected = format === "json" ? "ausschließlich das korrigierte JSON-Objekt" : "ausschließlich den korrigierten Text";
+  return [
+    { role: "assistant", content: raw },
+    {
+      role: "user",
+      content: `Deine letzte Antwort war ungültig:\n${issues.map((i) => `- ${i}`).join("\n")}\n\nAntworte erneut mit ${expected}, ohne Markdown-Codeblöcke und ohne Erläuterungen.`,
+    },
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Generation
+// ---------------------------------------------------------------------------
+
+const FAILURE_MESSAGES: Record<Exclude<StructuredFailureKind, "provider">, string> = {
+  empty: "Leere Antwort vom AI-Provider.",
+  parse: "AI-Ausgabe ist kein gültiges JSON.",
+  validation: "AI-Ausgabe konnte nicht validiert werden.",
+};
+
+export interface StructuredRequest<T> extends Omit<CompletionRequest, "messages" | "json"> {
+  schema: z.ZodType<T>;
+  /** Single user prompt; ignored when `messages` is given */
+  prompt?: string;
+  messages?: AiMessage[];
+  format?: OutputFormat;
+  /** Total number of model calls, including repair attempts (default 2) */
+  maxAttempts?: number;
+}
+
+/**
+ * Call the model until the reply validates against `schema` or
+ * `maxAttempts` is used up. Provider errors are not retried.
+ */
+export async function generateStructured<T>(req: StructuredRequest<T>): Promise<StructuredResult<T>> {
+  const { schema, prompt, messages: initial, format = "json", maxAttempts = 2, ...options } = req;
+  const messages: AiMessage[] = initial ? [...initial] : [{ role: "user", content: prompt ?? "" }];
+
+  let failure: StructuredFailure | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let reply: Completion;
+    try {
+      reply = await complete({ ...options, messages, json: format === "json" });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "AI-Aufruf fehlgeschlagen.";
+      return { ok: false, error: { kind: "provider", message, issues: [], attempts: attempt, raw: null } };
+    }
+
+    const raw = reply.text;
+    const parsed = parseStructured(schema, raw, format);
+    if (parsed.ok) {
+      return { ok: true, data: parsed.data, attempts: attempt, provider: reply.provider, model: reply.model };
+    }
+
+    failure = {
+      kind: parsed.kind,
+      message: `${FAILURE_MESSAGES[parsed.kind]} ${parsed.issues.slice(0, 5).join("; ")}`,
+      issues: parsed.issues,
+      attempts: attempt,
+      raw,
+    };
+    console.error(`[structured] Attempt ${attempt} failed (${parsed.kind}):`, parsed.issues);
+    messages.push(...repairTurn(raw, parsed.issues, format));
+  }
+
+  return {
+    ok: false,
+    error: failure ?? { kind: "empty", message: FAILURE_MESSAGES.empty, issues: [], attempts: 0, raw: null },
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Versioning of article templates (`article_template_versions`).
+ *
+ * Versions are immutable. The template row mirrors the prompts of its
+ * `current_version`; saving new prompts inserts the next version and makes
+ * it current, activating an older version copies its prompts back (a
+ * rollback without losing history). Every generated article records the
+ * version it was generated with.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ArticleGenerationError } from "./generate-article";
+import type { ArticleTemplate, ArticleTemplateVersion } from "@/lib/types";
+
+export interface TemplateVersionInput {
+  prompt_system: string;
+  prompt_user: string;
+  output_schema?: Record<string, unknown>;
+  note?: string;
+}
+
+async function loadTemplate(supabase: SupabaseClient, key: string): Promise<ArticleTemplate> {
+  const { data } = await supabase.from("article_templates").select("*").eq("key", key).maybeSingle();
+  if (!data) throw new ArticleGenerationError(`Template "${key}" nicht gefunden.`, 404);
+  return data as ArticleTemplate;
+}
+
+export async function listTemplateVersions(
+  supabase: SupabaseClient,
+  key: string
+): Promise<{ template: ArticleTemplate; versions: ArticleTemplateVersion[] }> {
+  const template = await loadTemplate(supabase, key);
+  const { data, error } = await supabase
+    .from("article_template_versions")
+    .select("*")
+    .eq("template_key", key)
+    .order("version", { ascending: false });
+  if (error) throw new Error(`Versionen konnten nicht geladen werden: ${error.message}`);
+  return { template, versions: (data ?? []) as ArticleTemplateVersion[] };
+}
+
+export async function getTemplateVersion(
+  supabase: SupabaseClient,
+  key: string,
+  version: number
+): Promise<ArticleTemplateVersion> {
+  const { data } = await supabase
+    .from("article_template_versions")
+    .select("*")
+    .eq("template_key", key)
+    .eq("version", version)
+    .maybeSingle();
+  if (!data) throw new ArticleGenerationError(`Version ${version} von Template "${key}" nicht gefunden.`, 404);
+  return data as ArticleTemplateVersion;
+}
+
+/** Store new prompts as the next version and make it current. */
+export async function createTemplateVersion(
+  supabase: SupabaseClient,
+  key: string,
+  input: TemplateVersionInput
+): Promise<ArticleTemplateVersion> {
+  if (!input.prompt_system?.trim() || !input.prompt_user?.trim()) {
+    throw new ArticleGenerationError("prompt_system und prompt_user sind erforderlich.", 400);
+  }
+
+  const template = await loadTemplate(supabase, key);
+  const outputSchema = input.output_schema ?? template.output_schema ?? {};
+  if (
+    input.prompt_system === template.prompt_system &&
+    input.prompt_user === template.prompt_user &&
+    JSON.stringify(outputSchema) === JSON.stringify(template.output_schema ?? {})
+  ) {
+    throw new ArticleGenerationError("Keine Änderung gegenüber der aktuellen Version.", 400);
+  }
+
+  const { data: latest } = await supabase
+    .from("article_template_versions")
+    .select("version")
+    .eq("template_key", key)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const nextVersion = (latest?.version ?? 0) + 1;
+
+  const { data: version, error } = await supabase
+    .from("article_template_versions")
+    .insert({
+      template_key: key,
+      version: nextVersion,
+      prompt_system: input.prompt_system,
+      prompt_user: input.prompt_user,
+      output_schema: outputSchema,
+      note: input.note?.trim() || null,
+    })
+    .select()
+    .single();
+  if (error) {
+    // unique (template_key, version): someone else saved in the meantime
+    if (error.code === "23505") {
+      throw new ArticleGenerationError("Das Template wurde parallel geändert. Bitte neu laden.", 409);
+    }
+    throw new Error(`Version konnte nicht gespeichert werden: ${error.message}`);
+  }
+
+  await setCurrentVersion(supabase, version as ArticleTemplateVersion);
+  return version as ArticleTemplateVersion;
+}
+
+/** Make an existing version current again (rollback). */
+export async function activateTemplateVersion(
+  supabase: SupabaseClient,
+  key: string,
+  versionNumber: number
+): Promise<ArticleTemplateVersion> {
+  const version = await getTemplateVersion(supabase, key, versionNumber);
+  await setCurrentVersion(supabase, version);
+  return version;
+}
+
+async function setCurrentVersion(supabase: SupabaseClient, version: ArticleTemplateVersion): Promise<void> {
+  // Bumping current_version together with the prompts tells the DB trigger
+  // that this edit already has its version row
+  const { error } = await supabase
+    .from("article_templates")
+    .update({
+      prompt_system: version.prompt_system,
+      prompt_user: version.prompt_user,
+      output_schema: version.output_schema,
+      current_version: version.version,
+    })
+    .eq("key", version.template_key);
+  if (error) throw new Error(`Template konnte nicht aktualisiert werden: ${error.message}`);
+
+  await supabase.from("audit_log").insert({
+    action: "article_template_version_activated",
+    entity_type: "article_template",
+    entity_id: version.id,
+    details: { template_key: version.template_key, version: version.version, note: version.note },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/** Line diff (longest common subsequence); prompts are short enough for O(n·m). */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: a[i++] });
+    } else {
+      result.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "removed", text: a[i++] });
+  while (j < b.length) result.push({ type: "added", text: b[j++] });
+  return result;
+}
+
+export interface TemplateVersionDiff {
+  from: number;
+  to: number;
+  fields: { field: "prompt_system" | "prompt_user" | "output_schema"; changed: boolean; lines: DiffLine[] }[];
+}
+
+export function diffTemplateVersions(from: ArticleTemplateVersion, to: ArticleTemplateVersion): TemplateVersionDiff {
+  const schema = (v: ArticleTemplateVersion) => JSON.stringify(v.output_schema ?? {}, null, 2);
+  const fields = (
+    [
+      ["prompt_system", from.prompt_system, to.prompt_system],
+      ["prompt_user", from.prompt_user, to.prompt_user],
+      ["output_schema", schema(from), schema(to)],
+    ] as const
+  ).map(([field, before, after]) => ({ field, changed: before !== after, lines: diffLines(before, after) }));
+
+  return { from: from.version, to: to.version, fields };
+}
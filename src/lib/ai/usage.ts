@@ -0,0 +1,31 @@
+/**
+ * Records token usage and latency of every AI call into `ai_usage`.
+ * Best effort: never throws and is skipped without a Supabase service key.
+ */
+
+import { isSupabaseConfigured } from "@/lib/supabase/config";
+import type { AiBackendId, AiFeature } from "./provider";
+
+export interface AiUsageRecord {
+  feature: AiFeature;
+  provider: AiBackendId;
+  model: string;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  latency_ms: number;
+  ok: boolean;
+  error: string | null;
+  job_id: string | null;
+}
+
+export async function recordAiUsage(record: AiUsageRecord): Promise<void> {
+  if (!isSupabaseConfigured() || !process.env.SUPABASE_SERVICE_ROLE_KEY) return;
+
+  try {
+    const { createAdminClient } = await import("@/lib/supabase/admin");
+    const { error } = await createAdminClient().from("ai_usage").insert(record);
+    if (error) console.error("[ai-usage] insert failed:", error.message);
+  } catch (err) {
+    console.error("[ai-usage] insert failed:", err);
+  }
+}
@@ -24,6 +24,15 @@ export async function isAdminAuthenticated(request?: Request): Promise<boolean>
   return cookieToken === adminToken;
 }
 
+/**
+ * Scheduler call (Netlify scheduled functions): `Authorization: Bearer <CRON_SECRET>`.
+ * Always false while CRON_SECRET is unset.
+ */
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && request.headers.get("Authorization") === `Bearer ${secret}`;
+}
+
 /**
  * Sets the admin token cookie.
  */
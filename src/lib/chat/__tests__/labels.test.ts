@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { buildEvalRecords, summarizeLabels, toJsonl, weekStart } from "../labels";
+import type { ChatMessage, ChatMessageLabel } from "@/lib/types";
+
+function message(id: string, role: ChatMessage["role"], created_at: string, extra: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    id,
+    session_id: "s1",
+    created_at,
+    role,
+    content: role === "user" ? { user_message: `Frage ${id}` } : { assessment: `Antwort ${id}` },
+    risk_level: role === "assistant" ? "GELB" : null,
+    safety_overrides: [],
+    prompt_version: role === "assistant" ? "abc123" : null,
+    ...extra,
+  };
+}
+
+function label(message_id: string, value: ChatMessageLabel["label"]): ChatMessageLabel {
+  return {
+    message_id,
+    session_id: "s1",
+    label: value,
+    notes: null,
+    created_at: "2026-03-10T00:00:00Z",
+    updated_at: "2026-03-10T00:00:00Z",
+  };
+}
+
+const MESSAGES = [
+  message("u2", "user", "2026-03-02T10:02:00Z"),
+  message("a1", "assistant", "2026-03-02T10:01:00Z"),
+  message("u1", "user", "2026-03-02T10:00:00Z"),
+  message("a2", "assistant", "2026-03-02T10:03:00Z", { risk_level: "ROT" }),
+];
+
+describe("buildEvalRecords", () => {
+  it("pairs each labelled reply with the question it answered", () => {
+    const records = buildEvalRecords([label("a2", "too_alarmist"), label("a1", "correct")], MESSAGES);
+
+    expect(records.map((r) => [r.message_id, r.label, r.request])).toEqual([
+      ["a1", "correct", { user_message: "Frage u1" }],
+      ["a2", "too_alarmist", { user_message: "Frage u2" }],
+    ]);
+    expect(records[1]).toMatchObject({ risk_level: "ROT", prompt_version: "abc123", response: { assessment: "Antwort a2" } });
+  });
+
+  it("skips labels whose reply no longer exists", () => {
+    expect(buildEvalRecords([label("gone", "correct")], MESSAGES)).toEqual([]);
+  });
+
+  it("serializes one record per line", () => {
+    const jsonl = toJsonl(buildEvalRecords([label("a1", "correct"), label("a2", "hallucinated")], MESSAGES));
+    expect(jsonl.trim().split("\n").map((line) => JSON.parse(line).message_id)).toEqual(["a1", "a2"]);
+    expect(toJsonl([])).toBe("");
+  });
+});
+
+describe("summarizeLabels", () => {
+  it("groups label counts by week, risk level and prompt version", () => {
+    const summary = summarizeLabels([
+      { label: "correct", risk_level: "ROT", prompt_version: "v1", replied_at: "2026-03-02T10:00:00Z" },
+      { label: "too_permissive", risk_level: "GRÜN", prompt_version: "v1", replied_at: "2026-03-08T23:00:00Z" },
+      { label: "hallucinated", risk_level: null, prompt_version: "v2", replied_at: "2026-03-09T08:00:00Z" },
+    ]);
+
+    expect(summary.total).toBe(3);
+    expect(summary.byWeek.map((r) => [r.key, r.total])).toEqual([
+      ["2026-03-02", 2],
+      ["2026-03-09", 1],
+    ]);
+    expect(summary.byRiskLevel.map((r) => r.key)).toEqual(["GRÜN", "ROT", "–"]);
+    expect(summary.byPromptVersion[0]).toMatchObject({
+      key: "v1",
+      total: 2,
+      counts: { correct: 1, too_permissive: 1, too_alarmist: 0, hallucinated: 0 },
+    });
+  });
+
+  it("uses Monday as the start of the week", () => {
+    expect(weekStart("2026-03-08T12:00:00Z")).toBe("2026-03-02");
+  });
+});
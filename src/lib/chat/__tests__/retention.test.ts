@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { retentionStatus, retentionUntil } from "../persistence";
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+describe("retentionUntil", () => {
+  it("keeps sessions with consent for 90 days", () => {
+    expect(retentionUntil("2026-03-01T11:59:00Z", NOW)).toBe("2026-05-30T12:00:00.000Z");
+  });
+
+  it("keeps sessions without consent for the same 90 days", () => {
+    expect(retentionUntil(null, NOW)).toBe("2026-05-30T12:00:00.000Z");
+  });
+});
+
+describe("retentionStatus", () => {
+  it("counts the remaining days, rounded up", () => {
+    expect(retentionStatus({ retain_until: "2026-03-03T00:00:00Z" }, NOW)).toEqual({ expired: false, daysLeft: 2 });
+  });
+
+  it("marks sessions past retain_until as expired", () => {
+    expect(retentionStatus({ retain_until: "2026-03-01T11:00:00Z" }, NOW)).toEqual({ expired: true, daysLeft: 0 });
+  });
+});
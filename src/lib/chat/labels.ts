@@ -0,0 +1,253 @@
+/**
+ * Reviewer labels for Safer-Use replies.
+ *
+ * Admins judge single assistant messages (correct / too permissive / too
+ * alarmist / hallucinated) with optional notes. The labelled replies,
+ * together with the question they answered, form the evaluation dataset
+ * (JSONL export) and the label-rate dashboard, grouped by week, risk level
+ * and system prompt version.
+ */
+
+import { getServiceClient } from "./persistence";
+import type { ChatMessage, ChatMessageLabel, ChatMessageLabelValue, SaferUseOverride } from "@/lib/types";
+
+// ---------------------------------------------------------------------------
+// Label values
+// ---------------------------------------------------------------------------
+
+export const CHAT_LABELS: ChatMessageLabelValue[] = ["correct", "too_permissive", "too_alarmist", "hallucinated"];
+
+export const CHAT_LABEL_NAMES: Record<ChatMessageLabelValue, string> = {
+  correct: "Korrekt",
+  too_permissive: "Zu permissiv",
+  too_alarmist: "Zu alarmistisch",
+  hallucinated: "Halluziniert",
+};
+
+export function isChatLabel(value: unknown): value is ChatMessageLabelValue {
+  return CHAT_LABELS.includes(value as ChatMessageLabelValue);
+}
+
+// ---------------------------------------------------------------------------
+// Labelling
+// ---------------------------------------------------------------------------
+
+/**
+ * Set (or replace) the label of an assistant message. Returns null if the
+ * message does not exist or is not an assistant reply; throws on database
+ * errors.
+ */
+export async function saveMessageLabel(
+  messageId: string,
+  label: ChatMessageLabelValue,
+  notes: string | null
+): Promise<ChatMessageLabel | null> {
+  const supabase = await getServiceClient();
+  if (!supabase) throw new Error("Supabase ist nicht konfiguriert.");
+
+  const { data: message, error: messageErr } = await supabase
+    .from("chat_messages")
+    .select("id, session_id, role")
+    .eq("id", messageId)
+    .maybeSingle();
+  if (messageErr) throw new Error(messageErr.message);
+  if (!message || message.role !== "assistant") return null;
+
+  const { data, error } = await supabase
+    .from("chat_message_labels")
+    .upsert(
+      {
+        message_id: message.id,
+        session_id: message.session_id,
+        label,
+        notes: notes?.trim() || null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "message_id" }
+    )
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  return data as ChatMessageLabel;
+}
+
+export async function removeMessageLabel(messageId: string): Promise<boolean> {
+  const supabase = await getServiceClient();
+  if (!supabase) return false;
+
+  const { error } = await supabase.from("chat_message_labels").delete().eq("message_id", messageId);
+  return !error;
+}
+
+export async function getSessionLabels(sessionId: string): Promise<ChatMessageLabel[]> {
+  const supabase = await getServiceClient();
+  if (!supabase) return [];
+
+  const { data } = await supabase.from("chat_message_labels").select("*").eq("session_id", sessionId);
+  return (data as ChatMessageLabel[] | null) ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation dataset
+// ---------------------------------------------------------------------------
+
+/** One line of the JSONL export. */
+export interface ChatEvalRecord {
+  message_id: string;
+  session_id: string;
+  label: ChatMessageLabelValue;
+  notes: string | null;
+  labelled_at: string;
+  prompt_version: string | null;
+  risk_level: string | null;
+  replied_at: string;
+  /** Content of the user message the reply answered (null if missing) */
+  request: Record<string, unknown> | null;
+  response: Record<string, unknown>;
+  safety_overrides: SaferUseOverride[];
+}
+
+/**
+ * Join labels with their reply and the preceding user message. `messages`
+ * must contain all messages of the labelled sessions; labels whose reply is
+ * missing are skipped. Ordered by reply time.
+ */
+export function buildEvalRecords(labels: ChatMessageLabel[], messages: ChatMessage[]): ChatEvalRecord[] {
+  const bySession = new Map<string, ChatMessage[]>();
+  for (const m of [...messages].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    const list = bySession.get(m.session_id) ?? [];
+    list.push(m);
+    bySession.set(m.session_id, list);
+  }
+
+  const records: ChatEvalRecord[] = [];
+  for (const label of labels) {
+    const sessionMessages = bySession.get(label.session_id) ?? [];
+    const index = sessionMessages.findIndex((m) => m.id === label.message_id);
+    if (index === -1) continue;
+
+    const reply = sessionMessages[index];
+    const question = sessionMessages
+      .slice(0, index)
+      .reverse()
+      .find((m) => m.role === "user");
+
+    records.push({
+      message_id: reply.id,
+      session_id: reply.session_id,
+      label: label.label,
+      notes: label.notes,
+      labelled_at: label.updated_at,
+      prompt_version: reply.prompt_version ?? null,
+      risk_level: reply.risk_level,
+      replied_at: reply.created_at,
+      request: question?.content ?? null,
+      response: reply.content,
+      safety_overrides: reply.safety_overrides ?? [],
+    });
+  }
+  return records.sort((a, b) => a.replied_at.localeCompare(b.replied_at));
+}
+
+export function toJsonl(records: ChatEvalRecord[]): string {
+  return records.map((r) => JSON.stringify(r)).join("\n") + (records.length > 0 ? "\n" : "");
+}
+
+/** Rows fetched per request and sessions per `in` filter. */
+const PAGE_SIZE = 1000;
+const SESSION_CHUNK = 200;
+
+/** All labelled replies as evaluation records. */
+export async function listEvalRecords(): Promise<ChatEvalRecord[]> {
+  const supabase = await getServiceClient();
+  if (!supabase) return [];
+
+  const labels: ChatMessageLabel[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("chat_message_labels")
+      .select("*")
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    labels.push(...((data ?? []) as ChatMessageLabel[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const sessionIds = [...new Set(labels.map((l) => l.session_id))];
+  const messages: ChatMessage[] = [];
+  for (let i = 0; i < sessionIds.length; i += SESSION_CHUNK) {
+    const { data, error } = await supabase
+      .from("chat_messages")
+      .select("*")
+      .in("session_id", sessionIds.slice(i, i + SESSION_CHUNK));
+    if (error) throw new Error(error.message);
+    messages.push(...((data ?? []) as ChatMessage[]));
+  }
+
+  return buildEvalRecords(labels, messages);
+}
+
+// ---------------------------------------------------------------------------
+// Label rates
+// ---------------------------------------------------------------------------
+
+export interface LabelRateRow {
+  key: string;
+  total: number;
+  counts: Record<ChatMessageLabelValue, number>;
+}
+
+export interface LabelRateSummary {
+  total: number;
+  /** Per calendar week of the reply (key: Monday, YYYY-MM-DD), oldest first */
+  byWeek: LabelRateRow[];
+  /** Per risk level of the reply, GRÜN → ROT */
+  byRiskLevel: LabelRateRow[];
+  /** Per system prompt version, in order of first use */
+  byPromptVersion: LabelRateRow[];
+}
+
+const RISK_ORDER = ["GRÜN", "GELB", "ORANGE", "ROT"];
+
+/** Monday (UTC) of the week containing `iso`, as YYYY-MM-DD. */
+export function weekStart(iso: string): string {
+  const date = new Date(iso);
+  const offset = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return date.toISOString().slice(0, 10);
+}
+
+function groupRates<T extends Pick<ChatEvalRecord, "label">>(
+  records: T[],
+  keyOf: (record: T) => string
+): LabelRateRow[] {
+  const rows = new Map<string, LabelRateRow>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const row = rows.get(key) ?? {
+      key,
+      total: 0,
+      counts: Object.fromEntries(CHAT_LABELS.map((l) => [l, 0])) as Record<ChatMessageLabelValue, number>,
+    };
+    row.total++;
+    row.counts[record.label]++;
+    rows.set(key, row);
+  }
+  return [...rows.values()];
+}
+
+export function summarizeLabels(
+  records: Pick<ChatEvalRecord, "label" | "risk_level" | "prompt_version" | "replied_at">[]
+): LabelRateSummary {
+  const ordered = [...records].sort((a, b) => a.replied_at.localeCompare(b.replied_at));
+  const riskRank = (key: string) => (RISK_ORDER.includes(key) ? RISK_ORDER.indexOf(key) : RISK_ORDER.length);
+
+  return {
+    total: ordered.length,
+    byWeek: groupRates(ordered, (r) => weekStart(r.replied_at)).sort((a, b) => a.key.localeCompare(b.key)),
+    byRiskLevel: groupRates(ordered, (r) => r.risk_level ?? "–").sort((a, b) => riskRank(a.key) - riskRank(b.key)),
+    byPromptVersion: groupRates(ordered, (r) => r.prompt_version ?? "–"),
+  };
+}
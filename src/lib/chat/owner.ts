@@ -0,0 +1,35 @@
+/**
+ * Identity of the Safer-Use chat caller: the Supabase Auth user if logged
+ * in, otherwise the pseudonymous visitor cookie.
+ */
+
+import type { NextRequest } from "next/server";
+import { getOrCreateVisitorId, type ChatOwner } from "./persistence";
+
+export const VISITOR_COOKIE = "sp_visitor_id";
+
+export async function resolveChatOwner(
+  request: NextRequest
+): Promise<ChatOwner & { isNewVisitor: boolean }> {
+  // Try to get authenticated user from Supabase session cookie
+  try {
+    const { createClient } = await import("@/lib/supabase/server");
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) return { userId: user.id, visitorId: null, isNewVisitor: false };
+  } catch {
+    // No auth available — use visitor_id
+  }
+
+  const { visitorId, isNew } = getOrCreateVisitorId(request.cookies.get(VISITOR_COOKIE)?.value);
+  return { userId: null, visitorId, isNewVisitor: isNew };
+}
+
+/**
+ * Owner for reading and deleting stored sessions. A freshly generated
+ * visitor id owns nothing, so it is dropped.
+ */
+export async function resolveExistingChatOwner(request: NextRequest): Promise<ChatOwner> {
+  const { userId, visitorId, isNewVisitor } = await resolveChatOwner(request);
+  return { userId, visitorId: isNewVisitor ? null : visitorId };
+}
@@ -4,16 +4,22 @@
  * Privacy-first design:
  * - No raw IP addresses stored — only HMAC-SHA256 hash
  * - visitor_id (anonymous UUID) or user_id (Supabase Auth) for identity
- * - 90-day default retention with explicit retain_until
+ * - Retention via explicit retain_until (90 days, the documented default);
+ *   expired sessions are removed by `purgeExpiredChatSessions`.
+ * - Owners can export (`exportChatSessions`) and delete
+ *   (`deleteOwnChatSession`) their sessions themselves.
  */
 
 import { createHmac, randomUUID } from "crypto";
 import { isSupabaseConfigured } from "@/lib/supabase/config";
 import type {
+  ChatRetentionRun,
   ChatSession,
   ChatMessage,
   SaferUseChatRequest,
   SaferUseChatResponse,
+  SaferUseHistoryTurn,
+  SaferUseOverride,
 } from "@/lib/types";
 
 // ---------------------------------------------------------------------------
@@ -53,11 +59,48 @@ export function getOrCreateVisitorId(
   return { visitorId: randomUUID(), isNew: true };
 }
 
+// ---------------------------------------------------------------------------
+// Retention policy
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Retention of sessions with consent to chat logging. */
+export const RETENTION_DAYS_WITH_CONSENT = 90;
+
+/**
+ * Retention of sessions without consent. Kept at the 90-day default of
+ * `retain_until` (migration 00016); shortening it is a policy change and
+ * also ends session continuation earlier.
+ */
+export const RETENTION_DAYS_WITHOUT_CONSENT = 90;
+
+/** `retain_until` for a session with or without logging consent. */
+export function retentionUntil(consentAt: string | null, now: Date = new Date()): string {
+  const days = consentAt ? RETENTION_DAYS_WITH_CONSENT : RETENTION_DAYS_WITHOUT_CONSENT;
+  return new Date(now.getTime() + days * DAY_MS).toISOString();
+}
+
+export interface RetentionStatus {
+  expired: boolean;
+  /** Whole days until the session is purged (0 once expired) */
+  daysLeft: number;
+}
+
+export function retentionStatus(
+  session: Pick<ChatSession, "retain_until">,
+  now: Date = new Date()
+): RetentionStatus {
+  const msLeft = new Date(session.retain_until).getTime() - now.getTime();
+  return { expired: msLeft <= 0, daysLeft: Math.max(0, Math.ceil(msLeft / DAY_MS)) };
+}
+
 // ---------------------------------------------------------------------------
 // Supabase service client (bypasses RLS)
 // ---------------------------------------------------------------------------
 
-async function getServiceClient() {
+/** Service client for chat tables, or null without Supabase / service key. */
+export async function getServiceClient() {
   if (!isSupabaseConfigured()) return null;
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -67,10 +110,90 @@ async function getServiceClient() {
   return createClient(url, serviceKey);
 }
 
+// ---------------------------------------------------------------------------
+// Session history — previous turns as context for follow-up questions
+// ---------------------------------------------------------------------------
+
+/** Turns (user + assistant) of a session sent to the model as context. */
+const MAX_HISTORY_TURNS = 6;
+
+export interface ChatOwner {
+  userId: string | null;
+  visitorId: string | null;
+}
+
+/** Identity filter for the sessions of an owner (visitors only see anonymous sessions). */
+function ownerFilter(owner: ChatOwner): Record<string, string | null> | null {
+  if (owner.userId) return { user_id: owner.userId };
+  if (owner.visitorId) return { visitor_id: owner.visitorId };
+  return null;
+}
+
+function ownsSession(
+  session: { user_id: string | null; visitor_id: string | null },
+  owner: ChatOwner
+): boolean {
+  if (owner.userId) return session.user_id === owner.userId;
+  return !!owner.visitorId && session.user_id === null && session.visitor_id === owner.visitorId;
+}
+
+/**
+ * Load the previous turns of a session for the given owner, oldest first.
+ * Returns null if the session does not exist or belongs to someone else.
+ * Only complete user/assistant pairs are returned.
+ */
+export async function loadSessionHistory(
+  sessionId: string,
+  owner: ChatOwner
+): Promise<SaferUseHistoryTurn[] | null> {
+  const supabase = await getServiceClient();
+  if (!supabase) return null;
+
+  try {
+    const { data: session } = await supabase
+      .from("chat_sessions")
+      .select("user_id, visitor_id")
+      .eq("id", sessionId)
+      .maybeSingle();
+
+    if (!session || !ownsSession(session, owner)) return null;
+
+    const { data: messages } = await supabase
+      .from("chat_messages")
+      .select("role, content, created_at")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: false })
+      .limit(MAX_HISTORY_TURNS * 2 + 1);
+
+    const turns: SaferUseHistoryTurn[] = [];
+    const ordered = ((messages ?? []) as Pick<ChatMessage, "role" | "content">[]).reverse();
+    for (let i = 0; i + 1 < ordered.length; i++) {
+      const user = ordered[i];
+      const assistant = ordered[i + 1];
+      if (user.role !== "user" || assistant.role !== "assistant") continue;
+      turns.push(
+        { role: "user", content: String(user.content.user_message ?? "") },
+        { role: "assistant", content: assistant.content as unknown as SaferUseChatResponse }
+      );
+      i++;
+    }
+    return turns.slice(-MAX_HISTORY_TURNS * 2);
+  } catch {
+    return null;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Persist a full chat exchange (session + user message + assistant response)
 // ---------------------------------------------------------------------------
 
+/**
+ * Store one exchange. With `sessionId` (already checked via
+ * `loadSessionHistory`) the messages are appended to that session, otherwise
+ * a new session is created. `overrides` (red-flag floor applied to the
+ * reply) are stored on the assistant message. Returns the session id, or
+ * null on failure.
+ */
 export async function persistChatExchange(opts: {
   userId: string | null;
   visitorId: string | null;
@@ -79,37 +202,71 @@ export async function persistChatExchange(opts: {
   consentAt: string | null;
   request: SaferUseChatRequest;
   response: SaferUseChatResponse;
+  overrides?: SaferUseOverride[];
+  /** System prompt version of the reply (`SAFER_USE_PROMPT_VERSION`) */
+  promptVersion?: string | null;
+  sessionId?: string | null;
 }): Promise<string | null> {
   const supabase = await getServiceClient();
   if (!supabase) return null;
 
   try {
-    // Build title from first substance
-    const firstSubstance =
-      opts.request.intake_log[0]?.substance || "Allgemein";
-    const title = `Safer-Use Chat – ${firstSubstance}`;
-
-    // Create session
-    const { data: session, error: sessionErr } = await supabase
-      .from("chat_sessions")
-      .insert({
-        user_id: opts.userId,
-        visitor_id: opts.visitorId,
-        ip_hash: opts.ipHash,
-        user_agent: opts.userAgent,
-        title,
-        risk_level: opts.response.risk_level,
-        message_count: 2,
-        consent_at: opts.consentAt,
-      })
-      .select("id")
-      .single();
-
-    if (sessionErr || !session) return null;
+    let sessionId: string;
+
+    if (opts.sessionId) {
+      const { data: existing, error: existingErr } = await supabase
+        .from("chat_sessions")
+        .select("id, message_count, consent_at")
+        .eq("id", opts.sessionId)
+        .single();
+
+      if (existingErr || !existing) return null;
+
+      // Consent given during the conversation restarts the retention window
+      const upgradeConsent = !existing.consent_at && !!opts.consentAt;
+
+      await supabase
+        .from("chat_sessions")
+        .update({
+          risk_level: opts.response.risk_level,
+          message_count: (existing.message_count ?? 0) + 2,
+          updated_at: new Date().toISOString(),
+          ...(upgradeConsent
+            ? { consent_at: opts.consentAt, retain_until: retentionUntil(opts.consentAt) }
+            : {}),
+        })
+        .eq("id", existing.id);
+      sessionId = existing.id;
+    } else {
+      // Build title from first substance
+      const firstSubstance =
+        opts.request.intake_log[0]?.substance || "Allgemein";
+      const title = `Safer-Use Chat – ${firstSubstance}`;
+
+      // Create session
+      const { data: session, error: sessionErr } = await supabase
+        .from("chat_sessions")
+        .insert({
+          user_id: opts.userId,
+          visitor_id: opts.visitorId,
+          ip_hash: opts.ipHash,
+          user_agent: opts.userAgent,
+          title,
+          risk_level: opts.response.risk_level,
+          message_count: 2,
+          consent_at: opts.consentAt,
+          retain_until: retentionUntil(opts.consentAt),
+        })
+        .select("id")
+        .single();
+
+      if (sessionErr || !session) return null;
+      sessionId = session.id;
+    }
 
     // Insert user message
     const { error: userMsgErr } = await supabase.from("chat_messages").insert({
-      session_id: session.id,
+      session_id: sessionId,
       role: "user",
       content: {
         user_message: opts.request.user_message,
@@ -118,17 +275,19 @@ export async function persistChatExchange(opts: {
       },
     });
 
-    if (userMsgErr) return session.id;
+    if (userMsgErr) return sessionId;
 
     // Insert assistant response
     await supabase.from("chat_messages").insert({
-      session_id: session.id,
+      session_id: sessionId,
       role: "assistant",
       content: opts.response,
       risk_level: opts.response.risk_level,
+      safety_overrides: opts.overrides ?? [],
+      prompt_version: opts.promptVersion ?? null,
     });
 
-    return session.id;
+    return sessionId;
   } catch {
     return null;
   }
@@ -198,3 +357,162 @@ export async function deleteChatSession(id: string): Promise<boolean> {
 
   return !error;
 }
+
+// ---------------------------------------------------------------------------
+// Self-service: export + delete for the session owner
+// ---------------------------------------------------------------------------
+
+export interface ChatDataExport {
+  exported_at: string;
+  sessions: (Omit<ChatSession, "ip_hash" | "user_agent"> & { messages: ChatMessage[] })[];
+}
+
+/**
+ * All sessions and messages of an owner, oldest first. Technical fields
+ * (ip_hash, user_agent) are left out. Returns null without Supabase.
+ */
+export async function exportChatSessions(owner: ChatOwner): Promise<ChatDataExport | null> {
+  const supabase = await getServiceClient();
+  const filter = ownerFilter(owner);
+  if (!supabase || !filter) return null;
+
+  const { data: sessions, error } = await supabase
+    .from("chat_sessions")
+    .select("id, created_at, updated_at, user_id, visitor_id, title, risk_level, message_count, consent_at, retain_until")
+    .match(filter)
+    .order("created_at", { ascending: true });
+
+  if (error) return null;
+  const owned = ((sessions ?? []) as Omit<ChatSession, "ip_hash" | "user_agent">[]).filter((s) =>
+    ownsSession(s, owner)
+  );
+
+  const messages: ChatMessage[] = [];
+  if (owned.length > 0) {
+    const { data, error: messagesErr } = await supabase
+      .from("chat_messages")
+      .select("*")
+      .in("session_id", owned.map((s) => s.id))
+      .order("created_at", { ascending: true });
+    if (messagesErr) return null;
+    messages.push(...((data ?? []) as ChatMessage[]));
+  }
+
+  return {
+    exported_at: new Date().toISOString(),
+    sessions: owned.map((s) => ({ ...s, messages: messages.filter((m) => m.session_id === s.id) })),
+  };
+}
+
+/**
+ * Delete a session on behalf of its owner. Returns "not_found" for sessions
+ * that do not exist or belong to someone else.
+ */
+export async function deleteOwnChatSession(
+  id: string,
+  owner: ChatOwner
+): Promise<"deleted" | "not_found" | "error"> {
+  const supabase = await getServiceClient();
+  if (!supabase) return "error";
+
+  const { data: session, error } = await supabase
+    .from("chat_sessions")
+    .select("user_id, visitor_id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) return "error";
+  if (!session || !ownsSession(session, owner)) return "not_found";
+  return (await deleteChatSession(id)) ? "deleted" : "error";
+}
+
+// ---------------------------------------------------------------------------
+// Retention job
+// ---------------------------------------------------------------------------
+
+/** Sessions deleted per round trip. */
+const PURGE_BATCH_SIZE = 500;
+
+/**
+ * Delete all sessions past `retain_until` (messages cascade) and record the
+ * run in `chat_retention_runs`. Returns null without Supabase.
+ */
+export async function purgeExpiredChatSessions(opts: {
+  trigger: ChatRetentionRun["trigger"];
+  now?: Date;
+}): Promise<ChatRetentionRun | null> {
+  const supabase = await getServiceClient();
+  if (!supabase) return null;
+
+  const startedAt = new Date().toISOString();
+  const cutoff = (opts.now ?? new Date()).toISOString();
+  let sessionsDeleted = 0;
+  let messagesDeleted = 0;
+  let failure: string | null = null;
+
+  try {
+    for (;;) {
+      const { data: expired, error } = await supabase
+        .from("chat_sessions")
+        .select("id, message_count")
+        .lt("retain_until", cutoff)
+        .limit(PURGE_BATCH_SIZE);
+      if (error) throw new Error(error.message);
+      if (!expired || expired.length === 0) break;
+
+      const { error: deleteErr } = await supabase
+        .from("chat_sessions")
+        .delete()
+        .in("id", expired.map((s) => s.id));
+      if (deleteErr) throw new Error(deleteErr.message);
+
+      sessionsDeleted += expired.length;
+      messagesDeleted += expired.reduce((sum, s) => sum + (s.message_count ?? 0), 0);
+      if (expired.length < PURGE_BATCH_SIZE) break;
+    }
+  } catch (err) {
+    failure = err instanceof Error ? err.message : "Unbekannter Fehler";
+    console.error("[chat-retention] purge failed:", failure);
+  }
+
+  const run = {
+    trigger: opts.trigger,
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    cutoff,
+    sessions_deleted: sessionsDeleted,
+    messages_deleted: messagesDeleted,
+    error: failure,
+  };
+
+  const { data, error } = await supabase.from("chat_retention_runs").insert(run).select("*").single();
+  if (error) console.error("[chat-retention] run not recorded:", error.message);
+  return (data as ChatRetentionRun | null) ?? { id: "", ...run };
+}
+
+export async function getLastRetentionRun(): Promise<ChatRetentionRun | null> {
+  const supabase = await getServiceClient();
+  if (!supabase) return null;
+
+  const { data } = await supabase
+    .from("chat_retention_runs")
+    .select("*")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as ChatRetentionRun | null) ?? null;
+}
+
+/** Number of sessions already past `retain_until` (waiting for the next run). */
+export async function countExpiredChatSessions(now: Date = new Date()): Promise<number> {
+  const supabase = await getServiceClient();
+  if (!supabase) return 0;
+
+  const { count } = await supabase
+    .from("chat_sessions")
+    .select("id", { count: "exact", head: true })
+    .lt("retain_until", now.toISOString());
+
+  return count ?? 0;
+}
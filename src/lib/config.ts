@@ -10,3 +10,17 @@ export const APP_DOMAIN = process.env.NEXT_PUBLIC_APP_DOMAIN ?? "synapedia.de";
 
 /** Maximum number of items per import batch (preview / dry-run / commit). */
 export const MAX_IMPORT_BATCH_SIZE = 50;
+
+/** Maximum number of items in one resumable import run. */
+export const MAX_IMPORT_RUN_ITEMS = 1000;
+
+/**
+ * Time limit of a synchronous serverless function on the hosting platform
+ * (Netlify: 10 s). Route handlers cannot raise it via `maxDuration`; work
+ * that takes longer has to be split across requests or run by
+ * `npm run jobs:worker` on a long-running host.
+ */
+export const FUNCTION_TIME_LIMIT_MS = 10_000;
+
+/** Work budget per request: the function limit minus margin for the response. */
+export const FUNCTION_TIME_BUDGET_MS = FUNCTION_TIME_LIMIT_MS - 2_000;
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  configureConnectorHttp,
+  createConnectorClient,
+  fixtureKey,
+  FixtureNotFoundError,
+  resetConnectorHttp,
+} from "../http";
+
+const URL_A = "https://example.org/api/a";
+
+describe("createConnectorClient", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "connector-http-"));
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response('{"ok":true}', { headers: { "content-type": "application/json" } })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    resetConnectorHttp();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records responses and replays them without network", async () => {
+    const client = createConnectorClient("test");
+
+    configureConnectorHttp({ mode: "record", fixturesDir: dir });
+    await client.fetch(URL_A);
+    const files = readdirSync(join(dir, "test"));
+    expect(files).toEqual([`${fixtureKey("GET", URL_A)}.json`]);
+    expect(JSON.parse(readFileSync(join(dir, "test", files[0]), "utf-8")).request.url).toBe(URL_A);
+
+    vi.mocked(globalThis.fetch).mockClear();
+    configureConnectorHttp({ mode: "replay" });
+    const res = await client.fetch(URL_A);
+    expect(await res.json()).toEqual({ ok: true });
+    expect(res.headers.get("content-type")).toBe("application/json");
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("keys fixtures by method and body", async () => {
+    const client = createConnectorClient("test");
+    configureConnectorHttp({ mode: "record", fixturesDir: dir });
+    await client.fetch(URL_A, { method: "POST", body: '{"query":"a"}' });
+
+    configureConnectorHttp({ mode: "replay" });
+    await expect(client.fetch(URL_A, { method: "POST", body: '{"query":"b"}' })).rejects.toBeInstanceOf(
+      FixtureNotFoundError,
+    );
+    await expect(client.fetch(URL_A)).rejects.toBeInstanceOf(FixtureNotFoundError);
+  });
+
+  it("serves cached GET responses within the TTL", async () => {
+    const client = createConnectorClient("test", { cacheTtlMs: 60_000 });
+    await client.fetch(URL_A);
+    const res = await client.fetch(URL_A);
+    expect(await res.json()).toEqual({ ok: true });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the minimum interval between requests", async () => {
+    const client = createConnectorClient("test", { minIntervalMs: 50 });
+    const start = Date.now();
+    await Promise.all([client.fetch(URL_A), client.fetch(URL_A), client.fetch(URL_A)]);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(95);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * ChEMBL connector — molecules, mechanisms of action, bioactivities and
+ * targets from the ChEMBL REST API. Rate limiting and caching happen in
+ * the shared client.
+ */
+
+import { chemblHttp } from "./clients";
+
+export const CHEMBL_BASE = "https://www.ebi.ac.uk/chembl/api/data";
+
+export interface ChEMBLMolecule {
+  chemblId: string;
+  prefName: string;
+  synonyms: string[];
+  molecularFormula: string;
+  molecularWeight: string;
+  smiles: string;
+  inchi: string;
+  inchiKey: string;
+  sourceUrl: string;
+  retrievedAt: string;
+}
+
+export interface ChEMBLMechanismRef {
+  refType: string;
+  refId: string;
+  refUrl: string;
+}
+
+export interface ChEMBLMechanism {
+  targetChemblId: string;
+  mechanismOfAction: string;
+  /** e.g. "AGONIST", "INHIBITOR", "RELEASING AGENT" */
+  actionType: string;
+  refs: ChEMBLMechanismRef[];
+}
+
+export interface ChEMBLActivity {
+  activityId: number;
+  targetChemblId: string;
+  targetName: string;
+  /** "Ki", "IC50" or "EC50" */
+  standardType: string;
+  /** "=", "<", ">", … */
+  standardRelation: string;
+  standardValue: number;
+  standardUnits: string;
+  assayChemblId: string;
+  documentChemblId: string;
+  documentYear: number | null;
+}
+
+export interface ChEMBLTargetInfo {
+  chemblId: string;
+  prefName: string;
+  /** e.g. "SINGLE PROTEIN", "PROTEIN COMPLEX" */
+  targetType: string;
+  organism: string;
+  geneSymbols: string[];
+}
+
+/** Activity types imported as affinities. */
+export const CHEMBL_ACTIVITY_TYPES = ["Ki", "IC50", "EC50"] as const;
+
+export function chemblMoleculeUrl(chemblId: string): string {
+  return `https://www.ebi.ac.uk/chembl/compound_report_card/${chemblId}/`;
+}
+
+export function chemblDocumentUrl(documentChemblId: string): string {
+  return `https://www.ebi.ac.uk/chembl/document_report_card/${documentChemblId}/`;
+}
+
+/**
+ * Search molecules by name or synonym, best match first.
+ */
+export async function searchChEMBLMolecules(query: string, limit = 5): Promise<ChEMBLMolecule[]> {
+  try {
+    const url = `${CHEMBL_BASE}/molecule/search.json?q=${encodeURIComponent(query)}&limit=${limit}`;
+    const res = await chemblHttp.fetch(url);
+    if (!res.ok) return [];
+    const data = (await res.json()) as { molecules?: RawMolecule[] };
+    return (data?.molecules ?? []).map(toMolecule).filter((m): m is ChEMBLMolecule => m !== null);
+  } catch (err) {
+    console.error(`[ChEMBL] Error searching "${query}":`, err instanceof Error ? err.message : err);
+    return [];
+  }
+}
+
+/**
+ * Fetch one molecule by ChEMBL ID (e.g. "CHEMBL194378").
+ */
+export async function fetchChEMBLMolecule(chemblId: string): Promise<ChEMBLMolecule | null> {
+  try {
+    const res = await chemblHttp.fetch(`${CHEMBL_BASE}/molecule/${encodeURIComponent(chemblId)}.json`);
+    if (!res.ok) return null;
+    return toMolecule((await res.json()) as RawMolecule);
+  } catch (err) {
+    console.error(`[ChEMBL] Error fetching ${chemblId}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/**
+ * Fetch several molecules in one request.
+ */
+export async function fetchChEMBLMolecules(chemblIds: string[]): Promise<ChEMBLMolecule[]> {
+  if (chemblIds.length === 0) return [];
+  try {
+    const ids = chemblIds.map(encodeURIComponent).join(",");
+    const url = `${CHEMBL_BASE}/molecule.json?molecule_chembl_id__in=${ids}&limit=${chemblIds.length}`;
+    const res = await chemblHttp.fetch(url);
+    if (!res.ok) return [];
+    const data = (await res.json()) as { molecules?: RawMolecule[] };
+    return (data?.molecules ?? []).map(toMolecule).filter((m): m is ChEMBLMolecule => m !== null);
+  } catch (err) {
+    console.error(`[ChEMBL] Error fetching ${chemblIds.length} molecules:`, err instanceof Error ? err.message : err);
+    return [];
+  }
+}
+
+/**
+ * Mechanisms of action of a molecule (curated by ChEMBL, with references).
+ */
+export async function fetchChEMBLMechanisms(chemblId: string): Promise<ChEMBLMechanism[]> {
+  const url = `${CHEMBL_BASE}/mechanism.json?molecule_chembl_id=${encodeURIComponent(chemblId)}&limit=50`;
+  const res = await chemblHttp.fetch(url);
+  if (!res.ok) throw new Error(`ChEMBL mechanism: HTTP ${res.status}`);
+
+  const data = (await res.json()) as {
+    mechanisms?: Array<{
+      target_chembl_id?: string | null;
+      mechanism_of_action?: string | null;
+      action_type?: string | null;
+      mechanism_refs?: Array<{ ref_type?: string; ref_id?: string; ref_url?: string }>;
+    }>;
+  };
+
+  return (data?.mechanisms ?? [])
+    .filter((m) => m.target_chembl_id)
+    .map((m) => ({
+      targetChemblId: m.target_chembl_id!,
+      mechanismOfAction: m.mechanism_of_action ?? "",
+      actionType: m.action_type ?? "",
+      refs: (m.mechanism_refs ?? [])
+        .filter((r) => r.ref_url)
+        .map((r) => ({ refType: r.ref_type ?? "", refId: r.ref_id ?? "", refUrl: r.ref_url! })),
+    }));
+}
+
+/**
+ * Ki/IC50/EC50 activities of a molecule on human targets (first 1000).
+ * Values are ChEMBL's standardised values; units are passed through.
+ */
+export async function fetchChEMBLActivities(chemblId: string): Promise<ChEMBLActivity[]> {
+  const params = new URLSearchParams({
+    molecule_chembl_id: chemblId,
+    standard_type__in: CHEMBL_ACTIVITY_TYPES.join(","),
+    target_organism: "Homo sapiens",
+    limit: "1000",
+  });
+  const res = await chemblHttp.fetch(`${CHEMBL_BASE}/activity.json?${params}`, { timeoutMs: 30_000 });
+  if (!res.ok) throw new Error(`ChEMBL activity: HTTP ${res.status}`);
+
+  const data = (await res.json()) as {
+    activities?: Array<{
+      activity_id?: number;
+      target_chembl_id?: string | null;
+      target_pref_name?: string | null;
+      standard_type?: string | null;
+      standard_relation?: string | null;
+      standard_value?: string | number | null;
+      standard_units?: string | null;
+      assay_chembl_id?: string | null;
+      document_chembl_id?: string | null;
+      document_year?: number | null;
+      data_validity_comment?: string | null;
+    }>;
+  };
+
+  const activities: ChEMBLActivity[] = [];
+  for (const a of data?.activities ?? []) {
+    const value = a.standard_value == null ? NaN : Number(a.standard_value);
+    // ChEMBL flags outliers and unit errors in data_validity_comment
+    if (!a.target_chembl_id || !a.standard_type || !Number.isFinite(value) || a.data_validity_comment) continue;
+    activities.push({
+      activityId: a.activity_id ?? 0,
+      targetChemblId: a.target_chembl_id,
+      targetName: a.target_pref_name ?? "",
+      standardType: a.standard_type,
+      standardRelation: a.standard_relation ?? "=",
+      standardValue: value,
+      standardUnits: a.standard_units ?? "",
+      assayChemblId: a.assay_chembl_id ?? "",
+      documentChemblId: a.document_chembl_id ?? "",
+      documentYear: a.document_year ?? null,
+    });
+  }
+  return activities;
+}
+
+/**
+ * Target details incl. gene symbols of its components; null if unknown.
+ */
+export async function fetchChEMBLTarget(targetChemblId: string): Promise<ChEMBLTargetInfo | null> {
+  const res = await chemblHttp.fetch(`${CHEMBL_BASE}/target/${encodeURIComponent(targetChemblId)}.json`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`ChEMBL target ${targetChemblId}: HTTP ${res.status}`);
+
+  const data = (await res.json()) as {
+    target_chembl_id?: string;
+    pref_name?: string | null;
+    target_type?: string | null;
+    organism?: string | null;
+    target_components?: Array<{
+      target_component_synonyms?: Array<{ component_synonym?: string; syn_type?: string }>;
+    }>;
+  };
+
+  const geneSymbols = (data.target_components ?? []).flatMap((c) =>
+    (c.target_component_synonyms ?? [])
+      .filter((s) => s.syn_type === "GENE_SYMBOL" && s.component_synonym)
+      .map((s) => s.component_synonym!),
+  );
+
+  return {
+    chemblId: data.target_chembl_id ?? targetChemblId,
+    prefName: data.pref_name ?? targetChemblId,
+    targetType: data.target_type ?? "",
+    organism: data.organism ?? "",
+    geneSymbols: [...new Set(geneSymbols)],
+  };
+}
+
+/* ---- internal ---- */
+
+interface RawMolecule {
+  molecule_chembl_id?: string;
+  pref_name?: string | null;
+  molecule_synonyms?: Array<{ molecule_synonym?: string; syn_type?: string }>;
+  molecule_properties?: { full_molformula?: string | null; full_mwt?: string | null } | null;
+  molecule_structures?: {
+    canonical_smiles?: string | null;
+    standard_inchi?: string | null;
+    standard_inchi_key?: string | null;
+  } | null;
+}
+
+function toMolecule(raw: RawMolecule): ChEMBLMolecule | null {
+  if (!raw?.molecule_chembl_id) return null;
+  const synonyms = (raw.molecule_synonyms ?? [])
+    .map((s) => s.molecule_synonym ?? "")
+    .filter(Boolean);
+  return {
+    chemblId: raw.molecule_chembl_id,
+    prefName: raw.pref_name ?? "",
+    synonyms: [...new Set(synonyms)].slice(0, 20),
+    molecularFormula: raw.molecule_properties?.full_molformula ?? "",
+    molecularWeight: raw.molecule_properties?.full_mwt ?? "",
+    smiles: raw.molecule_structures?.canonical_smiles ?? "",
+    inchi: raw.molecule_structures?.standard_inchi ?? "",
+    inchiKey: raw.molecule_structures?.standard_inchi_key ?? "",
+    sourceUrl: chemblMoleculeUrl(raw.molecule_chembl_id),
+    retrievedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * One HTTP client per external source, shared by every module that talks
+ * to it – so rate limit and cache hold across connectors.
+ */
+
+import { createConnectorClient } from "./http";
+
+const TEN_MINUTES = 10 * 60 * 1000;
+
+/** PubChem allows 5 requests/s; keep some margin. */
+export const pubchemHttp = createConnectorClient("pubchem", {
+  minIntervalMs: parseInt(process.env.PUBCHEM_RATE_LIMIT_MS ?? "350", 10),
+  cacheTtlMs: TEN_MINUTES,
+});
+
+export const chemblHttp = createConnectorClient("chembl", {
+  minIntervalMs: 200,
+  cacheTtlMs: TEN_MINUTES,
+  headers: { Accept: "application/json" },
+});
+
+export const wikidataHttp = createConnectorClient("wikidata", {
+  minIntervalMs: 100,
+  cacheTtlMs: TEN_MINUTES,
+  timeoutMs: 30_000,
+});
+
+export const psychonautwikiHttp = createConnectorClient("psychonautwiki", {
+  minIntervalMs: 2000,
+});
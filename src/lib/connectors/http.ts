@@ -0,0 +1,198 @@
+/**
+ * Shared HTTP client for the external data connectors (PubChem, ChEMBL,
+ * Wikidata SPARQL, PsychonautWiki GraphQL).
+ *
+ * Each connector gets its own client with a rate limit (minimum gap
+ * between requests) and an optional in-memory cache for successful GET
+ * responses. The mode decides where responses come from:
+ *
+ * - live:   network only (default)
+ * - record: network, and every response is stored as a JSON fixture
+ * - replay: fixtures only, no network; a missing fixture throws
+ *           FixtureNotFoundError
+ *
+ * The mode and fixture directory come from CONNECTOR_HTTP_MODE and
+ * CONNECTOR_FIXTURES_DIR, or from configureConnectorHttp() in tests.
+ * Fixtures live at <fixturesDir>/<connector>/<key>.json, where the key is
+ * a hash of method, URL and body.
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+export type ConnectorHttpMode = "live" | "record" | "replay";
+
+export interface ConnectorHttpConfig {
+  mode: ConnectorHttpMode;
+  fixturesDir: string;
+}
+
+export interface ConnectorClientOptions {
+  /** Minimum milliseconds between two requests of this connector */
+  minIntervalMs?: number;
+  /** Cache successful GET responses this long (0 = no cache) */
+  cacheTtlMs?: number;
+  /** Timeout per request unless the call overrides it */
+  timeoutMs?: number;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+export interface ConnectorRequest {
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+}
+
+export interface ConnectorClient {
+  name: string;
+  fetch(url: string, request?: ConnectorRequest): Promise<Response>;
+}
+
+/** Stored request/response pair. */
+export interface HttpFixture {
+  request: { method: string; url: string; body?: string };
+  response: { status: number; contentType: string | null; body: string };
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(
+    public readonly connector: string,
+    public readonly method: string,
+    public readonly url: string,
+  ) {
+    super(`Kein HTTP-Fixture für ${connector}: ${method} ${url}`);
+    this.name = "FixtureNotFoundError";
+  }
+}
+
+const MAX_CACHE_ENTRIES = 500;
+
+function configFromEnv(): ConnectorHttpConfig {
+  const mode = process.env.CONNECTOR_HTTP_MODE;
+  return {
+    mode: mode === "record" || mode === "replay" ? mode : "live",
+    fixturesDir: path.resolve(process.env.CONNECTOR_FIXTURES_DIR ?? "fixtures/http"),
+  };
+}
+
+let config: ConnectorHttpConfig = configFromEnv();
+const clients = new Set<{ reset(): void }>();
+
+export function getConnectorHttpConfig(): ConnectorHttpConfig {
+  return { ...config };
+}
+
+/** Override mode and/or fixture directory (e.g. per test file). */
+export function configureConnectorHttp(overrides: Partial<ConnectorHttpConfig>): void {
+  config = {
+    ...config,
+    ...overrides,
+    ...(overrides.fixturesDir ? { fixturesDir: path.resolve(overrides.fixturesDir) } : {}),
+  };
+}
+
+/** Back to the environment configuration; clears caches and rate limits. */
+export function resetConnectorHttp(): void {
+  config = configFromEnv();
+  for (const client of clients) client.reset();
+}
+
+export function fixtureKey(method: string, url: string, body?: string): string {
+  return createHash("sha256")
+    .update(`${method} ${url}\n${body ?? ""}`)
+    .digest("hex")
+    .slice(0, 24);
+}
+
+function fixturePath(connector: string, key: string): string {
+  return path.join(config.fixturesDir, connector, `${key}.json`);
+}
+
+function toResponse(stored: HttpFixture["response"]): Response {
+  // Responses with these statuses must not carry a body
+  const bodyless = stored.status === 204 || stored.status === 304;
+  return new Response(bodyless ? null : stored.body, {
+    status: stored.status,
+    headers: stored.contentType ? { "content-type": stored.contentType } : undefined,
+  });
+}
+
+export function createConnectorClient(
+  name: string,
+  options: ConnectorClientOptions = {},
+): ConnectorClient {
+  const { minIntervalMs = 0, cacheTtlMs = 0, timeoutMs = 15_000 } = options;
+  const cache = new Map<string, { expires: number; response: HttpFixture["response"] }>();
+  let nextSlot = 0;
+
+  clients.add({
+    reset() {
+      cache.clear();
+      nextSlot = 0;
+    },
+  });
+
+  // Reserve a slot before waiting so concurrent callers queue up
+  async function throttle(): Promise<void> {
+    if (minIntervalMs <= 0) return;
+    const now = Date.now();
+    const wait = Math.max(0, nextSlot - now);
+    nextSlot = Math.max(now, nextSlot) + minIntervalMs;
+    if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+  }
+
+  return {
+    name,
+    async fetch(url, request = {}) {
+      const method = request.method ?? "GET";
+      const key = fixtureKey(method, url, request.body);
+
+      if (config.mode === "replay") {
+        let raw: string;
+        try {
+          raw = await fs.readFile(fixturePath(name, key), "utf-8");
+        } catch {
+          throw new FixtureNotFoundError(name, method, url);
+        }
+        return toResponse((JSON.parse(raw) as HttpFixture).response);
+      }
+
+      const cached = method === "GET" && cacheTtlMs > 0 ? cache.get(key) : undefined;
+      if (cached && cached.expires > Date.now()) return toResponse(cached.response);
+
+      await throttle();
+      const res = await fetch(url, {
+        method,
+        body: request.body,
+        headers: { ...options.headers, ...request.headers },
+        signal: AbortSignal.timeout(request.timeoutMs ?? timeoutMs),
+      });
+
+      const stored: HttpFixture["response"] = {
+        status: res.status,
+        contentType: res.headers.get("content-type"),
+        body: await res.text(),
+      };
+
+      if (method === "GET" && cacheTtlMs > 0 && res.ok) {
+        if (cache.size >= MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+        cache.set(key, { expires: Date.now() + cacheTtlMs, response: stored });
+      }
+
+      if (config.mode === "record") {
+        const fixture: HttpFixture = {
+          request: { method, url, ...(request.body !== undefined ? { body: request.body } : {}) },
+          response: stored,
+        };
+        const file = fixturePath(name, key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+      }
+
+      return toResponse(stored);
+    },
+  };
+}
@@ -3,19 +3,13 @@
  * No HTML scraping. Rate-limited to respect PubChem policies.
  */
 
-const PUBCHEM_BASE = "https://pubchem.ncbi.nlm.nih.gov/rest/pug";
-const RATE_LIMIT_MS = parseInt(process.env.PUBCHEM_RATE_LIMIT_MS ?? "350", 10);
+import { pubchemHttp } from "./clients";
 
-let lastRequestTime = 0;
+const PUBCHEM_BASE = "https://pubchem.ncbi.nlm.nih.gov/rest/pug";
 
-async function rateLimitedFetch(url: string, timeout = 15_000): Promise<Response> {
-  const now = Date.now();
-  const waitTime = Math.max(0, RATE_LIMIT_MS - (now - lastRequestTime));
-  if (waitTime > 0) {
-    await new Promise((r) => setTimeout(r, waitTime));
-  }
-  lastRequestTime = Date.now();
-  return fetch(url, { signal: AbortSignal.timeout(timeout) });
+/** Rate limiting (PUBCHEM_RATE_LIMIT_MS) happens in the shared client. */
+function rateLimitedFetch(url: string): Promise<Response> {
+  return pubchemHttp.fetch(url);
 }
 
 export interface PubChemCompoundData {
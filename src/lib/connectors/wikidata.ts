@@ -3,6 +3,8 @@
  * No HTML scraping. Uses the public Wikidata Query Service.
  */
 
+import { wikidataHttp } from "./clients";
+
 const WIKIDATA_SPARQL = "https://query.wikidata.org/sparql";
 const USER_AGENT = process.env.WIKIDATA_USER_AGENT || "Synapedia/1.0 (harm-reduction lexicon)";
 
@@ -145,8 +147,7 @@ interface SparqlBinding {
 async function sparqlQuery(query: string): Promise<SparqlBinding[] | null> {
   try {
     const url = `${WIKIDATA_SPARQL}?query=${encodeURIComponent(query)}&format=json`;
-    const res = await fetch(url, {
-      signal: AbortSignal.timeout(30_000),
+    const res = await wikidataHttp.fetch(url, {
       headers: { Accept: "application/json", "User-Agent": USER_AGENT },
     });
     if (!res.ok) return null;
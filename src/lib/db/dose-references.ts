@@ -0,0 +1,38 @@
+import type { DoseReference, DoseReferenceLookup } from "@/lib/risk/dose";
+import { groupBySubstanceName, resolveSubstanceIdsByName } from "./substance-lookup";
+
+/**
+ * Load dose reference ranges for free-text substance names, keyed by the
+ * taxonomy key (see `resolveSubstance`).
+ *
+ * Server-only: `substance_dose_references` has no public select policy, so
+ * this uses the service-role client. The values must not be sent to clients —
+ * pass them to `computeRiskOverlay` and return only its qualitative result.
+ */
+export async function getDoseReferencesForSubstanceNames(
+  names: string[]
+): Promise<DoseReferenceLookup> {
+  try {
+    const idByName = await resolveSubstanceIdsByName(names);
+    if (idByName.size === 0) return {};
+
+    const { createAdminClient } = await import("@/lib/supabase/admin");
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from("substance_dose_references")
+      .select("substance_id, route, unit, light_max, common_max, strong_max")
+      .in("substance_id", Array.from(new Set(idByName.values())));
+    if (error || !data) return {};
+
+    const rows = (data as (DoseReference & { substance_id: string })[]).map((r) => ({
+      ...r,
+      light_max: Number(r.light_max),
+      common_max: Number(r.common_max),
+      strong_max: Number(r.strong_max),
+    }));
+    return groupBySubstanceName(idByName, rows);
+  } catch {
+    return {};
+  }
+}
@@ -9,6 +9,9 @@ import type {
   SubstancePharmacology,
 } from "@/lib/types";
 import { normalizeAffinity } from "@/lib/pkpd-math";
+import type { RiskPKLookup } from "@/lib/risk/pk";
+import type { RiskPDLookup } from "@/lib/risk/tolerance";
+import { groupBySubstanceName, resolveSubstanceIdsByName } from "./substance-lookup";
 
 export async function getSubstancePharmacology(
   substanceId: string
@@ -152,3 +155,55 @@ export async function listTargets(): Promise<Target[]> {
     return [];
   }
 }
+
+/**
+ * Load PK routes for free-text substance names (as logged in dosing_logs).
+ * The result is keyed by the taxonomy key (see `resolveSubstance`) for use with
+ * `computeRiskOverlay`; names without a matching substance or PK rows are
+ * omitted.
+ */
+export async function getPKRoutesForSubstanceNames(
+  names: string[]
+): Promise<RiskPKLookup> {
+  try {
+    const idByName = await resolveSubstanceIdsByName(names);
+    if (idByName.size === 0) return {};
+
+    const { createClient } = await import("@/lib/supabase/server");
+    const supabase = await createClient();
+
+    const { data: pkRows } = await supabase
+      .from("pharmacokinetics_routes")
+      .select("*")
+      .in("substance_id", Array.from(new Set(idByName.values())));
+
+    return groupBySubstanceName(idByName, (pkRows ?? []) as PharmacokineticRoute[]);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load PD parameters for free-text substance names, keyed like
+ * `getPKRoutesForSubstanceNames`, for `computeToleranceOverview`.
+ */
+export async function getPDForSubstanceNames(
+  names: string[]
+): Promise<RiskPDLookup> {
+  try {
+    const idByName = await resolveSubstanceIdsByName(names);
+    if (idByName.size === 0) return {};
+
+    const { createClient } = await import("@/lib/supabase/server");
+    const supabase = await createClient();
+
+    const { data: pdRows } = await supabase
+      .from("pharmacodynamics")
+      .select("*")
+      .in("substance_id", Array.from(new Set(idByName.values())));
+
+    return groupBySubstanceName(idByName, (pdRows ?? []) as Pharmacodynamics[]);
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,34 @@
+import { getTaxonomy } from "@/lib/taxonomy/load";
+import { resolveSubstance } from "@/lib/taxonomy/taxonomy";
+
+/**
+ * Resolve free-text substance names (as logged in dosing_logs) to substance
+ * ids via the shared taxonomy. The map is keyed by the taxonomy key (see
+ * `resolveSubstance`); names without a DB substance are omitted.
+ */
+export async function resolveSubstanceIdsByName(names: string[]): Promise<Map<string, string>> {
+  const taxonomy = await getTaxonomy();
+  const idByName = new Map<string, string>();
+  for (const name of names) {
+    if (!name.trim()) continue;
+    const resolved = resolveSubstance(taxonomy, name);
+    if (resolved.substanceId) idByName.set(resolved.key, resolved.substanceId);
+  }
+  return idByName;
+}
+
+/**
+ * Group per-substance rows by the name keys from `resolveSubstanceIdsByName`.
+ * Names without rows are omitted.
+ */
+export function groupBySubstanceName<T extends { substance_id: string }>(
+  idByName: Map<string, string>,
+  rows: T[]
+): Record<string, T[]> {
+  const grouped: Record<string, T[]> = {};
+  for (const [key, substanceId] of idByName) {
+    const matching = rows.filter((r) => r.substance_id === substanceId);
+    if (matching.length > 0) grouped[key] = matching;
+  }
+  return grouped;
+}
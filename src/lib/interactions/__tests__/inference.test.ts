@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSubstanceProfile,
+  buildSubstanceProfiles,
+  inferInteraction,
+  isInferred,
+} from "../inference";
+import { buildInteractionMatrix, resolveInteraction } from "../matrix";
+import substancesJson from "@/../data/substances.json";
+import interactionsJson from "@/../data/interactions.json";
+import type { InferenceSubstance } from "../inference";
+import type { Interaction } from "../models";
+
+const substances = substancesJson as InferenceSubstance[];
+const interactions = interactionsJson as Interaction[];
+const profiles = buildSubstanceProfiles(substances);
+
+function profile(id: string) {
+  const p = profiles.get(id);
+  if (!p) throw new Error(`missing test substance ${id}`);
+  return p;
+}
+
+const maoi: InferenceSubstance = {
+  id: "sub:moclobemide",
+  title: "Moclobemid",
+  class_primary: "Antidepressiva",
+  mechanisms: ["MAO-A-Hemmung"],
+  receptors: [],
+};
+
+describe("buildSubstanceProfile", () => {
+  it("classifies depressants via class, receptors and risk categories", () => {
+    expect(profile("sub:ghb").traits.has("cns_depressant")).toBe(true);
+    expect(profile("sub:benzodiazepine").traits.has("cns_depressant")).toBe(true);
+    expect(profile("sub:kratom").traits.has("opioid")).toBe(true);
+    expect(profile("sub:kratom").traits.has("cns_depressant")).toBe(true);
+  });
+
+  it("does not treat caffeine or nicotine as stacking stimulants", () => {
+    expect(profile("sub:caffeine").traits.has("stimulant")).toBe(false);
+    expect(profile("sub:nicotine").traits.has("stimulant")).toBe(false);
+    expect(profile("sub:amphetamine").traits.has("stimulant")).toBe(true);
+  });
+
+  it("detects serotonin releasers, reuptake inhibitors and MAO inhibitors", () => {
+    expect(profile("sub:mdma").traits.has("serotonin_releaser")).toBe(true);
+    expect(profile("sub:ssri").traits.has("serotonin_reuptake_inhibitor")).toBe(true);
+    expect(buildSubstanceProfile(maoi).traits.has("mao_inhibitor")).toBe(true);
+  });
+});
+
+describe("inferInteraction", () => {
+  it("warns about respiratory depression for two CNS depressants", () => {
+    const result = inferInteraction(profile("sub:ghb"), profile("sub:benzodiazepine"));
+    expect(result?.risk).toBe("high");
+    expect(result?.rule.id).toBe("cns-depressant-combo");
+    expect(result?.inferred).toBe(true);
+  });
+
+  it("warns about serotonin syndrome for releaser + MAO inhibitor", () => {
+    const result = inferInteraction(buildSubstanceProfile(maoi), profile("sub:mdma"));
+    expect(result?.rule.id).toBe("serotonergic-mao-inhibitor");
+    expect(result?.risk).toBe("high");
+  });
+
+  it("flags a serotonergic psychedelic combined with an MAO inhibitor", () => {
+    expect(profile("sub:lsd").traits.has("serotonergic_psychedelic")).toBe(true);
+    const result = inferInteraction(profile("sub:lsd"), buildSubstanceProfile(maoi));
+    expect(result?.rule.id).toBe("psychedelic-mao-inhibitor");
+    expect(result?.risk).toBe("moderate");
+  });
+
+  it("reports all matching rules with the most severe first", () => {
+    const result = inferInteraction(profile("sub:kratom"), profile("sub:ethanol"));
+    expect(result?.rule.id).toBe("cns-depressant-combo");
+    expect(result?.matched_rules.map((r) => r.id)).toContain("dissociative-depressant");
+  });
+
+  it("returns null when no rule applies", () => {
+    expect(inferInteraction(profile("sub:caffeine"), profile("sub:lsd"))).toBeNull();
+  });
+});
+
+describe("resolveInteraction", () => {
+  it("prefers curated records over inference", () => {
+    const result = resolveInteraction(interactions, "sub:ethanol", "sub:ghb", profiles);
+    expect(result.origin).toBe("curated");
+    expect(isInferred(result.interaction)).toBe(false);
+  });
+
+  it("falls back to inference for uncurated pairs", () => {
+    const result = resolveInteraction(interactions, "sub:ghb", "sub:kratom", profiles);
+    expect(result.origin).toBe("inferred");
+    expect(isInferred(result.interaction)).toBe(true);
+  });
+
+  it("stays unknown without profiles", () => {
+    const result = resolveInteraction(interactions, "sub:ghb", "sub:kratom");
+    expect(result.origin).toBeNull();
+    expect(result.risk).toBe("unknown");
+  });
+});
+
+describe("buildInteractionMatrix with inference", () => {
+  it("ranks curated pairs above inferred pairs of the same risk", () => {
+    const m = buildInteractionMatrix(
+      ["sub:ghb", "sub:kratom", "sub:ethanol"],
+      interactions,
+      profiles,
+    );
+    expect(m.worst?.origin).toBe("curated");
+    expect(m.pairs.some((p) => p.origin === "inferred")).toBe(true);
+    expect(m.unknown).toHaveLength(0);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildInteractionMatrix,
+  findInteraction,
+  matrixCell,
+  MAX_MATRIX_SUBSTANCES,
+} from "../matrix";
+import type { Interaction } from "../models";
+
+function interaction(a: string, b: string, risk: string): Interaction {
+  return {
+    a,
+    b,
+    risk,
+    headline: `${a} + ${b}`,
+    mechanism_conflict: [],
+    explanation: "",
+    harm_reduction: [],
+    sources: [],
+    last_reviewed: "2026-01-01",
+  };
+}
+
+const interactions: Interaction[] = [
+  interaction("sub:mdma", "sub:ssri", "high"),
+  interaction("sub:ketamine", "sub:mdma", "moderate"),
+  interaction("sub:nicotine", "sub:thc", "low"),
+];
+
+describe("findInteraction", () => {
+  it("is symmetric", () => {
+    expect(findInteraction(interactions, "sub:ssri", "sub:mdma")?.risk).toBe("high");
+    expect(findInteraction(interactions, "sub:mdma", "sub:ssri")?.risk).toBe("high");
+  });
+
+  it("returns null for pairs without data", () => {
+    expect(findInteraction(interactions, "sub:lsd", "sub:mdma")).toBeNull();
+  });
+});
+
+describe("buildInteractionMatrix", () => {
+  it("evaluates every unordered pair", () => {
+    const m = buildInteractionMatrix(["sub:mdma", "sub:ssri", "sub:ketamine", "sub:lsd"], interactions);
+    expect(m.pairs).toHaveLength(6);
+  });
+
+  it("surfaces the worst curated combination first", () => {
+    const m = buildInteractionMatrix(["sub:ketamine", "sub:mdma", "sub:ssri"], interactions);
+    expect(m.worst?.risk).toBe("high");
+    expect(m.pairs[0].risk).toBe("high");
+    expect(m.pairs[m.pairs.length - 1].risk).toBe("unknown");
+  });
+
+  it("lists pairs without curated data as unknown", () => {
+    const m = buildInteractionMatrix(["sub:ketamine", "sub:mdma", "sub:ssri"], interactions);
+    expect(m.unknown.map((p) => [p.a, p.b])).toEqual([["sub:ketamine", "sub:ssri"]]);
+    expect(m.unknown[0].interaction).toBeNull();
+  });
+
+  it("has no worst pair when nothing is known", () => {
+    const m = buildInteractionMatrix(["sub:lsd", "sub:dmt"], interactions);
+    expect(m.worst).toBeNull();
+    expect(m.unknown).toHaveLength(1);
+  });
+
+  it("deduplicates and caps the selection", () => {
+    const ids = Array.from({ length: MAX_MATRIX_SUBSTANCES + 3 }, (_, i) => `sub:${i}`);
+    const m = buildInteractionMatrix(["sub:0", ...ids], interactions);
+    expect(m.ids).toHaveLength(MAX_MATRIX_SUBSTANCES);
+  });
+
+  it("looks up cells independent of order and skips the diagonal", () => {
+    const m = buildInteractionMatrix(["sub:mdma", "sub:ssri"], interactions);
+    expect(matrixCell(m, "sub:ssri", "sub:mdma")?.risk).toBe("high");
+    expect(matrixCell(m, "sub:mdma", "sub:mdma")).toBeNull();
+  });
+});
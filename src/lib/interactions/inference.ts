@@ -0,0 +1,292 @@
+/**
+ * Class-level interaction inference.
+ *
+ * Curated pairs in data/interactions.json only cover exact substance ids.
+ * When no curated record exists, this module derives a conservative warning
+ * from pharmacological traits (class_primary, mechanisms, receptors and the
+ * risk-engine categories in src/lib/risk/categories.ts).
+ *
+ * Inferred results are always marked `inferred: true` together with the rule
+ * that fired, and never replace a curated record.
+ */
+
+import { classifySubstance } from "@/lib/risk/categories";
+import type {
+  InferredInteraction,
+  InferenceRuleRef,
+  InteractionRisk,
+} from "./models";
+
+// ---------------------------------------------------------------------------
+// Traits
+// ---------------------------------------------------------------------------
+
+export type PharmacologicalTrait =
+  | "cns_depressant"
+  | "opioid"
+  | "serotonin_releaser"
+  | "serotonin_reuptake_inhibitor"
+  | "mao_inhibitor"
+  | "stimulant"
+  | "nmda_antagonist"
+  | "serotonergic_psychedelic";
+
+/** Minimal substance shape needed for inference (matches data/substances.json). */
+export interface InferenceSubstance {
+  id: string;
+  title: string;
+  class_primary: string;
+  mechanisms: string[];
+  receptors: string[];
+}
+
+export interface SubstanceProfile {
+  id: string;
+  traits: Set<PharmacologicalTrait>;
+}
+
+const DEPRESSANT_CLASSES = new Set(["Depressiva", "Opioide", "Sedativa", "Benzodiazepine"]);
+const STIMULANT_CLASSES = new Set(["Stimulanzien", "Empathogene"]);
+
+/** Stimulants that do not act on monoamine transporters carry little stacking risk. */
+const MILD_STIMULANT_RECEPTORS = new Set(["A1", "A2A", "nACh"]);
+
+function anyMatch(values: string[], pattern: RegExp): boolean {
+  return values.some((v) => pattern.test(v));
+}
+
+/**
+ * Derive pharmacological traits for a substance.
+ */
+export function buildSubstanceProfile(substance: InferenceSubstance): SubstanceProfile {
+  const traits = new Set<PharmacologicalTrait>();
+  const { mechanisms, receptors } = substance;
+  const idName = substance.id.replace(/^sub:/, "");
+  const categories = new Set([classifySubstance(idName), classifySubstance(substance.title)]);
+
+  const isOpioid =
+    categories.has("opioid") ||
+    substance.class_primary === "Opioide" ||
+    anyMatch(receptors, /opioid/i) ||
+    anyMatch(mechanisms, /opioid/i);
+  if (isOpioid) traits.add("opioid");
+
+  if (
+    isOpioid ||
+    categories.has("gabaergic") ||
+    DEPRESSANT_CLASSES.has(substance.class_primary) ||
+    anyMatch(receptors, /^GABA-[AB]$/)
+  ) {
+    traits.add("cns_depressant");
+  }
+
+  if (anyMatch(mechanisms, /Serotoninfreisetzung|SERT-Umkehrtransport/)) {
+    traits.add("serotonin_releaser");
+  }
+
+  if (anyMatch(mechanisms, /SERT-(Inhibitor|Hemmung)|Serotonin-Wiederaufnahmehemmung/)) {
+    traits.add("serotonin_reuptake_inhibitor");
+  }
+
+  if (anyMatch(mechanisms, /MAO-(?:[AB]-)?(?:Hemm|Inhib)/) || /maoi/.test(idName)) {
+    traits.add("mao_inhibitor");
+  }
+
+  const actsOnMonoamineTransporters = anyMatch(
+    mechanisms,
+    /^(DAT|NET)-|Dopaminfreisetzung|Noradrenalinfreisetzung/
+  );
+  const isMildStimulant =
+    receptors.length > 0 && receptors.every((r) => MILD_STIMULANT_RECEPTORS.has(r));
+  if (
+    categories.has("stimulant") ||
+    actsOnMonoamineTransporters ||
+    (STIMULANT_CLASSES.has(substance.class_primary) && !isMildStimulant)
+  ) {
+    traits.add("stimulant");
+  }
+
+  if (categories.has("dissociative") || anyMatch(mechanisms, /NMDA-Antagonis/)) {
+    traits.add("nmda_antagonist");
+  }
+
+  if (categories.has("psychedelic") || anyMatch(mechanisms, /5-HT2A-Agonist/)) {
+    traits.add("serotonergic_psychedelic");
+  }
+
+  return { id: substance.id, traits };
+}
+
+/**
+ * Build profiles for a list of substances, keyed by id.
+ */
+export function buildSubstanceProfiles(
+  substances: InferenceSubstance[],
+): Map<string, SubstanceProfile> {
+  return new Map(substances.map((s) => [s.id, buildSubstanceProfile(s)]));
+}
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+export interface InferenceRule extends InferenceRuleRef {
+  /** The pair matches if one side has `traits[0]` and the other `traits[1]` */
+  traits: [PharmacologicalTrait, PharmacologicalTrait];
+  risk: Exclude<InteractionRisk, "unknown">;
+  headline: string;
+  mechanism_conflict: string[];
+  explanation: string;
+  harm_reduction: string[];
+}
+
+/** Ordered most severe first; the first matching rule determines the risk. */
+export const INFERENCE_RULES: InferenceRule[] = [
+  {
+    id: "cns-depressant-combo",
+    label: "Zwei ZNS-dämpfende Substanzen",
+    traits: ["cns_depressant", "cns_depressant"],
+    risk: "high",
+    headline: "Erhöhtes Risiko: Atemdepression",
+    mechanism_conflict: ["Additive Dämpfung des zentralen Nervensystems"],
+    explanation:
+      "Beide Substanzen dämpfen das zentrale Nervensystem. Ihre Wirkungen können sich überadditiv verstärken, was zu starker Sedierung, Bewusstlosigkeit und Atemdepression führen kann.",
+    harm_reduction: [
+      "Die Kombination ZNS-dämpfender Substanzen gilt in der Fachliteratur als eine der häufigsten Ursachen schwerer Vergiftungen.",
+      "Bei flacher Atmung oder nicht weckbarer Person: Notruf 112.",
+    ],
+  },
+  {
+    id: "serotonergic-mao-inhibitor",
+    label: "Serotonerge Substanz + MAO-Hemmer",
+    traits: ["mao_inhibitor", "serotonin_releaser"],
+    risk: "high",
+    headline: "Lebensbedrohlich: Serotoninsyndrom-Gefahr",
+    mechanism_conflict: ["MAO-Hemmung + Serotoninfreisetzung"],
+    explanation:
+      "MAO-Hemmer verhindern den Abbau von Serotonin. Zusammen mit einer Substanz, die Serotonin freisetzt, kann es zu einer gefährlichen Anhäufung und einem Serotoninsyndrom kommen.",
+    harm_reduction: [
+      "Diese Wirkstoffklassen-Kombination wird in der medizinischen Literatur als potenziell lebensbedrohlich eingestuft.",
+    ],
+  },
+  {
+    id: "reuptake-inhibitor-mao-inhibitor",
+    label: "Serotonin-Wiederaufnahmehemmer + MAO-Hemmer",
+    traits: ["mao_inhibitor", "serotonin_reuptake_inhibitor"],
+    risk: "high",
+    headline: "Lebensbedrohlich: Serotoninsyndrom-Gefahr",
+    mechanism_conflict: ["MAO-Hemmung + SERT-Blockade"],
+    explanation:
+      "Die gleichzeitige Hemmung von Serotonin-Abbau und -Wiederaufnahme kann die Serotoninkonzentration stark erhöhen und ein Serotoninsyndrom auslösen.",
+    harm_reduction: [
+      "Diese Wirkstoffklassen-Kombination wird in der medizinischen Literatur als potenziell lebensbedrohlich eingestuft.",
+    ],
+  },
+  {
+    id: "dissociative-depressant",
+    label: "Dissoziativum + ZNS-dämpfende Substanz",
+    traits: ["nmda_antagonist", "cns_depressant"],
+    risk: "high",
+    headline: "Erhöhtes Risiko: Bewusstlosigkeit und Aspiration",
+    mechanism_conflict: ["NMDA-Antagonismus + ZNS-Dämpfung"],
+    explanation:
+      "Dissoziativa verstärken die sedierende Wirkung dämpfender Substanzen. Es besteht ein erhöhtes Risiko für Bewusstlosigkeit, Erbrechen im bewusstlosen Zustand und Atemdepression.",
+    harm_reduction: [
+      "Bewusstlose Personen in die stabile Seitenlage bringen und den Notruf 112 wählen.",
+    ],
+  },
+  {
+    id: "serotonergic-stacking",
+    label: "Serotonin-Freisetzer + Serotonin-Wiederaufnahmehemmer",
+    traits: ["serotonin_releaser", "serotonin_reuptake_inhibitor"],
+    risk: "moderate",
+    headline: "Mögliches Risiko: Serotonerge Überaktivierung",
+    mechanism_conflict: ["Serotoninfreisetzung + SERT-Blockade"],
+    explanation:
+      "Beide Substanzen wirken am Serotonintransporter. Die Kombination kann die serotonerge Wirkung unvorhersehbar verändern und das Risiko eines Serotoninsyndroms erhöhen.",
+    harm_reduction: [
+      "Warnzeichen eines Serotoninsyndroms sind u. a. Muskelzucken, Fieber, Unruhe und starkes Schwitzen.",
+    ],
+  },
+  {
+    id: "psychedelic-mao-inhibitor",
+    label: "Serotonerges Psychedelikum + MAO-Hemmer",
+    traits: ["mao_inhibitor", "serotonergic_psychedelic"],
+    risk: "moderate",
+    headline: "Mögliches Risiko: Unvorhersehbar verstärkte Wirkung",
+    mechanism_conflict: ["MAO-Hemmung + 5-HT2A-Agonismus"],
+    explanation:
+      "MAO-Hemmer verlangsamen den Abbau vieler Tryptamine. Wirkstärke und Wirkdauer eines Psychedelikums können dadurch deutlich zunehmen, zudem steigt die serotonerge Gesamtbelastung.",
+    harm_reduction: [
+      "Warnzeichen eines Serotoninsyndroms sind u. a. Muskelzucken, Fieber, Unruhe und starkes Schwitzen.",
+    ],
+  },
+  {
+    id: "stimulant-stacking",
+    label: "Zwei Stimulanzien",
+    traits: ["stimulant", "stimulant"],
+    risk: "moderate",
+    headline: "Mögliches Risiko: Herz-Kreislauf-Belastung",
+    mechanism_conflict: ["Additive sympathomimetische Wirkung"],
+    explanation:
+      "Beide Substanzen steigern Herzfrequenz, Blutdruck und Körpertemperatur. In Kombination kann die kardiovaskuläre Belastung deutlich zunehmen.",
+    harm_reduction: [
+      "Bei Brustschmerz, Herzrasen oder Überhitzung: Notruf 112.",
+    ],
+  },
+  {
+    id: "stimulant-depressant-masking",
+    label: "Stimulans + ZNS-dämpfende Substanz",
+    traits: ["stimulant", "cns_depressant"],
+    risk: "moderate",
+    headline: "Mögliches Risiko: Maskierte Wirkung",
+    mechanism_conflict: ["Gegenläufige Wirkung auf das zentrale Nervensystem"],
+    explanation:
+      "Stimulanzien können die dämpfende Wirkung anderer Substanzen überdecken. Lässt die stimulierende Wirkung nach, kann die Dämpfung plötzlich stärker hervortreten.",
+    harm_reduction: [
+      "Die gegenseitige Maskierung von Wirkungen wird in der Fachliteratur als Risikofaktor für Überdosierungen beschrieben.",
+    ],
+  },
+];
+
+function ruleMatches(rule: InferenceRule, a: SubstanceProfile, b: SubstanceProfile): boolean {
+  const [x, y] = rule.traits;
+  return (a.traits.has(x) && b.traits.has(y)) || (a.traits.has(y) && b.traits.has(x));
+}
+
+/**
+ * Infer an interaction for a pair of substances from their traits.
+ * Returns null when no rule applies — the pair stays "unknown".
+ */
+export function inferInteraction(
+  a: SubstanceProfile,
+  b: SubstanceProfile,
+  rules: InferenceRule[] = INFERENCE_RULES,
+): InferredInteraction | null {
+  if (a.id === b.id) return null;
+  const matched = rules.filter((r) => ruleMatches(r, a, b));
+  if (matched.length === 0) return null;
+
+  const primary = matched[0];
+  return {
+    a: a.id,
+    b: b.id,
+    risk: primary.risk,
+    headline: primary.headline,
+    mechanism_conflict: [...new Set(matched.flatMap((r) => r.mechanism_conflict))],
+    explanation: primary.explanation,
+    harm_reduction: primary.harm_reduction,
+    sources: [],
+    last_reviewed: "",
+    inferred: true,
+    rule: { id: primary.id, label: primary.label },
+    matched_rules: matched.map((r) => ({ id: r.id, label: r.label })),
+  };
+}
+
+/**
+ * Type guard for inferred interactions.
+ */
+export function isInferred(interaction: object | null): interaction is InferredInteraction {
+  return interaction !== null && (interaction as { inferred?: unknown }).inferred === true;
+}
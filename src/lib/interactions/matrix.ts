@@ -0,0 +1,144 @@
+/**
+ * Interaction lookup and N×N matrix evaluation.
+ *
+ * Pure functions over the curated pairs in data/interactions.json.
+ * Pair lookup is symmetric (A+B = B+A). When substance profiles are supplied,
+ * pairs without a curated record fall back to class-level inference
+ * (see ./inference). A pair with neither is reported as "unknown" — absence
+ * of data is never treated as absence of risk.
+ */
+
+import type {
+  Interaction,
+  InteractionMatrix,
+  InteractionOrigin,
+  InteractionPairResult,
+  InteractionRisk,
+  InferredInteraction,
+} from "./models";
+import { inferInteraction, type SubstanceProfile } from "./inference";
+
+/** Upper bound on substances in a matrix (n·(n−1)/2 pairs). */
+export const MAX_MATRIX_SUBSTANCES = 8;
+
+/** Sort rank: lower = more severe. Unknown sorts after all known risks. */
+const RISK_RANK: Record<InteractionRisk, number> = {
+  high: 0,
+  moderate: 1,
+  low: 2,
+  unknown: 3,
+};
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function toRisk(value: string): InteractionRisk {
+  return value === "high" || value === "moderate" || value === "low" ? value : "unknown";
+}
+
+/**
+ * Compare two risks for sorting (most severe first).
+ */
+export function compareRisk(a: InteractionRisk, b: InteractionRisk): number {
+  return RISK_RANK[a] - RISK_RANK[b];
+}
+
+/**
+ * Build a symmetric lookup from a list of curated interactions.
+ */
+export function indexInteractions(interactions: Interaction[]): Map<string, Interaction> {
+  const map = new Map<string, Interaction>();
+  for (const i of interactions) map.set(pairKey(i.a, i.b), i);
+  return map;
+}
+
+/**
+ * Find the curated interaction for a pair of substance ids, or null.
+ */
+export function findInteraction(
+  interactions: Interaction[] | Map<string, Interaction>,
+  a: string,
+  b: string,
+): Interaction | null {
+  const index = interactions instanceof Map ? interactions : indexInteractions(interactions);
+  return index.get(pairKey(a, b)) ?? null;
+}
+
+/**
+ * Resolve a pair: curated record first, then class-level inference when
+ * profiles for both substances are available.
+ */
+export function resolveInteraction(
+  interactions: Interaction[] | Map<string, Interaction>,
+  a: string,
+  b: string,
+  profiles?: Map<string, SubstanceProfile>,
+): InteractionPairResult {
+  const curated = findInteraction(interactions, a, b);
+  if (curated) {
+    return { a, b, risk: toRisk(curated.risk), interaction: curated, origin: "curated" };
+  }
+
+  const profileA = profiles?.get(a);
+  const profileB = profiles?.get(b);
+  const inferred: InferredInteraction | null =
+    profileA && profileB ? inferInteraction(profileA, profileB) : null;
+  if (inferred) {
+    return { a, b, risk: toRisk(inferred.risk), interaction: inferred, origin: "inferred" };
+  }
+
+  return { a, b, risk: "unknown", interaction: null, origin: null };
+}
+
+/** Curated data outranks inferred data at the same risk level. */
+const ORIGIN_RANK: Record<InteractionOrigin, number> = { curated: 0, inferred: 1 };
+
+/**
+ * Evaluate every unordered pair of the given substance ids.
+ * Duplicate ids are ignored; at most `MAX_MATRIX_SUBSTANCES` are used.
+ * Pass `profiles` to enable class-level inference for uncurated pairs.
+ */
+export function buildInteractionMatrix(
+  substanceIds: string[],
+  interactions: Interaction[],
+  profiles?: Map<string, SubstanceProfile>,
+): InteractionMatrix {
+  const ids = [...new Set(substanceIds)].slice(0, MAX_MATRIX_SUBSTANCES);
+  const index = indexInteractions(interactions);
+  const pairs: InteractionPairResult[] = [];
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      pairs.push(resolveInteraction(index, ids[i], ids[j], profiles));
+    }
+  }
+
+  // Stable sort keeps selection order among pairs of equal risk and origin
+  pairs.sort(
+    (x, y) =>
+      compareRisk(x.risk, y.risk) ||
+      (x.origin && y.origin ? ORIGIN_RANK[x.origin] - ORIGIN_RANK[y.origin] : 0)
+  );
+
+  const known = pairs.filter((p) => p.interaction !== null);
+  return {
+    ids,
+    pairs,
+    worst: known[0] ?? null,
+    unknown: pairs.filter((p) => p.interaction === null),
+  };
+}
+
+/**
+ * Look up a single cell of an evaluated matrix (order-independent).
+ */
+export function matrixCell(
+  matrix: InteractionMatrix,
+  a: string,
+  b: string,
+): InteractionPairResult | null {
+  if (a === b) return null;
+  const key = pairKey(a, b);
+  return matrix.pairs.find((p) => pairKey(p.a, p.b) === key) ?? null;
+}
@@ -0,0 +1,62 @@
+export type InteractionRisk = "high" | "moderate" | "low" | "unknown";
+
+export interface InteractionSource {
+  label: string;
+  url: string;
+}
+
+/** Curated interaction pair as stored in data/interactions.json. */
+export interface Interaction {
+  a: string;
+  b: string;
+  risk: string;
+  headline: string;
+  mechanism_conflict: string[];
+  explanation: string;
+  harm_reduction: string[];
+  sources: InteractionSource[];
+  last_reviewed: string;
+}
+
+/** One evaluated pair inside an interaction matrix. */
+export interface InteractionPairResult {
+  a: string;
+  b: string;
+  risk: InteractionRisk;
+  /** Curated or inferred record, or null when no data exists for the pair */
+  interaction: Interaction | InferredInteraction | null;
+  /** null when neither curated data nor an inference rule applies */
+  origin: InteractionOrigin | null;
+}
+
+export interface InteractionMatrix {
+  /** Substance ids in the order they were selected (deduplicated) */
+  ids: string[];
+  /** Every unordered pair, sorted worst-first */
+  pairs: InteractionPairResult[];
+  /** Highest-risk pair with curated or inferred data, or null if none is known */
+  worst: InteractionPairResult | null;
+  /** Pairs without any data — explicitly "unbekannt", never "safe" */
+  unknown: InteractionPairResult[];
+}
+
+/** Where a pair assessment came from. */
+export type InteractionOrigin = "curated" | "inferred";
+
+/** Identifies the class/mechanism rule that produced an inferred interaction. */
+export interface InferenceRuleRef {
+  id: string;
+  label: string;
+}
+
+/**
+ * Interaction derived from class- and mechanism-level rules rather than a
+ * curated record. Has no sources or review date of its own.
+ */
+export interface InferredInteraction extends Interaction {
+  inferred: true;
+  /** Rule that determined the risk level (most severe match) */
+  rule: InferenceRuleRef;
+  /** All rules that matched the pair, most severe first */
+  matched_rules: InferenceRuleRef[];
+}
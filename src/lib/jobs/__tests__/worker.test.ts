@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { JobCancelledError, PermanentJobError, retryDelayMs, type JobDefinition } from "../job";
+import { STALE_LOCK_SECONDS, type JobStore, type JobUpdate } from "../store";
+import { processJob, runWorker } from "../worker";
+import { JOB_DEFINITIONS } from "../handlers";
+import type { AiJob, AiJobLogEntry } from "@/lib/types";
+
+function makeJob(overrides: Partial<AiJob> = {}): AiJob {
+  return {
+    id: "job-1",
+    type: "test",
+    status: "queued",
+    input_json: {},
+    output_json: null,
+    error: null,
+    progress: 0,
+    attempts: 0,
+    max_attempts: 3,
+    run_after: new Date(0).toISOString(),
+    locked_by: null,
+    locked_at: null,
+    cancel_requested: false,
+    started_at: null,
+    finished_at: null,
+    logs: [],
+    created_at: new Date(0).toISOString(),
+    updated_at: new Date(0).toISOString(),
+    ...overrides,
+  };
+}
+
+/** In-memory store with the same claim semantics as claim_ai_jobs(). */
+function memoryStore(jobs: AiJob[]): JobStore & { jobs: Map<string, AiJob> } {
+  const map = new Map(jobs.map((j) => [j.id, j]));
+  return {
+    jobs: map,
+    async claim(workerId, limit) {
+      const staleBefore = Date.now() - STALE_LOCK_SECONDS * 1000;
+      const isStale = (j: AiJob) => j.status === "running" && !!j.locked_at && Date.parse(j.locked_at) < staleBefore;
+      for (const j of map.values()) {
+        if (isStale(j) && j.attempts >= j.max_attempts) {
+          Object.assign(j, { status: "failed", locked_by: null, locked_at: null, error: "Worker hat sich nicht zurückgemeldet" });
+        }
+      }
+      const due = [...map.values()]
+        .filter(
+          (j) =>
+            (j.status === "queued" && !j.cancel_requested && Date.parse(j.run_after) <= Date.now()) || isStale(j)
+        )
+        .slice(0, limit);
+      for (const j of due) {
+        Object.assign(j, {
+          status: "running",
+          locked_by: workerId,
+          locked_at: new Date().toISOString(),
+          attempts: j.attempts + 1,
+        });
+      }
+      return due.map((j) => ({ ...j }));
+    },
+    async update(id, updates: JobUpdate) {
+      Object.assign(map.get(id)!, updates);
+    },
+    async appendLog(id, entry: AiJobLogEntry) {
+      map.get(id)!.logs.push(entry);
+    },
+    async isCancelRequested(id) {
+      return map.get(id)!.cancel_requested;
+    },
+  };
+}
+
+async function claimOne(store: JobStore): Promise<AiJob> {
+  const [job] = await store.claim("w1", 1);
+  return job;
+}
+
+describe("retryDelayMs", () => {
+  it("doubles per attempt and caps at 30 minutes", () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(2)).toBe(60_000);
+    expect(retryDelayMs(3)).toBe(120_000);
+    expect(retryDelayMs(20)).toBe(30 * 60_000);
+  });
+});
+
+describe("processJob", () => {
+  it("stores output, progress and logs on success", async () => {
+    const store = memoryStore([makeJob({ input_json: { n: 2 } })]);
+    const definitions: Record<string, JobDefinition> = {
+      test: {
+        async handler(input, ctx) {
+          await ctx.progress(50, "halb fertig");
+          return { doubled: (input.n as number) * 2 };
+        },
+      },
+    };
+
+    expect(await processJob(await claimOne(store), store, definitions)).toBe("done");
+
+    const job = store.jobs.get("job-1")!;
+    expect(job.status).toBe("done");
+    expect(job.progress).toBe(100);
+    expect(job.output_json).toEqual({ doubled: 4 });
+    expect(job.locked_by).toBeNull();
+    expect(job.finished_at).not.toBeNull();
+    expect(job.logs.map((l) => l.message)).toContain("halb fertig");
+  });
+
+  it("re-queues a failed job with backoff until max_attempts is reached", async () => {
+    const store = memoryStore([makeJob({ max_attempts: 2 })]);
+    const definitions: Record<string, JobDefinition> = {
+      test: {
+        async handler() {
+          throw new Error("Provider nicht erreichbar");
+        },
+      },
+    };
+
+    const before = Date.now();
+    expect(await processJob(await claimOne(store), store, definitions)).toBe("retry");
+    const job = store.jobs.get("job-1")!;
+    expect(job.status).toBe("queued");
+    expect(job.error).toBe("Provider nicht erreichbar");
+    expect(Date.parse(job.run_after)).toBeGreaterThanOrEqual(before + retryDelayMs(1));
+    expect(job.finished_at).toBeNull();
+
+    // Not due yet
+    expect(await store.claim("w1", 1)).toEqual([]);
+
+    job.run_after = new Date(0).toISOString();
+    expect(await processJob(await claimOne(store), store, definitions)).toBe("failed");
+    expect(job.status).toBe("failed");
+    expect(job.attempts).toBe(2);
+  });
+
+  it("fails permanent errors without retrying", async () => {
+    const store = memoryStore([makeJob()]);
+    const definitions: Record<string, JobDefinition> = {
+      test: {
+        async handler() {
+          throw new PermanentJobError("Substanz nicht gefunden.");
+        },
+      },
+    };
+
+    expect(await processJob(await claimOne(store), store, definitions)).toBe("failed");
+    expect(store.jobs.get("job-1")!.error).toBe("Substanz nicht gefunden.");
+  });
+
+  it("stops at the next progress checkpoint after cancellation", async () => {
+    const store = memoryStore([makeJob()]);
+    let reachedEnd = false;
+    const definitions: Record<string, JobDefinition> = {
+      test: {
+        async handler(_input, ctx) {
+          await ctx.progress(10);
+          store.jobs.get("job-1")!.cancel_requested = true;
+          await ctx.progress(20);
+          reachedEnd = true;
+          return {};
+        },
+      },
+    };
+
+    expect(await processJob(await claimOne(store), store, definitions)).toBe("cancelled");
+    expect(reachedEnd).toBe(false);
+    expect(store.jobs.get("job-1")!.status).toBe("cancelled");
+    expect(store.jobs.get("job-1")!.progress).toBe(10);
+  });
+
+  it("fails jobs of unknown type", async () => {
+    const store = memoryStore([makeJob({ type: "unknown" })]);
+    expect(await processJob(await claimOne(store), store, {})).toBe("failed");
+    expect(store.jobs.get("job-1")!.error).toContain("unknown");
+  });
+
+  it("treats a thrown JobCancelledError as cancellation", async () => {
+    const store = memoryStore([makeJob()]);
+    const definitions: Record<string, JobDefinition> = {
+      test: {
+        async handler() {
+          throw new JobCancelledError();
+        },
+      },
+    };
+    expect(await processJob(await claimOne(store), store, definitions)).toBe("cancelled");
+  });
+});
+
+describe("stale jobs", () => {
+  const staleLock = () => new Date(Date.now() - (STALE_LOCK_SECONDS + 60) * 1000).toISOString();
+
+  it("reclaims a job whose worker died and runs it again", async () => {
+    const store = memoryStore([makeJob({ status: "running", attempts: 1, locked_by: "dead", locked_at: staleLock() })]);
+    const definitions: Record<string, JobDefinition> = { test: { handler: async () => ({ ok: true }) } };
+
+    const job = await claimOne(store);
+    expect(job).toMatchObject({ locked_by: "w1", attempts: 2 });
+    expect(await processJob(job, store, definitions)).toBe("done");
+  });
+
+  it("does not reclaim a job with a fresh lock", async () => {
+    const store = memoryStore([makeJob({ status: "running", attempts: 1, locked_at: new Date().toISOString() })]);
+    expect(await store.claim("w1", 1)).toEqual([]);
+  });
+
+  it("fails a stale job once its attempts are used up instead of running it again", async () => {
+    const store = memoryStore([makeJob({ status: "running", attempts: 3, locked_by: "dead", locked_at: staleLock() })]);
+    expect(await store.claim("w1", 1)).toEqual([]);
+    expect(store.jobs.get("job-1")!.status).toBe("failed");
+  });
+
+  it("fails a reclaimed job that exceeds the definition's attempts without running it", async () => {
+    const store = memoryStore([makeJob({ status: "running", attempts: 2, locked_by: "dead", locked_at: staleLock() })]);
+    let ran = false;
+    const definitions: Record<string, JobDefinition> = {
+      test: {
+        maxAttempts: 2,
+        handler: async () => {
+          ran = true;
+          return {};
+        },
+      },
+    };
+
+    expect(await processJob(await claimOne(store), store, definitions)).toBe("failed");
+    expect(ran).toBe(false);
+    expect(store.jobs.get("job-1")!.error).toContain("nicht zurückgemeldet");
+  });
+});
+
+describe("runWorker", () => {
+  it("drains the queue and counts outcomes", async () => {
+    const store = memoryStore([makeJob({ id: "a" }), makeJob({ id: "b", type: "broken", max_attempts: 1 })]);
+    const definitions: Record<string, JobDefinition> = {
+      test: { handler: async () => ({ ok: true }) },
+      broken: {
+        handler: async () => {
+          throw new Error("kaputt");
+        },
+      },
+    };
+
+    const result = await runWorker({ workerId: "w1", store, definitions, batchSize: 5 });
+    expect(result.processed).toBe(2);
+    expect(result.outcomes).toEqual({ done: 1, retry: 0, failed: 1, cancelled: 0 });
+  });
+});
+
+describe("job handlers", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("fails autofill jobs with invalid input permanently", async () => {
+    vi.stubEnv("AI_PROVIDER_AUTOFILL", "mock");
+    const store = memoryStore([makeJob({ type: "autofill", input_json: { title: "", templateSections: "alle" } })]);
+
+    expect(await processJob(await claimOne(store), store, JOB_DEFINITIONS)).toBe("failed");
+    const job = store.jobs.get("job-1")!;
+    expect(job.attempts).toBe(1);
+    expect(job.error).toContain("title");
+    expect(job.error).toContain("templateSections");
+  });
+});
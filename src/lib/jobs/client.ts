@@ -0,0 +1,37 @@
+/**
+ * Browser side of the job queue: wait for a queued job and return its
+ * output. Used by admin pages that hand AI work to the background worker
+ * instead of running it inside the request.
+ */
+
+import type { AiJob } from "@/lib/types";
+
+const POLL_INTERVAL_MS = 2_000;
+
+/**
+ * Poll GET /api/admin/jobs/[id] until the job has finished. Resolves with
+ * `output_json` of a done job; rejects with the job's error otherwise.
+ * The worker is kicked once so the job does not wait for the next
+ * scheduled run.
+ */
+export async function waitForJob<T = Record<string, unknown>>(
+  jobId: string,
+  opts: { onProgress?: (job: AiJob) => void; signal?: AbortSignal } = {}
+): Promise<T> {
+  void fetch("/api/admin/jobs/worker", { method: "POST" }).catch(() => undefined);
+
+  for (;;) {
+    if (opts.signal?.aborted) throw new Error("Abgebrochen.");
+    const res = await fetch(`/api/admin/jobs/${jobId}`, { signal: opts.signal });
+    const data = (await res.json()) as { job?: AiJob; error?: string };
+    if (!res.ok || !data.job) throw new Error(data.error ?? `HTTP ${res.status}`);
+
+    const { job } = data;
+    opts.onProgress?.(job);
+    if (job.status === "done") return (job.output_json ?? {}) as T;
+    if (job.status === "failed") throw new Error(job.error ?? "Job fehlgeschlagen.");
+    if (job.status === "cancelled") throw new Error("Job wurde abgebrochen.");
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Job types the background worker can run. Each handler receives the
+ * job's `input_json` and returns what is stored in `output_json`.
+ */
+
+import { JobCancelledError, PermanentJobError, type JobDefinition } from "./job";
+import { AutofillInputSchema, isAiEnabled, runAutofill } from "@/lib/ai/provider";
+import { StructuredOutputError, formatIssues } from "@/lib/ai/structured";
+import {
+  ArticleGenerationError,
+  compareTemplateVersions,
+  generateArticleForSubstance,
+  validateArticleGenerationInput,
+  type ArticleGenerationInput,
+} from "@/lib/ai/generate-article";
+import { runAiEnrichment } from "@/lib/substances/ai/enrich";
+import { runImport, type WikidataItem } from "@/lib/substances/import-engine";
+import { cancelImportRun, resumeImportRun } from "@/lib/substances/import-runs";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+function requireString(input: Record<string, unknown>, key: string): string {
+  const value = input[key];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new PermanentJobError(`"${key}" fehlt im Job-Input.`);
+  }
+  return value;
+}
+
+export const JOB_DEFINITIONS: Record<string, JobDefinition> = {
+  autofill: {
+    async handler(input, ctx) {
+      if (!isAiEnabled("autofill")) throw new PermanentJobError("Kein AI-Provider für Autofill konfiguriert.");
+      const parsed = AutofillInputSchema.safeParse(input);
+      if (!parsed.success) {
+        throw new PermanentJobError(`Ungültiger Job-Input: ${formatIssues(parsed.error).join("; ")}`);
+      }
+      await ctx.progress(10, "Entwurf wird generiert …");
+      try {
+        const output = await runAutofill(parsed.data, { jobId: ctx.job.id });
+        return { ...output };
+      } catch (err) {
+        // The repair attempt already failed – retrying the same prompt rarely helps
+        if (err instanceof StructuredOutputError) throw new PermanentJobError(err.message);
+        throw err;
+      }
+    },
+  },
+
+  article: {
+    async handler(input, ctx) {
+      if (!isAiEnabled("article")) throw new PermanentJobError("Kein AI-Provider für Artikel konfiguriert.");
+      try {
+        const validated = validateArticleGenerationInput(input as Partial<ArticleGenerationInput>);
+        await ctx.progress(10, "Artikel wird generiert …");
+        const result = await generateArticleForSubstance(createAdminClient(), validated, {
+          jobId: ctx.job.id,
+          batchId: typeof input.batchId === "string" ? input.batchId : null,
+        });
+        if (result.db_error) await ctx.log(`Artikel nicht gespeichert: ${result.db_error}`, "error");
+        return { ...result };
+      } catch (err) {
+        if (err instanceof ArticleGenerationError) throw new PermanentJobError(err.message);
+        throw err;
+      }
+    },
+  },
+
+  template_compare: {
+    async handler(input, ctx) {
+      if (!isAiEnabled("article")) throw new PermanentJobError("Kein AI-Provider für Artikel konfiguriert.");
+      const versionA = Number(input.versionA);
+      const versionB = Number(input.versionB);
+      if (!Number.isInteger(versionA) || !Number.isInteger(versionB)) {
+        throw new PermanentJobError("versionA und versionB müssen Versionsnummern sein.");
+      }
+      try {
+        const validated = validateArticleGenerationInput(input as Partial<ArticleGenerationInput>);
+        await ctx.progress(10, `Version ${versionA} wird generiert …`);
+        const comparison = await compareTemplateVersions(
+          createAdminClient(),
+          { ...validated, versionA, versionB },
+          {
+            onDraft: async (version) => {
+              if (version === versionA) await ctx.progress(50, `Version ${versionB} wird generiert …`);
+            },
+          }
+        );
+        return { ...comparison };
+      } catch (err) {
+        if (err instanceof ArticleGenerationError) throw new PermanentJobError(err.message);
+        throw err;
+      }
+    },
+  },
+
+  enrichment: {
+    async handler(input, ctx) {
+      const name = requireString(input, "name");
+      await ctx.progress(10, `Anreicherung für ${name} …`);
+      const outcome = await runAiEnrichment(
+        name,
+        typeof input.description === "string" ? input.description : "",
+        input.context as { molecularFormula?: string; synonyms?: string[] } | undefined
+      );
+      if (outcome.status === "skipped") throw new PermanentJobError(outcome.error ?? "Anreicherung übersprungen.");
+      // runAiEnrichment never throws; a failed status is worth another attempt
+      if (outcome.status === "failed" && !outcome.data) throw new Error(outcome.error ?? "Anreicherung fehlgeschlagen.");
+      return { ...outcome };
+    },
+  },
+
+  import: {
+    // With a runId every attempt resumes the checkpointed run; a plain item
+    // list is re-run in full, upserts keep that idempotent
+    maxAttempts: 2,
+    async handler(input, ctx) {
+      if (typeof input.runId === "string") {
+        const runId = input.runId;
+        // Stable across attempts, so a retry takes over its own lock at once
+        const workerId = `job-${ctx.job.id}`;
+        for (;;) {
+          const { claimed, run } = await resumeImportRun(runId, { workerId });
+          if (!run) throw new PermanentJobError(`Import-Lauf ${runId} nicht gefunden.`);
+          if (!claimed && run.status === "running") throw new Error("Import-Lauf wird gerade von einem anderen Prozess bearbeitet.");
+          if (run.status !== "running") {
+            return { runId, status: run.status, processed: run.next_index, total: run.total_items };
+          }
+          try {
+            await ctx.progress((run.next_index / Math.max(1, run.total_items)) * 100, `${run.next_index}/${run.total_items} Items verarbeitet`);
+          } catch (err) {
+            if (err instanceof JobCancelledError) await cancelImportRun(runId);
+            throw err;
+          }
+        }
+      }
+
+      const items = input.items;
+      if (!Array.isArray(items) || items.length === 0) throw new PermanentJobError("Keine Import-Items angegeben.");
+
+      const result = await runImport(items as WikidataItem[], {
+        limit: typeof input.limit === "number" ? input.limit : items.length,
+        dryRun: input.dryRun === true,
+        skipAi: input.skipAi === true,
+        skipPubChem: input.skipPubChem === true,
+        onItem: async (item, done, total) => {
+          await ctx.progress((done / total) * 100, `${item.label}: ${item.db_status}${item.error ? ` (${item.error})` : ""}`);
+        },
+      });
+      return { runId: result.runId, summary: result.summary };
+    },
+  },
+};
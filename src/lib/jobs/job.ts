@@ -0,0 +1,46 @@
+/**
+ * Building blocks for background jobs (table `ai_jobs`): the context a
+ * handler receives, the job definition and the errors that steer retries.
+ */
+
+import type { AiJob, AiJobLogEntry } from "@/lib/types";
+
+export interface JobContext {
+  job: AiJob;
+  /**
+   * Report progress (0–100) and optionally log a message. Throws
+   * `JobCancelledError` when an admin cancelled the job, so long-running
+   * handlers stop at the next checkpoint.
+   */
+  progress(percent: number, message?: string): Promise<void>;
+  log(message: string, level?: AiJobLogEntry["level"]): Promise<void>;
+}
+
+export interface JobDefinition {
+  handler: (input: Record<string, unknown>, ctx: JobContext) => Promise<Record<string, unknown>>;
+  /** Overrides the job's max_attempts column */
+  maxAttempts?: number;
+}
+
+/** Failure that a retry cannot fix (invalid input, missing record, …). */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job wurde abgebrochen.");
+    this.name = "JobCancelledError";
+  }
+}
+
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 30 * 60_000;
+
+/** Exponential backoff after the n-th failed attempt: 30 s, 60 s, 120 s, … max. 30 min. */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_MS);
+}
@@ -0,0 +1,155 @@
+/**
+ * Persistence for background jobs (`ai_jobs`). The worker talks to a
+ * `JobStore` so tests can swap in an in-memory implementation; the
+ * Supabase store claims jobs through `claim_ai_jobs()` (FOR UPDATE SKIP
+ * LOCKED), so several workers never run the same job.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AiJob, AiJobLogEntry, AiJobStatus } from "@/lib/types";
+
+/** A running job whose lock is older than this is considered abandoned. */
+export const STALE_LOCK_SECONDS = 10 * 60;
+
+export type JobUpdate = Partial<
+  Pick<
+    AiJob,
+    "status" | "progress" | "output_json" | "error" | "run_after" | "locked_by" | "locked_at" | "finished_at" | "max_attempts"
+  >
+>;
+
+export interface JobStore {
+  claim(workerId: string, limit: number): Promise<AiJob[]>;
+  update(id: string, updates: JobUpdate): Promise<void>;
+  appendLog(id: string, entry: AiJobLogEntry): Promise<void>;
+  isCancelRequested(id: string): Promise<boolean>;
+}
+
+export function supabaseJobStore(): JobStore {
+  const supabase = createAdminClient();
+
+  return {
+    async claim(workerId, limit) {
+      const { data, error } = await supabase.rpc("claim_ai_jobs", {
+        p_worker: workerId,
+        p_limit: limit,
+        p_stale_seconds: STALE_LOCK_SECONDS,
+      });
+      if (error) throw new Error(`Jobs konnten nicht übernommen werden: ${error.message}`);
+      return (data ?? []) as AiJob[];
+    },
+
+    async update(id, updates) {
+      const { error } = await supabase.from("ai_jobs").update(updates).eq("id", id);
+      if (error) throw new Error(`Job ${id} konnte nicht aktualisiert werden: ${error.message}`);
+    },
+
+    async appendLog(id, entry) {
+      const { error } = await supabase.rpc("append_ai_job_log", { p_job_id: id, p_entry: entry });
+      // A lost log line must not fail the job
+      if (error) console.error("[jobs] Log konnte nicht gespeichert werden:", error.message);
+    },
+
+    async isCancelRequested(id) {
+      const { data } = await supabase.from("ai_jobs").select("cancel_requested").eq("id", id).maybeSingle();
+      return data?.cancel_requested === true;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Admin operations
+// ---------------------------------------------------------------------------
+
+export async function enqueueJob(
+  type: string,
+  input: Record<string, unknown>,
+  opts: { maxAttempts?: number } = {}
+): Promise<AiJob> {
+  const { data, error } = await createAdminClient()
+    .from("ai_jobs")
+    .insert({
+      type,
+      status: "queued" as AiJobStatus,
+      input_json: input,
+      ...(opts.maxAttempts ? { max_attempts: opts.maxAttempts } : {}),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[enqueueJob]", error.message);
+    throw new Error("Job konnte nicht angelegt werden.");
+  }
+  return data as AiJob;
+}
+
+export async function getJobById(id: string): Promise<AiJob | null> {
+  const { data } = await createAdminClient().from("ai_jobs").select("*").eq("id", id).maybeSingle();
+  return (data as AiJob | null) ?? null;
+}
+
+export async function listRecentJobs(opts: { status?: AiJobStatus; limit?: number } = {}): Promise<AiJob[]> {
+  let query = createAdminClient()
+    .from("ai_jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(opts.limit ?? 50);
+  if (opts.status) query = query.eq("status", opts.status);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Jobs konnten nicht geladen werden: ${error.message}`);
+  return (data ?? []) as AiJob[];
+}
+
+/**
+ * Cancel a job. Queued jobs are cancelled right away; running jobs get
+ * `cancel_requested` and stop at their next progress checkpoint.
+ * Returns null if the job does not exist or has already finished.
+ */
+export async function cancelJob(id: string): Promise<AiJob | null> {
+  const job = await getJobById(id);
+  if (!job || (job.status !== "queued" && job.status !== "running")) return null;
+
+  const updates =
+    job.status === "queued"
+      ? { status: "cancelled" as AiJobStatus, cancel_requested: true, finished_at: new Date().toISOString() }
+      : { cancel_requested: true };
+
+  const { data, error } = await createAdminClient()
+    .from("ai_jobs")
+    .update(updates)
+    .eq("id", id)
+    .eq("status", job.status)
+    .select()
+    .maybeSingle();
+  if (error) throw new Error(`Job konnte nicht abgebrochen werden: ${error.message}`);
+  return (data as AiJob | null) ?? null;
+}
+
+/**
+ * Put a failed or cancelled job back into the queue with a fresh attempt
+ * budget. Returns null if the job does not exist or is still active.
+ */
+export async function retryJob(id: string): Promise<AiJob | null> {
+  const { data, error } = await createAdminClient()
+    .from("ai_jobs")
+    .update({
+      status: "queued" as AiJobStatus,
+      attempts: 0,
+      progress: 0,
+      error: null,
+      cancel_requested: false,
+      run_after: new Date().toISOString(),
+      locked_by: null,
+      locked_at: null,
+      started_at: null,
+      finished_at: null,
+    })
+    .eq("id", id)
+    .in("status", ["failed", "cancelled"])
+    .select()
+    .maybeSingle();
+  if (error) throw new Error(`Job konnte nicht neu gestartet werden: ${error.message}`);
+  return (data as AiJob | null) ?? null;
+}
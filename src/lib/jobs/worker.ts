@@ -0,0 +1,155 @@
+/**
+ * Background job worker: claims due jobs from `ai_jobs`, runs the handler
+ * registered for the job type and records the outcome.
+ *
+ * - success → `done`, progress 100, handler result in `output_json`
+ * - failure → back to `queued` with exponential backoff (`run_after`) until
+ *   `max_attempts` is used up, then `failed`; `PermanentJobError` fails at once
+ * - cancellation → `cancelled` (checked at every `ctx.progress()` call)
+ * - stale (worker died mid-job) → reclaimed, or `failed` once the attempts
+ *   are used up
+ *
+ * Triggered by the scheduled Netlify function, POST /api/admin/jobs/worker
+ * or `npm run jobs:worker`.
+ */
+
+import { randomUUID } from "crypto";
+import { JobCancelledError, PermanentJobError, retryDelayMs, type JobContext, type JobDefinition } from "./job";
+import { supabaseJobStore, type JobStore } from "./store";
+import type { AiJob, AiJobLogEntry, AiJobStatus } from "@/lib/types";
+
+export type JobOutcome = "done" | "retry" | "failed" | "cancelled";
+
+function logEntry(message: string, level: AiJobLogEntry["level"] = "info"): AiJobLogEntry {
+  return { at: new Date().toISOString(), level, message };
+}
+
+function createContext(job: AiJob, store: JobStore): JobContext {
+  return {
+    job,
+    async log(message, level = "info") {
+      await store.appendLog(job.id, logEntry(message, level));
+    },
+    async progress(percent, message) {
+      if (await store.isCancelRequested(job.id)) throw new JobCancelledError();
+      const progress = Math.max(0, Math.min(100, Math.round(percent)));
+      // Refreshing the lock keeps the job from being reclaimed as stale
+      await store.update(job.id, { progress, locked_at: new Date().toISOString() });
+      if (message) await store.appendLog(job.id, logEntry(message));
+    },
+  };
+}
+
+/** Run one claimed job to completion and store its outcome. */
+export async function processJob(
+  job: AiJob,
+  store: JobStore,
+  definitions: Record<string, JobDefinition>
+): Promise<JobOutcome> {
+  const finish = async (status: AiJobStatus, updates: Parameters<JobStore["update"]>[1]) =>
+    store.update(job.id, {
+      status,
+      locked_by: null,
+      locked_at: null,
+      ...(status === "queued" ? {} : { finished_at: new Date().toISOString() }),
+      ...updates,
+    });
+
+  const definition = definitions[job.type];
+  if (!definition) {
+    await store.appendLog(job.id, logEntry(`Unbekannter Job-Typ "${job.type}".`, "error"));
+    await finish("failed", { error: `Unbekannter Job-Typ "${job.type}".` });
+    return "failed";
+  }
+
+  const maxAttempts = definition.maxAttempts ?? job.max_attempts;
+  // Only a stale job reclaimed after its worker died gets here with more
+  // attempts than allowed – that worker never reached the retry logic below
+  if (job.attempts > maxAttempts) {
+    const message = `Worker hat sich nach ${maxAttempts} Versuchen nicht zurückgemeldet (Zeitlimit überschritten?).`;
+    await store.appendLog(job.id, logEntry(message, "error"));
+    await finish("failed", { error: message });
+    return "failed";
+  }
+
+  await store.appendLog(job.id, logEntry(`Versuch ${job.attempts} von ${maxAttempts} gestartet.`));
+
+  try {
+    const ctx = createContext(job, store);
+    if (await store.isCancelRequested(job.id)) throw new JobCancelledError();
+    const output = await definition.handler(job.input_json ?? {}, ctx);
+    await store.appendLog(job.id, logEntry("Abgeschlossen."));
+    await finish("done", { progress: 100, output_json: output, error: null });
+    return "done";
+  } catch (err) {
+    if (err instanceof JobCancelledError) {
+      await store.appendLog(job.id, logEntry("Abgebrochen.", "warn"));
+      await finish("cancelled", {});
+      return "cancelled";
+    }
+
+    const message = err instanceof Error ? err.message : String(err);
+    const permanent = err instanceof PermanentJobError;
+
+    if (!permanent && job.attempts < maxAttempts) {
+      const delay = retryDelayMs(job.attempts);
+      await store.appendLog(
+        job.id,
+        logEntry(`Fehlgeschlagen: ${message} – neuer Versuch in ${Math.round(delay / 1000)} s.`, "warn")
+      );
+      await finish("queued", { error: message, run_after: new Date(Date.now() + delay).toISOString() });
+      return "retry";
+    }
+
+    await store.appendLog(job.id, logEntry(`Fehlgeschlagen: ${message}`, "error"));
+    await finish("failed", { error: message });
+    return "failed";
+  }
+}
+
+export interface WorkerRunResult {
+  workerId: string;
+  processed: number;
+  outcomes: Record<JobOutcome, number>;
+}
+
+/**
+ * Claim and process jobs until the queue is empty or the time budget is
+ * used up. Jobs run one at a time; a job already started is finished even
+ * if it overruns the budget.
+ */
+export async function runWorker(
+  opts: {
+    workerId?: string;
+    batchSize?: number;
+    timeBudgetMs?: number;
+    store?: JobStore;
+    definitions?: Record<string, JobDefinition>;
+  } = {}
+): Promise<WorkerRunResult> {
+  const workerId = opts.workerId ?? `worker-${randomUUID().slice(0, 8)}`;
+  const batchSize = opts.batchSize ?? 1;
+  const deadline = Date.now() + (opts.timeBudgetMs ?? 20_000);
+  const store = opts.store ?? supabaseJobStore();
+  // Loaded lazily: the handlers pull in the AI and import modules
+  const definitions = opts.definitions ?? (await import("./handlers")).JOB_DEFINITIONS;
+
+  const result: WorkerRunResult = {
+    workerId,
+    processed: 0,
+    outcomes: { done: 0, retry: 0, failed: 0, cancelled: 0 },
+  };
+
+  while (Date.now() < deadline) {
+    const jobs = await store.claim(workerId, batchSize);
+    if (jobs.length === 0) break;
+
+    for (const job of jobs) {
+      const outcome = await processJob(job, store, definitions);
+      result.outcomes[outcome]++;
+      result.processed++;
+    }
+  }
+
+  return result;
+}
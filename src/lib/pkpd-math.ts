@@ -1,4 +1,9 @@
-import type { PharmacokineticRoute, Pharmacodynamics, PKCurvePoint } from "@/lib/types";
+import type {
+  PharmacokineticRoute,
+  Pharmacodynamics,
+  PKAdministration,
+  PKCurvePoint,
+} from "@/lib/types";
 
 // Normalize affinity_nm to 0..1 strength using log scale
 // Smaller Ki/IC50 = stronger binding = higher strength
@@ -49,6 +54,31 @@ export function concentrationIV(t_h: number, ke: number): number {
   return Math.exp(-ke * t_h);
 }
 
+// Zero-order (constant-rate) absorption over duration_h, one compartment
+// Input rate 1/duration_h, so the total absorbed amount matches a unit dose
+export function concentrationZeroOrder(t_h: number, duration_h: number, ke: number): number {
+  if (t_h <= 0) return 0;
+  if (duration_h <= 0) return concentrationIV(t_h, ke);
+  const scale = 1 / (ke * duration_h);
+  if (t_h <= duration_h) return scale * (1 - Math.exp(-ke * t_h));
+  return scale * (1 - Math.exp(-ke * duration_h)) * Math.exp(-ke * (t_h - duration_h));
+}
+
+// Two-compartment model with first-order absorption
+// Disposition C(t) ∝ f·e^(−αt) + (1−f)·e^(−βt), convolved with the absorption input
+export function concentrationTwoCompartment(
+  t_h: number,
+  ka: number,
+  alpha: number,
+  beta: number,
+  alphaFraction: number
+): number {
+  return (
+    alphaFraction * concentration(t_h, ka, alpha) +
+    (1 - alphaFraction) * concentration(t_h, ka, beta)
+  );
+}
+
 // Emax/Hill model: Effect = E0 + (Emax * C^h) / (EC50^h + C^h)
 export function emaxEffect(
   c: number,
@@ -63,72 +93,159 @@ export function emaxEffect(
   return e0 + (emax * ch) / (ec50h + ch);
 }
 
-interface CurveParams {
-  ke: number;
-  ka: number;
-  isIV: boolean;
+/** One exponential term of the disposition curve: weight · e^(−rate·t). */
+export interface ExponentialPhase {
+  weight: number;
+  rate: number;
+}
+
+export type AbsorptionInput =
+  | { type: "bolus" }
+  | { type: "first_order"; ka: number }
+  | { type: "zero_order"; duration_h: number };
+
+export interface CurveParams {
+  /** One phase for one-compartment, α and β phases for two-compartment */
+  phases: ExponentialPhase[];
+  input: AbsorptionInput;
+}
+
+type CurveVariant = "mean" | "low" | "high";
+
+/** Upper band: slower elimination and absorption than the fastest estimate. */
+const SLOW_ELIMINATION_FACTOR = 1.3;
+const SLOW_ABSORPTION_FACTOR = 0.7;
+
+function terminalRate(pk: PharmacokineticRoute): number {
+  if (pk.model === "two_compartment" && pk.beta_h && pk.beta_h > 0) return pk.beta_h;
+  const halfLife = pk.half_life_h ?? 4;
+  return Math.log(2) / halfLife;
+}
+
+function dispositionPhases(pk: PharmacokineticRoute, variant: CurveVariant): ExponentialPhase[] {
+  const slow = variant === "high" ? SLOW_ELIMINATION_FACTOR : 1;
+  const beta = terminalRate(pk);
+  // α must be the faster phase; otherwise fall back to one compartment
+  if (pk.model === "two_compartment" && pk.alpha_h && pk.alpha_h > beta) {
+    const f = Math.min(1, Math.max(0, pk.alpha_fraction ?? 0.5));
+    return [
+      { weight: f, rate: pk.alpha_h / slow },
+      { weight: 1 - f, rate: beta / slow },
+    ];
+  }
+  return [{ weight: 1, rate: beta / slow }];
+}
+
+// ka from the stored value or, for two-compartment models approximately,
+// from t_max against the terminal rate
+function firstOrderKa(pk: PharmacokineticRoute, useLow: boolean, ke: number): number {
+  if (pk.ka_h && pk.ka_h > ke) return pk.ka_h;
+  const tmaxMin = useLow
+    ? (pk.tmax_min ?? 60)
+    : (pk.tmax_max ?? pk.tmax_min ?? 90);
+  return solveKa(ke, tmaxMin / 60);
 }
 
-function deriveCurveParams(
+export function deriveCurveParams(
   pk: PharmacokineticRoute,
-  useLow: boolean
+  variant: CurveVariant
 ): CurveParams {
-  const halfLife = pk.half_life_h ?? 4;
-  const ke = Math.log(2) / halfLife;
+  const phases = dispositionPhases(pk, variant);
 
   if (pk.route === "iv") {
-    return { ke, ka: ke * 100, isIV: true };
+    return { phases, input: { type: "bolus" } };
   }
 
-  if (pk.ka_h && pk.ka_h > ke) {
-    return { ke, ka: pk.ka_h, isIV: false };
+  if (pk.absorption === "zero_order" && pk.absorption_duration_min) {
+    return { phases, input: { type: "zero_order", duration_h: pk.absorption_duration_min / 60 } };
   }
 
-  const tmaxMin = useLow
-    ? (pk.tmax_min ?? 60)
-    : (pk.tmax_max ?? pk.tmax_min ?? 90);
-  const tmax_h = tmaxMin / 60;
-  const ka = solveKa(ke, tmax_h);
-  return { ke, ka, isIV: false };
+  const ke = terminalRate(pk);
+  const ka = variant === "high"
+    ? firstOrderKa(pk, true, ke) * SLOW_ABSORPTION_FACTOR
+    : firstOrderKa(pk, variant === "low", ke);
+  return { phases, input: { type: "first_order", ka } };
+}
+
+function phaseResponse(t_h: number, rate: number, input: AbsorptionInput): number {
+  switch (input.type) {
+    case "bolus":
+      return concentrationIV(t_h, rate);
+    case "zero_order":
+      return concentrationZeroOrder(t_h, input.duration_h, rate);
+    case "first_order":
+      return concentration(t_h, input.ka, rate);
+  }
 }
 
+export function singleDoseConcentration(t_h: number, params: CurveParams): number {
+  if (t_h < 0) return 0;
+  let c = 0;
+  for (const phase of params.phases) {
+    c += phase.weight * phaseResponse(t_h, phase.rate, params.input);
+  }
+  return c;
+}
+
+// Linear superposition: C(t) = Σ scaleᵢ · c(t − offsetᵢ)
+export function superposedConcentration(
+  t_h: number,
+  params: CurveParams,
+  administrations: PKAdministration[]
+): number {
+  let c = 0;
+  for (const a of administrations) {
+    c += (a.dose_scale ?? 1) * singleDoseConcentration(t_h - a.offset_min / 60, params);
+  }
+  return c;
+}
+
+// Peak of a single unit dose; used to normalize so that one dose peaks at 1
+function singleDosePeak(params: CurveParams, totalMinutes: number, steps: number): number {
+  let peak = 0;
+  for (let i = 0; i <= steps; i++) {
+    const c = singleDoseConcentration((i * totalMinutes) / steps / 60, params);
+    if (c > peak) peak = c;
+  }
+  return peak;
+}
+
+const STEPS_PER_DOSE_WINDOW = 120;
+const MAX_STEPS = 480;
+
+/**
+ * Relative PK/PD time course for one or more administrations.
+ *
+ * Each administration is a single dose at `offset_min`, scaled by
+ * `dose_scale`; concentrations are superimposed linearly. Concentrations are
+ * relative to the peak of a single dose, so redoses can stack above 1.
+ */
 export function computePKCurve(
   pk: PharmacokineticRoute,
   pd: Pharmacodynamics | null,
-  doseScale = 1
+  doseScale = 1,
+  administrations: PKAdministration[] = [{ offset_min: 0 }]
 ): PKCurvePoint[] {
+  const doses = administrations.length > 0 ? administrations : [{ offset_min: 0 }];
+  const lastOffset = Math.max(0, ...doses.map((a) => a.offset_min));
+
   const durationMax = (pk.duration_max ?? pk.duration_min ?? 360) +
     (pk.after_effects_max ?? 0);
-  const totalMinutes = Math.max(durationMax + 60, 120);
-  const steps = 120;
+  const singleMinutes = Math.max(durationMax + 60, 120);
+  const totalMinutes = lastOffset + singleMinutes;
+  const steps = Math.min(
+    MAX_STEPS,
+    Math.ceil((STEPS_PER_DOSE_WINDOW * totalMinutes) / singleMinutes)
+  );
   const dt = totalMinutes / steps;
 
-  const meanParams = deriveCurveParams(pk, false);
-  const lowParams = deriveCurveParams(pk, true);
-  const highParams: CurveParams = {
-    ke: Math.log(2) / (pk.half_life_h ? pk.half_life_h * 1.3 : 5.2),
-    ka: lowParams.ka * 0.7,
-    isIV: pk.route === "iv",
-  };
+  const meanParams = deriveCurveParams(pk, "mean");
+  const lowParams = deriveCurveParams(pk, "low");
+  const highParams = deriveCurveParams(pk, "high");
 
-  let peakMean = 0;
-  let peakLow = 0;
-  let peakHigh = 0;
-  for (let i = 0; i <= steps; i++) {
-    const t_h = (i * dt) / 60;
-    const cm = meanParams.isIV
-      ? concentrationIV(t_h, meanParams.ke)
-      : concentration(t_h, meanParams.ka, meanParams.ke);
-    const cl = lowParams.isIV
-      ? concentrationIV(t_h, lowParams.ke)
-      : concentration(t_h, lowParams.ka, lowParams.ke);
-    const ch = highParams.isIV
-      ? concentrationIV(t_h, highParams.ke)
-      : concentration(t_h, highParams.ka, highParams.ke);
-    if (cm > peakMean) peakMean = cm;
-    if (cl > peakLow) peakLow = cl;
-    if (ch > peakHigh) peakHigh = ch;
-  }
+  const peakMean = singleDosePeak(meanParams, singleMinutes, STEPS_PER_DOSE_WINDOW);
+  const peakLow = singleDosePeak(lowParams, singleMinutes, STEPS_PER_DOSE_WINDOW);
+  const peakHigh = singleDosePeak(highParams, singleMinutes, STEPS_PER_DOSE_WINDOW);
 
   const normalize = (c: number, peak: number) =>
     peak > 0 ? (c / peak) * doseScale : 0;
@@ -150,29 +267,15 @@ export function computePKCurve(
   for (let i = 0; i <= steps; i++) {
     const t_min = i * dt;
     const t_h = t_min / 60;
-    const cm = normalize(
-      meanParams.isIV
-        ? concentrationIV(t_h, meanParams.ke)
-        : concentration(t_h, meanParams.ka, meanParams.ke),
-      peakMean
-    );
-    const cl = normalize(
-      lowParams.isIV
-        ? concentrationIV(t_h, lowParams.ke)
-        : concentration(t_h, lowParams.ka, lowParams.ke),
-      peakLow
-    );
-    const ch = normalize(
-      highParams.isIV
-        ? concentrationIV(t_h, highParams.ke)
-        : concentration(t_h, highParams.ka, highParams.ke),
-      peakHigh
-    );
+    const cm = normalize(superposedConcentration(t_h, meanParams, doses), peakMean);
+    const cl = normalize(superposedConcentration(t_h, lowParams, doses), peakLow);
+    const ch = normalize(superposedConcentration(t_h, highParams, doses), peakHigh);
     points.push({
       t: Math.round(t_min),
       mean: Math.round(toEffect(cm) * 10) / 10,
       low: Math.round(toEffect(Math.min(cl, ch)) * 10) / 10,
       high: Math.round(toEffect(Math.max(cl, ch)) * 10) / 10,
+      concentration: Math.round(cm * 1000) / 1000,
     });
   }
   return points;
@@ -193,3 +296,83 @@ export function computeDoseResponseCurve(
   }
   return points;
 }
+
+// ---------------------------------------------------------------------------
+// Tolerance
+// ---------------------------------------------------------------------------
+
+/** Default half-life (days) with which acquired tolerance fades after use. */
+export const TOLERANCE_HALF_LIFE_DAYS = 7;
+
+/** Upper bound for the EC50 shift; the linear model is not meaningful beyond. */
+export const MAX_TOLERANCE_FACTOR = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ToleranceEstimate {
+  /** Multiplier on EC50 (1 = no tolerance) */
+  ec50_factor: number;
+  /** Distinct days with use in the given history */
+  use_days: number;
+  /** Whole days since the most recent use; null without use */
+  days_since_last_use: number | null;
+}
+
+/**
+ * Estimate tolerance from dosing history.
+ *
+ * Every day with at least one use raises EC50 by `shiftPerDay` (fraction,
+ * e.g. 0.1 = +10 %); each contribution halves every `halfLifeDays`. Several
+ * doses on one day count once. Timestamps after `now` are ignored.
+ */
+export function estimateTolerance(
+  shiftPerDay: number | null,
+  takenAt: string[],
+  now: Date,
+  halfLifeDays = TOLERANCE_HALF_LIFE_DAYS
+): ToleranceEstimate {
+  const daysAgo = new Set<number>();
+  for (const ts of takenAt) {
+    const diff = now.getTime() - new Date(ts).getTime();
+    if (Number.isFinite(diff) && diff >= 0) daysAgo.add(Math.floor(diff / DAY_MS));
+  }
+
+  const days_since_last_use = daysAgo.size > 0 ? Math.min(...daysAgo) : null;
+  if (!shiftPerDay || shiftPerDay <= 0 || halfLifeDays <= 0) {
+    return { ec50_factor: 1, use_days: daysAgo.size, days_since_last_use };
+  }
+
+  let shift = 0;
+  for (const d of daysAgo) {
+    shift += shiftPerDay * Math.pow(0.5, d / halfLifeDays);
+  }
+  return {
+    ec50_factor: Math.min(MAX_TOLERANCE_FACTOR, 1 + shift),
+    use_days: daysAgo.size,
+    days_since_last_use,
+  };
+}
+
+/**
+ * Dose-response curve on a relative dose axis (multiples of the baseline
+ * EC50), without and with an EC50 shift. Independent of absolute amounts.
+ */
+export function computeRelativeDoseResponseCurve(
+  pd: Pharmacodynamics,
+  ec50Factor = 1,
+  maxRelDose = 8,
+  steps = 100
+): { dose: number; effect: number; tolerant: number }[] {
+  const points = [];
+  for (let i = 0; i <= steps; i++) {
+    const dose = (i / steps) * maxRelDose;
+    const effect = emaxEffect(dose, pd.emax, 1, pd.hill_h, pd.baseline_e0);
+    const tolerant = emaxEffect(dose, pd.emax, ec50Factor, pd.hill_h, pd.baseline_e0);
+    points.push({
+      dose: Math.round(dose * 100) / 100,
+      effect: Math.round(effect * 10) / 10,
+      tolerant: Math.round(tolerant * 10) / 10,
+    });
+  }
+  return points;
+}
@@ -0,0 +1,250 @@
+import { describe, it, expect } from "vitest";
+import { computeRiskOverlay } from "../compute";
+import { residualFraction, selectPKRoute, mapLogRoute, activeWindowHours } from "../pk";
+import type { DosingLogEntry } from "../models";
+import type { RiskPKLookup, RiskPKRoute } from "../pk";
+import { classifyDose, convertDose, normalizeDose } from "../dose";
+import type { DoseReferenceLookup } from "../dose";
+import { computeToleranceOverview } from "../tolerance";
+import type { RiskPDLookup } from "../tolerance";
+import { buildTaxonomy } from "@/lib/taxonomy/taxonomy";
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+function log(substance: string, hoursAgo: number, route: string | null = "oral"): DosingLogEntry {
+  return {
+    id: `${substance}-${hoursAgo}`,
+    substance,
+    dose_mg: null,
+    dose_g: null,
+    route,
+    notes: null,
+    taken_at: new Date(NOW.getTime() - hoursAgo * 3600_000).toISOString(),
+  };
+}
+
+function pkRow(partial: Partial<RiskPKRoute>): RiskPKRoute {
+  return {
+    route: "oral",
+    half_life_h: null,
+    ke_h: null,
+    duration_max: null,
+    after_effects_max: null,
+    ...partial,
+  };
+}
+
+describe("pk helpers", () => {
+  it("maps free-text routes", () => {
+    expect(mapLogRoute("vaporized")).toBe("smoked");
+    expect(mapLogRoute("Gesnieft")).toBe("nasal");
+    expect(mapLogRoute("unbekannt")).toBeNull();
+    expect(mapLogRoute(null)).toBeNull();
+  });
+
+  it("selects the exact route, then falls back to oral", () => {
+    const routes = [pkRow({ route: "nasal" }), pkRow({ route: "oral" })];
+    expect(selectPKRoute(routes, "gesnieft")).toEqual({ pk: routes[0], exact: true });
+    expect(selectPKRoute(routes, "iv")).toEqual({ pk: routes[1], exact: false });
+    // Unknown or missing route is a substitution too
+    expect(selectPKRoute(routes, "irgendwie")).toEqual({ pk: routes[1], exact: false });
+    expect(selectPKRoute(routes, null)).toEqual({ pk: routes[1], exact: false });
+    expect(selectPKRoute([], "oral")).toBeNull();
+  });
+
+  it("decays residual activity by half-life", () => {
+    const pk = pkRow({ half_life_h: 4, duration_max: 600, after_effects_max: 600 });
+    expect(residualFraction(pk, 0)).toBe(1);
+    expect(residualFraction(pk, 4)).toBeCloseTo(0.5);
+    expect(residualFraction(pk, 8)).toBeCloseTo(0.25);
+    expect(residualFraction(pk, 21)).toBe(0);
+  });
+
+  it("derives the active window from half-life when durations are missing", () => {
+    expect(activeWindowHours(pkRow({ ke_h: Math.LN2 / 10 }))).toBeCloseTo(50);
+    expect(activeWindowHours(pkRow({}))).toBeNull();
+  });
+});
+
+describe("computeRiskOverlay", () => {
+  it("falls back to category windows without PK data", () => {
+    const result = computeRiskOverlay(
+      [log("a-pvp", 1), log("a-pvp", 3), log("a-pvp", 13)],
+      NOW,
+    );
+    const stim = result.stacks.find((s) => s.type === "Stimulanzien");
+    expect(stim?.level).toBe("moderate");
+    expect(stim?.rationale).toContain("2 Einnahme(n) in den letzten 12 h");
+    expect(result.notes.some((n) => n.includes("a-pvp") && n.includes("pauschale Zeitfenster"))).toBe(true);
+  });
+
+  it("keeps phenibut active for 24 h without PK data", () => {
+    const result = computeRiskOverlay([log("phenibut", 20), log("kratom", 2)], NOW);
+    expect(result.stacks.some((s) => s.type === "GABAerg")).toBe(true);
+    expect(result.overall_level).toBe("critical");
+  });
+
+  it("lowers the stack level as earlier doses decay", () => {
+    const logs = [log("amphetamine", 1), log("amphetamine", 8), log("amphetamine", 9)];
+    const pk: RiskPKLookup = {
+      amphetamine: [pkRow({ half_life_h: 2, duration_max: 480, after_effects_max: 240 })],
+    };
+
+    const heuristic = computeRiskOverlay(logs, NOW);
+    const withPK = computeRiskOverlay(logs, NOW, { pk });
+
+    expect(heuristic.stacks[0].level).toBe("high");
+    expect(withPK.stacks[0].level).toBe("low");
+    expect(withPK.stacks[0].rationale).toContain("Halbwertszeit");
+    expect(withPK.notes.some((n) => n.includes("pauschale Zeitfenster"))).toBe(false);
+  });
+
+  it("keeps long half-life substances active beyond the heuristic window", () => {
+    const pk: RiskPKLookup = {
+      diazepam: [pkRow({ half_life_h: 40, duration_max: 720, after_effects_max: 2880 })],
+    };
+    const result = computeRiskOverlay([log("diazepam", 30)], NOW, { pk });
+    expect(result.stacks.some((s) => s.type === "GABAerg")).toBe(true);
+    expect(computeRiskOverlay([log("diazepam", 30)], NOW).stacks).toHaveLength(0);
+  });
+
+  it("uses PK durations for the stimulant rebound window", () => {
+    const pk: RiskPKLookup = {
+      "a-pvp": [pkRow({ route: "smoked", half_life_h: 1, duration_max: 120, after_effects_max: 240 })],
+    };
+    const result = computeRiskOverlay([log("a-pvp", 1, "vaporized")], NOW, { pk });
+    const window = result.rebound[0];
+    const taken = NOW.getTime() - 3600_000;
+    expect(new Date(window.window_start).getTime()).toBe(taken + 2 * 3600_000);
+    expect(new Date(window.window_end).getTime()).toBe(taken + 6 * 3600_000);
+  });
+});
+
+describe("dose weighting", () => {
+  const refs: DoseReferenceLookup = {
+    amphetamine: [{ route: null, unit: "mg", light_max: 10, common_max: 30, strong_max: 50 }],
+    gbl: [{ route: "oral", unit: "ml", light_max: 0.5, common_max: 1.5, strong_max: 2 }],
+  };
+
+  function dosed(substance: string, hoursAgo: number, dose: Partial<DosingLogEntry>): DosingLogEntry {
+    return { ...log(substance, hoursAgo), ...dose };
+  }
+
+  it("normalizes mg, g, µg and ml", () => {
+    expect(normalizeDose(dosed("x", 1, { dose_mg: 20 }))).toEqual({ amount: 20, unit: "mg" });
+    expect(normalizeDose(dosed("x", 1, { dose_g: 0.02 }))).toEqual({ amount: 20, unit: "mg" });
+    expect(normalizeDose(dosed("x", 1, { dose_ug: 150 }))).toEqual({ amount: 0.15, unit: "mg" });
+    expect(normalizeDose(dosed("x", 1, { dose_ml: 1 }))).toEqual({ amount: 1, unit: "ml" });
+    expect(normalizeDose(log("x", 1))).toBeNull();
+  });
+
+  it("converts GBL between mass and volume but not GHB", () => {
+    expect(convertDose({ amount: 1, unit: "ml" }, "mg", "gbl")).toBeCloseTo(1130);
+    expect(convertDose({ amount: 1130, unit: "mg" }, "ml", "gbl")).toBeCloseTo(1);
+    expect(convertDose({ amount: 1, unit: "ml" }, "mg", "ghb")).toBeNull();
+  });
+
+  it("classifies doses into qualitative bands", () => {
+    const ref = refs.amphetamine[0];
+    expect(classifyDose({ amount: 5, unit: "mg" }, ref, "amphetamine")).toBe("light");
+    expect(classifyDose({ amount: 30, unit: "mg" }, ref, "amphetamine")).toBe("common");
+    expect(classifyDose({ amount: 0.04, unit: "mg" }, ref, "amphetamine")).toBe("light");
+    expect(classifyDose({ amount: 80, unit: "mg" }, ref, "amphetamine")).toBe("heavy");
+    expect(classifyDose({ amount: 1, unit: "ml" }, ref, "amphetamine")).toBeNull();
+  });
+
+  it("scores small doses lower than large ones", () => {
+    const small = computeRiskOverlay(
+      [dosed("amphetamine", 1, { dose_mg: 5 }), dosed("amphetamine", 2, { dose_mg: 5 })],
+      NOW, { doseRefs: refs },
+    );
+    const large = computeRiskOverlay(
+      [dosed("amphetamine", 1, { dose_g: 0.08 }), dosed("amphetamine", 2, { dose_mg: 45 })],
+      NOW, { doseRefs: refs },
+    );
+    expect(small.stacks[0].level).toBe("low");
+    expect(large.stacks[0].level).toBe("high");
+    expect(large.warnings.some((w) => w.includes("deutlich über dem üblichen Referenzbereich"))).toBe(true);
+  });
+
+  it("keeps the output qualitative", () => {
+    const result = computeRiskOverlay([dosed("amphetamine", 1, { dose_mg: 45 })], NOW, { doseRefs: refs });
+    expect(result.stacks[0].rationale).toContain("1× hoch");
+    const text = JSON.stringify(result);
+    expect(text).not.toContain("30");
+    expect(text).not.toContain("50");
+  });
+
+  it("counts doses without a reference range and notes it", () => {
+    const result = computeRiskOverlay(
+      [dosed("ghb", 1, { dose_ml: 2 }), dosed("gbl", 2, { dose_ml: 1 })],
+      NOW, { doseRefs: refs },
+    );
+    const gaba = result.stacks.find((s) => s.type === "GABAerg");
+    expect(gaba?.rationale).toContain("1× üblich");
+    expect(result.notes.some((n) => n.includes("ghb") && n.includes("nur gezählt"))).toBe(true);
+  });
+});
+
+describe("taxonomy", () => {
+  it("classifies substances known only to the taxonomy", () => {
+    const taxonomy = buildTaxonomy([
+      { id: "id-oxy", name: "Oxycodon", slug: "oxycodon", aliases: [], categories: ["opioids"], tags: [] },
+    ]);
+    const result = computeRiskOverlay([log("Oxycodon", 1), log("phenibut", 2)], NOW, { taxonomy });
+    expect(result.stacks.some((s) => s.type === "Opioide")).toBe(true);
+    expect(result.overall_level).toBe("critical");
+    expect(result.unknown_substances).toEqual([]);
+  });
+
+  it("returns unknown substances instead of counting them", () => {
+    const result = computeRiskOverlay([log("Bromazolam", 1), log("Bromazolam", 2)], NOW);
+    expect(result.stacks).toHaveLength(0);
+    expect(result.unknown_substances).toEqual(["Bromazolam"]);
+  });
+
+  it("applies user-chosen categories", () => {
+    const result = computeRiskOverlay([log("Bromazolam", 1), log("kratom", 2)], NOW, {
+      categoryOverrides: { bromazolam: "gabaergic" },
+    });
+    expect(result.stacks.some((s) => s.type === "GABAerg")).toBe(true);
+    expect(result.unknown_substances).toEqual([]);
+    expect(result.overall_level).toBe("critical");
+  });
+});
+
+describe("tolerance overview", () => {
+  const pd: RiskPDLookup = {
+    ketamin: [{ route: null, tolerance_shift_per_day: 0.2 }],
+    cocaine: [
+      { route: null, tolerance_shift_per_day: 0.05 },
+      { route: "nasal", tolerance_shift_per_day: 0.15 },
+    ],
+  };
+
+  it("reports substances with a relevant EC50 shift, highest first", () => {
+    const history = [
+      log("Ketamin", 2, "nasal"),
+      log("ketamine", 26, "nasal"),
+      log("Kokain", 5, "nasal"),
+      log("mdma", 3),
+    ];
+    const result = computeToleranceOverview(history, NOW, { pd });
+    expect(result.map((t) => t.substance)).toEqual(["ketamin", "cocaine"]);
+    expect(result[0].use_days).toBe(2);
+    expect(result[0].ec50_factor).toBeGreaterThan(1.3);
+    // Route-specific shift wins over the route-independent row
+    expect(result[1].ec50_factor).toBeCloseTo(1.15, 2);
+  });
+
+  it("flags a break after regular use", () => {
+    const history = [8, 9, 10, 11].map((d) => log("ketamine", d * 24, "nasal"));
+    const [entry] = computeToleranceOverview(history, NOW, { pd });
+    expect(entry.days_since_last_use).toBe(8);
+    expect(entry.reduced_after_break).toBe(true);
+  });
+
+  it("returns nothing without PD data", () => {
+    expect(computeToleranceOverview([log("ketamine", 1)], NOW)).toEqual([]);
+  });
+});
@@ -1,6 +1,6 @@
 export type SubstanceCategory = "stimulant" | "opioid" | "gabaergic" | "cannabis" | "nicotine" | "psychedelic" | "dissociative" | "unknown";
 
-const SUBSTANCE_ALIASES: Record<string, string> = {
+export const SUBSTANCE_ALIASES: Record<string, string> = {
   "a-pvp": "a-pvp",
   "alpha pvp": "a-pvp",
   "alpha-pvp": "a-pvp",
@@ -59,7 +59,7 @@ const SUBSTANCE_ALIASES: Record<string, string> = {
   "dextromethorphan": "dxm",
 };
 
-const CATEGORY_MAP: Record<string, SubstanceCategory> = {
+export const CATEGORY_MAP: Record<string, SubstanceCategory> = {
   "a-pvp": "stimulant",
   "n-ethylpentedrone": "stimulant",
   "3-fluoroamphetamine": "stimulant",
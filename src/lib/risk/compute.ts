@@ -1,5 +1,34 @@
 import { DosingLogEntry, RiskLevel, RiskOverlayResult, StackEntry, ReboundWindow } from "./models";
-import { classifySubstance, SubstanceCategory } from "./categories";
+import { SubstanceCategory } from "./categories";
+import {
+  ActiveDose,
+  RiskPKLookup,
+  pkReboundHours,
+  residualFraction,
+  selectPKRoute,
+} from "./pk";
+import {
+  DOSE_BAND_LABELS,
+  DOSE_BAND_WEIGHTS,
+  DoseBand,
+  DoseReferenceLookup,
+  classifyDose,
+  normalizeDose,
+  selectDoseReference,
+} from "./dose";
+import { resolveSubstance, STATIC_TAXONOMY, type Taxonomy } from "@/lib/taxonomy/taxonomy";
+
+/** Reference data for `computeRiskOverlay`; everything is optional. */
+export interface RiskContext {
+  /** PK routes keyed by taxonomy key */
+  pk?: RiskPKLookup;
+  /** Dose reference ranges keyed by taxonomy key (server-side only) */
+  doseRefs?: DoseReferenceLookup;
+  /** Defaults to the static taxonomy; pass `getTaxonomy()` to include DB substances */
+  taxonomy?: Taxonomy;
+  /** User-chosen categories for substances the taxonomy does not know, keyed by taxonomy key */
+  categoryOverrides?: Record<string, SubstanceCategory>;
+}
 
 /** Hours since a given timestamp relative to `now`. */
 function hoursSince(takenAt: string, now: Date): number {
@@ -11,36 +40,180 @@ function addHours(date: Date, hours: number): string {
   return new Date(date.getTime() + hours * 3600_000).toISOString();
 }
 
-function bucketByCategory(logs: DosingLogEntry[]): Map<SubstanceCategory, DosingLogEntry[]> {
-  const map = new Map<SubstanceCategory, DosingLogEntry[]>();
-  for (const log of logs) {
-    const cat = classifySubstance(log.substance);
-    if (!map.has(cat)) {
-      map.set(cat, []);
+/**
+ * Fallback activity windows per category, used when a substance has no
+ * pharmacokinetic data. GABAergic substances like phenibut have a long tail.
+ */
+const HEURISTIC_WINDOW_H: Record<SubstanceCategory, number> = {
+  stimulant: 12,
+  opioid: 12,
+  gabaergic: 24,
+  cannabis: 24,
+  nicotine: 24,
+  psychedelic: 12,
+  dissociative: 12,
+  unknown: 12,
+};
+
+function isVaporizedRoute(route: string | null): boolean {
+  const r = route?.toLowerCase();
+  return r === "vaporized" || r === "geraucht";
+}
+
+/** Substances that could not be fully modelled, reported in the result. */
+interface DataGaps {
+  missingPK: Set<string>;
+  missingDoseReference: Set<string>;
+  unknownCategory: Set<string>;
+}
+
+/** Qualitative dose band of a log entry, or null without dose or reference. */
+function doseBand(
+  entry: DosingLogEntry,
+  key: string,
+  doseRefs: DoseReferenceLookup,
+  gaps: DataGaps,
+): DoseBand | null {
+  const dose = normalizeDose(entry);
+  if (!dose) return null;
+  const ref = selectDoseReference(doseRefs[key], entry.route, dose, key);
+  const band = ref ? classifyDose(dose, ref, key) : null;
+  if (!band) gaps.missingDoseReference.add(entry.substance.trim());
+  return band;
+}
+
+/**
+ * Estimate which logged doses are still active at `now`.
+ * Doses with PK data get a residual fraction from their half-life and
+ * duration; others count fully inside the fixed category window. Each dose
+ * is weighted by its band relative to the substance's reference range.
+ */
+function estimateActiveDoses(
+  logs: DosingLogEntry[],
+  now: Date,
+  context: Required<Omit<RiskContext, "categoryOverrides">> & Pick<RiskContext, "categoryOverrides">,
+  gaps: DataGaps,
+): Map<SubstanceCategory, ActiveDose[]> {
+  const map = new Map<SubstanceCategory, ActiveDose[]>();
+  const { pk, doseRefs, taxonomy, categoryOverrides } = context;
+
+  for (const entry of logs) {
+    const since = hoursSince(entry.taken_at, now);
+    if (since < 0) continue;
+
+    const resolved = resolveSubstance(taxonomy, entry.substance);
+    const category = categoryOverrides?.[resolved.key] ?? resolved.category;
+    if (category === "unknown") {
+      // Not counted in any stack; reported so the user can pick a category
+      if (since <= HEURISTIC_WINDOW_H.unknown) gaps.unknownCategory.add(entry.substance.trim());
+      continue;
+    }
+
+    const selected = selectPKRoute(pk[resolved.key], entry.route);
+    const residual = selected ? residualFraction(selected.pk, since) : null;
+
+    let dose: Omit<ActiveDose, "band" | "weight"> | null = null;
+    if (selected && residual !== null) {
+      if (residual > 0) {
+        dose = { entry, hoursSince: since, residual, basis: "pk", pk: selected.pk };
+      }
+    } else if (since <= HEURISTIC_WINDOW_H[category]) {
+      gaps.missingPK.add(entry.substance.trim());
+      dose = { entry, hoursSince: since, residual: 1, basis: "heuristic", pk: null };
+    }
+
+    if (dose) {
+      const band = doseBand(entry, resolved.key, doseRefs, gaps);
+      const weight = band ? DOSE_BAND_WEIGHTS[band] : 1;
+      if (!map.has(category)) {
+        map.set(category, []);
+      }
+      map.get(category)!.push({ ...dose, band, weight });
     }
-    map.get(cat)!.push(log);
   }
+
   return map;
 }
 
-function computeStackLevel(count: number, hasVaporized: boolean): RiskLevel {
-  const effective = count + (hasVaporized ? 1 : 0);
+/**
+ * Cumulative load: residual fractions weighted by dose band — the estimated
+ * number of "fully active" common doses.
+ */
+function residualLoad(doses: ActiveDose[]): number {
+  return doses.reduce((sum, d) => sum + d.residual * d.weight, 0);
+}
+
+function computeStackLevel(load: number, hasVaporized: boolean): RiskLevel {
+  const effective = load + (hasVaporized ? 1 : 0);
   if (effective <= 1) return "low";
   if (effective <= 2) return "moderate";
   if (effective <= 4) return "high";
   return "critical";
 }
 
+function formatLoad(load: number): string {
+  return load.toLocaleString("de-DE", { maximumFractionDigits: 1 });
+}
+
+/** Qualitative dose summary, e.g. "Dosis: 1× hoch, 2× üblich". */
+function describeBands(doses: ActiveDose[]): string {
+  const counts = new Map<DoseBand, number>();
+  for (const d of doses) {
+    if (d.band) counts.set(d.band, (counts.get(d.band) ?? 0) + 1);
+  }
+  if (counts.size === 0) return "";
+  const order: DoseBand[] = ["heavy", "strong", "common", "light"];
+  const parts = order
+    .filter((band) => counts.has(band))
+    .map((band) => `${counts.get(band)}× ${DOSE_BAND_LABELS[band]}`);
+  return `; Dosis im Vergleich zum Referenzbereich: ${parts.join(", ")}`;
+}
+
+/** Human-readable description of how a category's doses were counted. */
+function describeDoses(doses: ActiveDose[], heuristicWindowH: number): string {
+  const withPK = doses.filter((d) => d.basis === "pk");
+  const bands = describeBands(doses);
+  if (withPK.length === 0) {
+    return `${doses.length} Einnahme(n) in den letzten ${heuristicWindowH} h${bands}`;
+  }
+  const load = residualLoad(doses);
+  return (
+    `${doses.length} noch aktive Einnahme(n), geschätzte Restwirkung ≈ ${formatLoad(load)} Einnahme(n)` +
+    (withPK.length < doses.length ? " (teilweise pauschal geschätzt)" : " (basierend auf Halbwertszeit)") +
+    bands
+  );
+}
+
+function latest(doses: ActiveDose[]): ActiveDose {
+  return doses.reduce((a, b) =>
+    new Date(a.entry.taken_at) > new Date(b.entry.taken_at) ? a : b
+  );
+}
+
 /**
  * Compute a harm-reduction risk overlay from dosing logs.
  *
+ * Substance names are resolved through the shared taxonomy
+ * (src/lib/taxonomy). Substances without a category are not counted and are
+ * returned in `unknown_substances` so the UI can ask the user to pick one.
+ *
+ * When `pk` contains pharmacokinetic data for a substance (keyed by the
+ * taxonomy key), each dose is weighted by how much of it is still
+ * active at `now`. Substances without PK data fall back to fixed category
+ * windows, which is reported in `notes`.
+ *
+ * When `doseRefs` contains reference ranges, each logged dose is weighted by
+ * its qualitative band (light/common/strong/heavy). Stack levels stay
+ * qualitative; reference values never appear in the result.
+ *
  * DISCLAIMER: This is educational only and NOT medical advice.
  * The output is intentionally conservative and cannot replace
  * professional medical assessment.
  */
 export function computeRiskOverlay(
   logs: DosingLogEntry[],
-  now: Date = new Date()
+  now: Date = new Date(),
+  context: RiskContext = {}
 ): RiskOverlayResult {
   const warnings: string[] = [];
   const stacks: StackEntry[] = [];
@@ -51,85 +224,96 @@ export function computeRiskOverlay(
     "Im Zweifelsfall oder bei schweren Symptomen: Notruf 112.",
   ];
 
-  // Filter logs by recency
-  const last12h = logs.filter((l) => hoursSince(l.taken_at, now) <= 12);
-  const last24h = logs.filter((l) => hoursSince(l.taken_at, now) <= 24);
-
-  const buckets12 = bucketByCategory(last12h);
-  const buckets24 = bucketByCategory(last24h);
+  const gaps: DataGaps = {
+    missingPK: new Set(),
+    missingDoseReference: new Set(),
+    unknownCategory: new Set(),
+  };
+  const active = estimateActiveDoses(
+    logs,
+    now,
+    {
+      pk: context.pk ?? {},
+      doseRefs: context.doseRefs ?? {},
+      taxonomy: context.taxonomy ?? STATIC_TAXONOMY,
+      categoryOverrides: context.categoryOverrides,
+    },
+    gaps,
+  );
+  const allActive = Array.from(active.values()).flat();
 
   // --- Stack Counter ---
 
-  // Stimulant stack (12h window)
-  const stimEntries = buckets12.get("stimulant") ?? [];
-  if (stimEntries.length > 0) {
-    const hasVaporized = stimEntries.some((e) => {
-      const route = e.route?.toLowerCase();
-      return route === "vaporized" || route === "geraucht";
-    });
-    const level = computeStackLevel(stimEntries.length, hasVaporized);
+  // Stimulant stack
+  const stimDoses = active.get("stimulant") ?? [];
+  if (stimDoses.length > 0) {
+    const hasVaporized = stimDoses.some((d) => isVaporizedRoute(d.entry.route));
+    const level = computeStackLevel(residualLoad(stimDoses), hasVaporized);
     stacks.push({
       type: "Stimulanzien",
       level,
-      rationale: `${stimEntries.length} Einnahme(n) in den letzten 12 h${hasVaporized ? " (inkl. vaporisiert – schnellerer Wirkeintritt)" : ""}.`,
+      rationale: `${describeDoses(stimDoses, HEURISTIC_WINDOW_H.stimulant)}${hasVaporized ? " (inkl. vaporisiert – schnellerer Wirkeintritt)" : ""}.`,
     });
     if (level === "high" || level === "critical") {
       warnings.push("Hohes Stimulanzien-Stacking: erhöhtes Risiko für Herzrasen, Bluthochdruck und Krampfanfälle.");
     }
   }
 
-  // Opioid stack (12h window)
-  const opioidEntries = buckets12.get("opioid") ?? [];
-  if (opioidEntries.length > 0) {
-    const level = computeStackLevel(opioidEntries.length, false);
+  // Opioid stack
+  const opioidDoses = active.get("opioid") ?? [];
+  if (opioidDoses.length > 0) {
+    const level = computeStackLevel(residualLoad(opioidDoses), false);
     stacks.push({
       type: "Opioide",
       level,
-      rationale: `${opioidEntries.length} Einnahme(n) in den letzten 12 h.`,
+      rationale: `${describeDoses(opioidDoses, HEURISTIC_WINDOW_H.opioid)}.`,
     });
     if (level === "high" || level === "critical") {
       warnings.push("Hohes Opioid-Stacking: Atemdepression möglich. Bei Atemnot sofort Notruf wählen.");
     }
   }
 
-  // GABAergic stack (24h window – phenibut has long tail)
-  const gabaEntries = buckets24.get("gabaergic") ?? [];
-  if (gabaEntries.length > 0) {
-    const level = computeStackLevel(gabaEntries.length, false);
+  // GABAergic stack
+  const gabaDoses = active.get("gabaergic") ?? [];
+  if (gabaDoses.length > 0) {
+    const level = computeStackLevel(residualLoad(gabaDoses), false);
+    const longTail = gabaDoses.some((d) => d.basis === "heuristic")
+      ? " (GABAerge Substanzen wie Phenibut wirken lang)"
+      : "";
     stacks.push({
       type: "GABAerg",
       level,
-      rationale: `${gabaEntries.length} Einnahme(n) in den letzten 24 h (GABAerge Substanzen wie Phenibut wirken lang).`,
+      rationale: `${describeDoses(gabaDoses, HEURISTIC_WINDOW_H.gabaergic)}${longTail}.`,
     });
     if (level === "high" || level === "critical") {
       warnings.push("Hohes GABAerges Stacking: Verstärkte Sedierung und Atemdepression möglich.");
     }
   }
 
-  // Cannabis (24h)
-  const cannabisEntries = buckets24.get("cannabis") ?? [];
-  if (cannabisEntries.length > 0) {
+  // Cannabis
+  const cannabisDoses = active.get("cannabis") ?? [];
+  if (cannabisDoses.length > 0) {
     stacks.push({
       type: "Cannabis",
-      level: cannabisEntries.length >= 3 ? "moderate" : "low",
-      rationale: `${cannabisEntries.length} Einnahme(n) in den letzten 24 h.`,
+      level: residualLoad(cannabisDoses) >= 3 ? "moderate" : "low",
+      rationale: `${describeDoses(cannabisDoses, HEURISTIC_WINDOW_H.cannabis)}.`,
     });
   }
 
-  // Nicotine (24h)
-  const nicotineEntries = buckets24.get("nicotine") ?? [];
-  if (nicotineEntries.length > 0) {
+  // Nicotine
+  const nicotineDoses = active.get("nicotine") ?? [];
+  if (nicotineDoses.length > 0) {
     stacks.push({
       type: "Nikotin",
       level: "low",
-      rationale: `${nicotineEntries.length} Einnahme(n) in den letzten 24 h.`,
+      rationale: `${describeDoses(nicotineDoses, HEURISTIC_WINDOW_H.nicotine)}.`,
     });
   }
 
-  // --- Cross-category interactions ---
+  // --- Cross-category interactions (only doses still active at `now`) ---
 
   // Opioid + GABAergic overlap → respiratory depression
-  if (opioidEntries.length > 0 && gabaEntries.length > 0) {
+  if (opioidDoses.length > 0 && gabaDoses.length > 0) {
     warnings.push(
       "⚠️ Opioide + GABAerge Substanzen gleichzeitig: HOHES Risiko für Atemdepression. " +
       "Keine weiteren Depressiva einnehmen. Im Notfall: 112."
@@ -137,7 +321,7 @@ export function computeRiskOverlay(
   }
 
   // Stimulant + Opioid overlap → masking
-  if (stimEntries.length > 0 && opioidEntries.length > 0) {
+  if (stimDoses.length > 0 && opioidDoses.length > 0) {
     warnings.push(
       "⚠️ Stimulanzien + Opioide: Stimulanzien können die Sedierung maskieren – " +
       "das Risiko einer Opioid-Überdosis bleibt bestehen oder steigt, wenn das Stimulans nachlässt."
@@ -145,7 +329,7 @@ export function computeRiskOverlay(
   }
 
   // Stimulant + Cannabis → anxiety/paranoia
-  if (stimEntries.length > 0 && cannabisEntries.length > 0) {
+  if (stimDoses.length > 0 && cannabisDoses.length > 0) {
     warnings.push(
       "Stimulanzien + Cannabis: Erhöhtes Risiko für Angst, Paranoia und Herzrasen."
     );
@@ -154,49 +338,49 @@ export function computeRiskOverlay(
   // --- Rebound Predictor ---
 
   // Stimulant rebound
-  if (stimEntries.length > 0) {
-    const lastStim = stimEntries.reduce((a, b) =>
-      new Date(a.taken_at) > new Date(b.taken_at) ? a : b
-    );
-    const lastTime = new Date(lastStim.taken_at);
-    const lastRoute = lastStim.route?.toLowerCase();
-    const isVaporized = lastRoute === "vaporized" || lastRoute === "geraucht";
-    const startH = isVaporized ? 1 : 2;
-    const endH = isVaporized ? 6 : 10;
+  if (stimDoses.length > 0) {
+    const lastStim = latest(stimDoses);
+    const lastTime = new Date(lastStim.entry.taken_at);
+    const isVaporized = isVaporizedRoute(lastStim.entry.route);
+    const fromPK = lastStim.pk ? pkReboundHours(lastStim.pk) : null;
+    const startH = fromPK?.startH ?? (isVaporized ? 1 : 2);
+    const endH = fromPK?.endH ?? (isVaporized ? 6 : 10);
 
     rebound.push({
       window_start: addHours(lastTime, startH),
       window_end: addHours(lastTime, endH),
       risks: ["Rebound-Angst", "Schlaflosigkeit", "Stimmungstief", "Erschöpfung"],
-      rationale: `Stimulanzien-Rebound ca. ${startH}–${endH} h nach letzter Einnahme${isVaporized ? " (vaporisiert: kürzeres Fenster)" : ""}.`,
+      rationale: fromPK
+        ? `Stimulanzien-Rebound ca. ${formatLoad(startH)}–${formatLoad(endH)} h nach letzter Einnahme (Wirkdauer und Nachwirkung laut PK-Daten).`
+        : `Stimulanzien-Rebound ca. ${startH}–${endH} h nach letzter Einnahme${isVaporized ? " (vaporisiert: kürzeres Fenster)" : ""}.`,
     });
   }
 
   // Opioid discontinuation warning (broad range, no exact timing)
-  if (opioidEntries.length > 0) {
-    const lastOpioid = opioidEntries.reduce((a, b) =>
-      new Date(a.taken_at) > new Date(b.taken_at) ? a : b
-    );
-    const lastTime = new Date(lastOpioid.taken_at);
+  if (opioidDoses.length > 0) {
+    const lastOpioid = latest(opioidDoses);
+    const lastTime = new Date(lastOpioid.entry.taken_at);
+    const fromPK = lastOpioid.pk ? pkReboundHours(lastOpioid.pk) : null;
     rebound.push({
-      window_start: addHours(lastTime, 4),
-      window_end: addHours(lastTime, 48),
+      window_start: addHours(lastTime, fromPK?.startH ?? 4),
+      window_end: addHours(lastTime, Math.max(fromPK?.endH ?? 0, 48)),
       risks: ["Entzugssymptome möglich", "Unruhe", "Muskelschmerzen", "Schlafstörungen"],
       rationale:
-        "Opioid-Entzugsfenster ist sehr individuell (4–48 h+). " +
+        (fromPK
+          ? `Opioid-Entzugsfenster beginnt frühestens nach Ende der Wirkdauer (ca. ${formatLoad(fromPK.startH)} h) und kann 48 h+ andauern. `
+          : "Opioid-Entzugsfenster ist sehr individuell (4–48 h+). ") +
         "Keine genaue Vorhersage möglich – hängt von Substanz, Dauer des Gebrauchs und Toleranz ab.",
     });
   }
 
   // GABAergic rebound (longer window)
-  if (gabaEntries.length > 0) {
-    const lastGaba = gabaEntries.reduce((a, b) =>
-      new Date(a.taken_at) > new Date(b.taken_at) ? a : b
-    );
-    const lastTime = new Date(lastGaba.taken_at);
+  if (gabaDoses.length > 0) {
+    const lastGaba = latest(gabaDoses);
+    const lastTime = new Date(lastGaba.entry.taken_at);
+    const fromPK = lastGaba.pk ? pkReboundHours(lastGaba.pk) : null;
     rebound.push({
-      window_start: addHours(lastTime, 6),
-      window_end: addHours(lastTime, 72),
+      window_start: addHours(lastTime, fromPK?.startH ?? 6),
+      window_end: addHours(lastTime, Math.max(fromPK?.endH ?? 0, 72)),
       risks: ["Rebound-Angst", "Schlafstörungen", "Krampfanfälle (bei abruptem Absetzen)"],
       rationale:
         "GABAerge Substanzen können Rebound-Effekte über Tage zeigen. " +
@@ -204,11 +388,50 @@ export function computeRiskOverlay(
     });
   }
 
+  // Single dose far above the reference range
+  if (allActive.some((d) => d.band === "heavy")) {
+    warnings.push(
+      "Mindestens eine Einnahme liegt deutlich über dem üblichen Referenzbereich – erhöhtes Risiko für Überdosierung."
+    );
+  }
+
+  // --- Data basis ---
+  if (gaps.missingPK.size > 0) {
+    const names = Array.from(gaps.missingPK).join(", ");
+    notes.push(
+      `Für ${names} liegen keine pharmakokinetischen Daten vor – ` +
+      "es wurden pauschale Zeitfenster je Substanzklasse (12 h bzw. 24 h) verwendet."
+    );
+  }
+  if (allActive.some((d) => d.basis === "pk")) {
+    notes.push(
+      "Die Restwirkung wurde aus Halbwertszeit und Wirkdauer je Konsumform geschätzt."
+    );
+  }
+  if (allActive.some((d) => d.band !== null)) {
+    notes.push(
+      "Angegebene Dosen wurden qualitativ im Verhältnis zu Referenzbereichen gewichtet. " +
+      "Die Einstufung ist keine Dosierungsempfehlung."
+    );
+  }
+  if (gaps.missingDoseReference.size > 0) {
+    const names = Array.from(gaps.missingDoseReference).join(", ");
+    notes.push(
+      `Für ${names} konnte die Dosis keinem Referenzbereich zugeordnet werden – diese Einnahmen wurden nur gezählt.`
+    );
+  }
+  if (gaps.unknownCategory.size > 0) {
+    const names = Array.from(gaps.unknownCategory).join(", ");
+    notes.push(
+      `${names} konnte keiner Substanzklasse zugeordnet werden und ist in der Analyse nicht berücksichtigt.`
+    );
+  }
+
   // --- Determine overall level ---
   let overall_level: RiskLevel = "low";
 
   // Check cross-category danger combos first
-  if (opioidEntries.length > 0 && gabaEntries.length > 0) {
+  if (opioidDoses.length > 0 && gabaDoses.length > 0) {
     overall_level = "critical";
   } else {
     const stackLevels = stacks.map((s) => s.level);
@@ -234,5 +457,6 @@ export function computeRiskOverlay(
     stacks,
     rebound,
     notes,
+    unknown_substances: Array.from(gaps.unknownCategory),
   };
 }
@@ -0,0 +1,128 @@
+import type { PKRoute } from "@/lib/types";
+import type { DosingLogEntry } from "./models";
+import { mapLogRoute } from "./pk";
+
+/**
+ * Dose weighting for the cumulative-load model.
+ *
+ * Logged doses are compared against per-substance reference ranges from
+ * `substance_dose_references` and mapped to a qualitative band. Only the band
+ * (and its weight) leaves this module — reference values are never part of
+ * the overlay output.
+ */
+
+/** Canonical units after normalization: mass in mg, liquids (GHB/GBL) in ml. */
+export type DoseUnit = "mg" | "ml";
+
+export interface NormalizedDose {
+  amount: number;
+  unit: DoseUnit;
+}
+
+/** Reference range row; upper bounds of the light/common/strong bands. */
+export interface DoseReference {
+  route: PKRoute | null;
+  unit: DoseUnit;
+  light_max: number;
+  common_max: number;
+  strong_max: number;
+}
+
+/** Reference ranges keyed by the taxonomy key (see `resolveSubstance`). */
+export type DoseReferenceLookup = Record<string, DoseReference[]>;
+
+export type DoseBand = "light" | "common" | "strong" | "heavy";
+
+export const DOSE_BAND_LABELS: Record<DoseBand, string> = {
+  light: "niedrig",
+  common: "üblich",
+  strong: "hoch",
+  heavy: "sehr hoch",
+};
+
+/**
+ * Weight of a dose in the cumulative load. A dose without a known dose or
+ * reference counts as 1 — the same as the previous count-based model.
+ */
+export const DOSE_BAND_WEIGHTS: Record<DoseBand, number> = {
+  light: 0.5,
+  common: 1,
+  strong: 1.5,
+  heavy: 2.5,
+};
+
+/**
+ * Densities (g/ml) of liquids that are logged by volume. GHB is usually a
+ * solution of unknown concentration, so it has no entry and ml/mg cannot be
+ * converted.
+ */
+const LIQUID_DENSITY_G_PER_ML: Record<string, number> = {
+  gbl: 1.13,
+  "1,4-butanediol": 1.02,
+};
+
+/**
+ * Normalize the dose columns of a log entry to mg or ml. The first filled
+ * column wins in the order mg, g, µg, ml. Returns null without a usable dose.
+ */
+export function normalizeDose(entry: DosingLogEntry): NormalizedDose | null {
+  const valid = (v: number | null | undefined): v is number =>
+    typeof v === "number" && Number.isFinite(v) && v > 0;
+
+  if (valid(entry.dose_mg)) return { amount: entry.dose_mg, unit: "mg" };
+  if (valid(entry.dose_g)) return { amount: entry.dose_g * 1000, unit: "mg" };
+  if (valid(entry.dose_ug)) return { amount: entry.dose_ug / 1000, unit: "mg" };
+  if (valid(entry.dose_ml)) return { amount: entry.dose_ml, unit: "ml" };
+  return null;
+}
+
+/**
+ * Convert a normalized dose to `unit`. mg ↔ ml only works for liquids with a
+ * known density; returns null otherwise.
+ */
+export function convertDose(
+  dose: NormalizedDose,
+  unit: DoseUnit,
+  substanceKey: string,
+): number | null {
+  if (dose.unit === unit) return dose.amount;
+  const density = LIQUID_DENSITY_G_PER_ML[substanceKey];
+  if (!density) return null;
+  return unit === "mg" ? dose.amount * density * 1000 : dose.amount / (density * 1000);
+}
+
+/**
+ * Pick the reference range for a dose: same route first, then a
+ * route-independent row, then any row. Rows whose unit cannot be converted
+ * are skipped.
+ */
+export function selectDoseReference(
+  refs: DoseReference[] | undefined,
+  logRoute: string | null,
+  dose: NormalizedDose,
+  substanceKey: string,
+): DoseReference | null {
+  if (!refs || refs.length === 0) return null;
+  const usable = refs.filter((r) => convertDose(dose, r.unit, substanceKey) !== null);
+  const route = mapLogRoute(logRoute);
+  return (
+    (route ? usable.find((r) => r.route === route) : undefined) ??
+    usable.find((r) => r.route === null) ??
+    usable[0] ??
+    null
+  );
+}
+
+/** Classify a dose against a reference range. */
+export function classifyDose(
+  dose: NormalizedDose,
+  ref: DoseReference,
+  substanceKey: string,
+): DoseBand | null {
+  const amount = convertDose(dose, ref.unit, substanceKey);
+  if (amount === null) return null;
+  if (amount <= ref.light_max) return "light";
+  if (amount <= ref.common_max) return "common";
+  if (amount <= ref.strong_max) return "strong";
+  return "heavy";
+}
@@ -19,6 +19,23 @@ export interface RiskOverlayResult {
   stacks: StackEntry[];
   rebound: ReboundWindow[];
   notes: string[];
+  /** Logged names the taxonomy could not classify; not counted in any stack */
+  unknown_substances: string[];
+}
+
+/**
+ * Estimated tolerance for one substance, relative only: how far the
+ * concentration-effect curve is shifted, never an amount.
+ */
+export interface ToleranceEntry {
+  substance: string;
+  /** Multiplier on EC50 (1 = no tolerance) */
+  ec50_factor: number;
+  /** Days with use in the history window */
+  use_days: number;
+  days_since_last_use: number | null;
+  /** Regular use followed by a break: tolerance has dropped noticeably */
+  reduced_after_break: boolean;
 }
 
 export interface DosingLogEntry {
@@ -26,6 +43,9 @@ export interface DosingLogEntry {
   substance: string;
   dose_mg: number | null;
   dose_g: number | null;
+  dose_ug?: number | null;
+  /** Liquids logged by volume (GHB/GBL) */
+  dose_ml?: number | null;
   route: string | null;
   notes: string | null;
   taken_at: string; // ISO timestamp
@@ -0,0 +1,131 @@
+import type { PharmacokineticRoute, PKRoute } from "@/lib/types";
+import type { DosingLogEntry } from "./models";
+import type { DoseBand } from "./dose";
+
+/**
+ * Pharmacokinetic data per substance, keyed by the taxonomy key
+ * (see `resolveSubstance`). Only the fields used by the risk engine are
+ * required so callers can pass full `pharmacokinetics_routes` rows.
+ */
+export type RiskPKRoute = Pick<
+  PharmacokineticRoute,
+  "route" | "half_life_h" | "ke_h" | "duration_max" | "after_effects_max"
+>;
+
+export type RiskPKLookup = Record<string, RiskPKRoute[]>;
+
+/** Below this fraction a dose is no longer considered active. */
+export const RESIDUAL_FLOOR = 0.05;
+
+/** Half-lives after which a dose is treated as eliminated when no duration is known. */
+const HALF_LIVES_TO_ELIMINATION = 5;
+
+const ROUTE_ALIASES: Record<string, PKRoute> = {
+  oral: "oral",
+  geschluckt: "oral",
+  nasal: "nasal",
+  gesnieft: "nasal",
+  insufflated: "nasal",
+  snorted: "nasal",
+  iv: "iv",
+  intravenös: "iv",
+  intravenous: "iv",
+  injected: "iv",
+  smoked: "smoked",
+  geraucht: "smoked",
+  vaporized: "smoked",
+  vaporisiert: "smoked",
+  inhaled: "smoked",
+  sublingual: "sublingual",
+  buccal: "sublingual",
+};
+
+/**
+ * Map a free-text log route ("geraucht", "vaporized", …) to a PK route.
+ */
+export function mapLogRoute(route: string | null): PKRoute | null {
+  if (!route) return null;
+  return ROUTE_ALIASES[route.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Pick the PK row for a log entry: exact route first, then oral, then any.
+ * Returns `exact: false` when the route had to be substituted.
+ */
+export function selectPKRoute(
+  routes: RiskPKRoute[] | undefined,
+  logRoute: string | null,
+): { pk: RiskPKRoute; exact: boolean } | null {
+  if (!routes || routes.length === 0) return null;
+  const wanted = mapLogRoute(logRoute);
+  const match = wanted ? routes.find((r) => r.route === wanted) : undefined;
+  if (match) return { pk: match, exact: true };
+  const fallback = routes.find((r) => r.route === "oral") ?? routes[0];
+  return { pk: fallback, exact: false };
+}
+
+/** Effective half-life in hours from `half_life_h` or `ke_h`. */
+export function effectiveHalfLife(pk: RiskPKRoute): number | null {
+  if (pk.half_life_h && pk.half_life_h > 0) return pk.half_life_h;
+  if (pk.ke_h && pk.ke_h > 0) return Math.LN2 / pk.ke_h;
+  return null;
+}
+
+/**
+ * Hours after intake during which the dose still counts (effect duration plus
+ * after-effects). Falls back to five half-lives when durations are missing.
+ * Returns null if the row has neither.
+ */
+export function activeWindowHours(pk: RiskPKRoute): number | null {
+  if (pk.duration_max && pk.duration_max > 0) {
+    return (pk.duration_max + (pk.after_effects_max ?? 0)) / 60;
+  }
+  const t12 = effectiveHalfLife(pk);
+  return t12 ? t12 * HALF_LIVES_TO_ELIMINATION : null;
+}
+
+/**
+ * Estimated fraction (0–1) of a dose still active `hoursSince` hours after
+ * intake. Uses first-order elimination when a half-life is known, otherwise
+ * a linear decline over the active window. Returns null if the PK row has
+ * no usable timing data.
+ */
+export function residualFraction(pk: RiskPKRoute, hoursSince: number): number | null {
+  if (hoursSince < 0) return 0;
+  const window = activeWindowHours(pk);
+  if (window === null) return null;
+  if (hoursSince > window) return 0;
+
+  const t12 = effectiveHalfLife(pk);
+  const fraction = t12 !== null ? Math.pow(0.5, hoursSince / t12) : 1 - hoursSince / window;
+  return fraction < RESIDUAL_FLOOR ? 0 : Math.min(1, fraction);
+}
+
+/**
+ * Rebound / after-effect window from PK data: from the end of the acute
+ * effect until after-effects (or two further half-lives) have passed.
+ * Returns hour offsets relative to intake, or null without duration data.
+ */
+export function pkReboundHours(pk: RiskPKRoute): { startH: number; endH: number } | null {
+  if (!pk.duration_max || pk.duration_max <= 0) return null;
+  const startH = pk.duration_max / 60;
+  const t12 = effectiveHalfLife(pk);
+  const tailH = Math.max((pk.after_effects_max ?? 0) / 60, t12 ? 2 * t12 : 0);
+  if (tailH <= 0) return null;
+  return { startH, endH: startH + tailH };
+}
+
+/** Normalized log entry with its PK estimate. */
+export interface ActiveDose {
+  entry: DosingLogEntry;
+  hoursSince: number;
+  /** Estimated active fraction (0–1); 1 for heuristic entries inside the window */
+  residual: number;
+  /** "pk" when estimated from PK data, "heuristic" for fixed category windows */
+  basis: "pk" | "heuristic";
+  pk: RiskPKRoute | null;
+  /** Dose band relative to the reference range; null if dose or reference is missing */
+  band: DoseBand | null;
+  /** Weight in the cumulative load (see `DOSE_BAND_WEIGHTS`) */
+  weight: number;
+}
@@ -0,0 +1,94 @@
+import type { Pharmacodynamics } from "@/lib/types";
+import { estimateTolerance, TOLERANCE_HALF_LIFE_DAYS } from "@/lib/pkpd-math";
+import { resolveSubstance, STATIC_TAXONOMY, type Taxonomy } from "@/lib/taxonomy/taxonomy";
+import type { DosingLogEntry, ToleranceEntry } from "./models";
+import { mapLogRoute } from "./pk";
+
+/**
+ * Tolerance overview for the account risk page.
+ *
+ * Uses `Pharmacodynamics.tolerance_shift_per_day` and the dosing history to
+ * estimate how far EC50 is currently shifted per substance (see
+ * `estimateTolerance`). The output is a relative factor only.
+ */
+
+/** PD rows keyed by the taxonomy key (see `resolveSubstance`). */
+export type RiskPDLookup = Record<
+  string,
+  Pick<Pharmacodynamics, "route" | "tolerance_shift_per_day">[]
+>;
+
+/** History needed for the estimate: after six half-lives less than 2 % remain. */
+export const TOLERANCE_LOOKBACK_DAYS = TOLERANCE_HALF_LIFE_DAYS * 6;
+
+/** Use days and break length after which the break hint is shown. */
+const BREAK_MIN_USE_DAYS = 3;
+const BREAK_MIN_DAYS = 7;
+
+/** Factors below this are reported as "no relevant tolerance" and omitted. */
+const MIN_REPORTED_FACTOR = 1.05;
+
+/**
+ * Tolerance shift for a substance: the row for the most used route first,
+ * then a route-independent row, then any row with a value.
+ */
+function selectShift(rows: RiskPDLookup[string] | undefined, routes: (string | null)[]): number | null {
+  const withShift = (rows ?? []).filter((r) => r.tolerance_shift_per_day && r.tolerance_shift_per_day > 0);
+  if (withShift.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  for (const route of routes) {
+    const mapped = mapLogRoute(route);
+    if (mapped) counts.set(mapped, (counts.get(mapped) ?? 0) + 1);
+  }
+  const mainRoute = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  const row =
+    (mainRoute ? withShift.find((r) => r.route === mainRoute) : undefined) ??
+    withShift.find((r) => r.route === null) ??
+    withShift[0];
+  return row.tolerance_shift_per_day;
+}
+
+/**
+ * Estimate tolerance per substance from the dosing history. Substances
+ * without a tolerance shift or with a negligible factor are omitted; the
+ * result is sorted by factor, highest first.
+ */
+export function computeToleranceOverview(
+  history: DosingLogEntry[],
+  now: Date,
+  context: { pd?: RiskPDLookup; taxonomy?: Taxonomy } = {},
+): ToleranceEntry[] {
+  const taxonomy = context.taxonomy ?? STATIC_TAXONOMY;
+  const groups = new Map<string, { name: string; entries: DosingLogEntry[] }>();
+  for (const entry of history) {
+    const resolved = resolveSubstance(taxonomy, entry.substance);
+    const group = groups.get(resolved.key) ?? { name: resolved.name, entries: [] };
+    group.entries.push(entry);
+    groups.set(resolved.key, group);
+  }
+
+  const result: ToleranceEntry[] = [];
+  for (const [key, group] of groups) {
+    const shift = selectShift(context.pd?.[key], group.entries.map((e) => e.route));
+    if (shift === null) continue;
+
+    const estimate = estimateTolerance(shift, group.entries.map((e) => e.taken_at), now);
+    const reducedAfterBreak =
+      estimate.use_days >= BREAK_MIN_USE_DAYS &&
+      estimate.days_since_last_use !== null &&
+      estimate.days_since_last_use >= BREAK_MIN_DAYS;
+    if (estimate.ec50_factor < MIN_REPORTED_FACTOR && !reducedAfterBreak) continue;
+
+    result.push({
+      substance: group.name,
+      ec50_factor: Math.round(estimate.ec50_factor * 100) / 100,
+      use_days: estimate.use_days,
+      days_since_last_use: estimate.days_since_last_use,
+      reduced_after_break: reducedAfterBreak,
+    });
+  }
+
+  return result.sort((a, b) => b.ec50_factor - a.ec50_factor);
+}
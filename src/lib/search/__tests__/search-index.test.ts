@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { foldGerman, stemGerman, analyze, stripMarkup } from "../text";
+import {
+  buildSearchIndex,
+  searchIndex,
+  editDistance,
+  groupResults,
+  type SearchDocument,
+} from "../search-index";
+import { buildSearchDocuments } from "../documents";
+import { allArticles } from "@/lib/articles";
+
+/* ------------------------------------------------------------------ */
+/*  Text analysis                                                     */
+/* ------------------------------------------------------------------ */
+
+describe("foldGerman", () => {
+  it("folds umlauts and their transliterations to the same form", () => {
+    expect(foldGerman("Ärzte")).toBe(foldGerman("Aerzte"));
+    expect(foldGerman("Übelkeit")).toBe(foldGerman("Uebelkeit"));
+    expect(foldGerman("Größe")).toBe("grosse");
+  });
+
+  it("keeps 'ue' after q", () => {
+    expect(foldGerman("Quetiapin")).toBe("quetiapin");
+  });
+});
+
+describe("stemGerman", () => {
+  it("reduces inflected forms to the same stem", () => {
+    expect(stemGerman("rezeptoren")).toBe(stemGerman("rezeptor"));
+    expect(stemGerman("halluzinationen")).toBe(stemGerman("halluzination"));
+    expect(stemGerman("psychedelischen")).toBe(stemGerman("psychedelisch"));
+  });
+
+  it("leaves short words and identifiers untouched", () => {
+    expect(stemGerman("ghb")).toBe("ghb");
+    expect(stemGerman("5-ht2a")).toBe("5-ht2a");
+  });
+});
+
+describe("analyze", () => {
+  it("drops stop words and splits hyphenated tokens", () => {
+    const terms = analyze("Der NMDA-Antagonist und die Rezeptoren");
+    expect(terms).not.toContain("der");
+    expect(terms).toContain("nmda");
+    expect(terms).toContain(stemGerman("antagonist"));
+    expect(terms).toContain(stemGerman("rezeptoren"));
+  });
+});
+
+describe("stripMarkup", () => {
+  it("removes headings, links and JSX tags", () => {
+    const text = stripMarkup("## Wirkung\n\nSiehe [Serotonin](/glossary/serotonin). <RiskBanner level=\"high\" />");
+    expect(text).toBe("Wirkung Siehe Serotonin.");
+  });
+});
+
+describe("editDistance", () => {
+  it("counts adjacent transpositions as one edit", () => {
+    expect(editDistance("ketamin", "ketamni")).toBe(1);
+    expect(editDistance("psilocybin", "psilocibyn")).toBe(2);
+  });
+
+  it("stops early beyond the maximum", () => {
+    expect(editDistance("mdma", "kokain", 1)).toBe(2);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Index                                                             */
+/* ------------------------------------------------------------------ */
+
+const docs: SearchDocument[] = [
+  {
+    id: "substance:ketamin",
+    type: "substance",
+    title: "Ketamin",
+    href: "/articles/ketamin",
+    aliases: ["ketamine", "special k"],
+    summary: "Dissoziatives Anästhetikum, NMDA-Rezeptor-Antagonist.",
+    body: "Ketamin wird in der Narkose eingesetzt.",
+  },
+  {
+    id: "substance:mdma",
+    type: "substance",
+    title: "MDMA",
+    href: "/articles/mdma",
+    aliases: ["ecstasy", "molly"],
+    summary: "Empathogen mit Serotoninfreisetzung.",
+    body: "Kann in Kombination mit Ketamin eingenommen werden.",
+  },
+  {
+    id: "glossary:antagonist",
+    type: "glossary",
+    title: "Antagonist",
+    href: "/glossary/antagonist",
+    summary: "Blockiert einen Rezeptor ohne ihn zu aktivieren.",
+  },
+  {
+    id: "receptor:NMDA",
+    type: "receptor",
+    title: "NMDA",
+    href: "/brain",
+    summary: "Ionotroper Glutamatrezeptor.",
+  },
+];
+
+const index = buildSearchIndex(docs);
+
+describe("searchIndex", () => {
+  it("ranks title matches above body matches", () => {
+    const results = searchIndex(index, "Ketamin");
+    expect(results[0].id).toBe("substance:ketamin");
+    expect(results.map((r) => r.id)).toContain("substance:mdma");
+  });
+
+  it("finds documents through aliases and reports the alias", () => {
+    const results = searchIndex(index, "Ecstasy");
+    expect(results[0].id).toBe("substance:mdma");
+    expect(results[0].matchedAlias).toBe("ecstasy");
+  });
+
+  it("tolerates misspelled names", () => {
+    const results = searchIndex(index, "ketamni");
+    expect(results[0].id).toBe("substance:ketamin");
+  });
+
+  it("supports prefix search on the last term", () => {
+    const results = searchIndex(index, "Keta");
+    expect(results[0].id).toBe("substance:ketamin");
+  });
+
+  it("disables fuzzy matching in exact mode", () => {
+    expect(searchIndex(index, "ketamni", { exact: true })).toHaveLength(0);
+  });
+
+  it("filters by entity type", () => {
+    const results = searchIndex(index, "NMDA", { types: ["receptor"] });
+    expect(results.map((r) => r.type)).toEqual(["receptor"]);
+  });
+
+  it("returns highlight ranges that point at the matched words", () => {
+    const [result] = searchIndex(index, "Serotoninfreisetzung");
+    expect(result.highlights.length).toBeGreaterThan(0);
+    const h = result.highlights[0];
+    expect(result.snippet.slice(h.start, h.end)).toBe("Serotoninfreisetzung");
+  });
+
+  it("returns nothing for stop-word-only queries", () => {
+    expect(searchIndex(index, "der die das")).toEqual([]);
+  });
+});
+
+describe("groupResults", () => {
+  it("groups by entity type in rank order", () => {
+    const groups = groupResults(searchIndex(index, "NMDA Antagonist"));
+    expect(groups.length).toBeGreaterThan(1);
+    for (const group of groups) {
+      expect(group.results.every((r) => r.type === group.type)).toBe(true);
+    }
+  });
+});
+
+describe("buildSearchDocuments", () => {
+  it("indexes each substance once and includes glossary and receptors", () => {
+    const built = buildSearchDocuments(allArticles);
+    const ids = built.map((d) => d.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain("substance:mdma");
+    expect(ids).not.toContain("article:mdma");
+    expect(built.some((d) => d.type === "glossary")).toBe(true);
+    expect(built.some((d) => d.type === "receptor")).toBe(true);
+  });
+
+  it("finds a substance by a street name from the synonym map", () => {
+    const full = buildSearchIndex(buildSearchDocuments(allArticles));
+    expect(searchIndex(full, "shrooms")[0].id).toBe("substance:psilocybin");
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Search – Document Sources
+ *
+ * Turns the article list and the static datasets (data/substances.json,
+ * data/glossary.json, data/receptors.json) into search documents, and keeps a
+ * process-wide index that is rebuilt at most once per `INDEX_TTL_MS`.
+ *
+ * Substances and their articles share a slug. Each substance becomes a single
+ * "substance" document whose body is the article text, so a substance never
+ * appears twice in results; articles without a matching substance are indexed
+ * as "article" documents.
+ */
+
+import type { Article } from "@/lib/types";
+import { getAllArticlesAsync } from "@/lib/articles";
+import { synonymsFor } from "@/lib/substances/canonicalize";
+import substancesJson from "@/../data/substances.json";
+import glossaryJson from "@/../data/glossary.json";
+import receptorsJson from "@/../data/receptors.json";
+import { buildSearchIndex, type SearchDocument, type SearchIndex } from "./search-index";
+
+interface SubstanceRecord {
+  id: string;
+  slug: string;
+  title: string;
+  class_primary: string;
+  class_secondary: string[];
+  mechanisms: string[];
+  receptors: string[];
+  summary: string;
+}
+
+interface GlossaryRecord {
+  term: string;
+  slug: string;
+  definition: string;
+  detail: string;
+}
+
+interface ReceptorRecord {
+  id: string;
+  label: string;
+  type: string;
+  system: string;
+  description: string;
+  risk_notes: string;
+  related_substances: string[];
+}
+
+const substances = substancesJson as SubstanceRecord[];
+const glossary = glossaryJson as GlossaryRecord[];
+const receptors = receptorsJson as ReceptorRecord[];
+
+/** Rebuild interval for the cached index (matches page revalidation). */
+const INDEX_TTL_MS = 60_000;
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const v of values) {
+    const key = v.trim().toLowerCase();
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      out.push(v.trim());
+    }
+  }
+  return out;
+}
+
+/** Aliases for a substance: id suffix, known synonyms of the title and its parts. */
+function substanceAliases(s: SubstanceRecord): string[] {
+  const idName = s.id.replace(/^sub:/, "");
+  const titleParts = s.title.split("/").map((p) => p.trim());
+  return unique(
+    [idName, ...titleParts.flatMap((p) => [p, ...synonymsFor(p)]), ...synonymsFor(idName)].filter(
+      (a) => a.toLowerCase() !== s.title.toLowerCase(),
+    ),
+  );
+}
+
+/**
+ * Build search documents for all entity types.
+ * Only published articles are included.
+ */
+export function buildSearchDocuments(articles: Article[]): SearchDocument[] {
+  const published = articles.filter((a) => a.status === "published");
+  const articleBySlug = new Map(published.map((a) => [a.slug, a]));
+  const substanceSlugs = new Set(substances.map((s) => s.slug));
+  const substanceTitles = new Map(substances.map((s) => [s.id, s.title]));
+
+  const docs: SearchDocument[] = [];
+
+  for (const s of substances) {
+    const article = articleBySlug.get(s.slug);
+    docs.push({
+      id: `substance:${s.slug}`,
+      type: "substance",
+      title: s.title,
+      href: `/articles/${s.slug}`,
+      subtitle: s.class_primary,
+      aliases: substanceAliases(s),
+      summary: article?.summary || s.summary,
+      body: [
+        s.class_secondary.join(", "),
+        s.mechanisms.join(", "),
+        s.receptors.join(", "),
+        article?.content_mdx ?? "",
+      ].join("\n\n"),
+    });
+  }
+
+  for (const a of published) {
+    if (substanceSlugs.has(a.slug)) continue;
+    docs.push({
+      id: `article:${a.slug}`,
+      type: "article",
+      title: a.title,
+      href: `/articles/${a.slug}`,
+      subtitle: a.subtitle ?? a.category,
+      summary: a.summary,
+      body: a.content_mdx,
+    });
+  }
+
+  for (const g of glossary) {
+    docs.push({
+      id: `glossary:${g.slug}`,
+      type: "glossary",
+      title: g.term,
+      href: `/glossary/${g.slug}`,
+      subtitle: "Glossar",
+      summary: g.definition,
+      body: g.detail,
+    });
+  }
+
+  for (const r of receptors) {
+    const related = r.related_substances
+      .map((id) => substanceTitles.get(id))
+      .filter((t): t is string => Boolean(t));
+    docs.push({
+      id: `receptor:${r.id.replace(/^r:/, "")}`,
+      type: "receptor",
+      title: r.label,
+      href: "/brain",
+      subtitle: `${r.system} · ${r.type}`,
+      summary: r.description,
+      body: [r.risk_notes, related.join(", ")].join("\n\n"),
+    });
+  }
+
+  return docs;
+}
+
+let cached: { index: SearchIndex; builtAt: number } | null = null;
+let pending: Promise<SearchIndex> | null = null;
+
+/**
+ * Return the shared search index, rebuilding it when older than the TTL.
+ * Concurrent callers during a rebuild share the same promise.
+ */
+export async function getSearchIndex(): Promise<SearchIndex> {
+  if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) return cached.index;
+  if (pending) return pending;
+
+  pending = getAllArticlesAsync()
+    .then((articles) => {
+      const index = buildSearchIndex(buildSearchDocuments(articles));
+      cached = { index, builtAt: Date.now() };
+      return index;
+    })
+    .finally(() => {
+      pending = null;
+    });
+
+  return pending;
+}
@@ -0,0 +1,441 @@
+/**
+ * Search – Inverted Index
+ *
+ * A small in-process full-text index over heterogeneous entities
+ * (articles, substances, glossary terms, receptors).
+ *
+ * Pure functions only: `buildSearchIndex()` turns documents into an index,
+ * `searchIndex()` ranks documents for a query. Scoring is a BM25 variant with
+ * per-field boosts (title > aliases > summary > body). Query terms that are
+ * not in the vocabulary fall back to prefix and fuzzy (Damerau-Levenshtein)
+ * matches so that misspelled substance names still find their target.
+ */
+
+import { tokenize, stripMarkup, analyze } from "./text";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SearchEntityType = "article" | "substance" | "glossary" | "receptor";
+
+export const searchEntityLabels: Record<SearchEntityType, string> = {
+  substance: "Substanzen",
+  article: "Artikel",
+  glossary: "Glossar",
+  receptor: "Rezeptoren",
+};
+
+export type SearchField = "title" | "aliases" | "summary" | "body";
+
+/** Relative weight of a match in each field. */
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 10,
+  aliases: 6,
+  summary: 3,
+  body: 1,
+};
+
+export interface SearchDocument {
+  /** Stable id, unique across entity types (e.g. "substance:mdma") */
+  id: string;
+  type: SearchEntityType;
+  title: string;
+  /** Link target for the result */
+  href: string;
+  /** Short secondary line (class, receptor system, …) */
+  subtitle?: string | null;
+  aliases?: string[];
+  summary?: string;
+  /** Long-form text; MDX is stripped before indexing */
+  body?: string;
+}
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  id: string;
+  type: SearchEntityType;
+  title: string;
+  href: string;
+  subtitle: string | null;
+  score: number;
+  /** Plain-text excerpt around the best match */
+  snippet: string;
+  /** Character ranges inside `snippet` that matched the query */
+  highlights: SearchHighlight[];
+  /** Alias that matched, if the hit came through an alias */
+  matchedAlias: string | null;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  types?: SearchEntityType[];
+  /** Disable prefix/fuzzy expansion (exact terms only) */
+  exact?: boolean;
+}
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+  tf: number;
+}
+
+interface IndexedDocument extends SearchDocument {
+  /** Stripped body text, kept for snippets */
+  plainBody: string;
+  fieldLengths: Record<SearchField, number>;
+}
+
+export interface SearchIndex {
+  docs: IndexedDocument[];
+  postings: Map<string, Posting[]>;
+  /** Number of documents containing each term (any field) */
+  docFreq: Map<string, number>;
+  avgFieldLength: Record<SearchField, number>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const FIELDS: SearchField[] = ["title", "aliases", "summary", "body"];
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Score multiplier for terms reached via prefix expansion. */
+const PREFIX_PENALTY = 0.7;
+/** Score multiplier per edit for fuzzy matches. */
+const FUZZY_PENALTY = 0.5;
+
+/** Bonus when the whole normalized query equals the title or an alias. */
+const EXACT_TITLE_BONUS = 25;
+
+const SNIPPET_RADIUS = 80;
+
+// ---------------------------------------------------------------------------
+// Building
+// ---------------------------------------------------------------------------
+
+function fieldText(doc: SearchDocument, field: SearchField, plainBody: string): string {
+  switch (field) {
+    case "title":
+      return doc.title;
+    case "aliases":
+      return (doc.aliases ?? []).join(" ");
+    case "summary":
+      return doc.summary ?? "";
+    case "body":
+      return plainBody;
+  }
+}
+
+/**
+ * Build an inverted index from a list of documents.
+ * Documents with duplicate ids are ignored after the first occurrence.
+ */
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const docs: IndexedDocument[] = [];
+  const postings = new Map<string, Posting[]>();
+  const docFreq = new Map<string, number>();
+  const totals: Record<SearchField, number> = { title: 0, aliases: 0, summary: 0, body: 0 };
+  const seen = new Set<string>();
+
+  for (const doc of documents) {
+    if (seen.has(doc.id)) continue;
+    seen.add(doc.id);
+
+    const plainBody = doc.body ? stripMarkup(doc.body) : "";
+    const fieldLengths: Record<SearchField, number> = { title: 0, aliases: 0, summary: 0, body: 0 };
+    const docIndex = docs.length;
+    const termsInDoc = new Set<string>();
+
+    for (const field of FIELDS) {
+      const terms = analyze(fieldText(doc, field, plainBody));
+      fieldLengths[field] = terms.length;
+      totals[field] += terms.length;
+
+      const counts = new Map<string, number>();
+      for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+
+      for (const [term, tf] of counts) {
+        const list = postings.get(term) ?? [];
+        list.push({ doc: docIndex, field, tf });
+        postings.set(term, list);
+        termsInDoc.add(term);
+      }
+    }
+
+    for (const term of termsInDoc) docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+    docs.push({ ...doc, plainBody, fieldLengths });
+  }
+
+  const n = Math.max(docs.length, 1);
+  const avgFieldLength: Record<SearchField, number> = {
+    title: totals.title / n,
+    aliases: totals.aliases / n,
+    summary: totals.summary / n,
+    body: totals.body / n,
+  };
+
+  return { docs, postings, docFreq, avgFieldLength };
+}
+
+// ---------------------------------------------------------------------------
+// Fuzzy matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Optimal-string-alignment distance (Damerau-Levenshtein with adjacent
+ * transpositions). Returns `max + 1` as soon as the distance exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max = 2): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  if (a === b) return 0;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      curr.push(value);
+      if (value < rowMin) rowMin = value;
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = curr;
+  }
+
+  return prev[b.length];
+}
+
+/** Allowed edits for a query term of the given length. */
+function maxEditsFor(term: string): number {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Expand a query term into the vocabulary terms it should match, with a
+ * weight in (0, 1]. Exact matches always win; prefix expansion only applies
+ * to the last query term (search-as-you-type); fuzzy matches are used when
+ * nothing exact is found.
+ */
+function expandTerm(
+  index: SearchIndex,
+  term: string,
+  isLast: boolean,
+  exact: boolean,
+): Map<string, number> {
+  const expansions = new Map<string, number>();
+  if (index.postings.has(term)) expansions.set(term, 1);
+  if (exact) return expansions;
+
+  if (isLast && term.length >= 2) {
+    for (const candidate of index.postings.keys()) {
+      if (candidate !== term && candidate.startsWith(term)) {
+        expansions.set(candidate, PREFIX_PENALTY);
+      }
+    }
+  }
+
+  if (expansions.size === 0) {
+    const maxEdits = maxEditsFor(term);
+    if (maxEdits > 0) {
+      for (const candidate of index.postings.keys()) {
+        const distance = editDistance(term, candidate, maxEdits);
+        if (distance <= maxEdits) {
+          const weight = Math.pow(FUZZY_PENALTY, distance);
+          if (weight > (expansions.get(candidate) ?? 0)) expansions.set(candidate, weight);
+        }
+      }
+    }
+  }
+
+  return expansions;
+}
+
+// ---------------------------------------------------------------------------
+// Snippets
+// ---------------------------------------------------------------------------
+
+function buildSnippet(
+  text: string,
+  matchedTerms: Set<string>,
+): { snippet: string; highlights: SearchHighlight[] } | null {
+  if (!text) return null;
+  const hits = tokenize(text).filter((t) => matchedTerms.has(t.term));
+  if (hits.length === 0) return null;
+
+  const first = hits[0];
+  let start = Math.max(0, first.start - SNIPPET_RADIUS);
+  let end = Math.min(text.length, first.end + SNIPPET_RADIUS);
+
+  // Snap to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < first.start) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > first.end) end = space;
+  }
+
+  const prefix = start > 0 ? "… " : "";
+  const suffix = end < text.length ? " …" : "";
+  const snippet = prefix + text.slice(start, end) + suffix;
+
+  const highlights: SearchHighlight[] = [];
+  let lastEnd = -1;
+  for (const hit of hits) {
+    if (hit.start < start || hit.end > end || hit.start < lastEnd) continue;
+    highlights.push({
+      start: hit.start - start + prefix.length,
+      end: hit.end - start + prefix.length,
+    });
+    lastEnd = hit.end;
+  }
+
+  return { snippet, highlights };
+}
+
+// ---------------------------------------------------------------------------
+// Searching
+// ---------------------------------------------------------------------------
+
+/**
+ * Rank documents for a free-text query.
+ * Returns results ordered by descending score.
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {},
+): SearchResult[] {
+  const { limit = 20, types, exact = false } = options;
+  const queryTerms = [...new Set(analyze(query))];
+  if (queryTerms.length === 0) return [];
+
+  const allowed = types ? new Set(types) : null;
+  const n = index.docs.length;
+  const scores = new Map<number, number>();
+  const matched = new Map<number, Set<string>>();
+  /** Number of distinct query terms each document satisfied */
+  const coverage = new Map<number, number>();
+
+  queryTerms.forEach((qTerm, qi) => {
+    const expansions = expandTerm(index, qTerm, qi === queryTerms.length - 1, exact);
+    const bestForDoc = new Map<number, number>();
+
+    for (const [term, weight] of expansions) {
+      const df = index.docFreq.get(term) ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+
+      for (const posting of index.postings.get(term) ?? []) {
+        const doc = index.docs[posting.doc];
+        if (allowed && !allowed.has(doc.type)) continue;
+
+        const len = doc.fieldLengths[posting.field];
+        const avg = index.avgFieldLength[posting.field] || 1;
+        const tfNorm =
+          (posting.tf * (BM25_K1 + 1)) /
+          (posting.tf + BM25_K1 * (1 - BM25_B + BM25_B * (len / avg)));
+        const contribution = idf * tfNorm * FIELD_BOOSTS[posting.field] * weight;
+
+        bestForDoc.set(posting.doc, (bestForDoc.get(posting.doc) ?? 0) + contribution);
+        const set = matched.get(posting.doc) ?? new Set<string>();
+        set.add(term);
+        matched.set(posting.doc, set);
+      }
+    }
+
+    for (const [doc, score] of bestForDoc) {
+      scores.set(doc, (scores.get(doc) ?? 0) + score);
+      coverage.set(doc, (coverage.get(doc) ?? 0) + 1);
+    }
+  });
+
+  const normalizedQuery = queryTerms.join(" ");
+  const results: SearchResult[] = [];
+
+  for (const [docIndex, baseScore] of scores) {
+    const doc = index.docs[docIndex];
+    const terms = matched.get(docIndex) ?? new Set<string>();
+
+    // Documents matching every query term rank above partial matches
+    const covered = coverage.get(docIndex) ?? 0;
+    let score = baseScore * (covered / queryTerms.length);
+
+    let matchedAlias: string | null = null;
+    if (analyze(doc.title).join(" ") === normalizedQuery) {
+      score += EXACT_TITLE_BONUS;
+    } else {
+      for (const alias of doc.aliases ?? []) {
+        if (analyze(alias).join(" ") === normalizedQuery) {
+          score += EXACT_TITLE_BONUS * (FIELD_BOOSTS.aliases / FIELD_BOOSTS.title);
+          matchedAlias = alias;
+          break;
+        }
+      }
+    }
+    if (!matchedAlias) {
+      matchedAlias =
+        (doc.aliases ?? []).find((alias) => analyze(alias).some((t) => terms.has(t))) ?? null;
+    }
+
+    const excerpt =
+      buildSnippet(doc.summary ?? "", terms) ??
+      buildSnippet(doc.plainBody, terms) ?? {
+        snippet: (doc.summary || doc.plainBody).slice(0, SNIPPET_RADIUS * 2),
+        highlights: [],
+      };
+
+    results.push({
+      id: doc.id,
+      type: doc.type,
+      title: doc.title,
+      href: doc.href,
+      subtitle: doc.subtitle ?? null,
+      score: Math.round(score * 1000) / 1000,
+      snippet: excerpt.snippet,
+      highlights: excerpt.highlights,
+      matchedAlias,
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title, "de"))
+    .slice(0, limit);
+}
+
+/**
+ * Group ranked results by entity type, preserving rank order inside each
+ * group. Groups are ordered by their best-scoring result.
+ */
+export function groupResults(
+  results: SearchResult[],
+): { type: SearchEntityType; label: string; results: SearchResult[] }[] {
+  const groups = new Map<SearchEntityType, SearchResult[]>();
+  for (const result of results) {
+    const list = groups.get(result.type) ?? [];
+    list.push(result);
+    groups.set(result.type, list);
+  }
+  return [...groups.entries()].map(([type, list]) => ({
+    type,
+    label: searchEntityLabels[type],
+    results: list,
+  }));
+}
@@ -0,0 +1,157 @@
+/**
+ * Search – Text Analysis
+ *
+ * Tokenisation, German normalisation and stemming used by the search index.
+ * Index and query text MUST go through the same `analyze()` pipeline so that
+ * "Ärzte", "Aerzte" and "arzte" all end up as the same term.
+ *
+ * The stemmer is an implementation of CISTEM (Weißgerber & Ziegler, 2017),
+ * a small rule-based German stemmer that performs well on both nouns and
+ * adjectives without needing a dictionary.
+ */
+
+// ---------------------------------------------------------------------------
+// Stop words
+// ---------------------------------------------------------------------------
+
+/** Frequent German (and a few English) function words that carry no meaning. */
+const STOP_WORDS = new Set([
+  "aber", "als", "am", "an", "auch", "auf", "aus", "bei", "bin", "bis", "da",
+  "das", "dass", "dem", "den", "der", "des", "die", "dies", "diese", "dieser",
+  "doch", "du", "durch", "ein", "eine", "einem", "einen", "einer", "eines",
+  "er", "es", "fur", "hat", "ich", "ihr", "im", "in", "ist", "ja", "kann",
+  "man", "mit", "nach", "nicht", "noch", "nur", "ob", "oder", "sich", "sie",
+  "sind", "so", "um", "und", "uber", "vom", "von", "vor", "war", "was", "wie",
+  "wir", "wird", "zu", "zum", "zur",
+  "a", "an", "and", "of", "or", "the", "to",
+]);
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Lowercase and fold German umlauts and their transliterations.
+ * ä/ae → a, ö/oe → o, ü/ue → u (but not after "q"), ß → ss.
+ * Remaining diacritics (é, ñ, …) are stripped.
+ */
+export function foldGerman(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .replace(/ä/g, "a")
+    .replace(/ö/g, "o")
+    .replace(/ü/g, "u")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ae/g, "a")
+    .replace(/oe/g, "o")
+    .replace(/(^|[^q])ue/g, "$1u");
+}
+
+/**
+ * CISTEM stemmer for German. Expects already folded, lowercase input.
+ * Words of three characters or fewer are returned unchanged.
+ */
+export function stemGerman(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let w = word;
+  if (/^ge.{4,}/.test(w)) w = w.slice(2);
+
+  w = w
+    .replace(/sch/g, "$")
+    .replace(/ei/g, "%")
+    .replace(/ie/g, "&")
+    .replace(/(.)\1/g, "$1*");
+
+  while (w.length > 3) {
+    if (w.length > 5) {
+      if (/e[mr]$/.test(w)) {
+        w = w.slice(0, -2);
+        continue;
+      }
+      if (/nd$/.test(w)) {
+        w = w.slice(0, -2);
+        continue;
+      }
+    }
+    if (/[tesn]$/.test(w)) {
+      w = w.slice(0, -1);
+      continue;
+    }
+    break;
+  }
+
+  return w
+    .replace(/(.)\*/g, "$1$1")
+    .replace(/&/g, "ie")
+    .replace(/%/g, "ei")
+    .replace(/\$/g, "sch");
+}
+
+// ---------------------------------------------------------------------------
+// Tokenisation
+// ---------------------------------------------------------------------------
+
+export interface Token {
+  /** Analysed term (folded + stemmed) */
+  term: string;
+  /** Offset of the raw token in the source text */
+  start: number;
+  /** End offset (exclusive) of the raw token in the source text */
+  end: number;
+}
+
+/**
+ * Matches word-like runs, keeping internal hyphens so that identifiers such as
+ * "5-HT2A", "4-MMC" or "GABA-A" stay intact.
+ */
+const WORD_RE = /[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*/gu;
+
+/**
+ * Split text into analysed tokens with their source offsets.
+ * Stop words are dropped; hyphenated tokens additionally emit their parts
+ * (same offsets) so "GABA-A-Agonist" matches a query for "Agonist".
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(WORD_RE)) {
+    const raw = match[0];
+    const start = match.index ?? 0;
+    const end = start + raw.length;
+    const folded = foldGerman(raw);
+
+    const parts = folded.includes("-") ? [folded, ...folded.split("-")] : [folded];
+    for (const part of parts) {
+      if (part.length === 0 || STOP_WORDS.has(part)) continue;
+      tokens.push({ term: stemGerman(part), start, end });
+    }
+  }
+  return tokens;
+}
+
+/** Convenience: analysed terms only, in order, duplicates preserved. */
+export function analyze(text: string): string[] {
+  return tokenize(text).map((t) => t.term);
+}
+
+/**
+ * Strip MDX/Markdown markup so body text can be indexed and snippeted
+ * without headings, links or component tags leaking into results.
+ */
+export function stripMarkup(mdx: string): string {
+  return mdx
+    .replace(/^import\s+.*$/gm, "")
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/^\s*[-*+]\s+/gm, "")
+    .replace(/^\|?[\s:|-]+\|?$/gm, " ")
+    .replace(/[*_`|]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
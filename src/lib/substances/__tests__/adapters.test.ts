@@ -1,4 +1,8 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { join } from "node:path";
+import { configureConnectorHttp, resetConnectorHttp } from "@/lib/connectors/http";
+import { wikidataAdapter } from "../adapters/wikidata-adapter";
+import { pubchemAdapter } from "../adapters/pubchem-adapter";
 import { mergeRawSources, computeAdapterConfidence } from "../adapters/normalize";
 import type { RawSourceSubstance } from "../adapters/index";
 
@@ -87,3 +91,92 @@ describe("mergeRawSources", () => {
     expect(result.slug).toBe("ueberdosis-aerger");
   });
 });
+
+describe("mergeRawSources – provenance and conflicts", () => {
+  const conflictingWikidataRaw: RawSourceSubstance = {
+    ...mockWikidataRaw,
+    retrievedAt: "2024-02-01T00:00:00.000Z",
+    inchiKey: "qiikunpznlnkds-ypzzejldsa-n",
+    molecularFormula: "C12 H17 N2 O4 P",
+  };
+
+  it("records which source supplied each field", () => {
+    const result = mergeRawSources("Psilocybin", [mockWikidataRaw, mockPubChemRaw]);
+    expect(result.provenance.name?.sourceId).toBe("wikidata");
+    expect(result.provenance.molecularFormula).toEqual({
+      sourceId: "pubchem",
+      sourceUrl: mockPubChemRaw.sourceUrl,
+      retrievedAt: mockPubChemRaw.retrievedAt,
+    });
+    expect(result.provenance.smiles).toBeUndefined();
+    expect(result.conflicts).toHaveLength(0);
+  });
+
+  it("ignores case and whitespace differences when comparing", () => {
+    const result = mergeRawSources("Psilocybin", [conflictingWikidataRaw, mockPubChemRaw]);
+    expect(result.conflicts).toHaveLength(0);
+  });
+
+  it("reports disagreeing sources and picks the trusted value", () => {
+    const wiki = { ...mockWikidataRaw, molecularFormula: "C12H16N2O4P" };
+    const result = mergeRawSources("Psilocybin", [wiki, mockPubChemRaw]);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      field: "molecularFormula",
+      chosenSourceId: "pubchem",
+      resolution: "trust",
+    });
+    expect(result.conflicts[0].values.map((v) => v.value)).toEqual(["C12H17N2O4P", "C12H16N2O4P"]);
+    expect(result.molecularFormula).toBe("C12H17N2O4P");
+    expect(result.verificationStatus).toBe("unverified");
+  });
+
+  it("applies a per-field trust override", () => {
+    const wiki = { ...mockWikidataRaw, molecularFormula: "C12H16N2O4P" };
+    const result = mergeRawSources("Psilocybin", [wiki, mockPubChemRaw], {
+      trust: { molecularFormula: ["wikidata", "pubchem"] },
+    });
+    expect(result.molecularFormula).toBe("C12H16N2O4P");
+    expect(result.provenance.molecularFormula?.sourceId).toBe("wikidata");
+  });
+
+  it("uses a manual resolution and no longer blocks verification", () => {
+    const wiki = { ...mockWikidataRaw, molecularFormula: "C12H16N2O4P" };
+    const result = mergeRawSources("Psilocybin", [wiki, mockPubChemRaw], {
+      resolutions: { molecularFormula: "wikidata" },
+    });
+    expect(result.molecularFormula).toBe("C12H16N2O4P");
+    expect(result.conflicts[0].resolution).toBe("manual");
+    expect(result.verificationStatus).toBe("auto_verified");
+  });
+});
+
+describe("adapters against recorded HTTP fixtures", () => {
+  beforeAll(() => {
+    configureConnectorHttp({
+      mode: process.env.CONNECTOR_HTTP_MODE === "record" ? "record" : "replay",
+      fixturesDir: join(__dirname, "fixtures", "http"),
+    });
+  });
+
+  afterAll(() => {
+    resetConnectorHttp();
+  });
+
+  it("fetches Wikidata and PubChem and merges them without conflicts", async () => {
+    const wiki = await wikidataAdapter.fetchById("Q407544");
+    const pub = await pubchemAdapter.fetchById("10624");
+    expect(wiki?.inchiKey).toBe("QVDSEJDULKLHCG-UHFFFAOYSA-N");
+    expect(pub?.molecularFormula).toBe("C12H17N2O4P");
+
+    const result = mergeRawSources("Psilocybin", [wiki!, pub!]);
+    expect(result.name).toBe("Psilocybin");
+    expect(result.provenance.inchiKey?.sourceId).toBe("pubchem");
+    expect(result.conflicts).toHaveLength(0);
+    expect(result.verificationStatus).toBe("auto_verified");
+  });
+
+  it("returns null for an id without fixture instead of going online", async () => {
+    expect(await pubchemAdapter.fetchById("1")).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { join } from "node:path";
+import { configureConnectorHttp, resetConnectorHttp } from "@/lib/connectors/http";
+import type { ChEMBLActivity, ChEMBLMechanism, ChEMBLTargetInfo } from "@/lib/connectors/chembl";
+import { chemblAdapter } from "../adapters/chembl-adapter";
+import { pubchemAdapter } from "../adapters/pubchem-adapter";
+import { mergeRawSources } from "../adapters/normalize";
+import {
+  fetchChEMBLAffinities,
+  mapActionType,
+  mapChEMBLPharmacology,
+  mapChEMBLTarget,
+  selectTargetIds,
+  toNanomolar,
+  verifiedChEMBLId,
+} from "../chembl-pharmacology";
+
+function target(chemblId: string, genes: string[], prefName = chemblId): ChEMBLTargetInfo {
+  return { chemblId, prefName, targetType: "SINGLE PROTEIN", organism: "Homo sapiens", geneSymbols: genes };
+}
+
+function activity(overrides: Partial<ChEMBLActivity>): ChEMBLActivity {
+  return {
+    activityId: 1,
+    targetChemblId: "CHEMBL224",
+    targetName: "",
+    standardType: "Ki",
+    standardRelation: "=",
+    standardValue: 100,
+    standardUnits: "nM",
+    assayChemblId: "CHEMBL900001",
+    documentChemblId: "CHEMBL1127720",
+    documentYear: 2005,
+    ...overrides,
+  };
+}
+
+describe("mapChEMBLTarget", () => {
+  it("maps gene symbols onto existing target slugs", () => {
+    expect(mapChEMBLTarget(target("CHEMBL224", ["HTR2A"]))).toMatchObject({
+      slug: "5-ht2a",
+      name: "5-HT₂A",
+      family: "serotonin",
+    });
+    expect(mapChEMBLTarget(target("CHEMBL228", ["SLC6A4"]))).toMatchObject({ slug: "sert", family: "transporter" });
+    expect(mapChEMBLTarget(target("CHEMBL217", ["DRD2"]))).toMatchObject({ slug: "d2", name: "D₂", family: "dopamine" });
+    expect(mapChEMBLTarget(target("CHEMBL1867", ["ADRA2A"]))).toMatchObject({ slug: "alpha2a", family: "adrenergic" });
+    expect(mapChEMBLTarget(target("CHEMBL233", ["OPRM1"]))).toMatchObject({ slug: "mor", family: "opioid" });
+  });
+
+  it("falls back to gene symbol or ChEMBL name", () => {
+    expect(mapChEMBLTarget(target("CHEMBL4523", ["TAAR1"]))).toMatchObject({ slug: "taar1", family: "other" });
+    const complex = mapChEMBLTarget(
+      target("CHEMBL1907608", ["GRIN1", "GRIN2B"], "Glutamate [NMDA] receptor"),
+    );
+    expect(complex).toMatchObject({ slug: "glutamate-nmda-receptor", family: "glutamate" });
+    expect(complex.description).toContain("CHEMBL1907608");
+  });
+});
+
+describe("activity mapping", () => {
+  it("converts concentrations to nM and rejects other units", () => {
+    expect(toNanomolar(0.08, "uM")).toBe(80);
+    expect(toNanomolar(500, "pM")).toBe(0.5);
+    expect(toNanomolar(12, "nM")).toBe(12);
+    expect(toNanomolar(7.5, "%")).toBeNull();
+  });
+
+  it("maps ChEMBL action types onto effect types", () => {
+    expect(mapActionType("AGONIST")).toBe("agonist");
+    expect(mapActionType("PARTIAL AGONIST")).toBe("partial_agonist");
+    expect(mapActionType("RELEASING AGENT")).toBe("releaser");
+    expect(mapActionType("NEGATIVE ALLOSTERIC MODULATOR")).toBe("modulator");
+    expect(mapActionType("OPENER")).toBe("unknown");
+  });
+
+  it("takes the median of exact measurements and the effect from the mechanism", () => {
+    const mechanisms: ChEMBLMechanism[] = [
+      { targetChemblId: "CHEMBL224", mechanismOfAction: "5-HT2a agonist", actionType: "AGONIST", refs: [] },
+      { targetChemblId: "CHEMBL228", mechanismOfAction: "SERT releasing agent", actionType: "RELEASING AGENT", refs: [] },
+    ];
+    const activities = [
+      activity({ standardValue: 50 }),
+      activity({ standardValue: 0.2, standardUnits: "uM", documentChemblId: "CHEMBL2" }),
+      activity({ standardValue: 10, standardRelation: "<" }),
+      activity({ standardValue: 3, standardType: "IC50" }),
+    ];
+    const targets = new Map([
+      ["CHEMBL224", target("CHEMBL224", ["HTR2A"])],
+      ["CHEMBL228", target("CHEMBL228", ["SLC6A4"])],
+    ]);
+
+    const rows = mapChEMBLPharmacology("CHEMBL43", mechanisms, activities, targets);
+    const ki = rows.find((r) => r.target.slug === "5-ht2a" && r.measure_type === "Ki");
+    expect(ki).toMatchObject({ affinity_nm: 125, effect_type: "agonist", confidence_level: "literature" });
+    expect(ki?.sources[0].url).toContain("CHEMBL43");
+    expect(ki?.sources.map((s) => s.title)).toContain("ChEMBL CHEMBL2");
+
+    expect(rows.find((r) => r.measure_type === "IC50")?.affinity_nm).toBe(3);
+    // Mechanism without measurements → qualitative row
+    expect(rows.find((r) => r.target.slug === "sert")).toMatchObject({
+      measure_type: "qualitative",
+      affinity_nm: null,
+      effect_type: "releaser",
+    });
+  });
+
+  it("prefers mechanism targets, then the strongest binders", () => {
+    const ids = selectTargetIds(
+      [{ targetChemblId: "CHEMBL9", mechanismOfAction: "", actionType: "AGONIST", refs: [] }],
+      [
+        activity({ targetChemblId: "CHEMBL1", standardValue: 900 }),
+        activity({ targetChemblId: "CHEMBL2", standardValue: 4 }),
+        activity({ targetChemblId: "CHEMBL3", standardValue: 1, standardRelation: ">" }),
+      ],
+      2,
+    );
+    expect(ids).toEqual(["CHEMBL9", "CHEMBL2"]);
+  });
+});
+
+describe("ChEMBL against recorded HTTP fixtures", () => {
+  beforeAll(() => {
+    configureConnectorHttp({
+      mode: process.env.CONNECTOR_HTTP_MODE === "record" ? "record" : "replay",
+      fixturesDir: join(__dirname, "fixtures", "http"),
+    });
+  });
+
+  afterAll(() => {
+    resetConnectorHttp();
+  });
+
+  it("fetches the molecule and agrees with PubChem on the structure", async () => {
+    const chembl = await chemblAdapter.fetchById("CHEMBL194378");
+    expect(chembl).toMatchObject({ sourceId: "chembl", chemblId: "CHEMBL194378", name: "Psilocybine" });
+
+    const pub = await pubchemAdapter.fetchById("10624");
+    const merged = mergeRawSources("Psilocybin", [pub!, chembl!]);
+    expect(merged.conflicts).toHaveLength(0);
+    expect(merged.sources.map((s) => s.sourceId)).toEqual(["pubchem", "chembl"]);
+
+    expect(verifiedChEMBLId([pub!, chembl!], merged)).toBe("CHEMBL194378");
+
+    // A salt or another compound from the name search is not trusted
+    const other = { ...chembl!, inchiKey: "AAAAAAAAAAAAAA-UHFFFAOYSA-N", canonicalId: "AAAAAAAAAAAAAA-UHFFFAOYSA-N" };
+    const mismatched = mergeRawSources("Psilocybin", [pub!, other]);
+    expect(mismatched.conflicts.map((c) => c.field)).toContain("inchiKey");
+    expect(verifiedChEMBLId([pub!, other], mismatched)).toBeNull();
+
+    // Without another source the key only confirms itself
+    expect(verifiedChEMBLId([chembl!], mergeRawSources("Psilocybin", [chembl!]))).toBeNull();
+    const noKey = { ...chembl!, inchiKey: undefined };
+    expect(verifiedChEMBLId([pub!, noKey], mergeRawSources("Psilocybin", [pub!, noKey]))).toBeNull();
+
+    expect(await chemblAdapter.fetchById("CHEMBL1")).toBeNull();
+    expect(await chemblAdapter.fetchById("Q407544")).toBeNull();
+  });
+
+  it("imports mechanism and binding data as literature affinities", async () => {
+    const rows = await fetchChEMBLAffinities("CHEMBL194378");
+    expect(rows.map((r) => [r.target.slug, r.measure_type, r.affinity_nm, r.effect_type])).toEqual([
+      ["5-ht2a", "Ki", 100, "agonist"],
+      // The flagged outlier (data_validity_comment) is dropped
+      ["5-ht1a", "Ki", 190, "unknown"],
+    ]);
+    expect(rows[0].sources.map((s) => s.url)).toContain("http://europepmc.org/abstract/MED/28947781");
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { mergeRawSources } from "../adapters/normalize";
+import type { RawSourceSubstance } from "../adapters";
+import {
+  applyFieldDecisions,
+  diffSubstance,
+  sameValue,
+  withoutRejectedValues,
+  type DiffableSubstance,
+} from "../import-diff";
+
+const wiki: RawSourceSubstance = {
+  sourceId: "wikidata",
+  sourceUrl: "https://www.wikidata.org/wiki/Q407544",
+  retrievedAt: "2026-01-01T00:00:00.000Z",
+  name: "Psilocybin",
+  aliases: ["Psilocybine", "4-PO-DMT"],
+  wikidataQid: "Q407544",
+  canonicalId: "QVDSEJDULKLHCG-UHFFFAOYSA-N",
+  inchiKey: "QVDSEJDULKLHCG-UHFFFAOYSA-N",
+  summary: "chemische Verbindung",
+  hasDescription: true,
+  hasChem: true,
+};
+
+const pub: RawSourceSubstance = {
+  sourceId: "pubchem",
+  sourceUrl: "https://pubchem.ncbi.nlm.nih.gov/compound/10624",
+  retrievedAt: "2026-01-01T00:00:00.000Z",
+  name: "[3-[2-(dimethylamino)ethyl]-1H-indol-4-yl] dihydrogen phosphate",
+  inchiKey: "QVDSEJDULKLHCG-UHFFFAOYSA-N",
+  pubchemCid: 10624,
+  hasDescription: false,
+  hasChem: true,
+};
+
+function existing(overrides: Partial<DiffableSubstance> = {}): DiffableSubstance {
+  return {
+    id: "sub-1",
+    name: "Psilocybin",
+    summary: "Redaktionell gepflegte Beschreibung.",
+    canonical_id: "QVDSEJDULKLHCG-UHFFFAOYSA-N",
+    pubchem_cid: null,
+    aliases_list: ["4-PO-DMT", "Psilocybine"],
+    field_provenance: {},
+    import_rejections: {},
+    ...overrides,
+  };
+}
+
+describe("diffSubstance", () => {
+  const normalized = mergeRawSources("Psilocybin", [wiki, pub]);
+
+  it("lists changed fields with old value, new value and source", () => {
+    const { diffs, suppressed } = diffSubstance(existing(), normalized);
+    expect(diffs.map((d) => d.field)).toEqual(["summary", "pubchem_cid"]);
+    expect(diffs[0]).toMatchObject({
+      oldValue: "Redaktionell gepflegte Beschreibung.",
+      newValue: "chemische Verbindung",
+      source: { sourceId: "wikidata" },
+    });
+    expect(diffs[1]).toMatchObject({ oldValue: null, newValue: 10624, source: { sourceId: "pubchem" } });
+    expect(suppressed).toEqual([]);
+  });
+
+  it("ignores list order and number/string representation", () => {
+    expect(sameValue(["a", "b"], ["b", "a"])).toBe(true);
+    expect(sameValue("10624", 10624)).toBe(true);
+    const { diffs } = diffSubstance(existing({ pubchem_cid: "10624", summary: "chemische Verbindung" }), normalized);
+    expect(diffs).toEqual([]);
+  });
+
+  it("does not propose a rejected value again, but a new one", () => {
+    const rejected = existing({
+      import_rejections: {
+        summary: { value: "chemische Verbindung", sourceId: "wikidata", rejectedAt: "2026-01-02T00:00:00.000Z" },
+      },
+    });
+    expect(diffSubstance(rejected, normalized)).toMatchObject({ suppressed: ["summary"] });
+    expect(diffSubstance(rejected, normalized).diffs.map((d) => d.field)).toEqual(["pubchem_cid"]);
+
+    const changed = mergeRawSources("Psilocybin", [{ ...wiki, summary: "Tryptamin-Alkaloid" }, pub]);
+    expect(diffSubstance(rejected, changed).diffs.map((d) => d.field)).toEqual(["summary", "pubchem_cid"]);
+  });
+});
+
+describe("applyFieldDecisions", () => {
+  it("writes accepted fields, remembers rejected ones and leaves the rest", () => {
+    const row = existing({
+      import_rejections: {
+        pubchem_cid: { value: 1, sourceId: "pubchem", rejectedAt: "2026-01-02T00:00:00.000Z" },
+      },
+    });
+    const normalized = mergeRawSources("Psilocybin", [{ ...wiki, name: "Psilocybin (Wirkstoff)" }, pub]);
+    const { diffs } = diffSubstance(row, normalized);
+    expect(diffs.map((d) => d.field)).toEqual(["name", "summary", "pubchem_cid"]);
+
+    const result = applyFieldDecisions(
+      row,
+      diffs,
+      {
+        accepted: ["pubchem_cid"],
+        rejected: ["summary"],
+        reviewed: { pubchem_cid: 10624, summary: "chemische Verbindung" },
+      },
+      "2026-01-03T00:00:00.000Z",
+    );
+    expect(result.update).toEqual({ pubchem_cid: 10624 });
+    expect(result.provenance.pubchemCid?.sourceId).toBe("pubchem");
+    expect(result.rejections).toEqual({
+      summary: { value: "chemische Verbindung", sourceId: "wikidata", rejectedAt: "2026-01-03T00:00:00.000Z" },
+    });
+    expect(result.stale).toEqual([]);
+  });
+
+  it("does not write an accepted field whose value changed since the review", () => {
+    const row = existing();
+    // Wikidata now says something else, PubChem failed this time
+    const normalized = mergeRawSources("Psilocybin", [{ ...wiki, summary: "Tryptamin-Alkaloid" }]);
+    const { diffs } = diffSubstance(row, normalized);
+
+    const result = applyFieldDecisions(row, diffs, {
+      accepted: ["summary", "pubchem_cid"],
+      rejected: [],
+      reviewed: { summary: "chemische Verbindung", pubchem_cid: 10624 },
+    });
+    expect(result.update).toEqual({});
+    expect(result.stale).toEqual(["summary", "pubchem_cid"]);
+
+    // Without the reviewed value an accept is not applied either
+    expect(applyFieldDecisions(row, diffs, { accepted: ["summary"], rejected: [], reviewed: {} }).stale).toEqual([
+      "summary",
+    ]);
+  });
+
+  it("remembers the reviewed value of a rejected field", () => {
+    const row = existing();
+    const { diffs } = diffSubstance(row, mergeRawSources("Psilocybin", [{ ...wiki, summary: "Tryptamin-Alkaloid" }]));
+    const { rejections } = applyFieldDecisions(
+      row,
+      diffs,
+      { accepted: [], rejected: ["summary"], reviewed: { summary: "chemische Verbindung" } },
+      "2026-01-03T00:00:00.000Z",
+    );
+    expect(rejections.summary).toEqual({
+      value: "chemische Verbindung",
+      sourceId: null,
+      rejectedAt: "2026-01-03T00:00:00.000Z",
+    });
+  });
+
+  it("keeps rejected values out of an unreviewed overwrite", () => {
+    const data = { name: "Psilocybin", canonical_id: "Q407544", confidence_score: 80 };
+    const result = withoutRejectedValues(data, {
+      canonical_id: { value: "Q407544", sourceId: "wikidata", rejectedAt: "2026-01-02T00:00:00.000Z" },
+      name: { value: "Anderer Name", sourceId: "wikidata", rejectedAt: "2026-01-02T00:00:00.000Z" },
+    });
+    expect(result).toEqual({ name: "Psilocybin", confidence_score: 80 });
+  });
+});
@@ -1,4 +1,6 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { join } from "node:path";
+import { configureConnectorHttp, resetConnectorHttp } from "@/lib/connectors/http";
 
 // ---------------------------------------------------------------------------
 // PubChem hardened connector tests
@@ -156,3 +158,39 @@ describe("computeConfidenceScore", () => {
     expect(score).toBeGreaterThanOrEqual(0);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Full pipeline against recorded HTTP fixtures
+// (re-record: CONNECTOR_HTTP_MODE=record npx vitest run import-engine)
+// ---------------------------------------------------------------------------
+
+describe("runImport (offline)", () => {
+  beforeAll(() => {
+    configureConnectorHttp({
+      mode: process.env.CONNECTOR_HTTP_MODE === "record" ? "record" : "replay",
+      fixturesDir: join(__dirname, "fixtures", "http"),
+    });
+  });
+
+  afterAll(() => {
+    resetConnectorHttp();
+  });
+
+  it("enriches a substance from replayed PubChem responses", async () => {
+    const { runImport } = await import("../import-engine");
+
+    const { summary, items } = await runImport(
+      [
+        { qid: "Q407544", pubchem_cid: 10624, label: "Psilocybin", description: "chemische Verbindung" },
+        { qid: "Q1", pubchem_cid: 99999999, label: "Unbekannt", description: "" },
+      ],
+      { limit: 10, dryRun: true, skipAi: true },
+    );
+
+    expect(items[0]).toMatchObject({ pubchem_status: "ok", db_status: "skipped" });
+    // 20 wikidata + 10 description + 15 pubchem + 10 synonyms + 5 formula
+    expect(items[0].confidence_score).toBe(60);
+    expect(items[1].pubchem_status).toBe("not_found");
+    expect(summary.pubchem_not_found).toBe(1);
+  });
+});
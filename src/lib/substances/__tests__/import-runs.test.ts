@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { resumeImportRun, type ImportRun, type ImportRunStore } from "../import-runs";
+import type { ImportItemResult, WikidataItem } from "../import-engine";
+
+const ITEMS: WikidataItem[] = ["Psilocybin", "Mescalin", "Ketamin", "Koffein", "Nikotin"].map((label, i) => ({
+  qid: `Q${100 + i}`,
+  pubchem_cid: 1000 + i,
+  label,
+  description: "",
+}));
+
+function makeRun(overrides: Partial<ImportRun> = {}): ImportRun {
+  return {
+    id: "run-1",
+    created_at: new Date(0).toISOString(),
+    triggered_by: "admin",
+    status: "queued",
+    dry_run: true,
+    total_items: ITEMS.length,
+    next_index: 0,
+    inserted_count: 0,
+    updated_count: 0,
+    skipped_count: 0,
+    error_count: 0,
+    // Dry run without AI and PubChem: no network and no database involved
+    items: ITEMS,
+    options: { dryRun: true, skipAi: true, skipPubChem: true },
+    cancel_requested: false,
+    locked_by: null,
+    locked_at: null,
+    finished_at: null,
+    ...overrides,
+  };
+}
+
+/** In-memory store with the same semantics as claim_import_run() / checkpoint_import_item(). */
+function memoryStore(run: ImportRun): ImportRunStore & { run: ImportRun; checkpoints: Map<number, ImportItemResult> } {
+  const checkpoints = new Map<number, ImportItemResult>();
+  return {
+    run,
+    checkpoints,
+    async get() {
+      return { ...run };
+    },
+    async claim(_id, workerId) {
+      if (run.status !== "queued" && run.status !== "running") return null;
+      if (run.locked_by && run.locked_by !== workerId) return null;
+      Object.assign(run, { status: "running", locked_by: workerId, locked_at: new Date().toISOString() });
+      return { ...run };
+    },
+    async checkpoint(_id, workerId, index, result) {
+      if (run.locked_by !== workerId) return false;
+      if (!checkpoints.has(index)) checkpoints.set(index, result);
+      if (run.next_index <= index) {
+        run.next_index = index + 1;
+        if (result.db_status === "skipped") run.skipped_count++;
+      }
+      return true;
+    },
+    async release(_id, workerId, status) {
+      if (run.locked_by !== workerId) return;
+      Object.assign(run, { status, locked_by: null, locked_at: null });
+    },
+    async isCancelRequested() {
+      return run.cancel_requested;
+    },
+  };
+}
+
+describe("resumeImportRun", () => {
+  it("processes a chunk and continues from the last checkpoint", async () => {
+    const store = memoryStore(makeRun());
+
+    const first = await resumeImportRun("run-1", { store, workerId: "w1", maxItems: 2 });
+    expect(first.claimed).toBe(true);
+    expect(first.results.map((r) => r.label)).toEqual(["Psilocybin", "Mescalin"]);
+    expect(first.run).toMatchObject({ status: "running", next_index: 2, locked_by: null });
+
+    const second = await resumeImportRun("run-1", { store, workerId: "w2" });
+    expect(second.results.map((r) => r.label)).toEqual(["Ketamin", "Koffein", "Nikotin"]);
+    expect(second.run).toMatchObject({ status: "done", next_index: 5, skipped_count: 5 });
+    expect([...store.checkpoints.keys()]).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("does not process a run that another worker holds", async () => {
+    const store = memoryStore(makeRun({ status: "running", locked_by: "w1", next_index: 1 }));
+
+    const result = await resumeImportRun("run-1", { store, workerId: "w2" });
+    expect(result.claimed).toBe(false);
+    expect(result.results).toEqual([]);
+    expect(store.run.next_index).toBe(1);
+  });
+
+  it("lets a worker pick up its own lock after a timeout", async () => {
+    const store = memoryStore(makeRun({ status: "running", locked_by: "w1", next_index: 3 }));
+
+    const result = await resumeImportRun("run-1", { store, workerId: "w1" });
+    expect(result.results.map((r) => r.label)).toEqual(["Koffein", "Nikotin"]);
+    expect(result.run?.status).toBe("done");
+  });
+
+  it("stops before the next item once a cancel is requested", async () => {
+    const store = memoryStore(makeRun());
+    const checkpoint = store.checkpoint.bind(store);
+    store.checkpoint = async (id, workerId, index, result) => {
+      if (index === 1) store.run.cancel_requested = true;
+      return checkpoint(id, workerId, index, result);
+    };
+
+    const result = await resumeImportRun("run-1", { store, workerId: "w1" });
+    expect(result.results).toHaveLength(2);
+    expect(result.run).toMatchObject({ status: "cancelled", next_index: 2, locked_by: null });
+  });
+
+  it("stops and keeps the new owner's lock when the lock was taken over", async () => {
+    const store = memoryStore(makeRun());
+    const checkpoint = store.checkpoint.bind(store);
+    store.checkpoint = async (id, workerId, index, result) => {
+      // A second worker takes over the (apparently stale) lock
+      if (index === 2) store.run.locked_by = "w2";
+      return checkpoint(id, workerId, index, result);
+    };
+
+    const result = await resumeImportRun("run-1", { store, workerId: "w1" });
+    expect(result.results).toHaveLength(2);
+    expect(result.run).toMatchObject({ status: "running", next_index: 2, locked_by: "w2" });
+  });
+});
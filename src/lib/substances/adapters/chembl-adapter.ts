@@ -0,0 +1,69 @@
+/**
+ * ChEMBL Source Adapter.
+ * Fetches molecule identifiers from the ChEMBL REST API. Mechanisms and
+ * binding data are imported separately (see chembl-pharmacology.ts).
+ */
+import type { SourceAdapter, RawSourceSubstance } from "./index";
+import {
+  fetchChEMBLMolecule,
+  fetchChEMBLMolecules,
+  searchChEMBLMolecules,
+  type ChEMBLMolecule,
+} from "@/lib/connectors/chembl";
+
+/** IDs per molecule list request, keeps the URL short. */
+const BULK_CHUNK_SIZE = 50;
+
+/** ChEMBL writes preferred names in capitals ("PSILOCYBINE"). */
+function displayName(name: string): string {
+  if (name !== name.toUpperCase()) return name;
+  return name.charAt(0) + name.slice(1).toLowerCase();
+}
+
+function toRaw(data: ChEMBLMolecule): RawSourceSubstance {
+  return {
+    sourceId: "chembl",
+    sourceUrl: data.sourceUrl,
+    retrievedAt: data.retrievedAt,
+    name: data.prefName ? displayName(data.prefName) : data.chemblId,
+    aliases: data.synonyms,
+    canonicalId: data.inchiKey || undefined,
+    chemblId: data.chemblId,
+    inchiKey: data.inchiKey || undefined,
+    inchi: data.inchi || undefined,
+    smiles: data.smiles || undefined,
+    molecularFormula: data.molecularFormula || undefined,
+    hasDescription: false,
+    hasChem: Boolean(data.molecularFormula || data.inchiKey),
+  };
+}
+
+export const chemblAdapter: SourceAdapter = {
+  id: "chembl",
+  label: "ChEMBL",
+  enabled: true,
+  supportsSearch: true,
+  supportsBulk: true,
+
+  async search(query: string): Promise<RawSourceSubstance[]> {
+    const molecules = await searchChEMBLMolecules(query);
+    return molecules.map(toRaw);
+  },
+
+  async fetchById(id: string): Promise<RawSourceSubstance | null> {
+    if (!/^CHEMBL\d+$/i.test(id)) return null;
+    const data = await fetchChEMBLMolecule(id.toUpperCase());
+    if (!data) return null;
+    return toRaw(data);
+  },
+
+  async fetchBulk(ids: string[]): Promise<RawSourceSubstance[]> {
+    const valid = ids.filter((id) => /^CHEMBL\d+$/i.test(id)).map((id) => id.toUpperCase());
+    const results: RawSourceSubstance[] = [];
+    for (let i = 0; i < valid.length; i += BULK_CHUNK_SIZE) {
+      const molecules = await fetchChEMBLMolecules(valid.slice(i, i + BULK_CHUNK_SIZE));
+      results.push(...molecules.map(toRaw));
+    }
+    return results;
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Collects the raw records of one import item from the enabled adapters.
+ * Shared by dry run and commit, so the diff shown in the dry run is what
+ * commit writes.
+ */
+import type { RawSourceSubstance } from "./index";
+import { wikidataAdapter } from "./wikidata-adapter";
+import { pubchemAdapter } from "./pubchem-adapter";
+import { chemblAdapter } from "./chembl-adapter";
+
+export interface ImportSourceItem {
+  name: string;
+  wikidataQid?: string;
+  pubchemCid?: number;
+  chemblId?: string;
+  tags?: string[];
+  category?: string;
+}
+
+export interface CollectOptions {
+  skipPubChem?: boolean;
+  includeChEMBL?: boolean;
+}
+
+/**
+ * Wikidata is required (errors propagate); PubChem and ChEMBL are
+ * best-effort.
+ */
+export async function collectRawSources(
+  item: ImportSourceItem,
+  { skipPubChem = false, includeChEMBL = false }: CollectOptions = {},
+): Promise<RawSourceSubstance[]> {
+  const results: RawSourceSubstance[] = [];
+  const wikiRaw = item.wikidataQid
+    ? await wikidataAdapter.fetchById(item.wikidataQid)
+    : await wikidataAdapter.search(item.name).then((r) => r[0] ?? null);
+  if (wikiRaw) {
+    results.push({
+      ...wikiRaw,
+      category: item.category,
+      tags: [...(wikiRaw.tags ?? []), ...(item.tags ?? [])],
+    });
+  }
+
+  if (!skipPubChem) {
+    const pubRaw = item.pubchemCid
+      ? await pubchemAdapter.fetchById(String(item.pubchemCid)).catch(() => null)
+      : await pubchemAdapter
+          .search(item.name)
+          .then((r) => r[0] ?? null)
+          .catch(() => null);
+    if (pubRaw) results.push(pubRaw);
+  }
+
+  if (includeChEMBL) {
+    const chemblRaw = item.chemblId
+      ? await chemblAdapter.fetchById(item.chemblId).catch(() => null)
+      : await chemblAdapter
+          .search(item.name)
+          .then((r) => r[0] ?? null)
+          .catch(() => null);
+    if (chemblRaw) results.push(chemblRaw);
+  }
+  return results;
+}
@@ -33,6 +33,7 @@ export interface RawSourceSubstance {
   exactMass?: number;
   iupacName?: string;
   pubchemCid?: number;
+  chemblId?: string;
   casNumber?: string;
 
   // Content
@@ -44,6 +45,37 @@ export interface RawSourceSubstance {
   hasChem: boolean;
 }
 
+/** NormalizedSubstance fields whose value is taken from a single source. */
+export type MergeField =
+  | "name"
+  | "category"
+  | "summary"
+  | "molecularFormula"
+  | "inchiKey"
+  | "smiles"
+  | "pubchemCid";
+
+/** Source order per field, most trusted first. */
+export type FieldTrustRanking = Record<MergeField, string[]>;
+
+/** Where a merged field value came from. */
+export interface FieldProvenance {
+  sourceId: string;
+  sourceUrl: string;
+  retrievedAt: string;
+}
+
+/** Two or more sources disagree on a field. */
+export interface FieldConflict {
+  field: MergeField;
+  /** One entry per source that supplied the field */
+  values: Array<FieldProvenance & { value: string | number }>;
+  /** Source whose value ended up in the merged record */
+  chosenSourceId: string;
+  /** "trust": picked by the trust ranking, "manual": picked by an admin */
+  resolution: "trust" | "manual";
+}
+
 export interface NormalizedSubstance {
   slug: string;
   name: string;
@@ -64,6 +96,9 @@ export interface NormalizedSubstance {
     retrievedAt: string;
     fields: string[];
   }>;
+  /** Source of every merged field that has a value */
+  provenance: Partial<Record<MergeField, FieldProvenance>>;
+  conflicts: FieldConflict[];
   lastImportedAt: string;
 }
 
@@ -1,9 +1,106 @@
 /**
  * Merges multiple RawSourceSubstance records (from different adapters)
  * into a single NormalizedSubstance.
+ *
+ * Single-valued fields are picked per field by a trust ranking; the merged
+ * record keeps the provenance of every field and lists the fields on which
+ * the sources disagree, so an admin can resolve them by hand.
  */
 import { slugify } from "../slugify";
-import type { RawSourceSubstance, NormalizedSubstance } from "./index";
+import type {
+  FieldConflict,
+  FieldProvenance,
+  FieldTrustRanking,
+  MergeField,
+  RawSourceSubstance,
+  NormalizedSubstance,
+} from "./index";
+
+/**
+ * Default source order per field: Wikidata for labels and descriptions,
+ * PubChem (then ChEMBL) for chemistry. Sources not listed follow in input order.
+ */
+export const DEFAULT_FIELD_TRUST: FieldTrustRanking = {
+  name: ["wikidata", "psychonautwiki", "pubchem", "chembl"],
+  category: ["wikidata", "psychonautwiki", "pubchem", "chembl"],
+  summary: ["wikidata", "psychonautwiki", "pubchem", "chembl"],
+  molecularFormula: ["pubchem", "chembl", "wikidata"],
+  inchiKey: ["pubchem", "chembl", "wikidata"],
+  smiles: ["pubchem", "chembl", "wikidata"],
+  pubchemCid: ["pubchem", "wikidata"],
+};
+
+/**
+ * Fields checked for disagreement. SMILES is left out: sources write
+ * different but equivalent notations for the same structure.
+ */
+export const CONFLICT_FIELDS: MergeField[] = ["inchiKey", "molecularFormula", "pubchemCid"];
+
+export interface MergeOptions {
+  /** Per-field overrides of DEFAULT_FIELD_TRUST */
+  trust?: Partial<FieldTrustRanking>;
+  /** Manual picks: field → sourceId whose value wins */
+  resolutions?: Partial<Record<MergeField, string>>;
+}
+
+/** Normalise a value for comparison so formatting differences don't count. */
+function comparableValue(field: MergeField, value: string | number): string {
+  const str = String(value).trim();
+  if (field === "inchiKey") return str.toUpperCase();
+  if (field === "molecularFormula") return str.replace(/\s+/g, "");
+  return str;
+}
+
+function rankSources(raws: RawSourceSubstance[], order: string[]): RawSourceSubstance[] {
+  const rank = (r: RawSourceSubstance) => {
+    const index = order.indexOf(r.sourceId);
+    return index === -1 ? order.length : index;
+  };
+  // Array.prototype.sort is stable, so unranked sources keep input order
+  return [...raws].sort((a, b) => rank(a) - rank(b));
+}
+
+function provenanceOf(raw: RawSourceSubstance): FieldProvenance {
+  return { sourceId: raw.sourceId, sourceUrl: raw.sourceUrl, retrievedAt: raw.retrievedAt };
+}
+
+interface PickedField<T> {
+  value: T | undefined;
+  provenance?: FieldProvenance;
+  conflict?: FieldConflict;
+}
+
+function pickField<F extends MergeField>(
+  field: F,
+  raws: RawSourceSubstance[],
+  options: MergeOptions,
+): PickedField<NonNullable<RawSourceSubstance[F]>> {
+  const order = options.trust?.[field] ?? DEFAULT_FIELD_TRUST[field];
+  const candidates = rankSources(raws, order).filter((r) => {
+    const value = r[field];
+    return value !== undefined && value !== null && value !== "";
+  });
+  if (candidates.length === 0) return { value: undefined };
+
+  const manual = options.resolutions?.[field];
+  const chosen = candidates.find((r) => r.sourceId === manual) ?? candidates[0];
+  const value = chosen[field] as NonNullable<RawSourceSubstance[F]>;
+
+  let conflict: FieldConflict | undefined;
+  if (CONFLICT_FIELDS.includes(field)) {
+    const distinct = new Set(candidates.map((r) => comparableValue(field, r[field] as string | number)));
+    if (distinct.size > 1) {
+      conflict = {
+        field,
+        values: candidates.map((r) => ({ ...provenanceOf(r), value: r[field] as string | number })),
+        chosenSourceId: chosen.sourceId,
+        resolution: chosen.sourceId === manual ? "manual" : "trust",
+      };
+    }
+  }
+
+  return { value, provenance: provenanceOf(chosen), conflict };
+}
 
 /**
  * Compute a confidence score (0–100) based on data completeness and
@@ -45,12 +142,15 @@ export function computeAdapterConfidence(raws: RawSourceSubstance[]): number {
 }
 
 /**
- * Auto-verify if >=2 high-trust sources agree on the canonical ID.
+ * Auto-verify if >=2 high-trust sources agree on the canonical ID and no
+ * conflict is left unresolved.
  */
 function computeVerificationStatus(
   raws: RawSourceSubstance[],
   confidence: number,
+  conflicts: FieldConflict[],
 ): NormalizedSubstance["verificationStatus"] {
+  if (conflicts.some((c) => c.resolution !== "manual")) return "unverified";
   const highTrustSources = raws.filter(
     (r) => r.sourceId === "wikidata" || r.sourceId === "pubchem",
   );
@@ -68,15 +168,31 @@ function computeVerificationStatus(
 export function mergeRawSources(
   primaryName: string,
   raws: RawSourceSubstance[],
+  options: MergeOptions = {},
 ): NormalizedSubstance {
   const confidence = computeAdapterConfidence(raws);
 
-  // Pick best values from sources (prefer wikidata for meta, pubchem for chem)
   const wikiRaw = raws.find((r) => r.sourceId === "wikidata");
   const pubRaw = raws.find((r) => r.sourceId === "pubchem");
   const anyRaw = raws[0];
 
-  const name = wikiRaw?.name ?? anyRaw?.name ?? primaryName;
+  const provenance: NormalizedSubstance["provenance"] = {};
+  const conflicts: FieldConflict[] = [];
+  const pick = <F extends MergeField>(field: F) => {
+    const picked = pickField(field, raws, options);
+    if (picked.provenance) provenance[field] = picked.provenance;
+    if (picked.conflict) conflicts.push(picked.conflict);
+    return picked.value;
+  };
+
+  const name = pick("name") ?? primaryName;
+  const category = pick("category");
+  const summary = pick("summary");
+  const molecularFormula = pick("molecularFormula");
+  const inchiKey = pick("inchiKey");
+  const smiles = pick("smiles");
+  const pubchemCid = pick("pubchemCid");
+
   const aliases = Array.from(
     new Set([
       ...(wikiRaw?.aliases ?? []),
@@ -84,11 +200,7 @@ export function mergeRawSources(
     ]),
   ).slice(0, 30);
 
-  const canonicalId =
-    pubRaw?.inchiKey ??
-    wikiRaw?.inchiKey ??
-    wikiRaw?.wikidataQid ??
-    anyRaw?.canonicalId;
+  const canonicalId = inchiKey ?? wikiRaw?.wikidataQid ?? anyRaw?.canonicalId;
 
   const tags = Array.from(
     new Set([
@@ -118,16 +230,18 @@ export function mergeRawSources(
     name,
     canonicalId,
     aliases,
-    category: wikiRaw?.category ?? anyRaw?.category,
+    category,
     tags,
-    summary: wikiRaw?.summary ?? anyRaw?.summary,
-    molecularFormula: pubRaw?.molecularFormula ?? wikiRaw?.molecularFormula,
-    inchiKey: pubRaw?.inchiKey ?? wikiRaw?.inchiKey,
-    smiles: pubRaw?.smiles ?? wikiRaw?.smiles,
-    pubchemCid: pubRaw?.pubchemCid,
+    summary,
+    molecularFormula,
+    inchiKey,
+    smiles,
+    pubchemCid,
     confidenceScore: confidence,
-    verificationStatus: computeVerificationStatus(raws, confidence),
+    verificationStatus: computeVerificationStatus(raws, confidence, conflicts),
     sources,
+    provenance,
+    conflicts,
     lastImportedAt: new Date().toISOString(),
   };
 }
@@ -1,26 +1,30 @@
 /**
  * AI Enrichment Module for the Resilient Import Engine.
  *
- * Produces structured JSON enrichment data for a substance using
- * OpenAI or Anthropic. Falls back gracefully when no AI provider
+ * Produces structured JSON enrichment data for a substance using the
+ * AI provider configured for "enrichment". Falls back gracefully when no AI provider
  * is configured — the import run is never blocked.
  */
 
+import { z } from "zod";
 import { getAiProvider } from "@/lib/ai/provider";
+import { generateStructured } from "@/lib/ai/structured";
 import { contentSafetyFilter } from "../content-safety";
 
 /* ---------- Types ---------- */
 
-export interface AiEnrichmentResult {
-  overview: string;
-  effects: string;
-  risks: string;
-  harm_reduction: string;
-  interactions: string;
-  dosage_notes: string;
-  legal_status_notes: string;
-  sources: string[];
-}
+const AiEnrichmentSchema = z.object({
+  overview: z.string().default(""),
+  effects: z.string().default(""),
+  risks: z.string().default(""),
+  harm_reduction: z.string().default(""),
+  interactions: z.string().default(""),
+  dosage_notes: z.string().default(""),
+  legal_status_notes: z.string().default(""),
+  sources: z.array(z.string()).default([]),
+});
+
+export type AiEnrichmentResult = z.infer<typeof AiEnrichmentSchema>;
 
 export type AiStatus = "ok" | "failed" | "skipped";
 
@@ -73,70 +77,6 @@ Antworte als JSON-Objekt mit folgendem Schema:
 WICHTIG: Nur validiertes JSON zurückgeben. Keine Markdown-Codeblöcke.`;
 }
 
-/* ---------- AI provider calls ---------- */
-
-async function callOpenAI(userPrompt: string): Promise<AiEnrichmentResult> {
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" },
-    }),
-    signal: AbortSignal.timeout(12_000),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${err}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) throw new Error("Leere Antwort von OpenAI.");
-  return JSON.parse(content) as AiEnrichmentResult;
-}
-
-async function callAnthropic(userPrompt: string): Promise<AiEnrichmentResult> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) throw new Error("ANTHROPIC_API_KEY not configured");
-
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 4096,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: "user", content: userPrompt }],
-    }),
-    signal: AbortSignal.timeout(12_000),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} ${err}`);
-  }
-
-  const data = await response.json();
-  const content = data.content?.[0]?.text;
-  if (!content) throw new Error("Leere Antwort von Anthropic.");
-  const cleaned = content.replace(/^```json?\s*\n?/i, "").replace(/\n?```\s*$/i, "");
-  return JSON.parse(cleaned) as AiEnrichmentResult;
-}
-
 /* ---------- Safety validation ---------- */
 
 function validateAndFilter(result: AiEnrichmentResult): { valid: boolean; filtered: AiEnrichmentResult } {
@@ -159,11 +99,6 @@ function validateAndFilter(result: AiEnrichmentResult): { valid: boolean; filter
     }
   }
 
-  // Ensure sources is an array
-  if (!Array.isArray(filtered.sources)) {
-    filtered.sources = [];
-  }
-
   return { valid: !hasUnsafe, filtered };
 }
 
@@ -177,19 +112,24 @@ export async function runAiEnrichment(
   description: string,
   context?: { molecularFormula?: string; synonyms?: string[] },
 ): Promise<AiEnrichmentOutcome> {
-  const provider = getAiProvider();
-
-  if (provider === "none") {
+  if (getAiProvider("enrichment") === "none") {
     return { status: "skipped", data: null, error: "No AI provider configured" };
   }
 
   try {
-    const prompt = buildEnrichPrompt(name, description, context);
-    const raw = provider === "openai"
-      ? await callOpenAI(prompt)
-      : await callAnthropic(prompt);
+    const result = await generateStructured({
+      feature: "enrichment",
+      schema: AiEnrichmentSchema,
+      system: SYSTEM_PROMPT,
+      prompt: buildEnrichPrompt(name, description, context),
+      timeoutMs: 12_000,
+    });
+    if (!result.ok) {
+      console.error(`[AI Enrich] ${result.error.kind} failure for ${name}:`, result.error.message);
+      return { status: "failed", data: null, error: result.error.message };
+    }
 
-    const { valid, filtered } = validateAndFilter(raw);
+    const { valid, filtered } = validateAndFilter(result.data);
 
     if (!valid) {
       // Content was filtered but we still return the cleaned data
@@ -31,7 +31,7 @@ export function canonicalSlug(name: string): string {
  * Common synonym map (lowercase alias → canonical name).
  * Extend as needed. Used for resolving known alternate names.
  */
-const SYNONYM_MAP: Record<string, string> = {
+export const SYNONYM_MAP: Record<string, string> = {
   "acid": "LSD",
   "lucy": "LSD",
   "lysergic acid diethylamide": "LSD",
@@ -115,6 +115,17 @@ export function resolveSynonym(name: string): string {
   return SYNONYM_MAP[lower] ?? cleaned;
 }
 
+/**
+ * Reverse lookup: all known aliases that resolve to the given canonical
+ * name (case-insensitive). Returns an empty array if none are known.
+ */
+export function synonymsFor(canonicalName: string): string[] {
+  const target = canonicalizeName(canonicalName).toLowerCase();
+  return Object.entries(SYNONYM_MAP)
+    .filter(([, canonical]) => canonical.toLowerCase() === target)
+    .map(([alias]) => alias);
+}
+
 /**
  * Parse CSV/TSV content into substance entries.
  * Expects columns: name, synonyms (optional, semicolon-separated), notes (optional)
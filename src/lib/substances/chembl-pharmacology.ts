@@ -0,0 +1,440 @@
+/**
+ * ChEMBL → receptor heatmap.
+ *
+ * Turns a molecule's ChEMBL mechanisms of action and Ki/IC50/EC50
+ * activities into `targets` and `substance_target_affinity` rows:
+ *
+ * - ChEMBL targets are mapped onto our target slugs via their gene symbols
+ *   (HTR2A → "5-ht2a", SLC6A4 → "sert", …); unknown targets get a slug
+ *   from the gene symbol and a family from its prefix.
+ * - Activities are reduced to one value per target and measure type: the
+ *   median of all exact ("=") measurements, converted to nM.
+ * - The effect type comes from the curated mechanism for that target;
+ *   mechanism targets without measurements become "qualitative" rows.
+ *
+ * All rows are `confidence_level: "literature"` and carry the ChEMBL
+ * documents / mechanism references as sources. Hand-curated rows are never
+ * overwritten; rows from an earlier ChEMBL import are replaced.
+ */
+
+import {
+  chemblDocumentUrl,
+  chemblMoleculeUrl,
+  fetchChEMBLActivities,
+  fetchChEMBLMechanisms,
+  fetchChEMBLTarget,
+  type ChEMBLActivity,
+  type ChEMBLMechanism,
+  type ChEMBLTargetInfo,
+} from "@/lib/connectors/chembl";
+import type { createAdminClient } from "@/lib/supabase/admin";
+import type { EffectType, MeasureType, PharmacologySource, SubstanceTargetAffinity } from "@/lib/types";
+import type { NormalizedSubstance, RawSourceSubstance } from "./adapters";
+import { slugify } from "./slugify";
+
+/** Upper bound of targets per molecule (one request each). */
+export const MAX_CHEMBL_TARGETS = 25;
+
+/** Sources kept per affinity row. */
+const MAX_SOURCES_PER_ROW = 5;
+
+export interface MappedTarget {
+  slug: string;
+  name: string;
+  family: string;
+  description: string;
+}
+
+export interface ChEMBLAffinity
+  extends Pick<
+    SubstanceTargetAffinity,
+    "measure_type" | "affinity_nm" | "effect_type" | "confidence_level" | "sources" | "notes"
+  > {
+  target: MappedTarget;
+  chemblTargetId: string;
+}
+
+// ---------------------------------------------------------------------------
+// Target mapping
+// ---------------------------------------------------------------------------
+
+/** Targets that already exist under a hand-picked slug and name. */
+const KNOWN_TARGETS: Record<string, Omit<MappedTarget, "description">> = {
+  SLC6A3: { slug: "dat", name: "DAT", family: "transporter" },
+  SLC6A2: { slug: "net", name: "NET", family: "transporter" },
+  SLC6A4: { slug: "sert", name: "SERT", family: "transporter" },
+  SLC18A2: { slug: "vmat2", name: "VMAT2", family: "transporter" },
+  OPRM1: { slug: "mor", name: "µ-Opioid (MOR)", family: "opioid" },
+  OPRD1: { slug: "dor", name: "δ-Opioid (DOR)", family: "opioid" },
+  OPRK1: { slug: "kor", name: "κ-Opioid (KOR)", family: "opioid" },
+  OPRL1: { slug: "nop", name: "NOP", family: "opioid" },
+  CNR1: { slug: "cb1", name: "CB₁", family: "cannabinoid" },
+  CNR2: { slug: "cb2", name: "CB₂", family: "cannabinoid" },
+  SIGMAR1: { slug: "sigma1", name: "σ₁", family: "sigma" },
+  TMEM97: { slug: "sigma2", name: "σ₂", family: "sigma" },
+};
+
+const FAMILY_PREFIXES: Array<[RegExp, string]> = [
+  [/^HTR/, "serotonin"],
+  [/^DRD/, "dopamine"],
+  [/^OPR/, "opioid"],
+  [/^(GRIN|GRIA|GRIK|GRM)/, "glutamate"],
+  [/^GABR/, "gaba"],
+  [/^CNR/, "cannabinoid"],
+  [/^ADR[AB]/, "adrenergic"],
+  [/^(SIGMAR|TMEM97)/, "sigma"],
+  [/^SLC(6|18)A/, "transporter"],
+];
+
+const SUBSCRIPT = "₀₁₂₃₄₅₆₇₈₉";
+
+function subscript(digits: string): string {
+  return digits.replace(/\d/g, (d) => SUBSCRIPT[Number(d)]);
+}
+
+function familyOf(gene: string): string {
+  return FAMILY_PREFIXES.find(([pattern]) => pattern.test(gene))?.[1] ?? "other";
+}
+
+/** Slug and display name for a single gene symbol. */
+function mapGene(gene: string): Omit<MappedTarget, "description"> {
+  const known = KNOWN_TARGETS[gene];
+  if (known) return known;
+
+  let m = /^HTR(\d)([A-F]?)$/.exec(gene);
+  if (m) return { slug: `5-ht${m[1]}${m[2].toLowerCase()}`, name: `5-HT${subscript(m[1])}${m[2]}`, family: "serotonin" };
+  m = /^DRD(\d)$/.exec(gene);
+  if (m) return { slug: `d${m[1]}`, name: `D${subscript(m[1])}`, family: "dopamine" };
+  m = /^GRM(\d)$/.exec(gene);
+  if (m) return { slug: `mglur${m[1]}`, name: `mGluR${m[1]}`, family: "glutamate" };
+  m = /^ADR(A|B)(\d)([A-D]?)$/.exec(gene);
+  if (m) {
+    const [greek, word] = m[1] === "A" ? ["α", "alpha"] : ["β", "beta"];
+    return { slug: `${word}${m[2]}${m[3].toLowerCase()}`, name: `${greek}${subscript(m[2])}${m[3]}`, family: "adrenergic" };
+  }
+
+  return { slug: gene.toLowerCase(), name: gene, family: familyOf(gene) };
+}
+
+/**
+ * Map a ChEMBL target onto our `targets` table. Single proteins are keyed
+ * by gene symbol; complexes and families by their ChEMBL name.
+ */
+export function mapChEMBLTarget(info: ChEMBLTargetInfo): MappedTarget {
+  const description = `${info.prefName} (ChEMBL ${info.chemblId})`;
+  if (info.geneSymbols.length === 1) {
+    return { ...mapGene(info.geneSymbols[0]), description };
+  }
+  const family = info.geneSymbols.length > 0 ? familyOf(info.geneSymbols[0]) : "other";
+  return {
+    slug: slugify(info.prefName) || info.chemblId.toLowerCase(),
+    name: info.prefName,
+    family,
+    description,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Activity mapping
+// ---------------------------------------------------------------------------
+
+const UNIT_TO_NM: Record<string, number> = {
+  pM: 0.001,
+  nM: 1,
+  uM: 1000,
+  µM: 1000,
+  μM: 1000,
+  mM: 1_000_000,
+  M: 1_000_000_000,
+};
+
+/** Value in nM, or null for units that are not a concentration. */
+export function toNanomolar(value: number, units: string): number | null {
+  const factor = UNIT_TO_NM[units.trim()];
+  return factor === undefined ? null : value * factor;
+}
+
+export function mapActionType(actionType: string): EffectType {
+  switch (actionType.toUpperCase()) {
+    case "AGONIST":
+      return "agonist";
+    case "PARTIAL AGONIST":
+      return "partial_agonist";
+    case "ANTAGONIST":
+    case "INVERSE AGONIST":
+    case "ALLOSTERIC ANTAGONIST":
+      return "antagonist";
+    case "INHIBITOR":
+    case "BLOCKER":
+    case "CHANNEL BLOCKER":
+      return "inhibitor";
+    case "RELEASING AGENT":
+      return "releaser";
+    case "MODULATOR":
+    case "POSITIVE ALLOSTERIC MODULATOR":
+    case "NEGATIVE ALLOSTERIC MODULATOR":
+    case "POSITIVE MODULATOR":
+    case "NEGATIVE MODULATOR":
+      return "modulator";
+    default:
+      return "unknown";
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Three significant digits are plenty for a heatmap. */
+function round(value: number): number {
+  return Number(value.toPrecision(3));
+}
+
+function activitySources(activities: ChEMBLActivity[]): PharmacologySource[] {
+  const byDocument = new Map<string, ChEMBLActivity>();
+  for (const a of activities) {
+    if (a.documentChemblId && !byDocument.has(a.documentChemblId)) byDocument.set(a.documentChemblId, a);
+  }
+  return [...byDocument.values()]
+    .sort((a, b) => (b.documentYear ?? 0) - (a.documentYear ?? 0))
+    .map((a) => ({
+      title: `ChEMBL ${a.documentChemblId}`,
+      year: a.documentYear,
+      url: chemblDocumentUrl(a.documentChemblId),
+    }));
+}
+
+/** Molecule link first – it also marks the row as imported from ChEMBL. */
+function rowSources(
+  moleculeChemblId: string,
+  mechanism: ChEMBLMechanism | undefined,
+  activities: ChEMBLActivity[],
+): PharmacologySource[] {
+  const mechanismRefs = (mechanism?.refs ?? []).map((r) => ({ title: `${r.refType} ${r.refId}`.trim(), url: r.refUrl }));
+  return [
+    { title: `ChEMBL ${moleculeChemblId}`, url: chemblMoleculeUrl(moleculeChemblId) },
+    ...mechanismRefs,
+    ...activitySources(activities),
+  ].slice(0, MAX_SOURCES_PER_ROW);
+}
+
+/**
+ * Build affinity rows from mechanisms and activities. `targets` holds the
+ * details of every target to import; other targets are ignored.
+ */
+export function mapChEMBLPharmacology(
+  moleculeChemblId: string,
+  mechanisms: ChEMBLMechanism[],
+  activities: ChEMBLActivity[],
+  targets: Map<string, ChEMBLTargetInfo>,
+): ChEMBLAffinity[] {
+  const mechanismByTarget = new Map<string, ChEMBLMechanism>();
+  for (const m of mechanisms) {
+    if (!mechanismByTarget.has(m.targetChemblId)) mechanismByTarget.set(m.targetChemblId, m);
+  }
+
+  // Exact measurements in nM, grouped by target and measure type
+  const groups = new Map<string, { targetId: string; measure: MeasureType; values: number[]; activities: ChEMBLActivity[] }>();
+  for (const a of activities) {
+    if (!targets.has(a.targetChemblId) || a.standardRelation !== "=") continue;
+    const nm = toNanomolar(a.standardValue, a.standardUnits);
+    if (nm === null || nm <= 0) continue;
+    const key = `${a.targetChemblId}|${a.standardType}`;
+    const group = groups.get(key) ?? {
+      targetId: a.targetChemblId,
+      measure: a.standardType as MeasureType,
+      values: [],
+      activities: [],
+    };
+    group.values.push(nm);
+    group.activities.push(a);
+    groups.set(key, group);
+  }
+
+  const rows: ChEMBLAffinity[] = [];
+  const measured = new Set<string>();
+  for (const group of groups.values()) {
+    const info = targets.get(group.targetId)!;
+    const mechanism = mechanismByTarget.get(group.targetId);
+    measured.add(group.targetId);
+    rows.push({
+      target: mapChEMBLTarget(info),
+      chemblTargetId: group.targetId,
+      measure_type: group.measure,
+      affinity_nm: round(median(group.values)),
+      effect_type: mechanism ? mapActionType(mechanism.actionType) : "unknown",
+      confidence_level: "literature",
+      sources: rowSources(moleculeChemblId, mechanism, group.activities),
+      notes:
+        `ChEMBL: Median aus ${group.values.length} Messung${group.values.length === 1 ? "" : "en"}` +
+        (mechanism?.mechanismOfAction ? ` · ${mechanism.mechanismOfAction}` : ""),
+    });
+  }
+
+  for (const [targetId, mechanism] of mechanismByTarget) {
+    const info = targets.get(targetId);
+    if (!info || measured.has(targetId)) continue;
+    rows.push({
+      target: mapChEMBLTarget(info),
+      chemblTargetId: targetId,
+      measure_type: "qualitative",
+      affinity_nm: null,
+      effect_type: mapActionType(mechanism.actionType),
+      confidence_level: "literature",
+      sources: rowSources(moleculeChemblId, mechanism, []),
+      notes: `ChEMBL: ${mechanism.mechanismOfAction || "Wirkmechanismus"}`,
+    });
+  }
+
+  // Several ChEMBL targets can map onto one slug (e.g. species variants)
+  const unique = new Map<string, ChEMBLAffinity>();
+  for (const row of rows) {
+    const key = `${row.target.slug}|${row.measure_type}|${row.effect_type}`;
+    if (!unique.has(key)) unique.set(key, row);
+  }
+  return [...unique.values()];
+}
+
+/**
+ * Targets worth a detail request: mechanism targets first, then measured
+ * targets by their strongest affinity.
+ */
+export function selectTargetIds(
+  mechanisms: ChEMBLMechanism[],
+  activities: ChEMBLActivity[],
+  limit = MAX_CHEMBL_TARGETS,
+): string[] {
+  const best = new Map<string, number>();
+  for (const a of activities) {
+    const nm = a.standardRelation === "=" ? toNanomolar(a.standardValue, a.standardUnits) : null;
+    if (nm === null || nm <= 0) continue;
+    best.set(a.targetChemblId, Math.min(best.get(a.targetChemblId) ?? Infinity, nm));
+  }
+  const byAffinity = [...best.entries()].sort((a, b) => a[1] - b[1]).map(([id]) => id);
+  return [...new Set([...mechanisms.map((m) => m.targetChemblId), ...byAffinity])].slice(0, limit);
+}
+
+/**
+ * Fetch mechanisms, activities and target details of a molecule and map
+ * them to affinity rows. Throws on ChEMBL errors.
+ */
+export async function fetchChEMBLAffinities(moleculeChemblId: string): Promise<ChEMBLAffinity[]> {
+  const [mechanisms, activities] = await Promise.all([
+    fetchChEMBLMechanisms(moleculeChemblId),
+    fetchChEMBLActivities(moleculeChemblId),
+  ]);
+
+  const targets = new Map<string, ChEMBLTargetInfo>();
+  for (const id of selectTargetIds(mechanisms, activities)) {
+    const info = await fetchChEMBLTarget(id);
+    // Activities are filtered to human targets, mechanisms are not
+    if (info && (!info.organism || info.organism === "Homo sapiens")) targets.set(id, info);
+  }
+
+  return mapChEMBLPharmacology(moleculeChemblId, mechanisms, activities, targets);
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * ChEMBL id whose pharmacology may be saved for a merged import. A name
+ * search can hit a salt or another compound, so ChEMBL's InChIKey must equal
+ * one confirmed by another source – like the enrich route, which compares
+ * against the stored InChIKey.
+ */
+export function verifiedChEMBLId(raws: RawSourceSubstance[], normalized: NormalizedSubstance): string | null {
+  const chembl = raws.find((r) => r.sourceId === "chembl");
+  if (!chembl?.chemblId || !chembl.inchiKey || !normalized.inchiKey) return null;
+  // ChEMBL's own key cannot confirm itself
+  if (normalized.provenance.inchiKey?.sourceId === "chembl") return null;
+  return chembl.inchiKey === normalized.inchiKey ? chembl.chemblId : null;
+}
+
+export interface SaveAffinitiesResult {
+  saved: number;
+  /** Rows left alone because a hand-curated row exists */
+  skipped: number;
+}
+
+function isFromChEMBL(sources: PharmacologySource[] | null): boolean {
+  return (sources ?? []).some((s) => s.url?.startsWith("https://www.ebi.ac.uk/chembl/compound_report_card/"));
+}
+
+/**
+ * Upsert targets (existing ones keep their curated name) and replace the
+ * substance's ChEMBL affinity rows. Target/measure pairs with a curated row
+ * are left alone.
+ */
+export async function saveChEMBLAffinities(
+  supabase: ReturnType<typeof createAdminClient>,
+  substanceId: string,
+  affinities: ChEMBLAffinity[],
+): Promise<SaveAffinitiesResult> {
+  if (affinities.length === 0) return { saved: 0, skipped: 0 };
+
+  const targetRows = [...new Map(affinities.map((a) => [a.target.slug, a.target])).values()];
+  const { error: targetError } = await supabase
+    .from("targets")
+    .upsert(targetRows, { onConflict: "slug", ignoreDuplicates: true });
+  if (targetError) throw new Error(`Targets konnten nicht gespeichert werden: ${targetError.message}`);
+
+  const { data: targetData, error: lookupError } = await supabase
+    .from("targets")
+    .select("id, slug")
+    .in("slug", targetRows.map((t) => t.slug));
+  if (lookupError) throw new Error(`Targets konnten nicht geladen werden: ${lookupError.message}`);
+  const targetIds = new Map((targetData ?? []).map((t: { id: string; slug: string }) => [t.slug, t.id]));
+
+  const { data: existing } = await supabase
+    .from("substance_target_affinity")
+    .select("id, target_id, measure_type, effect_type, sources")
+    .eq("substance_id", substanceId);
+  const existingRows = (existing ?? []) as Pick<
+    SubstanceTargetAffinity,
+    "id" | "target_id" | "measure_type" | "effect_type" | "sources"
+  >[];
+  // A curated row blocks the target/measure pair whatever its effect type –
+  // otherwise the heatmap shows a second cell next to it
+  const curated = new Set(
+    existingRows.filter((row) => !isFromChEMBL(row.sources)).map((row) => `${row.target_id}|${row.measure_type}`),
+  );
+
+  const now = new Date().toISOString();
+  const rows = affinities
+    .map((a) => ({
+      substance_id: substanceId,
+      target_id: targetIds.get(a.target.slug),
+      measure_type: a.measure_type,
+      affinity_nm: a.affinity_nm,
+      effect_type: a.effect_type,
+      confidence_level: a.confidence_level,
+      sources: a.sources,
+      notes: a.notes,
+      updated_at: now,
+    }))
+    .filter((row) => row.target_id && !curated.has(`${row.target_id}|${row.measure_type}`));
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from("substance_target_affinity")
+      .upsert(rows, { onConflict: "substance_id,target_id,measure_type,effect_type" });
+    if (error) throw new Error(`Affinitäten konnten nicht gespeichert werden: ${error.message}`);
+  }
+
+  // Only after the new rows are in: drop rows of the previous import whose
+  // target or effect changed since, so they do not stay next to the new ones
+  const written = new Set(rows.map((row) => `${row.target_id}|${row.measure_type}|${row.effect_type}`));
+  const outdated = existingRows
+    .filter((row) => isFromChEMBL(row.sources) && !written.has(`${row.target_id}|${row.measure_type}|${row.effect_type}`))
+    .map((row) => row.id);
+  if (outdated.length > 0) {
+    const { error } = await supabase.from("substance_target_affinity").delete().in("id", outdated);
+    if (error) throw new Error(`Alte ChEMBL-Affinitäten konnten nicht entfernt werden: ${error.message}`);
+  }
+
+  return { saved: rows.length, skipped: affinities.length - rows.length };
+}
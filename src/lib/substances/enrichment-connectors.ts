@@ -3,6 +3,9 @@
  * Uses public REST APIs (no scraping).
  */
 
+import { pubchemHttp, wikidataHttp } from "@/lib/connectors/clients";
+import { fetchChEMBLMechanisms, fetchChEMBLTarget, searchChEMBLMolecules } from "@/lib/connectors/chembl";
+
 /* ============ PubChem ============ */
 
 export interface PubChemFacts {
@@ -23,7 +26,7 @@ export async function fetchPubChemFacts(name: string): Promise<PubChemFacts | nu
   try {
     // Get CID by name
     const cidUrl = `${PUBCHEM_BASE}/compound/name/${encodeURIComponent(name)}/cids/JSON`;
-    const cidRes = await fetch(cidUrl, { signal: AbortSignal.timeout(10_000) });
+    const cidRes = await pubchemHttp.fetch(cidUrl, { timeoutMs: 10_000 });
     if (!cidRes.ok) return null;
 
     const cidData = await cidRes.json() as { IdentifierList?: { CID?: number[] } };
@@ -32,7 +35,7 @@ export async function fetchPubChemFacts(name: string): Promise<PubChemFacts | nu
 
     // Get compound properties
     const propsUrl = `${PUBCHEM_BASE}/compound/cid/${cid}/property/IUPACName,MolecularFormula,MolecularWeight/JSON`;
-    const propsRes = await fetch(propsUrl, { signal: AbortSignal.timeout(10_000) });
+    const propsRes = await pubchemHttp.fetch(propsUrl, { timeoutMs: 10_000 });
     const propsData = propsRes.ok
       ? (await propsRes.json() as { PropertyTable?: { Properties?: Array<{
           IUPACName?: string;
@@ -44,7 +47,7 @@ export async function fetchPubChemFacts(name: string): Promise<PubChemFacts | nu
 
     // Get synonyms (limit to 10)
     const synUrl = `${PUBCHEM_BASE}/compound/cid/${cid}/synonyms/JSON`;
-    const synRes = await fetch(synUrl, { signal: AbortSignal.timeout(10_000) });
+    const synRes = await pubchemHttp.fetch(synUrl, { timeoutMs: 10_000 });
     const synData = synRes.ok
       ? (await synRes.json() as { InformationList?: { Information?: Array<{ Synonym?: string[] }> } })
       : null;
@@ -75,83 +78,36 @@ export interface ChEMBLTarget {
 export interface ChEMBLResult {
   chemblId: string;
   prefName: string;
+  /** Standard InChIKey of the molecule ("" if ChEMBL has no structure) */
+  inchiKey: string;
   targets: ChEMBLTarget[];
 }
 
-const CHEMBL_BASE = "https://www.ebi.ac.uk/chembl/api/data";
-
 /**
  * Search ChEMBL for a molecule by name and retrieve its known targets.
  * Returns null if not found or on error (non-throwing).
  */
 export async function fetchChEMBLTargets(name: string): Promise<ChEMBLResult | null> {
   try {
-    // Search for the molecule
-    const searchUrl = `${CHEMBL_BASE}/molecule/search.json?q=${encodeURIComponent(name)}&limit=1`;
-    const searchRes = await fetch(searchUrl, {
-      signal: AbortSignal.timeout(15_000),
-      headers: { Accept: "application/json" },
-    });
-    if (!searchRes.ok) return null;
-
-    const searchData = await searchRes.json() as {
-      molecules?: Array<{
-        molecule_chembl_id?: string;
-        pref_name?: string;
-      }>;
-    };
-    const molecule = searchData?.molecules?.[0];
-    if (!molecule?.molecule_chembl_id) return null;
-
-    const chemblId = molecule.molecule_chembl_id;
-
-    // Get mechanism of action / targets
-    const mechUrl = `${CHEMBL_BASE}/mechanism.json?molecule_chembl_id=${chemblId}&limit=20`;
-    const mechRes = await fetch(mechUrl, {
-      signal: AbortSignal.timeout(15_000),
-      headers: { Accept: "application/json" },
-    });
+    const [molecule] = await searchChEMBLMolecules(name, 1);
+    if (!molecule) return null;
 
     const targets: ChEMBLTarget[] = [];
-
-    if (mechRes.ok) {
-      const mechData = await mechRes.json() as {
-        mechanisms?: Array<{
-          target_chembl_id?: string;
-          mechanism_of_action?: string;
-          action_type?: string;
-        }>;
-      };
-
-      for (const mech of mechData?.mechanisms ?? []) {
-        if (mech.target_chembl_id) {
-          // Fetch target details
-          const targetUrl = `${CHEMBL_BASE}/target/${mech.target_chembl_id}.json`;
-          const targetRes = await fetch(targetUrl, {
-            signal: AbortSignal.timeout(10_000),
-            headers: { Accept: "application/json" },
-          });
-
-          if (targetRes.ok) {
-            const targetData = await targetRes.json() as {
-              pref_name?: string;
-              target_type?: string;
-              organism?: string;
-            };
-            targets.push({
-              targetName: targetData?.pref_name ?? mech.mechanism_of_action ?? "Unknown",
-              targetType: targetData?.target_type ?? "",
-              organism: targetData?.organism ?? "",
-              action: mech.action_type ?? "",
-            });
-          }
-        }
-      }
+    for (const mech of await fetchChEMBLMechanisms(molecule.chemblId).catch(() => [])) {
+      const target = await fetchChEMBLTarget(mech.targetChemblId).catch(() => null);
+      if (!target) continue;
+      targets.push({
+        targetName: target.prefName || mech.mechanismOfAction || "Unknown",
+        targetType: target.targetType,
+        organism: target.organism,
+        action: mech.actionType,
+      });
     }
 
     return {
-      chemblId,
-      prefName: molecule.pref_name ?? name,
+      chemblId: molecule.chemblId,
+      prefName: molecule.prefName || name,
+      inchiKey: molecule.inchiKey,
       targets,
     };
   } catch (err) {
@@ -184,8 +140,7 @@ LIMIT ${limit}
 
   try {
     const url = `${WIKIDATA_SPARQL}?query=${encodeURIComponent(query)}&format=json`;
-    const res = await fetch(url, {
-      signal: AbortSignal.timeout(30_000),
+    const res = await wikidataHttp.fetch(url, {
       headers: { Accept: "application/json", "User-Agent": "Synapedia/1.0" },
     });
     if (!res.ok) return [];
@@ -218,7 +173,7 @@ LIMIT ${limit}
 export async function verifyPubChemName(name: string): Promise<number | null> {
   try {
     const url = `${PUBCHEM_BASE}/compound/name/${encodeURIComponent(name)}/cids/JSON`;
-    const res = await fetch(url, { signal: AbortSignal.timeout(8_000) });
+    const res = await pubchemHttp.fetch(url, { timeoutMs: 8_000 });
     if (!res.ok) return null;
     const data = await res.json() as { IdentifierList?: { CID?: number[] } };
     return data?.IdentifierList?.CID?.[0] ?? null;
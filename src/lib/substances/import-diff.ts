@@ -0,0 +1,205 @@
+/**
+ * Field-by-field diff between an existing substance and a fresh import.
+ *
+ * The dry run lists, per existing substance, every import-managed field
+ * whose value would change (old value, new value, source of the new value).
+ * Editors accept or reject single fields; commit writes only the accepted
+ * ones. A rejection is stored with the rejected value in
+ * `substances.import_rejections`, so the same value is not proposed again –
+ * a different value from the source is.
+ */
+
+import type { FieldProvenance, MergeField, NormalizedSubstance } from "./adapters";
+
+/** Substance columns an import may update. */
+export const DIFF_FIELDS = ["name", "summary", "canonical_id", "pubchem_cid", "aliases_list"] as const;
+
+export type DiffField = (typeof DIFF_FIELDS)[number];
+
+export type DiffValue = string | number | string[] | null;
+
+export interface FieldDiff {
+  field: DiffField;
+  oldValue: DiffValue;
+  newValue: DiffValue;
+  /** Source of the new value; null if it was assembled from several */
+  source: FieldProvenance | null;
+}
+
+export interface FieldRejection {
+  value: DiffValue;
+  sourceId: string | null;
+  rejectedAt: string;
+}
+
+export type ImportRejections = Partial<Record<DiffField, FieldRejection>>;
+
+/** Columns of `substances` needed to compute a diff. */
+export const DIFF_SELECT = "id, slug, name, summary, canonical_id, pubchem_cid, aliases_list, field_provenance, import_rejections";
+
+export interface DiffableSubstance {
+  id: string;
+  name: string | null;
+  summary: string | null;
+  canonical_id: string | null;
+  pubchem_cid: number | string | null;
+  aliases_list: string[] | null;
+  field_provenance?: Partial<Record<MergeField, FieldProvenance>> | null;
+  import_rejections?: ImportRejections | null;
+}
+
+/** Provenance entry that backs a diff field, if the field maps onto one. */
+const PROVENANCE_KEY: Partial<Record<DiffField, MergeField>> = {
+  name: "name",
+  summary: "summary",
+  pubchem_cid: "pubchemCid",
+};
+
+function sourceEntry(normalized: NormalizedSubstance, match: (s: NormalizedSubstance["sources"][number]) => boolean) {
+  const source = normalized.sources.find(match);
+  return source ? { sourceId: source.sourceId, sourceUrl: source.sourceUrl, retrievedAt: source.retrievedAt } : null;
+}
+
+/**
+ * Values an import proposes for each field. Empty values are left out – an
+ * import never blanks a field.
+ */
+export function proposedFields(
+  normalized: NormalizedSubstance,
+): Partial<Record<DiffField, { value: DiffValue; source: FieldProvenance | null }>> {
+  const proposed: Partial<Record<DiffField, { value: DiffValue; source: FieldProvenance | null }>> = {};
+
+  if (normalized.name) proposed.name = { value: normalized.name, source: normalized.provenance.name ?? null };
+  if (normalized.summary) {
+    proposed.summary = { value: normalized.summary, source: normalized.provenance.summary ?? null };
+  }
+  if (normalized.canonicalId) {
+    proposed.canonical_id = {
+      value: normalized.canonicalId,
+      source:
+        normalized.canonicalId === normalized.inchiKey
+          ? (normalized.provenance.inchiKey ?? null)
+          : sourceEntry(normalized, (s) => s.sourceId === "wikidata"),
+    };
+  }
+  if (normalized.pubchemCid) {
+    proposed.pubchem_cid = { value: normalized.pubchemCid, source: normalized.provenance.pubchemCid ?? null };
+  }
+  if (normalized.aliases.length > 0) {
+    const aliasSources = normalized.sources.filter((s) => s.fields.includes("aliases"));
+    proposed.aliases_list = {
+      value: normalized.aliases,
+      source: aliasSources.length === 1 ? sourceEntry(normalized, (s) => s === aliasSources[0]) : null,
+    };
+  }
+  return proposed;
+}
+
+function comparable(value: DiffValue | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return JSON.stringify([...value].map((v) => v.trim()).sort());
+  return String(value).trim();
+}
+
+/** Equal up to whitespace, number/string representation and list order. */
+export function sameValue(a: DiffValue | undefined, b: DiffValue | undefined): boolean {
+  return comparable(a) === comparable(b);
+}
+
+function currentValue(existing: DiffableSubstance, field: DiffField): DiffValue {
+  const value = existing[field];
+  return value === undefined ? null : value;
+}
+
+/**
+ * Fields whose proposed value differs from the stored one. Proposals equal
+ * to a remembered rejection are left out and counted as `suppressed`.
+ */
+export function diffSubstance(
+  existing: DiffableSubstance,
+  normalized: NormalizedSubstance,
+): { diffs: FieldDiff[]; suppressed: DiffField[] } {
+  const rejections = existing.import_rejections ?? {};
+  const diffs: FieldDiff[] = [];
+  const suppressed: DiffField[] = [];
+
+  for (const [field, proposal] of Object.entries(proposedFields(normalized)) as Array<
+    [DiffField, { value: DiffValue; source: FieldProvenance | null }]
+  >) {
+    const oldValue = currentValue(existing, field);
+    if (sameValue(oldValue, proposal.value)) continue;
+    const rejection = rejections[field];
+    if (rejection && sameValue(rejection.value, proposal.value)) {
+      suppressed.push(field);
+      continue;
+    }
+    diffs.push({ field, oldValue, newValue: proposal.value, source: proposal.source });
+  }
+
+  // Stable order for the review UI
+  diffs.sort((a, b) => DIFF_FIELDS.indexOf(a.field) - DIFF_FIELDS.indexOf(b.field));
+  return { diffs, suppressed };
+}
+
+/**
+ * Column values to write and the updated rejection map for a reviewed
+ * substance. `reviewed` holds the new values the editor saw in the dry run:
+ * an accepted field is only written while the import still proposes that
+ * value, otherwise it is returned as `stale`. A rejection remembers the
+ * reviewed value. Fields that are neither accepted nor rejected stay
+ * untouched and are proposed again next time.
+ */
+export function applyFieldDecisions(
+  existing: DiffableSubstance,
+  diffs: FieldDiff[],
+  decisions: { accepted: DiffField[]; rejected: DiffField[]; reviewed: Partial<Record<DiffField, DiffValue>> },
+  now = new Date().toISOString(),
+): {
+  update: Partial<Record<DiffField, DiffValue>>;
+  provenance: Partial<Record<MergeField, FieldProvenance>>;
+  rejections: ImportRejections;
+  stale: DiffField[];
+} {
+  const update: Partial<Record<DiffField, DiffValue>> = {};
+  const provenance: Partial<Record<MergeField, FieldProvenance>> = { ...(existing.field_provenance ?? {}) };
+  const rejections: ImportRejections = { ...(existing.import_rejections ?? {}) };
+  const stale: DiffField[] = [];
+
+  for (const field of decisions.accepted) {
+    const diff = diffs.find((d) => d.field === field);
+    const seen = decisions.reviewed[field];
+    if (!diff || seen === undefined || !sameValue(diff.newValue, seen)) {
+      stale.push(field);
+      continue;
+    }
+    update[field] = diff.newValue;
+    const key = PROVENANCE_KEY[field];
+    if (key && diff.source) provenance[key] = diff.source;
+    delete rejections[field];
+  }
+
+  for (const field of decisions.rejected) {
+    if (!DIFF_FIELDS.includes(field) || decisions.accepted.includes(field)) continue;
+    const diff = diffs.find((d) => d.field === field);
+    const value = decisions.reviewed[field] ?? diff?.newValue;
+    if (value === undefined) continue;
+    const sourceId = diff && sameValue(diff.newValue, value) ? (diff.source?.sourceId ?? null) : null;
+    rejections[field] = { value, sourceId, rejectedAt: now };
+  }
+  return { update, provenance, rejections, stale };
+}
+
+/**
+ * Drop columns from an unreviewed overwrite whose value was rejected
+ * before, so a bulk overwrite does not bring them back either.
+ */
+export function withoutRejectedValues<T extends Record<string, unknown>>(
+  data: T,
+  rejections: ImportRejections | null | undefined,
+): Partial<T> {
+  const result: Partial<T> = { ...data };
+  for (const [field, rejection] of Object.entries(rejections ?? {}) as Array<[DiffField, FieldRejection]>) {
+    if (field in result && sameValue(result[field] as DiffValue, rejection.value)) delete result[field];
+  }
+  return result;
+}
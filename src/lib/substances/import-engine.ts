@@ -56,6 +56,8 @@ export interface ImportOptions {
   runId?: string;
   skipAi?: boolean;
   skipPubChem?: boolean;
+  /** Called after each item, e.g. to report job progress */
+  onItem?: (result: ImportItemResult, done: number, total: number) => void | Promise<void>;
 }
 
 export interface WikidataItem {
@@ -112,10 +114,14 @@ export function computeConfidenceScore(params: {
 
 /* ============ Pipeline Steps ============ */
 
-async function processItem(
+/**
+ * Run the pipeline for one item. Never throws; failures end up in the result.
+ * `supabase` may be null for a dry run, which stops before the DB step.
+ */
+export async function processItem(
   item: WikidataItem,
   options: ImportOptions,
-  supabase: ReturnType<typeof createAdminClient>,
+  supabase: ReturnType<typeof createAdminClient> | null,
 ): Promise<ImportItemResult> {
   const result: ImportItemResult = {
     label: item.label,
@@ -197,6 +203,11 @@ async function processItem(
     result.db_status = "skipped";
     return result;
   }
+  if (!supabase) {
+    result.db_status = "failed";
+    result.error = "db: Kein Supabase-Client.";
+    return result;
+  }
 
   try {
     const slug = slugify(item.label);
@@ -284,8 +295,8 @@ async function processItem(
       if (data) existing = data;
     }
 
-    if (existing) {
-      // Update: merge enrichment and identifiers, keep existing data
+    // Update: merge enrichment and identifiers, keep existing data
+    const updateExisting = async (id: string) => {
       const { error: updateError } = await supabase
         .from("substances")
         .update({
@@ -295,7 +306,7 @@ async function processItem(
           enrichment,
           meta: sanitisedRow.meta,
         })
-        .eq("id", existing.id);
+        .eq("id", id);
 
       if (updateError) {
         result.db_status = "failed";
@@ -303,6 +314,10 @@ async function processItem(
       } else {
         result.db_status = "updated";
       }
+    };
+
+    if (existing) {
+      await updateExisting(existing.id);
     } else {
       // Insert new substance with top-level dedupe columns
       sanitisedRow.wikidata_qid = item.qid || null;
@@ -314,7 +329,20 @@ async function processItem(
         .select("id")
         .single();
 
-      if (insertError) {
+      if (insertError?.code === "23505") {
+        // A concurrent run inserted the same QID in the meantime
+        const { data: raced } = await supabase
+          .from("substances")
+          .select("id")
+          .eq("wikidata_qid", item.qid)
+          .maybeSingle();
+        if (raced) {
+          await updateExisting(raced.id);
+        } else {
+          result.db_status = "failed";
+          result.error = `db: ${insertError.message}`;
+        }
+      } else if (insertError) {
         result.db_status = "failed";
         result.error = `db: ${insertError.message}`;
       } else {
@@ -384,19 +412,14 @@ export async function runImport(
 
   for (const item of limited) {
     const itemStart = Date.now();
-    const itemResult = await processItem(
-      item,
-      opts,
-      // For dry runs the DB step is skipped so the client is unused;
-      // pass supabase as-is (null for dryRun) to avoid creating a client
-      // that may fail when Supabase is not configured.
-      supabase as ReturnType<typeof createAdminClient>,
-    );
+    // null for dry runs: no client is created when Supabase is not configured
+    const itemResult = await processItem(item, opts, supabase);
     const itemElapsed = Date.now() - itemStart;
     console.log(
       `[import-engine] ${item.qid} (${item.label}) done in ${itemElapsed}ms — PC:${itemResult.pubchem_status} AI:${itemResult.ai_status} DB:${itemResult.db_status}`,
     );
     results.push(itemResult);
+    await options.onItem?.(itemResult, results.length, limited.length);
   }
 
   const summary: ImportSummary = {
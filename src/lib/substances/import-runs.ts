@@ -0,0 +1,286 @@
+/**
+ * Resumable import runs.
+ *
+ * A run (`import_runs`) stores its whole input list and is worked off in
+ * chunks: `resumeImportRun` locks the run, processes items from
+ * `next_index` until its time budget is used up and checkpoints every
+ * finished item in `import_run_items`. A run cut off by a function timeout
+ * simply continues with the next call; a stale lock (crashed worker) is
+ * taken over after STALE_RUN_LOCK_SECONDS.
+ *
+ * Chunks are driven by the admin UI (POST …/runs/[id]/resume) or by the
+ * `import` background job.
+ */
+
+import { randomUUID } from "crypto";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { FUNCTION_TIME_BUDGET_MS } from "@/lib/config";
+import { processItem, type ImportItemResult, type WikidataItem } from "./import-engine";
+
+/** A locked run whose lock is older than this may be taken over. */
+export const STALE_RUN_LOCK_SECONDS = 120;
+
+/** Time one resume request may spend on items. */
+export const DEFAULT_CHUNK_BUDGET_MS = FUNCTION_TIME_BUDGET_MS;
+
+export type ImportRunStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface ImportRunOptions {
+  dryRun: boolean;
+  skipAi?: boolean;
+  skipPubChem?: boolean;
+}
+
+export interface ImportRun {
+  id: string;
+  created_at: string;
+  triggered_by: string | null;
+  status: ImportRunStatus;
+  dry_run: boolean;
+  total_items: number;
+  next_index: number;
+  inserted_count: number;
+  updated_count: number;
+  skipped_count: number;
+  error_count: number;
+  items: WikidataItem[];
+  options: ImportRunOptions;
+  cancel_requested: boolean;
+  locked_by: string | null;
+  locked_at: string | null;
+  finished_at: string | null;
+}
+
+/** Checkpoint row of one processed item. */
+export interface ImportRunItem {
+  item_index: number;
+  qid: string | null;
+  result: ImportItemResult;
+  created_at: string;
+}
+
+export interface ImportRunStore {
+  get(id: string): Promise<ImportRun | null>;
+  /** Lock the run for a worker; null if it is finished or locked by another worker. */
+  claim(id: string, workerId: string): Promise<ImportRun | null>;
+  /** Store one result and advance next_index; false if the lock was lost. */
+  checkpoint(id: string, workerId: string, index: number, result: ImportItemResult): Promise<boolean>;
+  /** Drop the lock and set the status the chunk ended with. */
+  release(id: string, workerId: string, status: ImportRunStatus): Promise<void>;
+  isCancelRequested(id: string): Promise<boolean>;
+}
+
+export function supabaseImportRunStore(): ImportRunStore {
+  const supabase = createAdminClient();
+
+  return {
+    async get(id) {
+      const { data } = await supabase.from("import_runs").select("*").eq("id", id).maybeSingle();
+      return (data as ImportRun | null) ?? null;
+    },
+
+    async claim(id, workerId) {
+      const { data, error } = await supabase.rpc("claim_import_run", {
+        p_run_id: id,
+        p_worker: workerId,
+        p_stale_seconds: STALE_RUN_LOCK_SECONDS,
+      });
+      if (error) throw new Error(`Import-Lauf konnte nicht übernommen werden: ${error.message}`);
+      return ((data ?? []) as ImportRun[])[0] ?? null;
+    },
+
+    async checkpoint(id, workerId, index, result) {
+      const { data, error } = await supabase.rpc("checkpoint_import_item", {
+        p_run_id: id,
+        p_worker: workerId,
+        p_index: index,
+        p_item: result,
+      });
+      if (error) throw new Error(`Checkpoint für Item ${index} fehlgeschlagen: ${error.message}`);
+      return data === true;
+    },
+
+    async release(id, workerId, status) {
+      const { error } = await supabase
+        .from("import_runs")
+        .update({
+          status,
+          locked_by: null,
+          locked_at: null,
+          ...(status === "running" ? {} : { finished_at: new Date().toISOString() }),
+        })
+        .eq("id", id)
+        .eq("locked_by", workerId);
+      if (error) throw new Error(`Import-Lauf konnte nicht freigegeben werden: ${error.message}`);
+    },
+
+    async isCancelRequested(id) {
+      const { data } = await supabase.from("import_runs").select("cancel_requested").eq("id", id).maybeSingle();
+      return data?.cancel_requested === true;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Processing
+// ---------------------------------------------------------------------------
+
+export interface ResumeOptions {
+  /** Stable per caller, so a caller can pick up its own lock after a timeout */
+  workerId?: string;
+  timeBudgetMs?: number;
+  /** Stop after this many items even if time is left */
+  maxItems?: number;
+  store?: ImportRunStore;
+}
+
+export interface ResumeResult {
+  /** false: the run is finished or another worker holds it */
+  claimed: boolean;
+  run: ImportRun | null;
+  /** Results of the items processed in this chunk */
+  results: ImportItemResult[];
+}
+
+/**
+ * Process the next chunk of a run. Returns after the time budget, after
+ * `maxItems`, on cancellation or when the run is complete; `run.status`
+ * is "running" while items are left.
+ */
+export async function resumeImportRun(runId: string, opts: ResumeOptions = {}): Promise<ResumeResult> {
+  const store = opts.store ?? supabaseImportRunStore();
+  const workerId = opts.workerId ?? `import-${randomUUID()}`;
+  const budget = opts.timeBudgetMs ?? DEFAULT_CHUNK_BUDGET_MS;
+  const start = Date.now();
+
+  const run = await store.claim(runId, workerId);
+  if (!run) return { claimed: false, run: await store.get(runId), results: [] };
+
+  const options = { ...run.options, limit: run.items.length, runId };
+  // Dry runs never touch the database, so they need no client
+  const supabase = options.dryRun ? null : createAdminClient();
+
+  const results: ImportItemResult[] = [];
+  let index = run.next_index;
+  let status: ImportRunStatus = "running";
+  let lockLost = false;
+
+  try {
+    while (index < run.items.length) {
+      if (opts.maxItems !== undefined && results.length >= opts.maxItems) break;
+      if (results.length > 0 && Date.now() - start >= budget) break;
+      if (await store.isCancelRequested(runId)) {
+        status = "cancelled";
+        break;
+      }
+
+      const result = await processItem(run.items[index], options, supabase);
+      if (!(await store.checkpoint(runId, workerId, index, result))) {
+        lockLost = true;
+        break;
+      }
+      results.push(result);
+      index++;
+    }
+    if (status === "running" && index >= run.items.length) status = "done";
+  } finally {
+    // Keep the lock of whoever took the run over; an error leaves it resumable
+    if (!lockLost) await store.release(runId, workerId, status);
+  }
+
+  return { claimed: true, run: await store.get(runId), results };
+}
+
+// ---------------------------------------------------------------------------
+// Admin operations
+// ---------------------------------------------------------------------------
+
+/** The run without its (possibly long) input list, for API responses. */
+export function withoutItems(run: ImportRun): Omit<ImportRun, "items"> {
+  const rest: Partial<ImportRun> = { ...run };
+  delete rest.items;
+  return rest as Omit<ImportRun, "items">;
+}
+
+export async function createImportRun(
+  items: WikidataItem[],
+  options: ImportRunOptions,
+  triggeredBy = "admin",
+): Promise<ImportRun> {
+  const { data, error } = await createAdminClient()
+    .from("import_runs")
+    .insert({
+      triggered_by: triggeredBy,
+      source_config: { adapters: options.skipPubChem ? ["wikidata"] : ["wikidata", "pubchem"], skipAi: !!options.skipAi },
+      dry_run: options.dryRun,
+      total_items: items.length,
+      status: "queued" as ImportRunStatus,
+      items,
+      options,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[createImportRun]", error.message);
+    throw new Error("Import-Lauf konnte nicht angelegt werden.");
+  }
+  return data as ImportRun;
+}
+
+export async function getImportRun(id: string): Promise<ImportRun | null> {
+  return supabaseImportRunStore().get(id);
+}
+
+/** Recent runs without their input lists. */
+export async function listImportRuns(
+  opts: { open?: boolean; limit?: number } = {},
+): Promise<Omit<ImportRun, "items">[]> {
+  let query = createAdminClient()
+    .from("import_runs")
+    .select(
+      "id, created_at, triggered_by, status, dry_run, total_items, next_index, inserted_count, updated_count, skipped_count, error_count, options, cancel_requested, locked_by, locked_at, finished_at",
+    )
+    .order("created_at", { ascending: false })
+    .limit(opts.limit ?? 20);
+  if (opts.open) query = query.in("status", ["queued", "running"]);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Import-Läufe konnten nicht geladen werden: ${error.message}`);
+  return (data ?? []) as Omit<ImportRun, "items">[];
+}
+
+export async function listImportRunItems(runId: string): Promise<ImportRunItem[]> {
+  const { data, error } = await createAdminClient()
+    .from("import_run_items")
+    .select("item_index, qid, result, created_at")
+    .eq("run_id", runId)
+    .not("item_index", "is", null)
+    .order("item_index", { ascending: true });
+  if (error) throw new Error(`Checkpoints konnten nicht geladen werden: ${error.message}`);
+  return (data ?? []) as ImportRunItem[];
+}
+
+/**
+ * Cancel a run. An unlocked run is cancelled right away; a run that is
+ * being processed gets `cancel_requested` and stops before its next item.
+ * Returns null if the run does not exist or has already finished.
+ */
+export async function cancelImportRun(id: string): Promise<ImportRun | null> {
+  const run = await getImportRun(id);
+  if (!run || (run.status !== "queued" && run.status !== "running")) return null;
+
+  const supabase = createAdminClient();
+  // Stops a run that is being processed before its next item …
+  const { error } = await supabase.from("import_runs").update({ cancel_requested: true }).eq("id", id);
+  if (error) throw new Error(`Import-Lauf konnte nicht abgebrochen werden: ${error.message}`);
+  // … and ends an idle one right away
+  await supabase
+    .from("import_runs")
+    .update({ status: "cancelled" as ImportRunStatus, finished_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("locked_by", null)
+    .in("status", ["queued", "running"]);
+
+  return getImportRun(id);
+}
@@ -9,6 +9,8 @@
  * - Never blocks the import run
  */
 
+import { pubchemHttp } from "@/lib/connectors/clients";
+
 const PUBCHEM_BASE = "https://pubchem.ncbi.nlm.nih.gov/rest/pug";
 const TIMEOUT_MS = 7_000;
 
@@ -36,7 +38,7 @@ async function fetchWithRetry(
 ): Promise<Response | null> {
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
-      const res = await fetch(url, { signal: AbortSignal.timeout(TIMEOUT_MS) });
+      const res = await pubchemHttp.fetch(url, { timeoutMs: TIMEOUT_MS });
 
       // 404 is a valid "not found" — return it directly
       if (res.status === 404) return res;
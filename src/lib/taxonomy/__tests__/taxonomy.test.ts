@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTaxonomy,
+  categoryFromDb,
+  resolveSubstance,
+  STATIC_TAXONOMY,
+  type TaxonomySource,
+} from "../taxonomy";
+
+function source(partial: Partial<TaxonomySource> & Pick<TaxonomySource, "id" | "name" | "slug">): TaxonomySource {
+  return { aliases: [], categories: [], tags: [], ...partial };
+}
+
+describe("categoryFromDb", () => {
+  it("maps seed categories, tags and German class names", () => {
+    expect(categoryFromDb(["opioids"])).toBe("opioid");
+    expect(categoryFromDb(["Benzodiazepine"])).toBe("gabaergic");
+    expect(categoryFromDb([], ["research_chemical", "gaba_agonist"])).toBe("gabaergic");
+    expect(categoryFromDb(["nootropics"], ["racetam"])).toBe("unknown");
+  });
+
+  it("prefers categories over tags", () => {
+    expect(categoryFromDb(["stimulants"], ["opioid"])).toBe("stimulant");
+  });
+});
+
+describe("static taxonomy", () => {
+  it("resolves the curated aliases", () => {
+    expect(resolveSubstance(STATIC_TAXONOMY, "  Alpha PVP ")).toMatchObject({
+      key: "a-pvp",
+      category: "stimulant",
+      known: true,
+    });
+    expect(resolveSubstance(STATIC_TAXONOMY, "Xanax").key).toBe("alprazolam");
+  });
+
+  it("links SYNONYM_MAP groups to static entries", () => {
+    // "Kokain" and "coke" are only known to SYNONYM_MAP
+    expect(resolveSubstance(STATIC_TAXONOMY, "Kokain")).toMatchObject({ key: "cocaine", category: "stimulant" });
+    expect(resolveSubstance(STATIC_TAXONOMY, "coke").key).toBe("cocaine");
+    expect(resolveSubstance(STATIC_TAXONOMY, "Methamphetamin").key).toBe("methamphetamine");
+  });
+
+  it("returns unknown substances with their normalized name", () => {
+    expect(resolveSubstance(STATIC_TAXONOMY, "Foo  Bar")).toEqual({
+      key: "foo bar",
+      name: "Foo  Bar",
+      category: "unknown",
+      substanceId: null,
+      known: false,
+    });
+  });
+});
+
+describe("buildTaxonomy with DB rows", () => {
+  const taxonomy = buildTaxonomy(
+    [
+      source({ id: "id-cocaine", name: "Kokain", slug: "kokain", categories: ["stimulants"] }),
+      source({ id: "id-oxy", name: "Oxycodon", slug: "oxycodon", aliases: ["Oxy"], categories: ["opioids"] }),
+      source({ id: "id-bromazolam", name: "Bromazolam", slug: "bromazolam", tags: ["benzodiazepine"] }),
+      source({ id: "id-noopept", name: "Noopept", slug: "noopept", categories: ["nootropics"] }),
+    ],
+    new Map([["id-bromazolam", ["Bromo"]]]),
+  );
+
+  it("merges DB rows into static entries and keeps the static key", () => {
+    expect(resolveSubstance(taxonomy, "Kokain")).toMatchObject({
+      key: "cocaine",
+      substanceId: "id-cocaine",
+      category: "stimulant",
+    });
+    expect(resolveSubstance(taxonomy, "koks").substanceId).toBe("id-cocaine");
+  });
+
+  it("classifies imported substances from their DB categories", () => {
+    expect(resolveSubstance(taxonomy, "oxy")).toMatchObject({ key: "oxycodon", category: "opioid" });
+    expect(resolveSubstance(taxonomy, "oxycodone").key).toBe("oxycodon");
+  });
+
+  it("uses substance_aliases rows", () => {
+    expect(resolveSubstance(taxonomy, "bromo")).toMatchObject({ key: "bromazolam", category: "gabaergic" });
+  });
+
+  it("reports DB substances without a mapped category as unknown", () => {
+    expect(resolveSubstance(taxonomy, "Noopept")).toMatchObject({
+      substanceId: "id-noopept",
+      category: "unknown",
+      known: false,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Taxonomy – Database Source
+ *
+ * Loads `substances` and `substance_aliases` and keeps a process-wide
+ * taxonomy that is rebuilt at most once per `TAXONOMY_TTL_MS`. Without a
+ * configured database, or when the query fails, the static taxonomy is used.
+ */
+
+import { isSupabaseConfigured } from "@/lib/supabase/config";
+import { buildTaxonomy, STATIC_TAXONOMY, type Taxonomy, type TaxonomySource } from "./taxonomy";
+
+/** Rebuild interval for the cached taxonomy (matches the search index). */
+const TAXONOMY_TTL_MS = 60_000;
+
+/** PostgREST returns at most this many rows per request. */
+const PAGE_SIZE = 1000;
+
+interface SubstanceRow {
+  id: string;
+  name: string;
+  slug: string;
+  aliases: string[] | null;
+  categories: unknown;
+  tags: string[] | null;
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+async function loadTaxonomy(): Promise<Taxonomy> {
+  const { createAdminClient } = await import("@/lib/supabase/admin");
+  const supabase = createAdminClient();
+
+  const rows: SubstanceRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("substances")
+      .select("id, name, slug, aliases, categories, tags")
+      .order("name")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data ?? []) as SubstanceRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const aliasesById = new Map<string, string[]>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("substance_aliases")
+      .select("substance_id, alias")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    for (const row of (data ?? []) as { substance_id: string; alias: string }[]) {
+      const list = aliasesById.get(row.substance_id) ?? [];
+      list.push(row.alias);
+      aliasesById.set(row.substance_id, list);
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const sources: TaxonomySource[] = rows.map((r) => ({
+    id: r.id,
+    name: r.name,
+    slug: r.slug,
+    aliases: r.aliases ?? [],
+    categories: toStringArray(r.categories),
+    tags: r.tags ?? [],
+  }));
+  return buildTaxonomy(sources, aliasesById);
+}
+
+let cached: { taxonomy: Taxonomy; builtAt: number } | null = null;
+let pending: Promise<Taxonomy> | null = null;
+
+/**
+ * Return the shared taxonomy, rebuilding it when older than the TTL.
+ */
+export async function getTaxonomy(): Promise<Taxonomy> {
+  if (!isSupabaseConfigured()) return STATIC_TAXONOMY;
+  if (cached && Date.now() - cached.builtAt < TAXONOMY_TTL_MS) return cached.taxonomy;
+  if (pending) return pending;
+
+  pending = loadTaxonomy()
+    .then((taxonomy) => {
+      cached = { taxonomy, builtAt: Date.now() };
+      return taxonomy;
+    })
+    .catch((err) => {
+      console.error("[getTaxonomy] Supabase query failed, using static taxonomy", err);
+      return cached?.taxonomy ?? STATIC_TAXONOMY;
+    })
+    .finally(() => {
+      pending = null;
+    });
+
+  return pending;
+}
@@ -0,0 +1,256 @@
+/**
+ * Substance taxonomy shared by the risk engine and the DB lookups.
+ *
+ * Resolves free-text substance names (as logged by users) to a canonical key
+ * and a risk category. Three sources are merged:
+ *
+ *   1. the curated static map in src/lib/risk/categories.ts (highest priority)
+ *   2. synonym groups from `SYNONYM_MAP` in src/lib/substances/canonicalize.ts
+ *   3. database rows from `substances` (name, slug, aliases, categories, tags)
+ *      and `substance_aliases`
+ *
+ * Static entries keep their key and category; matching DB rows only add
+ * aliases and the substance id. Substances known only to the DB use their
+ * slug as key and get a category from their `categories`/`tags`.
+ */
+
+import { CATEGORY_MAP, SUBSTANCE_ALIASES, type SubstanceCategory } from "@/lib/risk/categories";
+import { SYNONYM_MAP } from "@/lib/substances/canonicalize";
+import { slugify } from "@/lib/slugify";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TaxonomyEntry {
+  /** Canonical key used for PK / dose lookups */
+  key: string;
+  name: string;
+  category: SubstanceCategory;
+  /** `substances.id` when the entry is backed by a DB row */
+  substanceId: string | null;
+}
+
+/** Substance row shape consumed by `buildTaxonomy`. */
+export interface TaxonomySource {
+  id: string;
+  name: string;
+  slug: string;
+  aliases: string[];
+  categories: string[];
+  tags: string[];
+}
+
+export interface Taxonomy {
+  /** Normalized alias → entry */
+  byAlias: Map<string, TaxonomyEntry>;
+}
+
+export interface ResolvedSubstance {
+  key: string;
+  name: string;
+  category: SubstanceCategory;
+  substanceId: string | null;
+  /** false when no source knows the substance or its category */
+  known: boolean;
+}
+
+export const SUBSTANCE_CATEGORY_LABELS: Record<SubstanceCategory, string> = {
+  stimulant: "Stimulanzien",
+  opioid: "Opioide",
+  gabaergic: "GABAerg (z. B. Benzodiazepine, GHB)",
+  cannabis: "Cannabis",
+  nicotine: "Nikotin",
+  psychedelic: "Psychedelika",
+  dissociative: "Dissoziativa",
+  unknown: "Unbekannt",
+};
+
+// ---------------------------------------------------------------------------
+// Category mapping for DB values
+// ---------------------------------------------------------------------------
+
+/**
+ * DB `categories` and `tags` values (seed slugs, English tags and German
+ * class names) mapped to risk categories. Keys are slugified.
+ */
+const DB_CATEGORY_MAP: Record<string, SubstanceCategory> = {
+  stimulants: "stimulant",
+  stimulant: "stimulant",
+  stimulanzien: "stimulant",
+  empathogens: "stimulant",
+  empathogen: "stimulant",
+  empathogene: "stimulant",
+  cathinone: "stimulant",
+  opioids: "opioid",
+  opioid: "opioid",
+  opioide: "opioid",
+  "mu-agonist": "opioid",
+  depressants: "gabaergic",
+  depressant: "gabaergic",
+  depressiva: "gabaergic",
+  benzodiazepines: "gabaergic",
+  benzodiazepine: "gabaergic",
+  "gaba-agonist": "gabaergic",
+  sedative: "gabaergic",
+  sedativa: "gabaergic",
+  hypnotic: "gabaergic",
+  cannabinoids: "cannabis",
+  cannabinoid: "cannabis",
+  cannabinoide: "cannabis",
+  psychedelics: "psychedelic",
+  psychedelic: "psychedelic",
+  psychedelika: "psychedelic",
+  dissociatives: "dissociative",
+  dissociative: "dissociative",
+  dissoziativa: "dissociative",
+  "nmda-antagonist": "dissociative",
+  nicotine: "nicotine",
+  nikotin: "nicotine",
+};
+
+/**
+ * Risk category for DB category/tag values. Categories win over tags; the
+ * first mapped value wins within each list.
+ */
+export function categoryFromDb(categories: string[], tags: string[] = []): SubstanceCategory {
+  for (const value of [...categories, ...tags]) {
+    const mapped = DB_CATEGORY_MAP[slugify(value)];
+    if (mapped) return mapped;
+  }
+  return "unknown";
+}
+
+// ---------------------------------------------------------------------------
+// Build
+// ---------------------------------------------------------------------------
+
+/** Normalize a name for alias lookups: trim, lowercase, collapse whitespace. */
+export function normalizeAlias(raw: string): string {
+  return raw
+    .trim()
+    .toLowerCase()
+    .replace(/[\u2010-\u2015]/g, "-")
+    .replace(/\s+/g, " ");
+}
+
+function lookupKeys(raw: string): string[] {
+  const alias = normalizeAlias(raw);
+  const slug = slugify(raw);
+  return slug && slug !== alias ? [alias, slug] : [alias];
+}
+
+function findEntry(byAlias: Map<string, TaxonomyEntry>, names: string[]): TaxonomyEntry | undefined {
+  for (const name of names) {
+    for (const k of lookupKeys(name)) {
+      const entry = byAlias.get(k);
+      if (entry) return entry;
+    }
+  }
+  return undefined;
+}
+
+function addAliases(byAlias: Map<string, TaxonomyEntry>, entry: TaxonomyEntry, names: string[]): void {
+  for (const name of names) {
+    for (const k of lookupKeys(name)) {
+      if (k && !byAlias.has(k)) byAlias.set(k, entry);
+    }
+  }
+}
+
+/** `SYNONYM_MAP` grouped by canonical name (canonical name first). */
+const SYNONYM_GROUPS: string[][] = (() => {
+  const groups = new Map<string, string[]>();
+  for (const [alias, canonical] of Object.entries(SYNONYM_MAP)) {
+    const group = groups.get(canonical) ?? [canonical];
+    group.push(alias);
+    groups.set(canonical, group);
+  }
+  return Array.from(groups.values());
+})();
+
+/** Link every member of a synonym group to the entry any member resolves to. */
+function linkSynonyms(byAlias: Map<string, TaxonomyEntry>): void {
+  for (const members of SYNONYM_GROUPS) {
+    const entry = findEntry(byAlias, members);
+    if (entry) addAliases(byAlias, entry, members);
+  }
+}
+
+/**
+ * Build a taxonomy from the static maps and optional DB rows.
+ * `dbAliases` maps substance ids to rows from `substance_aliases`.
+ */
+export function buildTaxonomy(
+  sources: TaxonomySource[] = [],
+  dbAliases: Map<string, string[]> = new Map(),
+): Taxonomy {
+  const byAlias = new Map<string, TaxonomyEntry>();
+
+  // 1) Static map
+  const staticEntries = new Map<string, TaxonomyEntry>();
+  for (const [key, category] of Object.entries(CATEGORY_MAP)) {
+    const entry: TaxonomyEntry = { key, name: key, category, substanceId: null };
+    staticEntries.set(key, entry);
+    addAliases(byAlias, entry, [key]);
+  }
+  for (const [alias, key] of Object.entries(SUBSTANCE_ALIASES)) {
+    const entry = staticEntries.get(key);
+    if (entry) addAliases(byAlias, entry, [alias]);
+  }
+  // Synonyms first extend static entries so DB rows named e.g. "Kokain" merge into them
+  linkSynonyms(byAlias);
+
+  // 2) DB rows — merge into static entries where any name matches
+  for (const source of sources) {
+    const names = [source.name, source.slug, ...source.aliases, ...(dbAliases.get(source.id) ?? [])];
+    const existing = findEntry(byAlias, names);
+    let entry: TaxonomyEntry;
+    if (existing && existing.substanceId === null) {
+      existing.substanceId = source.id;
+      existing.name = source.name;
+      entry = existing;
+    } else if (existing) {
+      continue; // another DB row already claimed these names
+    } else {
+      entry = {
+        key: source.slug,
+        name: source.name,
+        category: categoryFromDb(source.categories, source.tags),
+        substanceId: source.id,
+      };
+    }
+    addAliases(byAlias, entry, names);
+  }
+
+  // 3) Synonyms again for entries that only exist in the DB
+  linkSynonyms(byAlias);
+
+  return { byAlias };
+}
+
+// ---------------------------------------------------------------------------
+// Resolve
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a free-text substance name. Unknown names keep their normalized
+ * form as key and get the category "unknown".
+ */
+export function resolveSubstance(taxonomy: Taxonomy, raw: string): ResolvedSubstance {
+  const entry = findEntry(taxonomy.byAlias, [raw]);
+  if (!entry) {
+    const key = normalizeAlias(raw);
+    return { key, name: raw.trim(), category: "unknown", substanceId: null, known: false };
+  }
+  return {
+    key: entry.key,
+    name: entry.name,
+    category: entry.category,
+    substanceId: entry.substanceId,
+    known: entry.category !== "unknown",
+  };
+}
+
+/** Taxonomy from the static maps only (no DB); safe to use on the client. */
+export const STATIC_TAXONOMY: Taxonomy = buildTaxonomy();
@@ -151,7 +151,13 @@ export interface ArticleMedia {
   created_at: string;
 }
 
-export type AiJobStatus = "queued" | "running" | "done" | "failed";
+export type AiJobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface AiJobLogEntry {
+  at: string;
+  level: "info" | "warn" | "error";
+  message: string;
+}
 
 export interface AiJob {
   id: string;
@@ -160,6 +166,18 @@ export interface AiJob {
   input_json: Record<string, unknown>;
   output_json: Record<string, unknown> | null;
   error: string | null;
+  /** 0–100, reported by the worker */
+  progress: number;
+  attempts: number;
+  max_attempts: number;
+  /** Earliest time the worker may (re)start the job; used for retry backoff */
+  run_after: string;
+  locked_by: string | null;
+  locked_at: string | null;
+  cancel_requested: boolean;
+  started_at: string | null;
+  finished_at: string | null;
+  logs: AiJobLogEntry[];
   created_at: string;
   updated_at: string;
 }
@@ -188,11 +206,25 @@ export interface ArticleTemplate {
   prompt_user: string;
   output_schema: Record<string, unknown>;
   enabled: boolean;
+  /** Version in article_template_versions the prompt fields correspond to */
+  current_version: number;
   created_at: string;
   updated_at: string;
 }
 
-export type GeneratedArticleStatus = "draft" | "blocked" | "review" | "mapped";
+/** Immutable snapshot of an article template's prompts */
+export interface ArticleTemplateVersion {
+  id: string;
+  template_key: string;
+  version: number;
+  prompt_system: string;
+  prompt_user: string;
+  output_schema: Record<string, unknown>;
+  note: string | null;
+  created_at: string;
+}
+
+export type GeneratedArticleStatus = "draft" | "blocked" | "review" | "mapped" | "rejected";
 
 export interface GeneratedArticle {
   id: string;
@@ -204,10 +236,27 @@ export interface GeneratedArticle {
   status: GeneratedArticleStatus;
   blocked_reasons: string[];
   article_id: string | null;
+  /** Template version the draft was generated with (null before versioning) */
+  template_version: number | null;
+  /** Set for drafts generated by a batch (review queue) */
+  batch_id: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface ArticleBatch {
+  id: string;
+  template_key: string;
+  selection: { seed_pack?: string; category?: string; query?: string };
+  options: { language?: string; tone?: string; length?: string; template_version?: number };
+  substance_ids: string[];
+  job_ids: string[];
+  unmatched: string[];
+  created_at: string;
+}
+
 export interface GeneratedCitation {
   url: string;
   title: string;
@@ -305,6 +354,8 @@ export type MeasureType = "Ki" | "IC50" | "EC50" | "qualitative";
 export type EffectType = "agonist" | "antagonist" | "partial_agonist" | "inhibitor" | "releaser" | "modulator" | "unknown";
 export type ConfidenceLevel = "literature" | "clinical" | "estimate" | "low";
 export type PKRoute = "oral" | "nasal" | "iv" | "smoked" | "sublingual";
+export type PKModel = "one_compartment" | "two_compartment";
+export type PKAbsorption = "first_order" | "zero_order";
 
 export interface PharmacologySource {
   title: string;
@@ -351,6 +402,16 @@ export interface PharmacokineticRoute {
   cmax_rel: number | null;
   after_effects_min: number | null;
   after_effects_max: number | null;
+  model: PKModel;
+  absorption: PKAbsorption;
+  /** Distribution-phase rate constant (h⁻¹), two-compartment only */
+  alpha_h: number | null;
+  /** Terminal-phase rate constant (h⁻¹); defaults to ln(2) / half_life_h */
+  beta_h: number | null;
+  /** Share of the α phase in the disposition curve (0–1) */
+  alpha_fraction: number | null;
+  /** Duration of zero-order (constant-rate) absorption in minutes */
+  absorption_duration_min: number | null;
   confidence_level: ConfidenceLevel;
   sources: PharmacologySource[];
   notes: string;
@@ -387,6 +448,16 @@ export interface PKCurvePoint {
   mean: number;
   low: number;
   high: number;
+  /** Cumulative relative concentration (1 = peak of a single unit dose) */
+  concentration: number;
+}
+
+/** One administration in a multi-dose PK curve. */
+export interface PKAdministration {
+  /** Minutes after the first administration */
+  offset_min: number;
+  /** Dose relative to the reference dose (default 1) */
+  dose_scale?: number;
 }
 
 // Safer-Use Chat types
@@ -414,6 +485,8 @@ export interface SaferUseChatRequest {
   intake_log: SaferUseIntakeEntry[];
   user_message: string;
   locale: string;
+  /** Continue an existing chat session; its previous messages become context */
+  session_id?: string | null;
 }
 
 export interface SaferUseChatResponse {
@@ -423,8 +496,59 @@ export interface SaferUseChatResponse {
   harm_reduction: string[];
   emergency: string | null;
   disclaimer: string;
+  /** Knowledge-base entries the reply is based on (see src/lib/ai/retrieval.ts) */
+  citations: SaferUseCitation[];
 }
 
+/** Entry of our knowledge base cited in a Safer-Use reply. */
+export interface SaferUseCitation {
+  /** Context block id the reply refers to, e.g. "K2" */
+  ref: string;
+  kind: "article" | "interaction";
+  title: string;
+  /** Internal path (/articles/…, /interactions?…) */
+  url: string;
+  /** Original sources behind the entry */
+  sources: { label: string; url: string }[];
+}
+
+/** Finding of the deterministic red-flag pre-screen (see src/lib/ai/red-flags.ts). */
+export interface SaferUseRedFlag {
+  id: string;
+  level: SaferUseRiskLevel;
+  source: "intake" | "profile" | "message";
+  reason: string;
+  /** Requires an emergency notice in the reply */
+  emergency: boolean;
+}
+
+/** Correction of a model reply by the red-flag floor; stored with the message. */
+export interface SaferUseOverride {
+  field: "risk_level" | "emergency";
+  from: string | null;
+  to: string;
+  /** Ids of the red flags that caused the override */
+  flags: string[];
+}
+
+/** Previous turn of a Safer-Use conversation (oldest first). */
+export type SaferUseHistoryTurn =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: SaferUseChatResponse };
+
+/**
+ * Events of the streamed `/api/safer-use` response (text/event-stream).
+ * `red_flags` comes first when the pre-screen found an emergency; `delta`
+ * carries the assessment text received so far; the structured fields only
+ * arrive with `final`.
+ */
+export type SaferUseStreamEvent =
+  | { type: "red_flags"; risk_floor: SaferUseRiskLevel; emergency: string | null }
+  | { type: "delta"; assessment: string }
+  | { type: "final"; response: SaferUseChatResponse }
+  | { type: "session"; session_id: string | null }
+  | { type: "error"; error: string };
+
 // Chat session persistence types
 
 export interface ChatSession {
@@ -442,6 +566,20 @@ export interface ChatSession {
   retain_until: string;
 }
 
+/** One run of the chat retention job (`purgeExpiredChatSessions`). */
+export interface ChatRetentionRun {
+  id: string;
+  trigger: "cron" | "admin";
+  started_at: string;
+  finished_at: string;
+  /** Sessions with retain_until before this instant were deleted */
+  cutoff: string;
+  sessions_deleted: number;
+  /** Messages removed with them (by cascade, from message_count) */
+  messages_deleted: number;
+  error: string | null;
+}
+
 export interface ChatMessage {
   id: string;
   session_id: string;
@@ -449,6 +587,22 @@ export interface ChatMessage {
   role: "user" | "assistant";
   content: Record<string, unknown>;
   risk_level: string | null;
+  /** Red-flag corrections applied to an assistant reply */
+  safety_overrides: SaferUseOverride[];
+  /** Version (hash) of the system prompt an assistant reply was produced with */
+  prompt_version: string | null;
+}
+
+/** Reviewer judgement of one assistant reply. */
+export type ChatMessageLabelValue = "correct" | "too_permissive" | "too_alarmist" | "hallucinated";
+
+export interface ChatMessageLabel {
+  message_id: string;
+  session_id: string;
+  label: ChatMessageLabelValue;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // ============================================================
@@ -0,0 +1,34 @@
+-- Migration: Dose reference ranges for the risk overlay
+-- substance_dose_references: per-substance/route reference ranges used to weigh
+-- logged doses in the cumulative-load model (src/lib/risk/dose.ts).
+-- The ranges are only read server-side; no public select policy is created so
+-- the values are never served to clients.
+-- dosing_logs: add µg and ml columns next to dose_mg / dose_g.
+
+SET search_path TO public;
+
+-- 1) substance_dose_references
+CREATE TABLE IF NOT EXISTS public.substance_dose_references (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  substance_id      uuid NOT NULL REFERENCES public.substances(id) ON DELETE CASCADE,
+  route             text CHECK (route IS NULL OR route IN ('oral','nasal','iv','smoked','sublingual')),
+  unit              text NOT NULL DEFAULT 'mg' CHECK (unit IN ('mg','ml')),
+  light_max         numeric NOT NULL CHECK (light_max > 0),
+  common_max        numeric NOT NULL,
+  strong_max        numeric NOT NULL,
+  confidence_level  text NOT NULL DEFAULT 'estimate' CHECK (confidence_level IN ('literature','clinical','estimate','low')),
+  sources           jsonb NOT NULL DEFAULT '[]',
+  notes             text DEFAULT '',
+  created_at        timestamptz NOT NULL DEFAULT now(),
+  updated_at        timestamptz NOT NULL DEFAULT now(),
+  CHECK (light_max <= common_max AND common_max <= strong_max)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dose_refs_substance_route_unit
+  ON public.substance_dose_references (substance_id, COALESCE(route, ''), unit);
+
+ALTER TABLE public.substance_dose_references ENABLE ROW LEVEL SECURITY;
+
+-- 2) dosing_logs: additional units
+ALTER TABLE public.dosing_logs
+  ADD COLUMN IF NOT EXISTS dose_ug numeric,
+  ADD COLUMN IF NOT EXISTS dose_ml numeric;
@@ -0,0 +1,18 @@
+-- Migration: Two-compartment and zero-order absorption models for PK routes
+-- model:      one_compartment (default) or two_compartment (α/β phases)
+-- absorption: first_order (default, ka / t_max) or zero_order (constant-rate input)
+-- alpha_h / beta_h:       distribution / terminal rate constants (h⁻¹)
+-- alpha_fraction:         share of the α phase in the disposition curve (0–1)
+-- absorption_duration_min: duration of zero-order input (min)
+
+ALTER TABLE public.pharmacokinetics_routes
+  ADD COLUMN IF NOT EXISTS model text NOT NULL DEFAULT 'one_compartment'
+    CHECK (model IN ('one_compartment','two_compartment')),
+  ADD COLUMN IF NOT EXISTS absorption text NOT NULL DEFAULT 'first_order'
+    CHECK (absorption IN ('first_order','zero_order')),
+  ADD COLUMN IF NOT EXISTS alpha_h numeric CHECK (alpha_h IS NULL OR alpha_h > 0),
+  ADD COLUMN IF NOT EXISTS beta_h numeric CHECK (beta_h IS NULL OR beta_h > 0),
+  ADD COLUMN IF NOT EXISTS alpha_fraction numeric
+    CHECK (alpha_fraction IS NULL OR (alpha_fraction >= 0 AND alpha_fraction <= 1)),
+  ADD COLUMN IF NOT EXISTS absorption_duration_min integer
+    CHECK (absorption_duration_min IS NULL OR absorption_duration_min > 0);
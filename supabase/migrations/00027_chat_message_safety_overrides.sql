@@ -0,0 +1,7 @@
+-- Migration: Record red-flag overrides on Safer-Use replies
+-- safety_overrides: corrections of the model reply by the deterministic
+-- pre-screen (raised risk_level, added emergency notice), e.g.
+--   [{"field":"risk_level","from":"GELB","to":"ROT","flags":["symptom_breathing"]}]
+
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS safety_overrides jsonb NOT NULL DEFAULT '[]'::jsonb;
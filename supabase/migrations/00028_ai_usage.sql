@@ -0,0 +1,26 @@
+-- Token usage and latency per AI call (provider registry)
+-- One row per model call, including failed calls and repair attempts.
+
+create table if not exists public.ai_usage (
+  id             uuid primary key default gen_random_uuid(),
+  created_at     timestamptz not null default now(),
+  feature        text        not null,
+  provider       text        not null,
+  model          text        not null,
+  input_tokens   int         null,
+  output_tokens  int         null,
+  latency_ms     int         not null,
+  ok             boolean     not null,
+  error          text        null,
+  job_id         uuid        null references public.ai_jobs(id) on delete set null
+);
+
+create index if not exists idx_ai_usage_created on public.ai_usage(created_at desc);
+create index if not exists idx_ai_usage_feature on public.ai_usage(feature, created_at desc);
+create index if not exists idx_ai_usage_job     on public.ai_usage(job_id);
+
+-- RLS: written and read server-side with the service key only
+alter table public.ai_usage enable row level security;
+
+create policy "service_role_all_ai_usage" on public.ai_usage
+  for all to service_role using (true) with check (true);
@@ -0,0 +1,24 @@
+-- Runs of the chat retention job (purge of chat_sessions past retain_until)
+-- Shown on /admin/chat-sessions; messages are removed by cascade.
+
+create table if not exists public.chat_retention_runs (
+  id                uuid primary key default gen_random_uuid(),
+  trigger           text        not null check (trigger in ('cron','admin')),
+  started_at        timestamptz not null default now(),
+  finished_at       timestamptz not null default now(),
+  cutoff            timestamptz not null,
+  sessions_deleted  int         not null default 0,
+  messages_deleted  int         not null default 0,
+  error             text        null
+);
+
+create index if not exists idx_chat_retention_runs_started on public.chat_retention_runs(started_at desc);
+
+comment on column public.chat_sessions.retain_until is
+  '90 days (set by the app); purged by the retention job';
+
+-- RLS: written and read server-side with the service key only
+alter table public.chat_retention_runs enable row level security;
+
+create policy "service_role_all_chat_retention_runs" on public.chat_retention_runs
+  for all to service_role using (true) with check (true);
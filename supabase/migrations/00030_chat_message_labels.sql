@@ -0,0 +1,27 @@
+-- Reviewer labels for Safer-Use replies (admin labelling workflow)
+-- One label per assistant message; the labelled set is exported as an
+-- evaluation dataset. prompt_version identifies the system prompt a reply
+-- was produced with, so label rates can be compared across prompt changes.
+
+alter table public.chat_messages
+  add column if not exists prompt_version text null;
+
+create index if not exists idx_chat_messages_prompt_version on public.chat_messages(prompt_version);
+
+create table if not exists public.chat_message_labels (
+  message_id  uuid        primary key references public.chat_messages(id) on delete cascade,
+  session_id  uuid        not null references public.chat_sessions(id) on delete cascade,
+  label       text        not null check (label in ('correct','too_permissive','too_alarmist','hallucinated')),
+  notes       text        null,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+create index if not exists idx_chat_message_labels_session on public.chat_message_labels(session_id);
+create index if not exists idx_chat_message_labels_label   on public.chat_message_labels(label);
+
+-- RLS: written and read server-side with the service key only
+alter table public.chat_message_labels enable row level security;
+
+create policy "service_role_all_chat_message_labels" on public.chat_message_labels
+  for all to service_role using (true) with check (true);
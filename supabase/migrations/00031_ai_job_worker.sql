@@ -0,0 +1,60 @@
+-- Background worker for ai_jobs
+-- Jobs are claimed with row locking (FOR UPDATE SKIP LOCKED), retried with
+-- backoff via run_after, report progress and logs, and can be cancelled.
+
+alter table public.ai_jobs drop constraint if exists ai_jobs_status_check;
+alter table public.ai_jobs add constraint ai_jobs_status_check
+  check (status in ('queued', 'running', 'done', 'failed', 'cancelled'));
+
+alter table public.ai_jobs
+  add column if not exists progress          int         not null default 0 check (progress between 0 and 100),
+  add column if not exists attempts          int         not null default 0,
+  add column if not exists max_attempts      int         not null default 3,
+  add column if not exists run_after         timestamptz not null default now(),
+  add column if not exists locked_by         text        null,
+  add column if not exists locked_at         timestamptz null,
+  add column if not exists cancel_requested  boolean     not null default false,
+  add column if not exists started_at        timestamptz null,
+  add column if not exists finished_at       timestamptz null,
+  add column if not exists logs              jsonb       not null default '[]'::jsonb;
+
+create index if not exists idx_ai_jobs_queue on public.ai_jobs(status, run_after);
+
+-- Claim up to p_limit due jobs for a worker. Running jobs whose lock is
+-- older than p_stale_seconds (crashed worker) are claimed again.
+create or replace function public.claim_ai_jobs(p_worker text, p_limit int default 1, p_stale_seconds int default 600)
+returns setof public.ai_jobs
+language sql
+as $$
+  update public.ai_jobs j
+     set status     = 'running',
+         locked_by  = p_worker,
+         locked_at  = now(),
+         attempts   = j.attempts + 1,
+         started_at = coalesce(j.started_at, now()),
+         error      = null
+   where j.id in (
+     select id from public.ai_jobs
+      where (status = 'queued' and run_after <= now() and not cancel_requested)
+         or (status = 'running' and locked_at < now() - make_interval(secs => p_stale_seconds))
+      order by run_after, created_at
+      for update skip locked
+      limit p_limit
+   )
+  returning j.*;
+$$;
+
+-- Append one log entry without a read-modify-write round trip
+create or replace function public.append_ai_job_log(p_job_id uuid, p_entry jsonb)
+returns void
+language sql
+as $$
+  update public.ai_jobs set logs = logs || jsonb_build_array(p_entry) where id = p_job_id;
+$$;
+
+revoke execute on function public.claim_ai_jobs(text, int, int) from public, anon, authenticated;
+revoke execute on function public.append_ai_job_log(uuid, jsonb) from public, anon, authenticated;
+
+-- The worker uses the service key
+create policy ai_jobs_service_role_all on public.ai_jobs
+  for all to service_role using (true) with check (true);
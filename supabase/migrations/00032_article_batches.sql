@@ -0,0 +1,36 @@
+-- Batch article generation with a review queue
+-- A batch enqueues one "article" job per substance; the drafts land in
+-- generated_articles with status 'review' and are approved (mapped to an
+-- article), edited or rejected in /admin/article-batches.
+
+create table if not exists public.article_batches (
+  id            uuid        primary key default gen_random_uuid(),
+  template_key  text        not null,
+  -- { seed_pack } or { category, query } the substances were selected by
+  selection     jsonb       not null default '{}'::jsonb,
+  -- language / tone / length passed to every generation
+  options       jsonb       not null default '{}'::jsonb,
+  substance_ids uuid[]      not null default '{}',
+  job_ids       uuid[]      not null default '{}',
+  -- seed pack names without a matching substance
+  unmatched     text[]      not null default '{}',
+  created_at    timestamptz not null default now()
+);
+
+create index if not exists idx_article_batches_created on public.article_batches(created_at desc);
+
+alter table public.generated_articles
+  add column if not exists batch_id     uuid        null references public.article_batches(id) on delete set null,
+  add column if not exists reviewed_at  timestamptz null,
+  add column if not exists review_note  text        null;
+
+create index if not exists idx_generated_articles_batch on public.generated_articles(batch_id);
+
+alter table public.generated_articles drop constraint if exists generated_articles_status_check;
+alter table public.generated_articles add constraint generated_articles_status_check
+  check (status in ('draft', 'blocked', 'review', 'mapped', 'rejected', 'published'));
+
+alter table public.article_batches enable row level security;
+
+create policy article_batches_service_role_all on public.article_batches
+  for all to service_role using (true) with check (true);
@@ -0,0 +1,86 @@
+-- Immutable versions of article templates
+-- Every change to prompt_system / prompt_user / output_schema of an
+-- article template is kept as a numbered version; generated_articles
+-- record the version they were generated with.
+
+create table if not exists public.article_template_versions (
+  id            uuid        primary key default gen_random_uuid(),
+  -- deferred: the insert trigger on article_templates writes version 1
+  -- before the template row itself exists
+  template_key  text        not null references public.article_templates(key)
+                            on delete cascade deferrable initially deferred,
+  version       int         not null check (version > 0),
+  prompt_system text        not null,
+  prompt_user   text        not null,
+  output_schema jsonb       not null default '{}'::jsonb,
+  note          text        null,
+  created_at    timestamptz not null default now(),
+  unique (template_key, version)
+);
+
+alter table public.article_templates
+  add column if not exists current_version int not null default 1;
+
+alter table public.generated_articles
+  add column if not exists template_version int null;
+
+-- Existing templates become version 1
+insert into public.article_template_versions (template_key, version, prompt_system, prompt_user, output_schema, note)
+select key, 1, prompt_system, prompt_user, coalesce(output_schema, '{}'::jsonb), 'Ausgangsversion'
+  from public.article_templates
+on conflict (template_key, version) do nothing;
+
+-- Versions are immutable
+create or replace function public.article_template_versions_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'article_template_versions are immutable';
+end;
+$$;
+
+create trigger trg_article_template_versions_immutable
+  before update on public.article_template_versions
+  for each row execute function public.article_template_versions_immutable();
+
+-- New templates start with version 1; prompt edits that do not go through
+-- the app (which inserts the version and bumps current_version itself)
+-- still get a version of their own.
+create or replace function public.article_templates_track_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.current_version := 1;
+    insert into public.article_template_versions (template_key, version, prompt_system, prompt_user, output_schema, note)
+    values (new.key, 1, new.prompt_system, new.prompt_user, coalesce(new.output_schema, '{}'::jsonb), 'Ausgangsversion');
+    return new;
+  end if;
+
+  if new.current_version = old.current_version
+     and (new.prompt_system is distinct from old.prompt_system
+          or new.prompt_user is distinct from old.prompt_user
+          or new.output_schema is distinct from old.output_schema) then
+    select coalesce(max(version), 0) + 1 into new.current_version
+      from public.article_template_versions where template_key = new.key;
+    insert into public.article_template_versions (template_key, version, prompt_system, prompt_user, output_schema, note)
+    values (new.key, new.current_version, new.prompt_system, new.prompt_user, coalesce(new.output_schema, '{}'::jsonb), 'Direkte Änderung');
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_article_templates_track_version
+  before insert or update on public.article_templates
+  for each row execute function public.article_templates_track_version();
+
+create index if not exists idx_article_template_versions_key on public.article_template_versions(template_key, version desc);
+
+alter table public.article_template_versions enable row level security;
+
+create policy article_template_versions_service_role_all on public.article_template_versions
+  for all to service_role using (true) with check (true);
+create policy article_template_versions_select_authenticated on public.article_template_versions
+  for select to authenticated using (true);
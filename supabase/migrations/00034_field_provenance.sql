@@ -0,0 +1,10 @@
+-- Field-level provenance for imported substances
+-- substances.field_provenance records which source supplied each merged
+-- field (sourceId, sourceUrl, retrievedAt); import_run_items.conflicts keeps
+-- the fields on which the sources disagreed and how they were resolved.
+
+alter table public.substances
+  add column if not exists field_provenance jsonb not null default '{}'::jsonb;
+
+alter table public.import_run_items
+  add column if not exists conflicts jsonb not null default '[]'::jsonb;
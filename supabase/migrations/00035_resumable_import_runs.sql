@@ -0,0 +1,104 @@
+-- Resumable, checkpointed import runs
+-- A run stores its input list and is processed in chunks. Every finished
+-- item is checkpointed in import_run_items together with the run's
+-- next_index, so a run cut off by a function timeout continues where it
+-- stopped. One worker at a time holds a run (claim_import_run); a lock that
+-- is not refreshed for p_stale_seconds can be taken over.
+
+alter table public.import_runs drop constraint if exists import_runs_status_check;
+alter table public.import_runs add constraint import_runs_status_check
+  check (status in ('queued', 'running', 'done', 'failed', 'cancelled'));
+
+alter table public.import_runs
+  add column if not exists items            jsonb       not null default '[]'::jsonb,
+  add column if not exists options          jsonb       not null default '{}'::jsonb,
+  add column if not exists next_index       int         not null default 0,
+  add column if not exists cancel_requested boolean     not null default false,
+  add column if not exists locked_by        text        null,
+  add column if not exists locked_at        timestamptz null,
+  add column if not exists finished_at      timestamptz null;
+
+create index if not exists idx_import_runs_status on public.import_runs(status, created_at desc);
+
+alter table public.import_run_items
+  add column if not exists item_index int   null,
+  add column if not exists qid        text  null,
+  add column if not exists result     jsonb null;
+
+create unique index if not exists idx_import_run_items_checkpoint
+  on public.import_run_items(run_id, item_index)
+  where item_index is not null;
+
+-- Concurrent runs must not insert the same QID twice. Existing duplicates
+-- have to be merged first; until then the index is skipped with a warning.
+do $$
+begin
+  if exists (
+    select 1 from public.substances
+     where wikidata_qid is not null
+     group by wikidata_qid
+    having count(*) > 1
+  ) then
+    raise warning 'substances.wikidata_qid contains duplicates – merge them and re-run this migration';
+  else
+    create unique index if not exists idx_substances_wikidata_qid_unique
+      on public.substances(wikidata_qid)
+      where wikidata_qid is not null;
+  end if;
+end $$;
+
+-- Lock a queued or running run for one worker. Succeeds if the run is not
+-- locked, already locked by this worker, or its lock has gone stale.
+create or replace function public.claim_import_run(p_run_id uuid, p_worker text, p_stale_seconds int default 120)
+returns setof public.import_runs
+language sql
+as $$
+  update public.import_runs r
+     set status    = 'running',
+         locked_by = p_worker,
+         locked_at = now()
+   where r.id = p_run_id
+     and r.status in ('queued', 'running')
+     and (r.locked_by is null
+          or r.locked_by = p_worker
+          or r.locked_at < now() - make_interval(secs => p_stale_seconds))
+  returning r.*;
+$$;
+
+-- Record one processed item and advance the run in one transaction.
+-- Returns false if p_worker no longer holds the lock (taken over as stale).
+create or replace function public.checkpoint_import_item(p_run_id uuid, p_worker text, p_index int, p_item jsonb)
+returns boolean
+language plpgsql
+as $$
+declare
+  v_status text := p_item->>'db_status';
+begin
+  perform 1 from public.import_runs where id = p_run_id and locked_by = p_worker for update;
+  if not found then
+    return false;
+  end if;
+
+  insert into public.import_run_items
+    (run_id, item_index, qid, substance_name, action, error_message, confidence_score, result)
+  values
+    (p_run_id, p_index, p_item->>'qid', coalesce(p_item->>'label', ''), v_status,
+     p_item->>'error', (p_item->>'confidence_score')::int, p_item)
+  on conflict (run_id, item_index) where item_index is not null do nothing;
+
+  update public.import_runs
+     set next_index     = greatest(next_index, p_index + 1),
+         locked_at      = now(),
+         inserted_count = inserted_count + (v_status = 'inserted')::int,
+         updated_count  = updated_count  + (v_status = 'updated')::int,
+         skipped_count  = skipped_count  + (v_status = 'skipped')::int,
+         error_count    = error_count    + (v_status = 'failed')::int
+   where id = p_run_id
+     and next_index <= p_index;
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.claim_import_run(uuid, text, int) from public, anon, authenticated;
+revoke execute on function public.checkpoint_import_item(uuid, text, int, jsonb) from public, anon, authenticated;
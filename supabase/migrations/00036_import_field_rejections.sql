@@ -0,0 +1,8 @@
+-- Import diff review: remembered field rejections
+-- substances.import_rejections maps a field (name, summary, canonical_id,
+-- pubchem_cid, aliases_list) to the value an editor rejected during an
+-- import review ({ value, sourceId, rejectedAt }). Later imports do not
+-- propose that value again.
+
+alter table public.substances
+  add column if not exists import_rejections jsonb not null default '{}'::jsonb;
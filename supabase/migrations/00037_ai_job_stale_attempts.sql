@@ -0,0 +1,42 @@
+-- Stale ai_jobs respect max_attempts
+-- A job whose worker died (e.g. killed at the function time limit) never
+-- reaches the retry logic in the worker. claim_ai_jobs() used to reclaim it
+-- forever; once its attempts are used up it now fails instead.
+
+create or replace function public.claim_ai_jobs(p_worker text, p_limit int default 1, p_stale_seconds int default 600)
+returns setof public.ai_jobs
+language sql
+as $$
+  update public.ai_jobs
+     set status      = 'failed',
+         locked_by   = null,
+         locked_at   = null,
+         finished_at = now(),
+         error       = 'Worker hat sich nach ' || attempts || ' Versuchen nicht zurückgemeldet (Zeitlimit überschritten?).',
+         logs        = logs || jsonb_build_array(jsonb_build_object(
+                         'at', now(),
+                         'level', 'error',
+                         'message', 'Abgebrochen: Worker hat sich nicht zurückgemeldet, keine Versuche mehr übrig.'))
+   where status = 'running'
+     and locked_at < now() - make_interval(secs => p_stale_seconds)
+     and attempts >= max_attempts;
+
+  update public.ai_jobs j
+     set status     = 'running',
+         locked_by  = p_worker,
+         locked_at  = now(),
+         attempts   = j.attempts + 1,
+         started_at = coalesce(j.started_at, now()),
+         error      = null
+   where j.id in (
+     select id from public.ai_jobs
+      where (status = 'queued' and run_after <= now() and not cancel_requested)
+         or (status = 'running' and locked_at < now() - make_interval(secs => p_stale_seconds))
+      order by run_after, created_at
+      for update skip locked
+      limit p_limit
+   )
+  returning j.*;
+$$;
+
+revoke execute on function public.claim_ai_jobs(text, int, int) from public, anon, authenticated;